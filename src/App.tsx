@@ -1,7 +1,7 @@
 import { Toaster } from "@/components/ui/toaster";
 import { Toaster as Sonner } from "@/components/ui/sonner";
 import { TooltipProvider } from "@/components/ui/tooltip";
-import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
+import { QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import Index from "./pages/Index";
 import Auth from "./pages/Auth";
@@ -10,31 +10,56 @@ import AdminDashboard from "./pages/AdminDashboard";
 import Menu from "./pages/Menu";
 import Cart from "./pages/Cart";
 import Orders from "./pages/Orders";
+import Receipt from "./pages/Receipt";
 import Profile from "./pages/Profile";
+import Kitchen from "./pages/Kitchen";
+import AdminMenu from "./pages/AdminMenu";
+import AdminCombos from "./pages/AdminCombos";
+import AdminPromotions from "./pages/AdminPromotions";
+import AdminStaff from "./pages/AdminStaff";
+import AdminPickupSlots from "./pages/AdminPickupSlots";
+import AdminInventory from "./pages/AdminInventory";
+import AdminReports from "./pages/AdminReports";
+import AdminWallets from "./pages/AdminWallets";
+import Wallet from "./pages/Wallet";
 import NotFound from "./pages/NotFound";
-
-const queryClient = new QueryClient();
+import AuthProvider from "./components/AuthProvider";
+import RequireAuth from "./components/RequireAuth";
+import { queryClient } from "./data/query-client";
 
 const App = () => (
   <QueryClientProvider client={queryClient}>
-    <TooltipProvider>
-      <Toaster />
-      <Sonner />
-      <BrowserRouter>
-        <Routes>
-          <Route path="/" element={<Index />} />
-          <Route path="/auth" element={<Auth />} />
-          <Route path="/student" element={<StudentDashboard />} />
-          <Route path="/admin" element={<AdminDashboard />} />
-          <Route path="/menu" element={<Menu />} />
-          <Route path="/cart" element={<Cart />} />
-          <Route path="/orders" element={<Orders />} />
-          <Route path="/profile" element={<Profile />} />
-          {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
-          <Route path="*" element={<NotFound />} />
-        </Routes>
-      </BrowserRouter>
-    </TooltipProvider>
+    <AuthProvider>
+      <TooltipProvider>
+        <Toaster />
+        <Sonner />
+        <BrowserRouter>
+          <Routes>
+            <Route path="/" element={<Index />} />
+            <Route path="/auth" element={<Auth />} />
+            <Route path="/student" element={<RequireAuth role="student"><StudentDashboard /></RequireAuth>} />
+            <Route path="/admin" element={<RequireAuth role="admin"><AdminDashboard /></RequireAuth>} />
+            <Route path="/admin/menu" element={<RequireAuth role="admin"><AdminMenu /></RequireAuth>} />
+            <Route path="/admin/combos" element={<RequireAuth role="admin"><AdminCombos /></RequireAuth>} />
+            <Route path="/admin/promotions" element={<RequireAuth role="admin"><AdminPromotions /></RequireAuth>} />
+            <Route path="/admin/staff" element={<RequireAuth role="admin"><AdminStaff /></RequireAuth>} />
+            <Route path="/admin/pickup-slots" element={<RequireAuth role="admin"><AdminPickupSlots /></RequireAuth>} />
+            <Route path="/admin/inventory" element={<RequireAuth role="admin"><AdminInventory /></RequireAuth>} />
+            <Route path="/admin/reports" element={<RequireAuth role="admin"><AdminReports /></RequireAuth>} />
+            <Route path="/admin/wallets" element={<RequireAuth role="admin"><AdminWallets /></RequireAuth>} />
+            <Route path="/menu" element={<Menu />} />
+            <Route path="/cart" element={<RequireAuth><Cart /></RequireAuth>} />
+            <Route path="/wallet" element={<RequireAuth role="student"><Wallet /></RequireAuth>} />
+            <Route path="/orders" element={<RequireAuth><Orders /></RequireAuth>} />
+            <Route path="/orders/:orderId/receipt" element={<RequireAuth><Receipt /></RequireAuth>} />
+            <Route path="/profile" element={<RequireAuth><Profile /></RequireAuth>} />
+            <Route path="/kitchen" element={<RequireAuth role="admin"><Kitchen /></RequireAuth>} />
+            {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
+            <Route path="*" element={<NotFound />} />
+          </Routes>
+        </BrowserRouter>
+      </TooltipProvider>
+    </AuthProvider>
   </QueryClientProvider>
 );
 
@@ -0,0 +1,80 @@
+import { useCallback, useEffect, useMemo, type ReactNode } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { getCurrentSession, getProfile, onAuthChange } from '@/lib/auth';
+import { AuthContext, authKeys } from '@/hooks/use-auth';
+
+// setTimeout overflows past ~24.8 days
+const MAX_TIMEOUT_MS = 2 ** 31 - 1;
+
+const AuthProvider = ({ children }: { children: ReactNode }) => {
+  const queryClient = useQueryClient();
+
+  const sessionQuery = useQuery({
+    queryKey: authKeys.session,
+    queryFn: async () => (await getCurrentSession()).session,
+    // Kept current by onAuthChange rather than refetching
+    staleTime: Infinity,
+  });
+
+  const session = sessionQuery.data ?? null;
+  const userId = session?.user.id;
+
+  const profileQuery = useQuery({
+    queryKey: authKeys.profile(userId),
+    queryFn: () => getProfile(userId!),
+    enabled: !!userId,
+    staleTime: 5 * 60 * 1000,
+  });
+
+  useEffect(() => {
+    return onAuthChange((event, nextSession) => {
+      queryClient.setQueryData(authKeys.session, nextSession);
+
+      if (event === 'SIGNED_OUT') {
+        // Drop everything cached for the previous user, including from other tabs signing out
+        queryClient.removeQueries({ predicate: (query) => query.queryKey[1] !== 'session' });
+      } else if (event === 'USER_UPDATED') {
+        queryClient.invalidateQueries({ queryKey: authKeys.profile(nextSession?.user.id) });
+      }
+    });
+  }, [queryClient]);
+
+  // supabase-js refreshes tokens ahead of expiry; this catches the case where that
+  // never happened (offline, laptop asleep) and the refresh token is no longer valid.
+  useEffect(() => {
+    if (!session?.expires_at) return;
+
+    const delay = Math.min(session.expires_at * 1000 - Date.now() + 1000, MAX_TIMEOUT_MS);
+    const timer = window.setTimeout(async () => {
+      const { session: current } = await getCurrentSession();
+      if (!current) {
+        queryClient.setQueryData(authKeys.session, null);
+        queryClient.removeQueries({ predicate: (query) => query.queryKey[1] !== 'session' });
+        toast.error('Your session has expired. Please sign in again.');
+      }
+    }, Math.max(delay, 0));
+
+    return () => window.clearTimeout(timer);
+  }, [session?.expires_at, queryClient]);
+
+  const refreshProfile = useCallback(
+    () => queryClient.invalidateQueries({ queryKey: authKeys.profile(userId) }),
+    [queryClient, userId]
+  );
+
+  const value = useMemo(
+    () => ({
+      session,
+      user: session?.user ?? null,
+      profile: profileQuery.data ?? null,
+      isLoading: sessionQuery.isPending || (!!userId && profileQuery.isPending),
+      refreshProfile,
+    }),
+    [session, userId, profileQuery.data, sessionQuery.isPending, profileQuery.isPending, refreshProfile]
+  );
+
+  return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
+};
+
+export default AuthProvider;
@@ -0,0 +1,77 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { comboPrice, comboRegularPrice, defaultComboPicks, type Combo } from '@/data/combos';
+
+interface ComboDialogProps {
+  combo: Combo | null;
+  onConfirm: (menuItemIds: string[]) => void;
+  onClose: () => void;
+}
+
+const formatDelta = (delta: number) => (delta === 0 ? '' : `${delta > 0 ? '+' : '−'}₹${Math.abs(delta)}`);
+
+// One pick per slot; slots with a single item are shown but need no choice
+const ComboDialog = ({ combo, onConfirm, onClose }: ComboDialogProps) => {
+  const [picks, setPicks] = useState<(string | undefined)[]>(() => (combo ? defaultComboPicks(combo) : []));
+
+  const setPick = (index: number, menuItemId: string) =>
+    setPicks((current) => current.map((pick, i) => (i === index ? menuItemId : pick)));
+
+  const isComplete = picks.length > 0 && picks.every(Boolean);
+  const price = combo ? comboPrice(combo, picks) : 0;
+  const saving = combo ? comboRegularPrice(combo, picks) - price : 0;
+
+  return (
+    <Dialog open={!!combo} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{combo?.name}</DialogTitle>
+          <DialogDescription>{combo?.description || 'Build your combo'}</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          {combo?.combo_slots.map((slot, index) => (
+            <div key={slot.id} className="space-y-3">
+              <h4 className="font-medium">{slot.name}</h4>
+              {slot.combo_slot_items.length === 1 ? (
+                <p className="text-sm text-muted-foreground">{slot.combo_slot_items[0].menu_item?.name}</p>
+              ) : (
+                <RadioGroup value={picks[index] ?? ''} onValueChange={(id) => setPick(index, id)}>
+                  {slot.combo_slot_items.map((choice) => (
+                    <div key={choice.id} className="flex items-center gap-3">
+                      <RadioGroupItem
+                        id={choice.id}
+                        value={choice.menu_item?.id ?? ''}
+                        disabled={!choice.menu_item?.is_available}
+                      />
+                      <Label htmlFor={choice.id} className="flex-1 font-normal">
+                        {choice.menu_item?.name}
+                        {choice.menu_item?.is_vegetarian && ' 🌱'}
+                        {!choice.menu_item?.is_available && ' (unavailable)'}
+                      </Label>
+                      <span className="text-sm text-muted-foreground">{formatDelta(choice.price_delta)}</span>
+                    </div>
+                  ))}
+                </RadioGroup>
+              )}
+            </div>
+          ))}
+        </div>
+
+        <DialogFooter className="flex-col gap-2 sm:flex-col">
+          {isComplete && saving > 0 && (
+            <p className="text-center text-sm text-success">You save ₹{saving.toFixed(2)}</p>
+          )}
+          <Button className="w-full" disabled={!isComplete} onClick={() => onConfirm(picks as string[])}>
+            Add to Cart • ₹{price}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ComboDialog;
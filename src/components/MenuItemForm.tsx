@@ -0,0 +1,226 @@
+import { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { MENU_CATEGORIES } from '@/lib/menu';
+
+const MAX_IMAGE_BYTES = 5 * 1024 * 1024;
+
+const menuItemSchema = z.object({
+  name: z.string().trim().min(2, 'Name must be at least 2 characters').max(80),
+  description: z.string().trim().max(300).optional(),
+  price: z.coerce.number({ invalid_type_error: 'Enter a price' }).min(0, 'Price cannot be negative').max(10000),
+  category: z.enum(MENU_CATEGORIES),
+  is_vegetarian: z.boolean(),
+  is_available: z.boolean(),
+  // Empty means the item is not stock-tracked
+  daily_stock: z.preprocess(
+    (value) => (value === '' || value === null ? undefined : value),
+    z.coerce.number().int('Whole numbers only').min(0, 'Stock cannot be negative').max(10000).optional()
+  ),
+  low_stock_threshold: z.coerce.number().int('Whole numbers only').min(0).max(1000),
+  image: z
+    .instanceof(File)
+    .refine((file) => file.size <= MAX_IMAGE_BYTES, 'Image must be 5 MB or smaller')
+    .refine((file) => ['image/jpeg', 'image/png', 'image/webp'].includes(file.type), 'Use a JPEG, PNG or WebP image')
+    .optional(),
+});
+
+export type MenuItemFormValues = z.infer<typeof menuItemSchema>;
+
+interface MenuItemFormProps {
+  defaultValues?: Partial<MenuItemFormValues>;
+  currentImageUrl?: string | null;
+  submitLabel: string;
+  onSubmit: (values: MenuItemFormValues) => Promise<void>;
+}
+
+const MenuItemForm = ({ defaultValues, currentImageUrl, submitLabel, onSubmit }: MenuItemFormProps) => {
+  const [preview, setPreview] = useState<string | null>(currentImageUrl ?? null);
+  const form = useForm<MenuItemFormValues>({
+    resolver: zodResolver(menuItemSchema),
+    defaultValues: {
+      name: '',
+      description: '',
+      price: 0,
+      category: 'Main Course',
+      is_vegetarian: true,
+      is_available: true,
+      low_stock_threshold: 5,
+      ...defaultValues,
+    },
+  });
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+        <FormField
+          control={form.control}
+          name="name"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Name</FormLabel>
+              <FormControl>
+                <Input placeholder="Chicken Biryani" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="description"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Description</FormLabel>
+              <FormControl>
+                <Textarea rows={3} {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <div className="grid gap-4 sm:grid-cols-2">
+          <FormField
+            control={form.control}
+            name="price"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Price (₹)</FormLabel>
+                <FormControl>
+                  <Input type="number" step="0.01" min="0" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="category"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Category</FormLabel>
+                <Select value={field.value} onValueChange={field.onChange}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {MENU_CATEGORIES.map((category) => (
+                      <SelectItem key={category} value={category}>
+                        {category}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        <div className="grid gap-4 sm:grid-cols-2">
+          <FormField
+            control={form.control}
+            name="daily_stock"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Daily stock</FormLabel>
+                <FormControl>
+                  <Input type="number" min="0" step="1" placeholder="Not tracked" {...field} value={field.value ?? ''} />
+                </FormControl>
+                <FormDescription>Refilled every morning</FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="low_stock_threshold"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Low stock alert at</FormLabel>
+                <FormControl>
+                  <Input type="number" min="0" step="1" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        <FormField
+          control={form.control}
+          name="image"
+          render={({ field: { onChange, value, ...field } }) => (
+            <FormItem>
+              <FormLabel>Photo</FormLabel>
+              {preview && (
+                <img src={preview} alt="" className="h-32 w-full rounded-lg object-cover" />
+              )}
+              <FormControl>
+                <Input
+                  type="file"
+                  accept="image/jpeg,image/png,image/webp"
+                  {...field}
+                  onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    onChange(file);
+                    setPreview(file ? URL.createObjectURL(file) : currentImageUrl ?? null);
+                  }}
+                />
+              </FormControl>
+              <FormDescription>JPEG, PNG or WebP up to 5 MB</FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <div className="flex gap-6">
+          <FormField
+            control={form.control}
+            name="is_vegetarian"
+            render={({ field }) => (
+              <FormItem className="flex items-center gap-2 space-y-0">
+                <FormControl>
+                  <Switch checked={field.value} onCheckedChange={field.onChange} />
+                </FormControl>
+                <FormLabel>Vegetarian</FormLabel>
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="is_available"
+            render={({ field }) => (
+              <FormItem className="flex items-center gap-2 space-y-0">
+                <FormControl>
+                  <Switch checked={field.value} onCheckedChange={field.onChange} />
+                </FormControl>
+                <FormLabel>Available</FormLabel>
+              </FormItem>
+            )}
+          />
+        </div>
+
+        <Button type="submit" className="w-full" disabled={form.formState.isSubmitting}>
+          {form.formState.isSubmitting ? 'Saving...' : submitLabel}
+        </Button>
+      </form>
+    </Form>
+  );
+};
+
+export default MenuItemForm;
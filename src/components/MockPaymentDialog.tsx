@@ -0,0 +1,41 @@
+import {
+  AlertDialog,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Button } from '@/components/ui/button';
+import type { PaymentSession } from '@/lib/payments';
+
+interface MockPaymentDialogProps {
+  session: PaymentSession | null;
+  onFinish: (outcome: 'succeeded' | 'failed' | null) => void;
+}
+
+const MockPaymentDialog = ({ session, onFinish }: MockPaymentDialogProps) => (
+  <AlertDialog open={!!session} onOpenChange={(open) => !open && onFinish(null)}>
+    <AlertDialogContent>
+      <AlertDialogHeader>
+        <AlertDialogTitle>Mock Payment</AlertDialogTitle>
+        <AlertDialogDescription>
+          {session?.description} • ₹{session?.amount.toFixed(2)}. The mock gateway will send a signed
+          webhook with the outcome you pick.
+        </AlertDialogDescription>
+      </AlertDialogHeader>
+      <AlertDialogFooter>
+        <AlertDialogCancel>Pay Later</AlertDialogCancel>
+        <Button variant="destructive" onClick={() => onFinish('failed')}>
+          Simulate Failure
+        </Button>
+        <Button onClick={() => onFinish('succeeded')}>
+          Simulate Success
+        </Button>
+      </AlertDialogFooter>
+    </AlertDialogContent>
+  </AlertDialog>
+);
+
+export default MockPaymentDialog;
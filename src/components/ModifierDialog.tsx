@@ -0,0 +1,120 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { priceWithOptions, selectedOptions, type ModifierGroup } from '@/data/modifiers';
+import type { MenuItem } from '@/data/menu';
+
+interface ModifierDialogProps {
+  item: MenuItem | null;
+  groups: ModifierGroup[];
+  onConfirm: (optionIds: string[]) => void;
+  onClose: () => void;
+}
+
+const selectionHint = ({ min_select, max_select }: ModifierGroup) => {
+  if (max_select === 1) return min_select > 0 ? 'Required' : 'Optional';
+  if (max_select === null) return min_select > 0 ? `Choose at least ${min_select}` : 'Optional';
+  return min_select > 0 ? `Choose ${min_select}–${max_select}` : `Up to ${max_select}`;
+};
+
+const formatDelta = (delta: number) => (delta === 0 ? '' : `${delta > 0 ? '+' : '−'}₹${Math.abs(delta)}`);
+
+// Single-pick groups render as radio buttons and the rest as checkboxes. The database
+// checks the same min/max rules again when the line is added to the cart.
+const ModifierDialog = ({ item, groups, onConfirm, onClose }: ModifierDialogProps) => {
+  const [optionIds, setOptionIds] = useState<string[]>([]);
+
+  const pickedIn = (group: ModifierGroup) =>
+    group.modifier_options.filter((option) => optionIds.includes(option.id));
+
+  const setGroupSelection = (group: ModifierGroup, ids: string[]) => {
+    const groupIds = group.modifier_options.map((option) => option.id);
+    setOptionIds((current) => [...current.filter((id) => !groupIds.includes(id)), ...ids]);
+  };
+
+  const toggleOption = (group: ModifierGroup, id: string, checked: boolean) => {
+    const current = pickedIn(group).map((option) => option.id);
+    setGroupSelection(group, checked ? [...current, id] : current.filter((picked) => picked !== id));
+  };
+
+  const isComplete = groups.every((group) => pickedIn(group).length >= group.min_select);
+  const price = item ? priceWithOptions(item.price, selectedOptions(groups, optionIds)) : 0;
+
+  return (
+    <Dialog open={!!item} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{item?.name}</DialogTitle>
+          <DialogDescription>Customize your order</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          {groups.map((group) => {
+            const picked = pickedIn(group);
+            const isFull = group.max_select !== null && picked.length >= group.max_select;
+
+            return (
+              <div key={group.id} className="space-y-3">
+                <div className="flex items-baseline justify-between">
+                  <h4 className="font-medium">{group.name}</h4>
+                  <span className="text-xs text-muted-foreground">{selectionHint(group)}</span>
+                </div>
+
+                {group.max_select === 1 ? (
+                  <RadioGroup
+                    value={picked[0]?.id ?? ''}
+                    onValueChange={(id) => setGroupSelection(group, [id])}
+                  >
+                    {group.modifier_options.map((option) => (
+                      <div key={option.id} className="flex items-center gap-3">
+                        <RadioGroupItem id={option.id} value={option.id} disabled={!option.is_available} />
+                        <Label htmlFor={option.id} className="flex-1 font-normal">
+                          {option.name}
+                          {!option.is_available && ' (unavailable)'}
+                        </Label>
+                        <span className="text-sm text-muted-foreground">{formatDelta(option.price_delta)}</span>
+                      </div>
+                    ))}
+                  </RadioGroup>
+                ) : (
+                  <div className="space-y-2">
+                    {group.modifier_options.map((option) => {
+                      const checked = optionIds.includes(option.id);
+
+                      return (
+                        <div key={option.id} className="flex items-center gap-3">
+                          <Checkbox
+                            id={option.id}
+                            checked={checked}
+                            disabled={!option.is_available || (isFull && !checked)}
+                            onCheckedChange={(value) => toggleOption(group, option.id, value === true)}
+                          />
+                          <Label htmlFor={option.id} className="flex-1 font-normal">
+                            {option.name}
+                            {!option.is_available && ' (unavailable)'}
+                          </Label>
+                          <span className="text-sm text-muted-foreground">{formatDelta(option.price_delta)}</span>
+                        </div>
+                      );
+                    })}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+
+        <DialogFooter>
+          <Button className="w-full" disabled={!isComplete} onClick={() => onConfirm(optionIds)}>
+            Add to Cart • ₹{price}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ModifierDialog;
@@ -0,0 +1,139 @@
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Plus, Trash2 } from 'lucide-react';
+import {
+  groupsForItem,
+  useDeleteModifierGroup,
+  useDeleteModifierOption,
+  useModifierGroups,
+  useSaveModifierGroup,
+  useSaveModifierOption,
+  type ModifierGroup,
+} from '@/data/modifiers';
+
+const describeLimits = ({ min_select, max_select }: ModifierGroup) =>
+  `Pick ${min_select}${max_select === null ? '+' : max_select === min_select ? '' : `–${max_select}`}`;
+
+// Option groups for one menu item: sizes, spice levels, add-ons and the like
+const ModifierGroupsEditor = ({ menuItemId }: { menuItemId: string }) => {
+  const { data: allGroups = [], isPending } = useModifierGroups();
+  const saveGroup = useSaveModifierGroup();
+  const deleteGroup = useDeleteModifierGroup();
+  const saveOption = useSaveModifierOption();
+  const deleteOption = useDeleteModifierOption();
+  const groups = groupsForItem(allGroups, menuItemId);
+
+  const handleAddGroup = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const form = e.currentTarget;
+    const data = new FormData(form);
+    const maxSelect = data.get('max_select');
+
+    saveGroup.mutate(
+      {
+        group: {
+          menu_item_id: menuItemId,
+          name: String(data.get('name')).trim(),
+          min_select: Number(data.get('min_select')),
+          max_select: maxSelect ? Number(maxSelect) : null,
+          sort_order: groups.length,
+        },
+      },
+      { onSuccess: () => form.reset() }
+    );
+  };
+
+  const handleAddOption = (group: ModifierGroup) => (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const form = e.currentTarget;
+    const data = new FormData(form);
+
+    saveOption.mutate(
+      {
+        option: {
+          group_id: group.id,
+          name: String(data.get('name')).trim(),
+          price_delta: Number(data.get('price_delta')),
+          sort_order: group.modifier_options.length,
+        },
+      },
+      { onSuccess: () => form.reset() }
+    );
+  };
+
+  if (isPending) {
+    return <p className="text-sm text-muted-foreground">Loading options...</p>;
+  }
+
+  return (
+    <div className="space-y-6">
+      {groups.length === 0 && (
+        <p className="text-sm text-muted-foreground">No option groups. The item is added to the cart as is.</p>
+      )}
+
+      {groups.map((group) => (
+        <div key={group.id} className="space-y-3 rounded-lg border p-4">
+          <div className="flex items-center justify-between">
+            <div>
+              <h4 className="font-semibold">{group.name}</h4>
+              <p className="text-xs text-muted-foreground">{describeLimits(group)}</p>
+            </div>
+            <Button variant="ghost" size="icon" onClick={() => deleteGroup.mutate(group.id)}>
+              <Trash2 className="h-4 w-4 text-destructive" />
+            </Button>
+          </div>
+
+          {group.modifier_options.map((option) => (
+            <div key={option.id} className="flex items-center gap-2 text-sm">
+              <span className="flex-1">{option.name}</span>
+              <span className="w-16 text-right text-muted-foreground">
+                {option.price_delta >= 0 ? '+' : '−'}₹{Math.abs(option.price_delta)}
+              </span>
+              <Switch
+                checked={option.is_available}
+                onCheckedChange={(checked) =>
+                  saveOption.mutate({ id: option.id, option: { group_id: group.id, name: option.name, is_available: checked } })
+                }
+                aria-label="Available"
+              />
+              <Button variant="ghost" size="icon" onClick={() => deleteOption.mutate(option.id)}>
+                <Trash2 className="h-4 w-4 text-destructive" />
+              </Button>
+            </div>
+          ))}
+
+          <form onSubmit={handleAddOption(group)} className="flex items-end gap-2">
+            <Input name="name" placeholder="Option name" required />
+            <Input name="price_delta" type="number" step="any" defaultValue={0} className="w-24" aria-label="Price change" />
+            <Button type="submit" variant="outline" size="icon" disabled={saveOption.isPending}>
+              <Plus className="h-4 w-4" />
+            </Button>
+          </form>
+        </div>
+      ))}
+
+      <form onSubmit={handleAddGroup} className="flex flex-wrap items-end gap-2">
+        <div className="flex-1 space-y-2">
+          <Label htmlFor="group-name">New group</Label>
+          <Input id="group-name" name="name" placeholder="e.g. Spice level" required />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="group-min">Min</Label>
+          <Input id="group-min" name="min_select" type="number" min={0} defaultValue={0} className="w-20" required />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="group-max">Max</Label>
+          <Input id="group-max" name="max_select" type="number" min={1} placeholder="Any" className="w-20" />
+        </div>
+        <Button type="submit" disabled={saveGroup.isPending}>
+          <Plus className="mr-2 h-4 w-4" />
+          Add
+        </Button>
+      </form>
+    </div>
+  );
+};
+
+export default ModifierGroupsEditor;
@@ -0,0 +1,83 @@
+import { useNavigate } from 'react-router-dom';
+import { Bell, CheckCheck } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Sheet, SheetContent, SheetHeader, SheetTitle, SheetTrigger } from '@/components/ui/sheet';
+import { useNotifications, type AppNotification } from '@/hooks/use-notifications';
+import { cn } from '@/lib/utils';
+
+const NotificationCenter = ({ userId }: { userId: string | undefined }) => {
+  const navigate = useNavigate();
+  const { notifications, unreadCount, markRead, markAllRead } = useNotifications(userId);
+
+  const handleOpen = (notification: AppNotification) => {
+    if (!notification.is_read) {
+      markRead(notification.id);
+    }
+
+    if (notification.related_order_id) {
+      navigate(`/orders?order=${notification.related_order_id}`);
+    }
+  };
+
+  return (
+    <Sheet>
+      <SheetTrigger asChild>
+        <Button variant="ghost" size="icon" className="relative" aria-label="Notifications">
+          <Bell className="h-5 w-5" />
+          {unreadCount > 0 && (
+            <Badge className="absolute -right-1 -top-1 h-5 min-w-5 justify-center rounded-full px-1 text-xs">
+              {unreadCount > 9 ? '9+' : unreadCount}
+            </Badge>
+          )}
+        </Button>
+      </SheetTrigger>
+      <SheetContent className="flex flex-col">
+        <SheetHeader className="flex-row items-center justify-between space-y-0 pr-8">
+          <SheetTitle>Notifications</SheetTitle>
+          <Button variant="ghost" size="sm" onClick={markAllRead} disabled={unreadCount === 0}>
+            <CheckCheck className="mr-2 h-4 w-4" />
+            Mark all read
+          </Button>
+        </SheetHeader>
+
+        <ScrollArea className="-mx-6 flex-1 px-6">
+          {notifications.length === 0 ? (
+            <div className="py-12 text-center text-muted-foreground">
+              <Bell className="mx-auto mb-2 h-12 w-12 opacity-50" />
+              <p>No notifications yet</p>
+            </div>
+          ) : (
+            <div className="space-y-2">
+              {notifications.map((notification) => (
+                <button
+                  key={notification.id}
+                  onClick={() => handleOpen(notification)}
+                  className={cn(
+                    'w-full rounded-lg border p-4 text-left transition-colors hover:bg-accent',
+                    !notification.is_read && 'border-primary/50 bg-primary/5',
+                    notification.is_important && 'border-destructive/50'
+                  )}
+                >
+                  <div className="mb-1 flex items-start justify-between gap-2">
+                    <p className={cn('text-sm', !notification.is_read && 'font-semibold')}>
+                      {notification.title}
+                    </p>
+                    {!notification.is_read && <span className="mt-1.5 h-2 w-2 shrink-0 rounded-full bg-primary" />}
+                  </div>
+                  <p className="text-sm text-muted-foreground">{notification.message}</p>
+                  <p className="mt-2 text-xs text-muted-foreground">
+                    {new Date(notification.created_at).toLocaleString()}
+                  </p>
+                </button>
+              ))}
+            </div>
+          )}
+        </ScrollArea>
+      </SheetContent>
+    </Sheet>
+  );
+};
+
+export default NotificationCenter;
@@ -0,0 +1,43 @@
+import { Check } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { ORDER_PROGRESS_STEPS } from '@/lib/orders';
+
+const OrderProgress = ({ status }: { status: string }) => {
+  const currentIndex = status === 'completed'
+    ? ORDER_PROGRESS_STEPS.length
+    : ORDER_PROGRESS_STEPS.findIndex((step) => step.status === status);
+
+  return (
+    <ol className="flex items-center">
+      {ORDER_PROGRESS_STEPS.map((step, index) => {
+        const done = index < currentIndex;
+        const active = index === currentIndex;
+
+        return (
+          <li key={step.status} className="flex flex-1 items-center last:flex-none">
+            <div className="flex flex-col items-center gap-1">
+              <div
+                className={cn(
+                  'flex h-7 w-7 items-center justify-center rounded-full border-2 text-xs font-semibold',
+                  done && 'border-primary bg-primary text-primary-foreground',
+                  active && 'border-primary text-primary',
+                  !done && !active && 'border-muted text-muted-foreground',
+                )}
+              >
+                {done ? <Check className="h-4 w-4" /> : index + 1}
+              </div>
+              <span className={cn('text-xs', active ? 'font-semibold' : 'text-muted-foreground')}>
+                {step.label}
+              </span>
+            </div>
+            {index < ORDER_PROGRESS_STEPS.length - 1 && (
+              <div className={cn('mx-2 mb-5 h-0.5 flex-1', done ? 'bg-primary' : 'bg-muted')} />
+            )}
+          </li>
+        );
+      })}
+    </ol>
+  );
+};
+
+export default OrderProgress;
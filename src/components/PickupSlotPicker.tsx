@@ -0,0 +1,69 @@
+import { useEffect, useState } from 'react';
+import { addDays, format } from 'date-fns';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { usePickupSlots } from '@/data/pickup-slots';
+import { formatPickupTime } from '@/lib/orders';
+
+interface PickupSlotPickerProps {
+  cafeteriaId: string | undefined;
+  value: string | undefined;
+  onChange: (pickupAt: string | undefined) => void;
+}
+
+const DAYS = [
+  { label: 'Today', offset: 0 },
+  { label: 'Tomorrow', offset: 1 },
+];
+
+const PickupSlotPicker = ({ cafeteriaId, value, onChange }: PickupSlotPickerProps) => {
+  const [dayOffset, setDayOffset] = useState(0);
+  const date = format(addDays(new Date(), dayOffset), 'yyyy-MM-dd');
+  const { data: slots = [], isPending } = usePickupSlots(cafeteriaId, date);
+
+  // Slots that have already started are not worth listing
+  const upcomingSlots = slots.filter((slot) => new Date(slot.starts_at).getTime() > Date.now());
+
+  // Drop the selection if the slot filled up or closed since it was picked
+  useEffect(() => {
+    if (value && !isPending && !slots.some((slot) => slot.starts_at === value && slot.is_available)) {
+      onChange(undefined);
+    }
+  }, [slots, value, isPending, onChange]);
+
+  return (
+    <div className="space-y-2">
+      <label className="text-sm font-medium">Pickup Time</label>
+      <Tabs
+        value={String(dayOffset)}
+        onValueChange={(offset) => {
+          setDayOffset(Number(offset));
+          onChange(undefined);
+        }}
+      >
+        <TabsList className="w-full">
+          {DAYS.map((day) => (
+            <TabsTrigger key={day.offset} value={String(day.offset)} className="flex-1">
+              {day.label}
+            </TabsTrigger>
+          ))}
+        </TabsList>
+      </Tabs>
+      <Select value={value ?? ''} onValueChange={onChange} disabled={isPending || upcomingSlots.length === 0}>
+        <SelectTrigger>
+          <SelectValue placeholder={upcomingSlots.length === 0 && !isPending ? 'No slots left' : 'Choose a slot'} />
+        </SelectTrigger>
+        <SelectContent>
+          {upcomingSlots.map((slot) => (
+            <SelectItem key={slot.starts_at} value={slot.starts_at} disabled={!slot.is_available}>
+              {formatPickupTime(slot.starts_at)} – {formatPickupTime(slot.ends_at)}
+              {!slot.is_available && ' (unavailable)'}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+};
+
+export default PickupSlotPicker;
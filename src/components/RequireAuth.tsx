@@ -0,0 +1,38 @@
+import type { ReactNode } from 'react';
+import { Navigate, useLocation } from 'react-router-dom';
+import { getHomePath, type UserRole } from '@/lib/auth';
+import { useAuth } from '@/hooks/use-auth';
+
+interface RequireAuthProps {
+  children: ReactNode;
+  // Omit to allow any signed-in user
+  role?: UserRole;
+}
+
+const RequireAuth = ({ children, role }: RequireAuthProps) => {
+  const { session, profile, isLoading } = useAuth();
+  const location = useLocation();
+
+  if (isLoading) {
+    return (
+      <div className="flex min-h-screen items-center justify-center">
+        <div className="text-center">
+          <div className="mb-4 inline-block h-8 w-8 animate-spin rounded-full border-4 border-primary border-t-transparent"></div>
+          <p className="text-muted-foreground">Loading...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!session || !profile) {
+    return <Navigate to="/auth" replace state={{ from: location }} />;
+  }
+
+  if (role && profile.role !== role) {
+    return <Navigate to={getHomePath(profile.role)} replace />;
+  }
+
+  return <>{children}</>;
+};
+
+export default RequireAuth;
@@ -0,0 +1,25 @@
+import { Card, CardContent } from '@/components/ui/card';
+
+const StatCard = ({
+  icon,
+  title,
+  value,
+  iconBg,
+}: {
+  icon: React.ReactNode;
+  title: string;
+  value: string | number;
+  iconBg: string;
+}) => (
+  <Card>
+    <CardContent className="flex items-center gap-4 p-6">
+      <div className={`rounded-lg p-3 ${iconBg}`}>{icon}</div>
+      <div>
+        <p className="text-sm text-muted-foreground">{title}</p>
+        <p className="text-2xl font-bold">{value}</p>
+      </div>
+    </CardContent>
+  </Card>
+);
+
+export default StatCard;
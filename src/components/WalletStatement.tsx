@@ -0,0 +1,45 @@
+import { Wallet } from 'lucide-react';
+import { getTransactionLabel, useWalletStatement } from '@/data/wallet';
+
+const WalletStatement = ({ walletId }: { walletId: string | undefined }) => {
+  const { data: entries = [], isPending } = useWalletStatement(walletId);
+
+  if (walletId && isPending) {
+    return <p className="py-8 text-center text-sm text-muted-foreground">Loading statement...</p>;
+  }
+
+  if (entries.length === 0) {
+    return (
+      <div className="py-8 text-center text-muted-foreground">
+        <Wallet className="mx-auto mb-2 h-12 w-12 opacity-50" />
+        <p>No wallet activity yet</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="divide-y rounded-lg border">
+      {entries.map((entry) => (
+        <div key={entry.id} className="flex items-center justify-between gap-4 px-4 py-2 text-sm">
+          <div className="min-w-0">
+            <p className="font-medium">
+              {getTransactionLabel(entry.transaction.kind)}
+              {entry.transaction.order && ` • ${entry.transaction.order.order_number}`}
+            </p>
+            <p className="truncate text-xs text-muted-foreground">
+              {new Date(entry.created_at).toLocaleString()} • {entry.transaction.description}
+            </p>
+          </div>
+          <div className="shrink-0 text-right">
+            <p className={entry.amount > 0 ? 'font-semibold text-success' : 'font-semibold text-destructive'}>
+              {entry.amount > 0 ? '+' : '−'}₹{Math.abs(entry.amount).toFixed(2)}
+            </p>
+            <p className="text-xs text-muted-foreground">Balance ₹{Number(entry.balance_after).toFixed(2)}</p>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default WalletStatement;
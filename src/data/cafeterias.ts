@@ -0,0 +1,66 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables, TablesUpdate } from "@/integrations/supabase/types";
+import { pickupSlotKeys } from "@/data/pickup-slots";
+
+export type Cafeteria = Tables<'cafeterias'>;
+
+export const cafeteriaKeys = {
+  all: ['cafeterias'] as const,
+  active: ['cafeterias', 'active'] as const,
+  settings: ['cafeterias', 'settings'] as const,
+};
+
+export function useCafeterias() {
+  return useQuery({
+    queryKey: cafeteriaKeys.active,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('cafeterias')
+        .select('id, name')
+        .eq('is_active', true)
+        .order('code');
+
+      if (error) throw error;
+      return data;
+    },
+    staleTime: Infinity,
+  });
+}
+
+// Full rows, including slot configuration, for the admin settings screen
+export function useCafeteriaSettings() {
+  return useQuery({
+    queryKey: cafeteriaKeys.settings,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('cafeterias')
+        .select('*')
+        .order('code');
+
+      if (error) throw error;
+      return data;
+    },
+    meta: { errorMessage: 'Failed to load cafeterias' },
+  });
+}
+
+export function useUpdateCafeteria() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, updates }: { id: string; updates: TablesUpdate<'cafeterias'> }) => {
+      const { error } = await supabase
+        .from('cafeterias')
+        .update(updates)
+        .eq('id', id);
+
+      if (error) throw error;
+    },
+    meta: { errorMessage: 'Failed to save pickup settings' },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: cafeteriaKeys.all });
+      queryClient.invalidateQueries({ queryKey: pickupSlotKeys.all });
+    },
+  });
+}
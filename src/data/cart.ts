@@ -0,0 +1,262 @@
+import { keepPreviousData, useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import type { Database, Tables } from "@/integrations/supabase/types";
+import type { MenuItem } from "@/data/menu";
+
+export type CartLine = Pick<Tables<'cart_items'>, 'id' | 'quantity' | 'modifier_option_ids'> & {
+  menu_item: Pick<MenuItem, 'id' | 'name' | 'price' | 'image_url' | 'is_vegetarian'>;
+};
+
+export type CartCombo = Pick<Tables<'cart_combos'>, 'id' | 'quantity' | 'menu_item_ids'> & {
+  combo: Pick<Tables<'combos'>, 'id' | 'name' | 'image_url'>;
+};
+
+export type CartQuote = Database['public']['Functions']['quote_cart']['Returns'][number];
+
+export const cartKeys = {
+  all: (studentId: string | undefined) => ['cart', studentId] as const,
+  lines: (studentId: string | undefined) => ['cart', studentId, 'lines'] as const,
+  combos: (studentId: string | undefined) => ['cart', studentId, 'combos'] as const,
+  quote: (studentId: string | undefined, couponCode?: string, redeemPoints = 0) =>
+    ['cart', studentId, 'quote', { couponCode: couponCode ?? null, redeemPoints }] as const,
+};
+
+const fetchCart = async (studentId: string): Promise<CartLine[]> => {
+  const { data, error } = await supabase
+    .from('cart_items')
+    .select(`
+      id,
+      quantity,
+      modifier_option_ids,
+      menu_item:menu_items (
+        id,
+        name,
+        price,
+        image_url,
+        is_vegetarian
+      )
+    `)
+    .eq('student_id', studentId)
+    .order('created_at');
+
+  if (error) throw error;
+  return data;
+};
+
+export function useCart(studentId: string | undefined) {
+  return useQuery({
+    queryKey: cartKeys.lines(studentId),
+    queryFn: () => fetchCart(studentId!),
+    enabled: !!studentId,
+    meta: { errorMessage: 'Failed to load cart' },
+  });
+}
+
+const fetchCartCombos = async (studentId: string): Promise<CartCombo[]> => {
+  const { data, error } = await supabase
+    .from('cart_combos')
+    .select(`
+      id,
+      quantity,
+      menu_item_ids,
+      combo:combos (
+        id,
+        name,
+        image_url
+      )
+    `)
+    .eq('student_id', studentId)
+    .order('created_at');
+
+  if (error) throw error;
+  return data;
+};
+
+export function useCartCombos(studentId: string | undefined) {
+  return useQuery({
+    queryKey: cartKeys.combos(studentId),
+    queryFn: () => fetchCartCombos(studentId!),
+    enabled: !!studentId,
+    meta: { errorMessage: 'Failed to load cart' },
+  });
+}
+
+export const EMPTY_QUOTE: CartQuote = {
+  subtotal: 0,
+  discount: 0,
+  points_redeemed: 0,
+  tax: 0,
+  total: 0,
+  promotion_id: null,
+  promotion_name: null,
+  coupon_error: null,
+};
+
+// Totals are priced by the database so what we display is what place_order will charge.
+// A coupon that cannot be used comes back as coupon_error with the cart priced without it,
+// and points_redeemed is what can actually be spent of the points asked for.
+export function useCartQuote(studentId: string | undefined, couponCode?: string, redeemPoints = 0) {
+  return useQuery({
+    queryKey: cartKeys.quote(studentId, couponCode, redeemPoints),
+    queryFn: async (): Promise<CartQuote> => {
+      const { data, error } = await supabase.rpc('quote_cart', {
+        _coupon_code: couponCode,
+        _redeem_points: redeemPoints,
+      });
+      if (error) throw error;
+      return data[0] ?? EMPTY_QUOTE;
+    },
+    enabled: !!studentId,
+    placeholderData: keepPreviousData,
+    meta: { errorMessage: 'Failed to calculate totals' },
+  });
+}
+
+// Shared by the cart mutations: apply a change to the cached lines right away,
+// roll it back if the write fails, and refetch lines and totals either way.
+const useOptimisticCartMutation = <TVariables>(
+  studentId: string | undefined,
+  mutationFn: (variables: TVariables) => Promise<void>,
+  update: (lines: CartLine[], variables: TVariables) => CartLine[],
+  errorMessage: string
+) => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn,
+    onMutate: async (variables: TVariables) => {
+      await queryClient.cancelQueries({ queryKey: cartKeys.all(studentId) });
+      const previous = queryClient.getQueryData<CartLine[]>(cartKeys.lines(studentId));
+
+      if (previous) {
+        queryClient.setQueryData(cartKeys.lines(studentId), update(previous, variables));
+      }
+
+      return { previous };
+    },
+    onError: (_error, _variables, context) => {
+      queryClient.setQueryData(cartKeys.lines(studentId), context?.previous);
+    },
+    meta: { errorMessage },
+    onSettled: () => queryClient.invalidateQueries({ queryKey: cartKeys.all(studentId) }),
+  });
+};
+
+// Lines are keyed by item and chosen options, so the same item with different
+// options gets its own line. The database sorts option ids before comparing.
+const sameOptions = (a: string[], b: string[]) => [...a].sort().join() === [...b].sort().join();
+
+export function useAddToCart(studentId: string | undefined) {
+  return useOptimisticCartMutation(
+    studentId,
+    async ({ item, optionIds = [] }: { item: MenuItem; optionIds?: string[] }) => {
+      const { error } = await supabase.rpc('add_to_cart', {
+        _menu_item_id: item.id,
+        _modifier_option_ids: optionIds,
+      });
+
+      if (error) throw error;
+    },
+    (lines, { item, optionIds = [] }) => {
+      const isLine = (line: CartLine) =>
+        line.menu_item.id === item.id && sameOptions(line.modifier_option_ids, optionIds);
+
+      return lines.some(isLine)
+        ? lines.map((line) => (isLine(line) ? { ...line, quantity: line.quantity + 1 } : line))
+        : [...lines, { id: `pending-${item.id}`, quantity: 1, modifier_option_ids: optionIds, menu_item: item }];
+    },
+    'Failed to add to cart'
+  );
+}
+
+export function useUpdateCartQuantity(studentId: string | undefined) {
+  return useOptimisticCartMutation(
+    studentId,
+    async ({ lineId, quantity }: { lineId: string; quantity: number }) => {
+      const { error } = await supabase
+        .from('cart_items')
+        .update({ quantity })
+        .eq('id', lineId);
+
+      if (error) throw error;
+    },
+    (lines, { lineId, quantity }) => lines.map((line) => (line.id === lineId ? { ...line, quantity } : line)),
+    'Failed to update quantity'
+  );
+}
+
+export function useRemoveCartItem(studentId: string | undefined) {
+  return useOptimisticCartMutation(
+    studentId,
+    async (lineId: string) => {
+      const { error } = await supabase
+        .from('cart_items')
+        .delete()
+        .eq('id', lineId);
+
+      if (error) throw error;
+    },
+    (lines, lineId) => lines.filter((line) => line.id !== lineId),
+    'Failed to remove item'
+  );
+}
+
+// Combo lines are few and priced by the database, so these simply refetch the cart
+const useCartComboMutation = <TVariables>(
+  studentId: string | undefined,
+  mutationFn: (variables: TVariables) => Promise<void>,
+  errorMessage: string
+) => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn,
+    meta: { errorMessage },
+    onSettled: () => queryClient.invalidateQueries({ queryKey: cartKeys.all(studentId) }),
+  });
+};
+
+export function useAddComboToCart(studentId: string | undefined) {
+  return useCartComboMutation(
+    studentId,
+    async ({ comboId, menuItemIds }: { comboId: string; menuItemIds: string[] }) => {
+      const { error } = await supabase.rpc('add_combo_to_cart', {
+        _combo_id: comboId,
+        _menu_item_ids: menuItemIds,
+      });
+
+      if (error) throw error;
+    },
+    'Failed to add combo to cart'
+  );
+}
+
+export function useUpdateCartComboQuantity(studentId: string | undefined) {
+  return useCartComboMutation(
+    studentId,
+    async ({ lineId, quantity }: { lineId: string; quantity: number }) => {
+      const { error } = await supabase
+        .from('cart_combos')
+        .update({ quantity })
+        .eq('id', lineId);
+
+      if (error) throw error;
+    },
+    'Failed to update quantity'
+  );
+}
+
+export function useRemoveCartCombo(studentId: string | undefined) {
+  return useCartComboMutation(
+    studentId,
+    async (lineId: string) => {
+      const { error } = await supabase
+        .from('cart_combos')
+        .delete()
+        .eq('id', lineId);
+
+      if (error) throw error;
+    },
+    'Failed to remove combo'
+  );
+}
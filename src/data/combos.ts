@@ -0,0 +1,169 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import type { TablesInsert } from "@/integrations/supabase/types";
+
+export const comboKeys = {
+  all: ['combos'] as const,
+  list: (includeUnavailable: boolean) => ['combos', { includeUnavailable }] as const,
+};
+
+const fetchCombos = async (includeUnavailable: boolean) => {
+  let query = supabase
+    .from('combos')
+    .select(`
+      *,
+      combo_slots (
+        id,
+        name,
+        sort_order,
+        combo_slot_items (
+          id,
+          price_delta,
+          menu_item:menu_items (
+            id,
+            name,
+            price,
+            is_available,
+            is_vegetarian
+          )
+        )
+      )
+    `)
+    .order('name')
+    .order('sort_order', { referencedTable: 'combo_slots' })
+    .order('created_at', { referencedTable: 'combo_slots' })
+    .order('id', { referencedTable: 'combo_slots' })
+    .order('created_at', { referencedTable: 'combo_slots.combo_slot_items' });
+
+  if (!includeUnavailable) {
+    query = query.eq('is_available', true);
+  }
+
+  const { data, error } = await query;
+  if (error) throw error;
+  return data;
+};
+
+export type Combo = Awaited<ReturnType<typeof fetchCombos>>[number];
+export type ComboSlot = Combo['combo_slots'][number];
+
+// Same split as useMenu: students see what can be ordered, the admin editor everything
+export function useCombos({ includeUnavailable = false } = {}) {
+  return useQuery({
+    queryKey: comboKeys.list(includeUnavailable),
+    queryFn: () => fetchCombos(includeUnavailable),
+    meta: { errorMessage: 'Failed to load combos' },
+  });
+}
+
+// Picks are one menu item id per slot, in slot order, as place_order expects
+export const comboPicks = (combo: Combo, menuItemIds: string[]) =>
+  combo.combo_slots.map((slot, index) =>
+    slot.combo_slot_items.find((choice) => choice.menu_item?.id === menuItemIds[index])
+  );
+
+export const comboPrice = (combo: Combo, menuItemIds: string[]) =>
+  Math.max(0, comboPicks(combo, menuItemIds).reduce((total, pick) => total + (pick?.price_delta ?? 0), combo.price));
+
+// What the picks would cost bought separately, to show the saving
+export const comboRegularPrice = (combo: Combo, menuItemIds: string[]) =>
+  comboPicks(combo, menuItemIds).reduce((total, pick) => total + (pick?.menu_item?.price ?? 0), 0);
+
+// The first available item in every slot, so fixed combos need no choices
+export const defaultComboPicks = (combo: Combo) =>
+  combo.combo_slots.map(
+    (slot) => slot.combo_slot_items.find((choice) => choice.menu_item?.is_available)?.menu_item?.id
+  );
+
+export function useSaveCombo() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, combo }: { id?: string; combo: TablesInsert<'combos'> }) => {
+      const { error } = id
+        ? await supabase.from('combos').update(combo).eq('id', id)
+        : await supabase.from('combos').insert(combo);
+
+      if (error) throw error;
+    },
+    meta: { errorMessage: 'Failed to save combo' },
+    onSettled: () => queryClient.invalidateQueries({ queryKey: comboKeys.all }),
+  });
+}
+
+export function useDeleteCombo() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase
+        .from('combos')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+    },
+    meta: { errorMessage: 'Failed to delete combo' },
+    onSettled: () => queryClient.invalidateQueries({ queryKey: comboKeys.all }),
+  });
+}
+
+export function useAddComboSlot() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (slot: TablesInsert<'combo_slots'>) => {
+      const { error } = await supabase.from('combo_slots').insert(slot);
+      if (error) throw error;
+    },
+    meta: { errorMessage: 'Failed to add combo slot' },
+    onSettled: () => queryClient.invalidateQueries({ queryKey: comboKeys.all }),
+  });
+}
+
+export function useDeleteComboSlot() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase
+        .from('combo_slots')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+    },
+    meta: { errorMessage: 'Failed to delete combo slot' },
+    onSettled: () => queryClient.invalidateQueries({ queryKey: comboKeys.all }),
+  });
+}
+
+export function useAddComboSlotItem() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (choice: TablesInsert<'combo_slot_items'>) => {
+      const { error } = await supabase.from('combo_slot_items').insert(choice);
+      if (error) throw error;
+    },
+    meta: { errorMessage: 'Failed to add item to slot' },
+    onSettled: () => queryClient.invalidateQueries({ queryKey: comboKeys.all }),
+  });
+}
+
+export function useRemoveComboSlotItem() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase
+        .from('combo_slot_items')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+    },
+    meta: { errorMessage: 'Failed to remove item from slot' },
+    onSettled: () => queryClient.invalidateQueries({ queryKey: comboKeys.all }),
+  });
+}
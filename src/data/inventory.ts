@@ -0,0 +1,160 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables, TablesInsert } from "@/integrations/supabase/types";
+
+export type Ingredient = Tables<'ingredients'>;
+
+export const INGREDIENT_UNITS = ['g', 'kg', 'ml', 'l', 'pcs'] as const;
+
+// Movements staff can log by hand; order movements come from the database
+export type StockMovementKind = 'delivery' | 'waste' | 'count';
+
+export const inventoryKeys = {
+  all: ['inventory'] as const,
+  ingredients: ['inventory', 'ingredients'] as const,
+  recipe: (menuItemId: string | undefined) => ['inventory', 'recipe', menuItemId] as const,
+  usage: (from: string, to: string) => ['inventory', 'usage', { from, to }] as const,
+};
+
+export function useIngredients() {
+  return useQuery({
+    queryKey: inventoryKeys.ingredients,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('ingredients')
+        .select('*')
+        .order('name');
+
+      if (error) throw error;
+      return data;
+    },
+    meta: { errorMessage: 'Failed to load ingredients' },
+  });
+}
+
+export function useSaveIngredient() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, ingredient }: { id?: string; ingredient: TablesInsert<'ingredients'> }) => {
+      const { error } = id
+        ? await supabase.from('ingredients').update(ingredient).eq('id', id)
+        : await supabase.from('ingredients').insert(ingredient);
+
+      if (error) throw error;
+    },
+    meta: { errorMessage: 'Failed to save ingredient' },
+    onSettled: () => queryClient.invalidateQueries({ queryKey: inventoryKeys.all }),
+  });
+}
+
+export function useLogStockMovement() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      ingredientId,
+      kind,
+      quantity,
+      note,
+    }: {
+      ingredientId: string;
+      kind: StockMovementKind;
+      quantity: number;
+      note?: string;
+    }) => {
+      const { error } = await supabase.rpc('log_stock_movement', {
+        _ingredient_id: ingredientId,
+        _kind: kind,
+        _quantity: quantity,
+        _note: note,
+      });
+
+      if (error) throw error;
+    },
+    meta: { errorMessage: 'Failed to log stock movement' },
+    onSettled: () => queryClient.invalidateQueries({ queryKey: inventoryKeys.all }),
+  });
+}
+
+const fetchRecipe = async (menuItemId: string) => {
+  const { data, error } = await supabase
+    .from('recipes')
+    .select(`
+      id,
+      quantity,
+      ingredient:ingredients (
+        id,
+        name,
+        unit
+      )
+    `)
+    .eq('menu_item_id', menuItemId)
+    .order('created_at');
+
+  if (error) throw error;
+  return data;
+};
+
+export type RecipeLine = Awaited<ReturnType<typeof fetchRecipe>>[number];
+
+export function useRecipe(menuItemId: string | undefined) {
+  return useQuery({
+    queryKey: inventoryKeys.recipe(menuItemId),
+    queryFn: () => fetchRecipe(menuItemId!),
+    enabled: !!menuItemId,
+    meta: { errorMessage: 'Failed to load recipe' },
+  });
+}
+
+// Adding an ingredient that is already in the recipe replaces its quantity
+export function useSaveRecipeLine() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (line: TablesInsert<'recipes'>) => {
+      const { error } = await supabase
+        .from('recipes')
+        .upsert(line, { onConflict: 'menu_item_id,ingredient_id' });
+
+      if (error) throw error;
+    },
+    meta: { errorMessage: 'Failed to save recipe' },
+    onSettled: (_data, _error, { menu_item_id }) =>
+      queryClient.invalidateQueries({ queryKey: inventoryKeys.recipe(menu_item_id) }),
+  });
+}
+
+export function useRemoveRecipeLine() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id }: { id: string; menuItemId: string }) => {
+      const { error } = await supabase
+        .from('recipes')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+    },
+    meta: { errorMessage: 'Failed to remove ingredient' },
+    onSettled: (_data, _error, { menuItemId }) =>
+      queryClient.invalidateQueries({ queryKey: inventoryKeys.recipe(menuItemId) }),
+  });
+}
+
+// from and to are ISO timestamps; to is exclusive
+export function useIngredientUsage(from: string, to: string) {
+  return useQuery({
+    queryKey: inventoryKeys.usage(from, to),
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc('ingredient_usage_report', { _from: from, _to: to });
+      if (error) throw error;
+      return data;
+    },
+    meta: { errorMessage: 'Failed to load usage report' },
+  });
+}
+
+export const needsReorder = (ingredient: Pick<Ingredient, 'on_hand' | 'reorder_level'>) =>
+  ingredient.on_hand <= ingredient.reorder_level;
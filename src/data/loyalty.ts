@@ -0,0 +1,66 @@
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+
+export type LoyaltySummary = Database['public']['Functions']['loyalty_summary']['Returns'][number];
+
+export const loyaltyKeys = {
+  all: (studentId: string | undefined) => ['loyalty', studentId] as const,
+  summary: (studentId: string | undefined) => ['loyalty', studentId, 'summary'] as const,
+  history: (studentId: string | undefined) => ['loyalty', studentId, 'history'] as const,
+};
+
+export function useLoyaltySummary(studentId: string | undefined) {
+  return useQuery({
+    queryKey: loyaltyKeys.summary(studentId),
+    queryFn: async (): Promise<LoyaltySummary | null> => {
+      const { data, error } = await supabase.rpc('loyalty_summary');
+      if (error) throw error;
+      return data[0] ?? null;
+    },
+    enabled: !!studentId,
+    meta: { errorMessage: 'Failed to load loyalty points' },
+  });
+}
+
+const fetchHistory = async (studentId: string) => {
+  const { data, error } = await supabase
+    .from('loyalty_ledger')
+    .select(`
+      id,
+      kind,
+      points,
+      created_at,
+      order:orders (
+        id,
+        order_number
+      )
+    `)
+    .eq('student_id', studentId)
+    .order('created_at', { ascending: false })
+    .limit(20);
+
+  if (error) throw error;
+  return data;
+};
+
+export type LoyaltyEntry = Awaited<ReturnType<typeof fetchHistory>>[number];
+
+export function useLoyaltyHistory(studentId: string | undefined) {
+  return useQuery({
+    queryKey: loyaltyKeys.history(studentId),
+    queryFn: () => fetchHistory(studentId!),
+    enabled: !!studentId,
+    meta: { errorMessage: 'Failed to load points history' },
+  });
+}
+
+const ENTRY_LABELS: Record<string, string> = {
+  earn: 'Earned',
+  redeem: 'Redeemed',
+};
+
+export const getLoyaltyEntryLabel = (entry: LoyaltyEntry) => {
+  const label = ENTRY_LABELS[entry.kind] ?? (entry.points > 0 ? 'Returned' : 'Clawed back');
+  return entry.order ? `${label} • ${entry.order.order_number}` : label;
+};
@@ -0,0 +1,114 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables, TablesInsert } from "@/integrations/supabase/types";
+
+export type MenuItem = Tables<'menu_items'>;
+
+export const menuKeys = {
+  all: ['menu'] as const,
+  list: (includeUnavailable: boolean) => ['menu', { includeUnavailable }] as const,
+};
+
+const fetchMenu = async (includeUnavailable: boolean) => {
+  let query = supabase
+    .from('menu_items')
+    .select('*')
+    .order('category')
+    .order('name');
+
+  if (!includeUnavailable) {
+    query = query.eq('is_available', true);
+  }
+
+  const { data, error } = await query;
+  if (error) throw error;
+  return data;
+};
+
+// Students see what can be ordered; the admin editor passes includeUnavailable
+export function useMenu({ includeUnavailable = false } = {}) {
+  return useQuery({
+    queryKey: menuKeys.list(includeUnavailable),
+    queryFn: () => fetchMenu(includeUnavailable),
+    meta: { errorMessage: 'Failed to load menu' },
+  });
+}
+
+export function useSaveMenuItem() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, item }: { id?: string; item: TablesInsert<'menu_items'> }) => {
+      const { error } = id
+        ? await supabase.from('menu_items').update(item).eq('id', id)
+        : await supabase.from('menu_items').insert(item);
+
+      if (error) throw error;
+    },
+    meta: { errorMessage: 'Failed to save menu item' },
+    onSettled: () => queryClient.invalidateQueries({ queryKey: menuKeys.all }),
+  });
+}
+
+export function useSetMenuItemAvailability() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, isAvailable }: { id: string; isAvailable: boolean }) => {
+      const { error } = await supabase
+        .from('menu_items')
+        .update({ is_available: isAvailable })
+        .eq('id', id);
+
+      if (error) throw error;
+    },
+    onMutate: async ({ id, isAvailable }) => {
+      await queryClient.cancelQueries({ queryKey: menuKeys.all });
+      const previous = queryClient.getQueryData<MenuItem[]>(menuKeys.list(true));
+
+      queryClient.setQueryData<MenuItem[]>(menuKeys.list(true), (items) =>
+        items?.map((item) => (item.id === id ? { ...item, is_available: isAvailable } : item))
+      );
+
+      return { previous };
+    },
+    onError: (_error, _variables, context) => {
+      queryClient.setQueryData(menuKeys.list(true), context?.previous);
+    },
+    meta: { errorMessage: 'Failed to update availability' },
+    onSettled: () => queryClient.invalidateQueries({ queryKey: menuKeys.all }),
+  });
+}
+
+export function useRestockMenuItem() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.rpc('restock_menu_items', { _menu_item_id: id });
+      if (error) throw error;
+    },
+    meta: { errorMessage: 'Failed to restock item' },
+    onSettled: () => queryClient.invalidateQueries({ queryKey: menuKeys.all }),
+  });
+}
+
+// Items with a daily stock that are at or below their alert threshold
+export const isLowStock = (item: Pick<MenuItem, 'stock_quantity' | 'low_stock_threshold'>) =>
+  item.stock_quantity !== null && item.stock_quantity <= item.low_stock_threshold;
+
+export function useDeleteMenuItem() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase
+        .from('menu_items')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+    },
+    onSettled: () => queryClient.invalidateQueries({ queryKey: menuKeys.all }),
+  });
+}
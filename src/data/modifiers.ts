@@ -0,0 +1,112 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables, TablesInsert } from "@/integrations/supabase/types";
+
+export type ModifierOption = Tables<'modifier_options'>;
+export type ModifierGroup = Tables<'modifier_groups'> & { modifier_options: ModifierOption[] };
+
+export const modifierKeys = {
+  all: ['modifiers'] as const,
+};
+
+// Every group with its options; menus are small enough to load them all at once
+const fetchModifierGroups = async (): Promise<ModifierGroup[]> => {
+  const { data, error } = await supabase
+    .from('modifier_groups')
+    .select('*, modifier_options (*)')
+    .order('sort_order')
+    .order('created_at')
+    .order('sort_order', { referencedTable: 'modifier_options' })
+    .order('created_at', { referencedTable: 'modifier_options' });
+
+  if (error) throw error;
+  return data;
+};
+
+export function useModifierGroups() {
+  return useQuery({
+    queryKey: modifierKeys.all,
+    queryFn: fetchModifierGroups,
+    meta: { errorMessage: 'Failed to load item options' },
+  });
+}
+
+export const groupsForItem = (groups: ModifierGroup[], menuItemId: string) =>
+  groups.filter((group) => group.menu_item_id === menuItemId);
+
+// The chosen options in menu order, with their group, for display on cart lines
+export const selectedOptions = (groups: ModifierGroup[], optionIds: string[]) =>
+  groups.flatMap((group) =>
+    group.modifier_options
+      .filter((option) => optionIds.includes(option.id))
+      .map((option) => ({ ...option, group_name: group.name }))
+  );
+
+export const priceWithOptions = (price: number, options: Pick<ModifierOption, 'price_delta'>[]) =>
+  Math.max(0, options.reduce((total, option) => total + option.price_delta, price));
+
+export function useSaveModifierGroup() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, group }: { id?: string; group: TablesInsert<'modifier_groups'> }) => {
+      const { error } = id
+        ? await supabase.from('modifier_groups').update(group).eq('id', id)
+        : await supabase.from('modifier_groups').insert(group);
+
+      if (error) throw error;
+    },
+    meta: { errorMessage: 'Failed to save option group' },
+    onSettled: () => queryClient.invalidateQueries({ queryKey: modifierKeys.all }),
+  });
+}
+
+export function useDeleteModifierGroup() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase
+        .from('modifier_groups')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+    },
+    meta: { errorMessage: 'Failed to delete option group' },
+    onSettled: () => queryClient.invalidateQueries({ queryKey: modifierKeys.all }),
+  });
+}
+
+export function useSaveModifierOption() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, option }: { id?: string; option: TablesInsert<'modifier_options'> }) => {
+      const { error } = id
+        ? await supabase.from('modifier_options').update(option).eq('id', id)
+        : await supabase.from('modifier_options').insert(option);
+
+      if (error) throw error;
+    },
+    meta: { errorMessage: 'Failed to save option' },
+    onSettled: () => queryClient.invalidateQueries({ queryKey: modifierKeys.all }),
+  });
+}
+
+export function useDeleteModifierOption() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase
+        .from('modifier_options')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+    },
+    meta: { errorMessage: 'Failed to delete option' },
+    onSettled: () => queryClient.invalidateQueries({ queryKey: modifierKeys.all }),
+  });
+}
@@ -0,0 +1,275 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+import { cartKeys } from "@/data/cart";
+import { loyaltyKeys } from "@/data/loyalty";
+import { pickupSlotKeys } from "@/data/pickup-slots";
+import { menuKeys } from "@/data/menu";
+import { walletKeys } from "@/data/wallet";
+
+export const orderKeys = {
+  all: ['orders'] as const,
+  list: (scope: OrdersScope) => ['orders', 'list', scope] as const,
+  kitchen: ['orders', 'kitchen'] as const,
+  receipt: (orderId: string) => ['orders', 'receipt', orderId] as const,
+};
+
+// Students see their own orders; admins see every paid or refunded order, since
+// unpaid orders never reach the kitchen
+export type OrdersScope = { studentId: string; limit?: number } | { paidOnly: true };
+
+const ORDER_DETAIL_COLUMNS = `
+  id,
+  order_number,
+  status,
+  payment_status,
+  payment_method,
+  refund_reason,
+  discount,
+  points_redeemed,
+  total,
+  pickup_at,
+  created_at,
+  order_items (
+    quantity,
+    price_at_order,
+    menu_item:menu_items (
+      name,
+      is_vegetarian
+    ),
+    order_item_modifiers (
+      option_name
+    ),
+    order_combo:order_combos (
+      name
+    )
+  ),
+  order_status_events (
+    from_status,
+    to_status,
+    created_at,
+    changed_by_profile:profiles (
+      full_name
+    )
+  )
+` as const;
+
+const fetchOrders = async (scope: OrdersScope) => {
+  let query = supabase
+    .from('orders')
+    .select(ORDER_DETAIL_COLUMNS)
+    .order('created_at', { ascending: false });
+
+  if ('studentId' in scope) {
+    query = query.eq('student_id', scope.studentId);
+    if (scope.limit) query = query.limit(scope.limit);
+  } else {
+    query = query.in('payment_status', ['completed', 'refunded']);
+  }
+
+  const { data, error } = await query;
+  if (error) throw error;
+  return data;
+};
+
+export type OrderWithDetails = Awaited<ReturnType<typeof fetchOrders>>[number];
+
+export function useOrders(scope: OrdersScope) {
+  return useQuery({
+    queryKey: orderKeys.list(scope),
+    queryFn: () => fetchOrders(scope),
+    meta: { errorMessage: 'Failed to load orders' },
+  });
+}
+
+const fetchKitchenTickets = async () => {
+  const { data, error } = await supabase
+    .from('orders')
+    .select(`
+      id,
+      order_number,
+      status,
+      notes,
+      pickup_at,
+      created_at,
+      order_items (
+        quantity,
+        menu_item:menu_items (
+          id,
+          name,
+          is_vegetarian
+        ),
+        order_item_modifiers (
+          group_name,
+          option_name
+        ),
+        order_combo:order_combos (
+          name
+        )
+      )
+    `)
+    .eq('payment_status', 'completed')
+    .in('status', ['pending', 'preparing', 'ready'])
+    .order('pickup_at', { ascending: true, nullsFirst: true })
+    .order('created_at', { ascending: true });
+
+  if (error) throw error;
+  return data;
+};
+
+export type KitchenTicket = Awaited<ReturnType<typeof fetchKitchenTickets>>[number];
+
+export function useKitchenTickets() {
+  return useQuery({
+    queryKey: orderKeys.kitchen,
+    queryFn: fetchKitchenTickets,
+    meta: { errorMessage: 'Failed to load kitchen queue' },
+  });
+}
+
+export function useUpdateOrderStatus() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ orderId, status }: { orderId: string; status: string }) => {
+      const { error } = await supabase
+        .from('orders')
+        .update({ status })
+        .eq('id', orderId);
+
+      if (error) throw error;
+    },
+    // Every cached order list shares id and status, so move the order in all of them.
+    // Single-order queries such as receipts are left to the refetch.
+    onMutate: async ({ orderId, status }) => {
+      await queryClient.cancelQueries({ queryKey: orderKeys.all });
+      const previous = queryClient.getQueriesData<{ id: string; status: string }[]>({ queryKey: orderKeys.all });
+
+      queryClient.setQueriesData<{ id: string; status: string }[]>({ queryKey: orderKeys.all }, (orders) =>
+        Array.isArray(orders) ? orders.map((order) => (order.id === orderId ? { ...order, status } : order)) : orders
+      );
+
+      return { previous };
+    },
+    onError: (_error, _variables, context) => {
+      context?.previous.forEach(([queryKey, orders]) => queryClient.setQueryData(queryKey, orders));
+    },
+    onSettled: (_data, _error, { status }) => {
+      queryClient.invalidateQueries({ queryKey: orderKeys.all });
+      // Cancelling puts the order's items back in stock
+      if (status === 'cancelled') {
+        queryClient.invalidateQueries({ queryKey: menuKeys.all });
+      }
+    },
+  });
+}
+
+// Refunds go to the student's wallet and cancel the order if it has not been collected
+export function useRefundOrder() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ orderId, reason }: { orderId: string; reason: string }) => {
+      const { error } = await supabase.rpc('refund_order', { _order_id: orderId, _reason: reason });
+      if (error) throw error;
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: orderKeys.all });
+      queryClient.invalidateQueries({ queryKey: walletKeys.all });
+      // Refunding an order still in the queue puts its items back in stock
+      queryClient.invalidateQueries({ queryKey: menuKeys.all });
+    },
+  });
+}
+
+const fetchReceipt = async (orderId: string) => {
+  const { data, error } = await supabase
+    .from('orders')
+    .select(`
+      id,
+      order_number,
+      status,
+      payment_status,
+      payment_method,
+      subtotal,
+      discount,
+      points_redeemed,
+      tax,
+      total,
+      notes,
+      pickup_at,
+      created_at,
+      cafeteria:cafeterias (
+        name
+      ),
+      student:profiles (
+        full_name,
+        student_id
+      ),
+      order_combos (
+        id,
+        name,
+        quantity,
+        price
+      ),
+      order_items (
+        id,
+        order_combo_id,
+        quantity,
+        price_at_order,
+        subtotal,
+        discount,
+        tax_name,
+        tax_rate,
+        menu_item:menu_items (
+          name
+        ),
+        order_item_modifiers (
+          option_name,
+          price_delta
+        )
+      )
+    `)
+    .eq('id', orderId)
+    .single();
+
+  if (error) throw error;
+  return data;
+};
+
+export type OrderReceipt = Awaited<ReturnType<typeof fetchReceipt>>;
+
+export function useOrderReceipt(orderId: string) {
+  return useQuery({
+    queryKey: orderKeys.receipt(orderId),
+    queryFn: () => fetchReceipt(orderId),
+    meta: { errorMessage: 'Failed to load receipt' },
+  });
+}
+
+type PlaceOrderArgs = Database['public']['Functions']['place_order']['Args'];
+
+// Pricing, order creation and clearing the cart all happen in one transaction
+export function usePlaceOrder(studentId: string | undefined) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (args: PlaceOrderArgs) => {
+      const { data: orderId, error } = await supabase.rpc('place_order', args);
+      if (error) throw error;
+      return orderId;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: orderKeys.all });
+      // Ordered items come out of stock
+      queryClient.invalidateQueries({ queryKey: menuKeys.all });
+    },
+    // On failure prices may have changed or the slot may have filled since they were loaded
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: cartKeys.all(studentId) });
+      queryClient.invalidateQueries({ queryKey: loyaltyKeys.all(studentId) });
+      queryClient.invalidateQueries({ queryKey: walletKeys.all });
+      queryClient.invalidateQueries({ queryKey: pickupSlotKeys.all });
+    },
+  });
+}
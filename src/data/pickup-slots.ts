@@ -0,0 +1,26 @@
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+
+export type PickupSlot = Database['public']['Functions']['pickup_slots']['Returns'][number];
+
+export const pickupSlotKeys = {
+  all: ['pickup-slots'] as const,
+  day: (cafeteriaId: string | undefined, date: string) => ['pickup-slots', cafeteriaId, date] as const,
+};
+
+// date is a local calendar day (yyyy-MM-dd) in the cafeteria's timezone
+export function usePickupSlots(cafeteriaId: string | undefined, date: string) {
+  return useQuery({
+    queryKey: pickupSlotKeys.day(cafeteriaId, date),
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc('pickup_slots', { _cafeteria_id: cafeteriaId!, _date: date });
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!cafeteriaId,
+    // Slots close as time passes and fill as other students check out
+    refetchInterval: 60 * 1000,
+    meta: { errorMessage: 'Failed to load pickup times' },
+  });
+}
@@ -0,0 +1,89 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import type { TablesInsert } from "@/integrations/supabase/types";
+
+export const promotionKeys = {
+  all: ['promotions'] as const,
+};
+
+// ISO weekdays, as stored in promotions.weekdays
+export const WEEKDAYS = [
+  { value: 1, label: 'Mon' },
+  { value: 2, label: 'Tue' },
+  { value: 3, label: 'Wed' },
+  { value: 4, label: 'Thu' },
+  { value: 5, label: 'Fri' },
+  { value: 6, label: 'Sat' },
+  { value: 7, label: 'Sun' },
+] as const;
+
+const fetchPromotions = async () => {
+  const { data, error } = await supabase
+    .from('promotions')
+    .select(`
+      *,
+      menu_item:menu_items (
+        name
+      ),
+      promotion_redemptions (
+        count
+      )
+    `)
+    .order('is_active', { ascending: false })
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return data;
+};
+
+export type Promotion = Awaited<ReturnType<typeof fetchPromotions>>[number];
+
+export type PromotionStatus = 'active' | 'scheduled' | 'expired' | 'retired';
+
+export const getPromotionStatus = (promotion: Promotion, now = new Date()): PromotionStatus => {
+  if (!promotion.is_active) return 'retired';
+  if (promotion.ends_at && new Date(promotion.ends_at) <= now) return 'expired';
+  if (promotion.starts_at && new Date(promotion.starts_at) > now) return 'scheduled';
+  return 'active';
+};
+
+export const getRedemptionCount = (promotion: Promotion) => promotion.promotion_redemptions[0]?.count ?? 0;
+
+export function usePromotions() {
+  return useQuery({
+    queryKey: promotionKeys.all,
+    queryFn: fetchPromotions,
+    meta: { errorMessage: 'Failed to load promotions' },
+  });
+}
+
+export function useCreatePromotion() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (promotion: TablesInsert<'promotions'>) => {
+      const { error } = await supabase.from('promotions').insert(promotion);
+      if (error) throw error;
+    },
+    meta: { errorMessage: 'Failed to create promotion' },
+    onSettled: () => queryClient.invalidateQueries({ queryKey: promotionKeys.all }),
+  });
+}
+
+// Promotions are retired rather than deleted so past orders keep pointing at them
+export function useRetirePromotion() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase
+        .from('promotions')
+        .update({ is_active: false })
+        .eq('id', id);
+
+      if (error) throw error;
+    },
+    meta: { errorMessage: 'Failed to retire promotion' },
+    onSettled: () => queryClient.invalidateQueries({ queryKey: promotionKeys.all }),
+  });
+}
@@ -0,0 +1,28 @@
+import { MutationCache, QueryCache, QueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+
+declare module "@tanstack/react-query" {
+  interface Register {
+    queryMeta: { errorMessage?: string };
+    mutationMeta: { errorMessage?: string };
+  }
+}
+
+// Hooks in src/data set meta.errorMessage so a failed load or save is reported
+// once here instead of in every page that uses them.
+export const queryClient = new QueryClient({
+  queryCache: new QueryCache({
+    onError: (_error, query) => {
+      if (query.meta?.errorMessage) {
+        toast.error(query.meta.errorMessage);
+      }
+    },
+  }),
+  mutationCache: new MutationCache({
+    onError: (_error, _variables, _context, mutation) => {
+      if (mutation.meta?.errorMessage) {
+        toast.error(mutation.meta.errorMessage);
+      }
+    },
+  }),
+});
@@ -0,0 +1,138 @@
+import { keepPreviousData, useMutation, useQuery } from "@tanstack/react-query";
+import type { PostgrestError } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+import type { DailyTotals, ExportReport, OrderLine } from "@/lib/exports";
+
+export type RevenueBucket = 'day' | 'week' | 'month';
+
+// from and to are business dates (yyyy-MM-dd), both inclusive
+export type ReportRange = { from: string; to: string };
+
+export const reportKeys = {
+  all: ['reports'] as const,
+  dashboard: ['reports', 'dashboard'] as const,
+  summary: (range: ReportRange) => ['reports', 'summary', range] as const,
+  revenue: (range: ReportRange, bucket: RevenueBucket) => ['reports', 'revenue', range, bucket] as const,
+  topItems: (range: ReportRange) => ['reports', 'top-items', range] as const,
+  categoryMix: (range: ReportRange) => ['reports', 'category-mix', range] as const,
+  peakHours: (range: ReportRange) => ['reports', 'peak-hours', range] as const,
+};
+
+export function useDashboardStats() {
+  return useQuery({
+    queryKey: reportKeys.dashboard,
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc('admin_dashboard_stats').single();
+      if (error) throw error;
+      return data;
+    },
+    meta: { errorMessage: 'Failed to load dashboard stats' },
+  });
+}
+
+export function useSalesSummary(range: ReportRange) {
+  return useQuery({
+    queryKey: reportKeys.summary(range),
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc('sales_summary', { _from: range.from, _to: range.to }).single();
+      if (error) throw error;
+      return data;
+    },
+    // Keep the last range on screen while a new one loads
+    placeholderData: keepPreviousData,
+    meta: { errorMessage: 'Failed to load sales summary' },
+  });
+}
+
+export function useRevenue(range: ReportRange, bucket: RevenueBucket) {
+  return useQuery({
+    queryKey: reportKeys.revenue(range, bucket),
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc('sales_revenue', {
+        _from: range.from,
+        _to: range.to,
+        _bucket: bucket,
+      });
+      if (error) throw error;
+      return data;
+    },
+    placeholderData: keepPreviousData,
+    meta: { errorMessage: 'Failed to load revenue' },
+  });
+}
+
+export function useTopItems(range: ReportRange) {
+  return useQuery({
+    queryKey: reportKeys.topItems(range),
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc('sales_top_items', { _from: range.from, _to: range.to });
+      if (error) throw error;
+      return data;
+    },
+    placeholderData: keepPreviousData,
+    meta: { errorMessage: 'Failed to load top sellers' },
+  });
+}
+
+export function useCategoryMix(range: ReportRange) {
+  return useQuery({
+    queryKey: reportKeys.categoryMix(range),
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc('sales_category_mix', { _from: range.from, _to: range.to });
+      if (error) throw error;
+      return data;
+    },
+    placeholderData: keepPreviousData,
+    meta: { errorMessage: 'Failed to load category mix' },
+  });
+}
+
+export function usePeakHours(range: ReportRange) {
+  return useQuery({
+    queryKey: reportKeys.peakHours(range),
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc('sales_peak_hours', { _from: range.from, _to: range.to });
+      if (error) throw error;
+      return data;
+    },
+    placeholderData: keepPreviousData,
+    meta: { errorMessage: 'Failed to load peak hours' },
+  });
+}
+
+// PostgREST caps every response, so exports read the result a page at a time
+const EXPORT_PAGE_SIZE = 1000;
+
+const fetchAllPages = async <T,>(
+  fetchPage: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: PostgrestError | null }>
+) => {
+  const rows: T[] = [];
+
+  for (let from = 0; ; from += EXPORT_PAGE_SIZE) {
+    const { data, error } = await fetchPage(from, from + EXPORT_PAGE_SIZE - 1);
+    if (error) throw error;
+    rows.push(...data);
+    if (data.length < EXPORT_PAGE_SIZE) return rows;
+  }
+};
+
+export type ExportRows =
+  | { report: 'orders'; rows: OrderLine[] }
+  | { report: 'daily-sales' | 'tax'; rows: DailyTotals[] };
+
+export function useExportRows() {
+  return useMutation({
+    mutationFn: async ({ report, range }: { report: ExportReport; range: ReportRange }): Promise<ExportRows> => {
+      const args = { _from: range.from, _to: range.to };
+
+      if (report === 'orders') {
+        const rows = await fetchAllPages((from, to) => supabase.rpc('export_order_lines', args).range(from, to));
+        return { report, rows };
+      }
+
+      const rows = await fetchAllPages((from, to) => supabase.rpc('sales_daily_totals', args).range(from, to));
+      return { report, rows };
+    },
+    meta: { errorMessage: 'Failed to export report' },
+  });
+}
@@ -0,0 +1,136 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+
+export const walletKeys = {
+  all: ['wallet'] as const,
+  mine: (studentId: string | undefined) => ['wallet', 'student', studentId] as const,
+  statement: (walletId: string | undefined) => ['wallet', 'statement', walletId] as const,
+  students: ['wallet', 'students'] as const,
+};
+
+// Preset amounts offered on the top-up form
+export const TOP_UP_PRESETS = [100, 200, 500, 1000] as const;
+
+const fetchWallet = async (studentId: string) => {
+  const { data, error } = await supabase
+    .from('wallets')
+    .select('id, balance')
+    .eq('student_id', studentId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+};
+
+// Wallets are opened on the first top-up, so a student may not have one yet
+export function useWallet(studentId: string | undefined) {
+  return useQuery({
+    queryKey: walletKeys.mine(studentId),
+    queryFn: () => fetchWallet(studentId!),
+    enabled: !!studentId,
+    meta: { errorMessage: 'Failed to load wallet' },
+  });
+}
+
+const fetchStatement = async (walletId: string) => {
+  const { data, error } = await supabase
+    .from('wallet_entries')
+    .select(`
+      id,
+      amount,
+      balance_after,
+      created_at,
+      transaction:wallet_transactions (
+        kind,
+        description,
+        order:orders (
+          id,
+          order_number
+        )
+      )
+    `)
+    .eq('wallet_id', walletId)
+    .order('created_at', { ascending: false })
+    .limit(50);
+
+  if (error) throw error;
+  return data;
+};
+
+export type WalletStatementEntry = Awaited<ReturnType<typeof fetchStatement>>[number];
+
+export function useWalletStatement(walletId: string | undefined) {
+  return useQuery({
+    queryKey: walletKeys.statement(walletId),
+    queryFn: () => fetchStatement(walletId!),
+    enabled: !!walletId,
+    meta: { errorMessage: 'Failed to load wallet statement' },
+  });
+}
+
+const TRANSACTION_LABELS: Record<string, string> = {
+  top_up: 'Top-up',
+  payment: 'Order payment',
+  refund: 'Refund',
+  adjustment: 'Adjustment',
+};
+
+export const getTransactionLabel = (kind: string) => TRANSACTION_LABELS[kind] ?? kind;
+
+// Opens the wallet if needed and returns the pending top-up to send to the gateway
+export function useCreateTopUp() {
+  return useMutation({
+    mutationFn: async (amount: number) => {
+      const { data, error } = await supabase.rpc('create_wallet_top_up', { _amount: amount });
+      if (error) throw error;
+      return data;
+    },
+  });
+}
+
+const fetchStudentWallets = async () => {
+  const { data, error } = await supabase
+    .from('profiles')
+    .select(`
+      id,
+      full_name,
+      email,
+      student_id,
+      wallet:wallets (
+        id,
+        balance
+      )
+    `)
+    .eq('role', 'student')
+    .order('full_name');
+
+  if (error) throw error;
+  return data;
+};
+
+export type StudentWallet = Awaited<ReturnType<typeof fetchStudentWallets>>[number];
+
+export function useStudentWallets() {
+  return useQuery({
+    queryKey: walletKeys.students,
+    queryFn: fetchStudentWallets,
+    meta: { errorMessage: 'Failed to load wallets' },
+  });
+}
+
+export function useAdjustWallet() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (adjustment: { studentId: string; amount: number; reason: string }) => {
+      const { error } = await supabase.rpc('adjust_wallet', {
+        _student_id: adjustment.studentId,
+        _amount: adjustment.amount,
+        _reason: adjustment.reason,
+      });
+
+      if (error) throw error;
+    },
+    onSettled: () => queryClient.invalidateQueries({ queryKey: walletKeys.all }),
+  });
+}
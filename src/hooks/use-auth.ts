@@ -0,0 +1,27 @@
+import { createContext, useContext } from "react";
+import type { Session, User } from "@supabase/supabase-js";
+import type { Profile } from "@/lib/auth";
+
+export interface AuthContextValue {
+  session: Session | null;
+  user: User | null;
+  profile: Profile | null;
+  // True until both the session and, when signed in, the profile have loaded
+  isLoading: boolean;
+  refreshProfile: () => Promise<void>;
+}
+
+export const authKeys = {
+  session: ['auth', 'session'] as const,
+  profile: (userId: string | undefined) => ['auth', 'profile', userId] as const,
+};
+
+export const AuthContext = createContext<AuthContextValue | null>(null);
+
+export function useAuth() {
+  const context = useContext(AuthContext);
+  if (!context) {
+    throw new Error("useAuth must be used within an AuthProvider");
+  }
+  return context;
+}
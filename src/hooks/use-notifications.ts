@@ -0,0 +1,94 @@
+import { useCallback, useEffect, useState } from "react";
+import { toast } from "sonner";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+
+export type AppNotification = Tables<'notifications'>;
+
+const NOTIFICATION_LIMIT = 50;
+
+export function useNotifications(userId: string | undefined) {
+  const [notifications, setNotifications] = useState<AppNotification[]>([]);
+
+  const loadNotifications = useCallback(async () => {
+    if (!userId) return;
+
+    const { data, error } = await supabase
+      .from('notifications')
+      .select('*')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false })
+      .limit(NOTIFICATION_LIMIT);
+
+    if (error) {
+      toast.error('Failed to load notifications');
+      return;
+    }
+
+    setNotifications(data || []);
+  }, [userId]);
+
+  useEffect(() => {
+    if (!userId) return;
+
+    loadNotifications();
+
+    const channel = supabase
+      .channel(`notifications:${userId}`)
+      .on<AppNotification>(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'notifications', filter: `user_id=eq.${userId}` },
+        (payload) => {
+          setNotifications((current) => [payload.new, ...current].slice(0, NOTIFICATION_LIMIT));
+          toast(payload.new.title, { description: payload.new.message });
+        },
+      )
+      .on<AppNotification>(
+        'postgres_changes',
+        { event: 'UPDATE', schema: 'public', table: 'notifications', filter: `user_id=eq.${userId}` },
+        (payload) => {
+          setNotifications((current) => current.map((n) => (n.id === payload.new.id ? payload.new : n)));
+        },
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [userId, loadNotifications]);
+
+  const markRead = useCallback(async (id: string) => {
+    setNotifications((current) => current.map((n) => (n.id === id ? { ...n, is_read: true } : n)));
+
+    const { error } = await supabase
+      .from('notifications')
+      .update({ is_read: true })
+      .eq('id', id);
+
+    if (error) {
+      toast.error('Failed to update notification');
+      loadNotifications();
+    }
+  }, [loadNotifications]);
+
+  const markAllRead = useCallback(async () => {
+    if (!userId) return;
+
+    setNotifications((current) => current.map((n) => ({ ...n, is_read: true })));
+
+    const { error } = await supabase
+      .from('notifications')
+      .update({ is_read: true })
+      .eq('user_id', userId)
+      .eq('is_read', false);
+
+    if (error) {
+      toast.error('Failed to update notifications');
+      loadNotifications();
+    }
+  }, [userId, loadNotifications]);
+
+  const unreadCount = notifications.filter((n) => !n.is_read).length;
+
+  return { notifications, unreadCount, markRead, markAllRead };
+}
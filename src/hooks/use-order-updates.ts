@@ -0,0 +1,89 @@
+import { useEffect, useRef } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+
+const notifyOrderReady = (order: Tables<'orders'>) => {
+  if (typeof Notification === 'undefined' || Notification.permission !== 'granted') return;
+
+  new Notification(`Order ${order.order_number} is ready`, {
+    body: 'Head to the counter to pick it up.',
+    tag: `order-ready-${order.id}`,
+  });
+};
+
+// Calls onChange whenever one of the student's orders or their items change,
+// and raises a browser notification when an order becomes ready. Pass the orders
+// the page has loaded so their current status is known before the first event.
+export function useOrderUpdates(
+  studentId: string | undefined,
+  onChange: () => void,
+  loadedOrders: Pick<Tables<'orders'>, 'id' | 'status'>[] = [],
+) {
+  const onChangeRef = useRef(onChange);
+  onChangeRef.current = onChange;
+  // Realtime strips the previous row down to its key under RLS, so remember the
+  // last status seen for each order instead of reading payload.old
+  const lastStatuses = useRef(new Map<string, string>());
+
+  // Events already recorded are newer than a load that may still be in flight
+  useEffect(() => {
+    loadedOrders.forEach((order) => {
+      if (!lastStatuses.current.has(order.id)) lastStatuses.current.set(order.id, order.status);
+    });
+  }, [loadedOrders]);
+
+  useEffect(() => {
+    if (!studentId) return;
+
+    const channel = supabase
+      .channel(`student-orders:${studentId}`)
+      .on<Tables<'orders'>>(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'orders', filter: `student_id=eq.${studentId}` },
+        (payload) => {
+          if (payload.eventType !== 'DELETE') {
+            const previousStatus = lastStatuses.current.get(payload.new.id);
+            lastStatuses.current.set(payload.new.id, payload.new.status);
+
+            // Without a previous status this could be any update to an order that was already ready
+            if (
+              payload.eventType === 'UPDATE' &&
+              payload.new.status === 'ready' &&
+              previousStatus !== undefined &&
+              previousStatus !== 'ready'
+            ) {
+              notifyOrderReady(payload.new);
+            }
+          }
+          onChangeRef.current();
+        },
+      )
+      // RLS limits order_items events to rows the student can see
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'order_items' }, () => onChangeRef.current())
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [studentId]);
+}
+
+// Kitchen view: every order change visible to the signed-in admin
+export function useKitchenOrderUpdates(enabled: boolean, onChange: () => void) {
+  const onChangeRef = useRef(onChange);
+  onChangeRef.current = onChange;
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const channel = supabase
+      .channel('kitchen-orders')
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'orders' }, () => onChangeRef.current())
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'order_items' }, () => onChangeRef.current())
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [enabled]);
+}
@@ -0,0 +1,54 @@
+import { useCallback, useRef, useState } from "react";
+import { toast } from "sonner";
+import {
+  createPayment,
+  openRazorpayCheckout,
+  simulateMockPayment,
+  type PaymentSession,
+  type PaymentTarget,
+} from "@/lib/payments";
+
+export function usePayment() {
+  const [mockSession, setMockSession] = useState<PaymentSession | null>(null);
+  const resolveMock = useRef<(() => void) | null>(null);
+
+  // Resolves once the student has finished with the checkout; the order or
+  // top-up is settled separately by the gateway webhook.
+  const checkout = useCallback(async (target: PaymentTarget) => {
+    const { data: session, error } = await createPayment(target);
+
+    if (error || !session) {
+      toast.error('Failed to start payment');
+      return false;
+    }
+
+    if (session.provider === 'razorpay') {
+      await openRazorpayCheckout(session);
+      return true;
+    }
+
+    setMockSession(session);
+    await new Promise<void>((resolve) => {
+      resolveMock.current = resolve;
+    });
+    return true;
+  }, []);
+
+  const pay = useCallback((orderId: string) => checkout({ order_id: orderId }), [checkout]);
+  const payTopUp = useCallback((topUpId: string) => checkout({ top_up_id: topUpId }), [checkout]);
+
+  const finishMockPayment = useCallback(async (outcome: 'succeeded' | 'failed' | null) => {
+    if (mockSession && outcome) {
+      const { error } = await simulateMockPayment(mockSession.payment_id, outcome);
+      if (error) {
+        toast.error('Mock gateway could not deliver the payment callback');
+      }
+    }
+
+    setMockSession(null);
+    resolveMock.current?.();
+    resolveMock.current = null;
+  }, [mockSession]);
+
+  return { pay, payTopUp, mockSession, finishMockPayment };
+}
@@ -0,0 +1,26 @@
+import { useEffect, useRef } from "react";
+import { supabase } from "@/integrations/supabase/client";
+
+// Calls onChange whenever the student's wallet balance moves, e.g. when a
+// top-up is confirmed by the gateway webhook after the checkout has closed.
+export function useWalletUpdates(studentId: string | undefined, onChange: () => void) {
+  const onChangeRef = useRef(onChange);
+  onChangeRef.current = onChange;
+
+  useEffect(() => {
+    if (!studentId) return;
+
+    const channel = supabase
+      .channel(`student-wallet:${studentId}`)
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'wallets', filter: `student_id=eq.${studentId}` },
+        () => onChangeRef.current(),
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [studentId]);
+}
@@ -14,298 +14,1835 @@ export type Database = {
   }
   public: {
     Tables: {
-      cart_items: {
+      admin_invites: {
         Row: {
+          accepted_at: string | null
+          accepted_by: string | null
           created_at: string
+          email: string
+          expires_at: string
           id: string
-          menu_item_id: string
-          quantity: number
-          student_id: string
-          updated_at: string
+          invited_by: string
+          token: string
         }
         Insert: {
+          accepted_at?: string | null
+          accepted_by?: string | null
           created_at?: string
+          email: string
+          expires_at?: string
           id?: string
-          menu_item_id: string
-          quantity?: number
-          student_id: string
-          updated_at?: string
+          invited_by: string
+          token?: string
         }
         Update: {
+          accepted_at?: string | null
+          accepted_by?: string | null
           created_at?: string
+          email?: string
+          expires_at?: string
           id?: string
-          menu_item_id?: string
-          quantity?: number
-          student_id?: string
-          updated_at?: string
+          invited_by?: string
+          token?: string
         }
         Relationships: [
           {
-            foreignKeyName: "cart_items_menu_item_id_fkey"
-            columns: ["menu_item_id"]
+            foreignKeyName: "admin_invites_accepted_by_fkey"
+            columns: ["accepted_by"]
             isOneToOne: false
-            referencedRelation: "menu_items"
+            referencedRelation: "profiles"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "cart_items_student_id_fkey"
-            columns: ["student_id"]
+            foreignKeyName: "admin_invites_invited_by_fkey"
+            columns: ["invited_by"]
             isOneToOne: false
             referencedRelation: "profiles"
             referencedColumns: ["id"]
           },
         ]
       }
-      menu_items: {
+      cafeterias: {
         Row: {
-          category: string
+          closes_at: string
+          code: string
           created_at: string
-          created_by: string | null
-          description: string | null
           id: string
-          image_url: string | null
-          is_available: boolean | null
-          is_vegetarian: boolean | null
+          is_active: boolean
           name: string
-          price: number
+          opens_at: string
+          slot_lead_minutes: number
+          slot_max_items: number | null
+          slot_max_orders: number | null
+          slot_minutes: number
+          timezone: string
           updated_at: string
         }
         Insert: {
-          category: string
+          closes_at?: string
+          code: string
           created_at?: string
-          created_by?: string | null
-          description?: string | null
           id?: string
-          image_url?: string | null
-          is_available?: boolean | null
-          is_vegetarian?: boolean | null
+          is_active?: boolean
           name: string
-          price: number
+          opens_at?: string
+          slot_lead_minutes?: number
+          slot_max_items?: number | null
+          slot_max_orders?: number | null
+          slot_minutes?: number
+          timezone?: string
           updated_at?: string
         }
         Update: {
-          category?: string
+          closes_at?: string
+          code?: string
           created_at?: string
-          created_by?: string | null
-          description?: string | null
           id?: string
-          image_url?: string | null
-          is_available?: boolean | null
-          is_vegetarian?: boolean | null
+          is_active?: boolean
           name?: string
-          price?: number
+          opens_at?: string
+          slot_lead_minutes?: number
+          slot_max_items?: number | null
+          slot_max_orders?: number | null
+          slot_minutes?: number
+          timezone?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      cart_combos: {
+        Row: {
+          combo_id: string
+          created_at: string
+          id: string
+          menu_item_ids: string[]
+          quantity: number
+          student_id: string
+          updated_at: string
+        }
+        Insert: {
+          combo_id: string
+          created_at?: string
+          id?: string
+          menu_item_ids: string[]
+          quantity?: number
+          student_id: string
+          updated_at?: string
+        }
+        Update: {
+          combo_id?: string
+          created_at?: string
+          id?: string
+          menu_item_ids?: string[]
+          quantity?: number
+          student_id?: string
           updated_at?: string
         }
         Relationships: [
           {
-            foreignKeyName: "menu_items_created_by_fkey"
-            columns: ["created_by"]
+            foreignKeyName: "cart_combos_combo_id_fkey"
+            columns: ["combo_id"]
+            isOneToOne: false
+            referencedRelation: "combos"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "cart_combos_student_id_fkey"
+            columns: ["student_id"]
             isOneToOne: false
             referencedRelation: "profiles"
             referencedColumns: ["id"]
           },
         ]
       }
-      notifications: {
+      cart_items: {
         Row: {
           created_at: string
           id: string
-          is_important: boolean | null
-          is_read: boolean | null
-          message: string
-          related_order_id: string | null
-          title: string
-          type: string
-          user_id: string
+          menu_item_id: string
+          modifier_option_ids: string[]
+          quantity: number
+          student_id: string
+          updated_at: string
         }
         Insert: {
           created_at?: string
           id?: string
-          is_important?: boolean | null
-          is_read?: boolean | null
-          message: string
-          related_order_id?: string | null
-          title: string
-          type: string
-          user_id: string
+          menu_item_id: string
+          modifier_option_ids?: string[]
+          quantity?: number
+          student_id: string
+          updated_at?: string
         }
         Update: {
           created_at?: string
           id?: string
-          is_important?: boolean | null
-          is_read?: boolean | null
-          message?: string
-          related_order_id?: string | null
-          title?: string
-          type?: string
-          user_id?: string
+          menu_item_id?: string
+          modifier_option_ids?: string[]
+          quantity?: number
+          student_id?: string
+          updated_at?: string
         }
         Relationships: [
           {
-            foreignKeyName: "notifications_related_order_id_fkey"
-            columns: ["related_order_id"]
+            foreignKeyName: "cart_items_menu_item_id_fkey"
+            columns: ["menu_item_id"]
             isOneToOne: false
-            referencedRelation: "orders"
+            referencedRelation: "menu_items"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "notifications_user_id_fkey"
-            columns: ["user_id"]
+            foreignKeyName: "cart_items_student_id_fkey"
+            columns: ["student_id"]
             isOneToOne: false
             referencedRelation: "profiles"
             referencedColumns: ["id"]
           },
         ]
       }
-      order_items: {
+      combo_slot_items: {
         Row: {
           created_at: string
           id: string
           menu_item_id: string
-          order_id: string
-          price_at_order: number
-          quantity: number
-          subtotal: number
+          price_delta: number
+          slot_id: string
         }
         Insert: {
           created_at?: string
           id?: string
           menu_item_id: string
-          order_id: string
-          price_at_order: number
-          quantity?: number
-          subtotal: number
+          price_delta?: number
+          slot_id: string
         }
         Update: {
           created_at?: string
           id?: string
           menu_item_id?: string
-          order_id?: string
-          price_at_order?: number
-          quantity?: number
-          subtotal?: number
+          price_delta?: number
+          slot_id?: string
         }
         Relationships: [
           {
-            foreignKeyName: "order_items_menu_item_id_fkey"
+            foreignKeyName: "combo_slot_items_menu_item_id_fkey"
             columns: ["menu_item_id"]
             isOneToOne: false
             referencedRelation: "menu_items"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "order_items_order_id_fkey"
-            columns: ["order_id"]
+            foreignKeyName: "combo_slot_items_slot_id_fkey"
+            columns: ["slot_id"]
             isOneToOne: false
-            referencedRelation: "orders"
+            referencedRelation: "combo_slots"
             referencedColumns: ["id"]
           },
         ]
       }
-      orders: {
+      combo_slots: {
         Row: {
-          completed_at: string | null
+          combo_id: string
           created_at: string
           id: string
-          notes: string | null
-          order_number: string
-          payment_method: string
-          payment_status: string | null
-          status: string
-          student_id: string
-          subtotal: number
-          tax: number
-          total: number
-          updated_at: string
+          name: string
+          sort_order: number
         }
         Insert: {
-          completed_at?: string | null
+          combo_id: string
           created_at?: string
           id?: string
-          notes?: string | null
-          order_number: string
-          payment_method: string
-          payment_status?: string | null
-          status?: string
-          student_id: string
-          subtotal: number
-          tax: number
-          total: number
-          updated_at?: string
+          name: string
+          sort_order?: number
         }
         Update: {
-          completed_at?: string | null
+          combo_id?: string
           created_at?: string
           id?: string
-          notes?: string | null
-          order_number?: string
-          payment_method?: string
-          payment_status?: string | null
-          status?: string
-          student_id?: string
-          subtotal?: number
-          tax?: number
-          total?: number
-          updated_at?: string
+          name?: string
+          sort_order?: number
         }
         Relationships: [
           {
-            foreignKeyName: "orders_student_id_fkey"
-            columns: ["student_id"]
+            foreignKeyName: "combo_slots_combo_id_fkey"
+            columns: ["combo_id"]
             isOneToOne: false
-            referencedRelation: "profiles"
+            referencedRelation: "combos"
             referencedColumns: ["id"]
           },
         ]
       }
-      profiles: {
+      combos: {
         Row: {
-          avatar_url: string | null
-          cafeteria_name: string | null
           created_at: string
-          department: string | null
-          email: string
-          full_name: string
+          description: string | null
           id: string
-          role: string
-          staff_id: string | null
-          student_id: string | null
+          image_url: string | null
+          is_available: boolean
+          name: string
+          price: number
           updated_at: string
         }
         Insert: {
-          avatar_url?: string | null
-          cafeteria_name?: string | null
           created_at?: string
-          department?: string | null
-          email: string
-          full_name: string
+          description?: string | null
           id?: string
-          role: string
-          staff_id?: string | null
-          student_id?: string | null
+          image_url?: string | null
+          is_available?: boolean
+          name: string
+          price: number
           updated_at?: string
         }
         Update: {
-          avatar_url?: string | null
-          cafeteria_name?: string | null
           created_at?: string
-          department?: string | null
-          email?: string
-          full_name?: string
+          description?: string | null
           id?: string
-          role?: string
-          staff_id?: string | null
-          student_id?: string | null
+          image_url?: string | null
+          is_available?: boolean
+          name?: string
+          price?: number
           updated_at?: string
         }
         Relationships: []
       }
-    }
-    Views: {
-      [_ in never]: never
-    }
-    Functions: {
-      [_ in never]: never
+      ingredients: {
+        Row: {
+          created_at: string
+          id: string
+          name: string
+          on_hand: number
+          reorder_level: number
+          unit: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          name: string
+          on_hand?: number
+          reorder_level?: number
+          unit: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          name?: string
+          on_hand?: number
+          reorder_level?: number
+          unit?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      loyalty_ledger: {
+        Row: {
+          created_at: string
+          id: string
+          kind: string
+          order_id: string | null
+          points: number
+          reverses_id: string | null
+          student_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          kind: string
+          order_id?: string | null
+          points: number
+          reverses_id?: string | null
+          student_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          kind?: string
+          order_id?: string | null
+          points?: number
+          reverses_id?: string | null
+          student_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "loyalty_ledger_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "loyalty_ledger_reverses_id_fkey"
+            columns: ["reverses_id"]
+            isOneToOne: true
+            referencedRelation: "loyalty_ledger"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "loyalty_ledger_student_id_fkey"
+            columns: ["student_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      loyalty_tiers: {
+        Row: {
+          created_at: string
+          id: string
+          min_spend: number
+          name: string
+          points_per_rupee: number
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          min_spend: number
+          name: string
+          points_per_rupee: number
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          min_spend?: number
+          name?: string
+          points_per_rupee?: number
+        }
+        Relationships: []
+      }
+      menu_items: {
+        Row: {
+          category: string
+          created_at: string
+          created_by: string | null
+          daily_stock: number | null
+          description: string | null
+          id: string
+          image_url: string | null
+          is_available: boolean | null
+          is_vegetarian: boolean | null
+          low_stock_threshold: number
+          name: string
+          price: number
+          sold_out_at: string | null
+          stock_quantity: number | null
+          stock_reset_at: string
+          updated_at: string
+        }
+        Insert: {
+          category: string
+          created_at?: string
+          created_by?: string | null
+          daily_stock?: number | null
+          description?: string | null
+          id?: string
+          image_url?: string | null
+          is_available?: boolean | null
+          is_vegetarian?: boolean | null
+          low_stock_threshold?: number
+          name: string
+          price: number
+          sold_out_at?: string | null
+          stock_quantity?: number | null
+          stock_reset_at?: string
+          updated_at?: string
+        }
+        Update: {
+          category?: string
+          created_at?: string
+          created_by?: string | null
+          daily_stock?: number | null
+          description?: string | null
+          id?: string
+          image_url?: string | null
+          is_available?: boolean | null
+          is_vegetarian?: boolean | null
+          low_stock_threshold?: number
+          name?: string
+          price?: number
+          sold_out_at?: string | null
+          stock_quantity?: number | null
+          stock_reset_at?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "menu_items_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      modifier_groups: {
+        Row: {
+          created_at: string
+          id: string
+          max_select: number | null
+          menu_item_id: string
+          min_select: number
+          name: string
+          sort_order: number
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          max_select?: number | null
+          menu_item_id: string
+          min_select?: number
+          name: string
+          sort_order?: number
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          max_select?: number | null
+          menu_item_id?: string
+          min_select?: number
+          name?: string
+          sort_order?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "modifier_groups_menu_item_id_fkey"
+            columns: ["menu_item_id"]
+            isOneToOne: false
+            referencedRelation: "menu_items"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      modifier_options: {
+        Row: {
+          created_at: string
+          group_id: string
+          id: string
+          is_available: boolean
+          name: string
+          price_delta: number
+          sort_order: number
+        }
+        Insert: {
+          created_at?: string
+          group_id: string
+          id?: string
+          is_available?: boolean
+          name: string
+          price_delta?: number
+          sort_order?: number
+        }
+        Update: {
+          created_at?: string
+          group_id?: string
+          id?: string
+          is_available?: boolean
+          name?: string
+          price_delta?: number
+          sort_order?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "modifier_options_group_id_fkey"
+            columns: ["group_id"]
+            isOneToOne: false
+            referencedRelation: "modifier_groups"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      notifications: {
+        Row: {
+          created_at: string
+          id: string
+          is_important: boolean | null
+          is_read: boolean | null
+          message: string
+          related_order_id: string | null
+          title: string
+          type: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          is_important?: boolean | null
+          is_read?: boolean | null
+          message: string
+          related_order_id?: string | null
+          title: string
+          type: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          is_important?: boolean | null
+          is_read?: boolean | null
+          message?: string
+          related_order_id?: string | null
+          title?: string
+          type?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "notifications_related_order_id_fkey"
+            columns: ["related_order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "notifications_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      order_combos: {
+        Row: {
+          combo_id: string | null
+          created_at: string
+          id: string
+          name: string
+          order_id: string
+          price: number
+          quantity: number
+        }
+        Insert: {
+          combo_id?: string | null
+          created_at?: string
+          id?: string
+          name: string
+          order_id: string
+          price: number
+          quantity: number
+        }
+        Update: {
+          combo_id?: string | null
+          created_at?: string
+          id?: string
+          name?: string
+          order_id?: string
+          price?: number
+          quantity?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "order_combos_combo_id_fkey"
+            columns: ["combo_id"]
+            isOneToOne: false
+            referencedRelation: "combos"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "order_combos_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      order_item_modifiers: {
+        Row: {
+          created_at: string
+          group_name: string
+          id: string
+          modifier_option_id: string | null
+          option_name: string
+          order_item_id: string
+          price_delta: number
+        }
+        Insert: {
+          created_at?: string
+          group_name: string
+          id?: string
+          modifier_option_id?: string | null
+          option_name: string
+          order_item_id: string
+          price_delta?: number
+        }
+        Update: {
+          created_at?: string
+          group_name?: string
+          id?: string
+          modifier_option_id?: string | null
+          option_name?: string
+          order_item_id?: string
+          price_delta?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "order_item_modifiers_modifier_option_id_fkey"
+            columns: ["modifier_option_id"]
+            isOneToOne: false
+            referencedRelation: "modifier_options"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "order_item_modifiers_order_item_id_fkey"
+            columns: ["order_item_id"]
+            isOneToOne: false
+            referencedRelation: "order_items"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      order_items: {
+        Row: {
+          created_at: string
+          discount: number
+          id: string
+          menu_item_id: string
+          order_combo_id: string | null
+          order_id: string
+          price_at_order: number
+          quantity: number
+          subtotal: number
+          tax_name: string | null
+          tax_rate: number | null
+        }
+        Insert: {
+          created_at?: string
+          discount?: number
+          id?: string
+          menu_item_id: string
+          order_combo_id?: string | null
+          order_id: string
+          price_at_order: number
+          quantity?: number
+          subtotal: number
+          tax_name?: string | null
+          tax_rate?: number | null
+        }
+        Update: {
+          created_at?: string
+          discount?: number
+          id?: string
+          menu_item_id?: string
+          order_combo_id?: string | null
+          order_id?: string
+          price_at_order?: number
+          quantity?: number
+          subtotal?: number
+          tax_name?: string | null
+          tax_rate?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "order_items_menu_item_id_fkey"
+            columns: ["menu_item_id"]
+            isOneToOne: false
+            referencedRelation: "menu_items"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "order_items_order_combo_id_fkey"
+            columns: ["order_combo_id"]
+            isOneToOne: false
+            referencedRelation: "order_combos"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "order_items_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      order_number_counters: {
+        Row: {
+          business_date: string
+          cafeteria_id: string
+          last_value: number
+        }
+        Insert: {
+          business_date: string
+          cafeteria_id: string
+          last_value?: number
+        }
+        Update: {
+          business_date?: string
+          cafeteria_id?: string
+          last_value?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "order_number_counters_cafeteria_id_fkey"
+            columns: ["cafeteria_id"]
+            isOneToOne: false
+            referencedRelation: "cafeterias"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      order_status_events: {
+        Row: {
+          changed_by: string | null
+          created_at: string
+          from_status: string | null
+          id: string
+          order_id: string
+          to_status: string
+        }
+        Insert: {
+          changed_by?: string | null
+          created_at?: string
+          from_status?: string | null
+          id?: string
+          order_id: string
+          to_status: string
+        }
+        Update: {
+          changed_by?: string | null
+          created_at?: string
+          from_status?: string | null
+          id?: string
+          order_id?: string
+          to_status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "order_status_events_changed_by_fkey"
+            columns: ["changed_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "order_status_events_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      order_status_transitions: {
+        Row: {
+          from_status: string
+          to_status: string
+        }
+        Insert: {
+          from_status: string
+          to_status: string
+        }
+        Update: {
+          from_status?: string
+          to_status?: string
+        }
+        Relationships: []
+      }
+      orders: {
+        Row: {
+          business_date: string
+          cafeteria_id: string
+          completed_at: string | null
+          created_at: string
+          discount: number
+          id: string
+          notes: string | null
+          order_number: string
+          payment_method: string
+          payment_status: string | null
+          pickup_at: string | null
+          points_redeemed: number
+          promotion_id: string | null
+          refund_reason: string | null
+          refunded_at: string | null
+          status: string
+          student_id: string
+          subtotal: number
+          tax: number
+          total: number
+          updated_at: string
+        }
+        Insert: {
+          business_date?: string
+          cafeteria_id: string
+          completed_at?: string | null
+          created_at?: string
+          discount?: number
+          id?: string
+          notes?: string | null
+          order_number: string
+          payment_method: string
+          payment_status?: string | null
+          pickup_at?: string | null
+          points_redeemed?: number
+          promotion_id?: string | null
+          refund_reason?: string | null
+          refunded_at?: string | null
+          status?: string
+          student_id: string
+          subtotal: number
+          tax: number
+          total: number
+          updated_at?: string
+        }
+        Update: {
+          business_date?: string
+          cafeteria_id?: string
+          completed_at?: string | null
+          created_at?: string
+          discount?: number
+          id?: string
+          notes?: string | null
+          order_number?: string
+          payment_method?: string
+          payment_status?: string | null
+          pickup_at?: string | null
+          points_redeemed?: number
+          promotion_id?: string | null
+          refund_reason?: string | null
+          refunded_at?: string | null
+          status?: string
+          student_id?: string
+          subtotal?: number
+          tax?: number
+          total?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "orders_cafeteria_id_fkey"
+            columns: ["cafeteria_id"]
+            isOneToOne: false
+            referencedRelation: "cafeterias"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "orders_promotion_id_fkey"
+            columns: ["promotion_id"]
+            isOneToOne: false
+            referencedRelation: "promotions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "orders_student_id_fkey"
+            columns: ["student_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      payments: {
+        Row: {
+          amount: number
+          created_at: string
+          currency: string
+          id: string
+          order_id: string | null
+          provider: string
+          provider_order_id: string
+          provider_payment_id: string | null
+          status: string
+          top_up_id: string | null
+          updated_at: string
+          webhook_payload: Json | null
+        }
+        Insert: {
+          amount: number
+          created_at?: string
+          currency?: string
+          id?: string
+          order_id?: string | null
+          provider: string
+          provider_order_id: string
+          provider_payment_id?: string | null
+          status?: string
+          top_up_id?: string | null
+          updated_at?: string
+          webhook_payload?: Json | null
+        }
+        Update: {
+          amount?: number
+          created_at?: string
+          currency?: string
+          id?: string
+          order_id?: string | null
+          provider?: string
+          provider_order_id?: string
+          provider_payment_id?: string | null
+          status?: string
+          top_up_id?: string | null
+          updated_at?: string
+          webhook_payload?: Json | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "payments_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "payments_top_up_id_fkey"
+            columns: ["top_up_id"]
+            isOneToOne: false
+            referencedRelation: "wallet_top_ups"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      profiles: {
+        Row: {
+          avatar_url: string | null
+          cafeteria_name: string | null
+          created_at: string
+          department: string | null
+          email: string
+          full_name: string
+          id: string
+          role: string
+          staff_id: string | null
+          student_id: string | null
+          updated_at: string
+        }
+        Insert: {
+          avatar_url?: string | null
+          cafeteria_name?: string | null
+          created_at?: string
+          department?: string | null
+          email: string
+          full_name: string
+          id?: string
+          role: string
+          staff_id?: string | null
+          student_id?: string | null
+          updated_at?: string
+        }
+        Update: {
+          avatar_url?: string | null
+          cafeteria_name?: string | null
+          created_at?: string
+          department?: string | null
+          email?: string
+          full_name?: string
+          id?: string
+          role?: string
+          staff_id?: string | null
+          student_id?: string | null
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      promotion_redemptions: {
+        Row: {
+          amount: number
+          created_at: string
+          id: string
+          order_id: string
+          promotion_id: string
+          student_id: string
+        }
+        Insert: {
+          amount: number
+          created_at?: string
+          id?: string
+          order_id: string
+          promotion_id: string
+          student_id: string
+        }
+        Update: {
+          amount?: number
+          created_at?: string
+          id?: string
+          order_id?: string
+          promotion_id?: string
+          student_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "promotion_redemptions_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: true
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "promotion_redemptions_promotion_id_fkey"
+            columns: ["promotion_id"]
+            isOneToOne: false
+            referencedRelation: "promotions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "promotion_redemptions_student_id_fkey"
+            columns: ["student_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      promotions: {
+        Row: {
+          category: string | null
+          code: string | null
+          created_at: string
+          created_by: string | null
+          daily_end: string | null
+          daily_start: string | null
+          ends_at: string | null
+          id: string
+          is_active: boolean
+          kind: string
+          max_discount: number | null
+          menu_item_id: string | null
+          min_order: number
+          name: string
+          per_user_limit: number | null
+          starts_at: string | null
+          timezone: string
+          updated_at: string
+          usage_limit: number | null
+          value: number
+          weekdays: number[] | null
+        }
+        Insert: {
+          category?: string | null
+          code?: string | null
+          created_at?: string
+          created_by?: string | null
+          daily_end?: string | null
+          daily_start?: string | null
+          ends_at?: string | null
+          id?: string
+          is_active?: boolean
+          kind: string
+          max_discount?: number | null
+          menu_item_id?: string | null
+          min_order?: number
+          name: string
+          per_user_limit?: number | null
+          starts_at?: string | null
+          timezone?: string
+          updated_at?: string
+          usage_limit?: number | null
+          value: number
+          weekdays?: number[] | null
+        }
+        Update: {
+          category?: string | null
+          code?: string | null
+          created_at?: string
+          created_by?: string | null
+          daily_end?: string | null
+          daily_start?: string | null
+          ends_at?: string | null
+          id?: string
+          is_active?: boolean
+          kind?: string
+          max_discount?: number | null
+          menu_item_id?: string | null
+          min_order?: number
+          name?: string
+          per_user_limit?: number | null
+          starts_at?: string | null
+          timezone?: string
+          updated_at?: string
+          usage_limit?: number | null
+          value?: number
+          weekdays?: number[] | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "promotions_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "promotions_menu_item_id_fkey"
+            columns: ["menu_item_id"]
+            isOneToOne: false
+            referencedRelation: "menu_items"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      recipes: {
+        Row: {
+          created_at: string
+          id: string
+          ingredient_id: string
+          menu_item_id: string
+          quantity: number
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          ingredient_id: string
+          menu_item_id: string
+          quantity: number
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          ingredient_id?: string
+          menu_item_id?: string
+          quantity?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "recipes_ingredient_id_fkey"
+            columns: ["ingredient_id"]
+            isOneToOne: false
+            referencedRelation: "ingredients"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "recipes_menu_item_id_fkey"
+            columns: ["menu_item_id"]
+            isOneToOne: false
+            referencedRelation: "menu_items"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      stock_movements: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          id: string
+          ingredient_id: string
+          kind: string
+          note: string | null
+          order_id: string | null
+          quantity: number
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          ingredient_id: string
+          kind: string
+          note?: string | null
+          order_id?: string | null
+          quantity: number
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          ingredient_id?: string
+          kind?: string
+          note?: string | null
+          order_id?: string | null
+          quantity?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "stock_movements_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stock_movements_ingredient_id_fkey"
+            columns: ["ingredient_id"]
+            isOneToOne: false
+            referencedRelation: "ingredients"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stock_movements_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      tax_rates: {
+        Row: {
+          category: string | null
+          created_at: string
+          id: string
+          is_active: boolean
+          name: string
+          rate: number
+          updated_at: string
+        }
+        Insert: {
+          category?: string | null
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          name: string
+          rate: number
+          updated_at?: string
+        }
+        Update: {
+          category?: string | null
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          name?: string
+          rate?: number
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      wallet_entries: {
+        Row: {
+          account: string
+          amount: number
+          balance_after: number | null
+          created_at: string
+          id: string
+          transaction_id: string
+          wallet_id: string | null
+        }
+        Insert: {
+          account: string
+          amount: number
+          balance_after?: number | null
+          created_at?: string
+          id?: string
+          transaction_id: string
+          wallet_id?: string | null
+        }
+        Update: {
+          account?: string
+          amount?: number
+          balance_after?: number | null
+          created_at?: string
+          id?: string
+          transaction_id?: string
+          wallet_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "wallet_entries_transaction_id_fkey"
+            columns: ["transaction_id"]
+            isOneToOne: false
+            referencedRelation: "wallet_transactions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "wallet_entries_wallet_id_fkey"
+            columns: ["wallet_id"]
+            isOneToOne: false
+            referencedRelation: "wallets"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      wallet_top_ups: {
+        Row: {
+          amount: number
+          created_at: string
+          id: string
+          status: string
+          updated_at: string
+          wallet_id: string
+        }
+        Insert: {
+          amount: number
+          created_at?: string
+          id?: string
+          status?: string
+          updated_at?: string
+          wallet_id: string
+        }
+        Update: {
+          amount?: number
+          created_at?: string
+          id?: string
+          status?: string
+          updated_at?: string
+          wallet_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "wallet_top_ups_wallet_id_fkey"
+            columns: ["wallet_id"]
+            isOneToOne: false
+            referencedRelation: "wallets"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      wallet_transactions: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          description: string
+          id: string
+          kind: string
+          order_id: string | null
+          top_up_id: string | null
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          description: string
+          id?: string
+          kind: string
+          order_id?: string | null
+          top_up_id?: string | null
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          description?: string
+          id?: string
+          kind?: string
+          order_id?: string | null
+          top_up_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "wallet_transactions_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "wallet_transactions_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "wallet_transactions_top_up_id_fkey"
+            columns: ["top_up_id"]
+            isOneToOne: true
+            referencedRelation: "wallet_top_ups"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      wallets: {
+        Row: {
+          balance: number
+          created_at: string
+          id: string
+          student_id: string
+          updated_at: string
+        }
+        Insert: {
+          balance?: number
+          created_at?: string
+          id?: string
+          student_id: string
+          updated_at?: string
+        }
+        Update: {
+          balance?: number
+          created_at?: string
+          id?: string
+          student_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "wallets_student_id_fkey"
+            columns: ["student_id"]
+            isOneToOne: true
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+    }
+    Views: {
+      report_orders: {
+        Row: {
+          business_date: string | null
+          cafeteria_id: string | null
+          id: string | null
+          is_cancelled: boolean | null
+          local_created_at: string | null
+          total: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "orders_cafeteria_id_fkey"
+            columns: ["cafeteria_id"]
+            isOneToOne: false
+            referencedRelation: "cafeterias"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+    }
+    Functions: {
+      add_combo_to_cart: {
+        Args: {
+          _combo_id: string
+          _menu_item_ids: string[]
+          _quantity?: number
+        }
+        Returns: string
+      }
+      add_to_cart: {
+        Args: {
+          _menu_item_id: string
+          _modifier_option_ids?: string[]
+          _quantity?: number
+        }
+        Returns: string
+      }
+      adjust_wallet: {
+        Args: { _amount: number; _reason: string; _student_id: string }
+        Returns: string
+      }
+      admin_dashboard_stats: {
+        Args: never
+        Returns: {
+          active_orders: number
+          menu_items: number
+          total_orders: number
+          total_revenue: number
+        }[]
+      }
+      cart_combo_lines: {
+        Args: { _student_id: string }
+        Returns: {
+          cart_combo_id: string
+          category: string
+          combo_id: string
+          combo_name: string
+          combo_price: number
+          menu_item_id: string
+          quantity: number
+          unit_price: number
+        }[]
+      }
+      cart_line_prices: {
+        Args: { _student_id: string }
+        Returns: {
+          cart_item_id: string
+          category: string
+          menu_item_id: string
+          modifier_option_ids: string[]
+          quantity: number
+          unit_price: number
+        }[]
+      }
+      cart_priced_lines: {
+        Args: { _student_id: string }
+        Returns: {
+          category: string
+          line_subtotal: number
+          menu_item_id: string
+        }[]
+      }
+      cart_promotion: {
+        Args: { _coupon_code?: string; _student_id: string }
+        Returns: {
+          coupon_error: string
+          discount: number
+          eligible_subtotal: number
+          promotion_id: string
+          promotion_name: string
+        }[]
+      }
+      cart_promotion_discount: {
+        Args: {
+          _promotion: Database["public"]["Tables"]["promotions"]["Row"]
+          _student_id: string
+        }
+        Returns: {
+          discount: number
+          eligible_subtotal: number
+        }[]
+      }
+      cart_totals: {
+        Args: {
+          _coupon_code?: string
+          _redeem_points?: number
+          _student_id: string
+        }
+        Returns: {
+          coupon_error: string
+          discount: number
+          points_redeemed: number
+          promotion_id: string
+          promotion_name: string
+          subtotal: number
+          tax: number
+          total: number
+        }[]
+      }
+      check_combo_selection: {
+        Args: { _combo_id: string; _menu_item_ids: string[] }
+        Returns: undefined
+      }
+      check_modifier_selection: {
+        Args: { _menu_item_id: string; _option_ids: string[] }
+        Returns: undefined
+      }
+      combo_components: {
+        Args: { _combo_id: string; _menu_item_ids: string[] }
+        Returns: {
+          category: string
+          menu_item_id: string
+          price_delta: number
+          regular_price: number
+          slot_id: string
+          slot_name: string
+          slot_position: number
+        }[]
+      }
+      confirm_payment: {
+        Args: {
+          _payload?: Json
+          _provider: string
+          _provider_order_id: string
+          _provider_payment_id: string
+          _status: string
+        }
+        Returns: string
+      }
+      create_wallet_top_up: {
+        Args: { _amount: number }
+        Returns: string
+      }
+      ensure_wallet: {
+        Args: { _student_id: string }
+        Returns: string
+      }
+      expire_unpaid_orders: {
+        Args: never
+        Returns: number
+      }
+      export_order_lines: {
+        Args: { _from: string; _to: string }
+        Returns: {
+          business_date: string
+          cafeteria: string
+          item_name: string
+          line_total: number
+          order_number: string
+          order_discount: number
+          order_subtotal: number
+          order_tax: number
+          order_total: number
+          payment_method: string
+          placed_at: string
+          quantity: number
+          status: string
+          unit_price: number
+        }[]
+      }
+      ingredient_usage_report: {
+        Args: { _from: string; _to: string }
+        Returns: {
+          actual_usage: number
+          delivered: number
+          ingredient_id: string
+          name: string
+          on_hand: number
+          theoretical_usage: number
+          unit: string
+          variance: number
+          wasted: number
+        }[]
+      }
+      log_stock_movement: {
+        Args: {
+          _ingredient_id: string
+          _kind: string
+          _note?: string
+          _quantity: number
+        }
+        Returns: string
+      }
+      lookup_admin_invite: {
+        Args: { _token: string }
+        Returns: {
+          email: string
+          expires_at: string
+        }[]
+      }
+      loyalty_balance: {
+        Args: { _student_id: string }
+        Returns: number
+      }
+      loyalty_rolling_spend: {
+        Args: { _student_id: string }
+        Returns: number
+      }
+      loyalty_summary: {
+        Args: never
+        Returns: {
+          balance: number
+          next_tier_name: string
+          next_tier_spend: number
+          points_per_rupee: number
+          rolling_spend: number
+          tier_name: string
+        }[]
+      }
+      loyalty_tier: {
+        Args: { _student_id: string }
+        Returns: {
+          created_at: string
+          id: string
+          min_spend: number
+          name: string
+          points_per_rupee: number
+        }
+      }
+      pickup_slots: {
+        Args: { _cafeteria_id: string; _date?: string }
+        Returns: {
+          ends_at: string
+          is_available: boolean
+          item_count: number
+          order_count: number
+          starts_at: string
+        }[]
+      }
+      place_order: {
+        Args: {
+          _cafeteria_id?: string
+          _coupon_code?: string
+          _expected_discount?: number
+          _expected_subtotal: number
+          _expected_tax: number
+          _expected_total: number
+          _notes?: string
+          _payment_method: string
+          _pickup_at?: string
+          _redeem_points?: number
+        }
+        Returns: string
+      }
+      post_wallet_transaction: {
+        Args: {
+          _account: string
+          _amount: number
+          _description: string
+          _kind: string
+          _order_id?: string
+          _top_up_id?: string
+          _wallet_id: string
+        }
+        Returns: string
+      }
+      promotion_applies_to: {
+        Args: {
+          _category: string
+          _menu_item_id: string
+          _promotion: Database["public"]["Tables"]["promotions"]["Row"]
+        }
+        Returns: boolean
+      }
+      promotion_unavailable_reason: {
+        Args: {
+          _at: string
+          _promotion: Database["public"]["Tables"]["promotions"]["Row"]
+          _student_id: string
+        }
+        Returns: string
+      }
+      quote_cart: {
+        Args: { _coupon_code?: string; _redeem_points?: number }
+        Returns: {
+          coupon_error: string
+          discount: number
+          points_redeemed: number
+          promotion_id: string
+          promotion_name: string
+          subtotal: number
+          tax: number
+          total: number
+        }[]
+      }
+      refund_order: {
+        Args: { _order_id: string; _reason: string }
+        Returns: undefined
+      }
+      restock_menu_items: {
+        Args: { _menu_item_id?: string }
+        Returns: undefined
+      }
+      sales_category_mix: {
+        Args: { _from: string; _to: string }
+        Returns: {
+          category: string
+          quantity: number
+          revenue: number
+        }[]
+      }
+      sales_daily_totals: {
+        Args: { _from: string; _to: string }
+        Returns: {
+          business_date: string
+          cancelled_count: number
+          discount: number
+          order_count: number
+          subtotal: number
+          tax: number
+          total: number
+        }[]
+      }
+      sales_peak_hours: {
+        Args: { _from: string; _to: string }
+        Returns: {
+          hour: number
+          order_count: number
+          weekday: number
+        }[]
+      }
+      sales_revenue: {
+        Args: { _bucket?: string; _from: string; _to: string }
+        Returns: {
+          average_ticket: number
+          order_count: number
+          period: string
+          revenue: number
+        }[]
+      }
+      sales_summary: {
+        Args: { _from: string; _to: string }
+        Returns: {
+          average_ticket: number
+          cancellation_rate: number
+          cancelled_count: number
+          order_count: number
+          revenue: number
+        }[]
+      }
+      sales_top_items: {
+        Args: { _from: string; _limit?: number; _to: string }
+        Returns: {
+          category: string
+          menu_item_id: string
+          name: string
+          quantity: number
+          revenue: number
+        }[]
+      }
+      spread_order_discount: {
+        Args: {
+          _amount: number
+          _order_id: string
+          _promotion_id?: string
+        }
+        Returns: undefined
+      }
+      unpaid_order_timeout: {
+        Args: never
+        Returns: unknown
+      }
     }
     Enums: {
       [_ in never]: never
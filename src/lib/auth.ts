@@ -1,5 +1,5 @@
 import { supabase } from "@/integrations/supabase/client";
-import type { Session, User } from "@supabase/supabase-js";
+import type { AuthChangeEvent, Session, User } from "@supabase/supabase-js";
 
 export type UserRole = 'student' | 'admin';
 
@@ -17,12 +17,14 @@ export interface Profile {
   updated_at: string;
 }
 
+// The database decides the role: a valid invite_token for this email makes an
+// admin, anything else makes a student.
 export const signUp = async (
   email: string,
   password: string,
   fullName: string,
-  role: UserRole,
-  additionalData?: { student_id?: string; department?: string; staff_id?: string; cafeteria_name?: string }
+  additionalData?: { student_id?: string; department?: string; staff_id?: string; cafeteria_name?: string },
+  inviteToken?: string
 ) => {
   const redirectUrl = `${window.location.origin}/`;
   
@@ -33,8 +35,8 @@ export const signUp = async (
       emailRedirectTo: redirectUrl,
       data: {
         full_name: fullName,
-        role,
         ...additionalData,
+        ...(inviteToken ? { invite_token: inviteToken } : {}),
       },
     },
   });
@@ -42,6 +44,13 @@ export const signUp = async (
   return { data, error };
 };
 
+export const lookupAdminInvite = async (token: string) => {
+  const { data, error } = await supabase.rpc('lookup_admin_invite', { _token: token });
+  return { invite: data?.[0] ?? null, error };
+};
+
+export const getAdminInviteUrl = (token: string) => `${window.location.origin}/auth?invite=${token}`;
+
 export const signIn = async (email: string, password: string) => {
   const { data, error } = await supabase.auth.signInWithPassword({
     email,
@@ -66,11 +75,58 @@ export const getCurrentProfile = async (): Promise<Profile | null> => {
   
   if (!user) return null;
 
+  return getProfile(user.id);
+};
+
+export const getProfile = async (userId: string): Promise<Profile | null> => {
   const { data: profile } = await supabase
     .from('profiles')
     .select('*')
-    .eq('id', user.id)
+    .eq('id', userId)
     .single();
 
   return profile as Profile | null;
 };
+
+export const getHomePath = (role: UserRole) => (role === 'admin' ? '/admin' : '/student');
+
+// Also fires for sign-in and sign-out in other tabs, which supabase-js relays over a BroadcastChannel
+export const onAuthChange = (callback: (event: AuthChangeEvent, session: Session | null) => void) => {
+  const { data } = supabase.auth.onAuthStateChange(callback);
+  return () => data.subscription.unsubscribe();
+};
+
+export type ProfileUpdate = Partial<Pick<Profile, 'full_name' | 'department' | 'cafeteria_name' | 'avatar_url'>>;
+
+// Which fields a role may change is enforced by the validate_profile_update trigger
+export const updateProfile = async (userId: string, updates: ProfileUpdate) => {
+  const { data, error } = await supabase
+    .from('profiles')
+    .update(updates)
+    .eq('id', userId)
+    .select()
+    .single();
+
+  return { profile: data as Profile | null, error };
+};
+
+export const uploadAvatar = async (userId: string, file: File) => {
+  const extension = file.name.split('.').pop()?.toLowerCase() ?? 'jpg';
+  const path = `${userId}/${Date.now()}.${extension}`;
+
+  const { error } = await supabase.storage
+    .from('avatars')
+    .upload(path, file, { contentType: file.type, upsert: true });
+
+  if (error) {
+    return { url: null, error };
+  }
+
+  const { data } = supabase.storage.from('avatars').getPublicUrl(path);
+  return { url: data.publicUrl, error: null };
+};
+
+export const updatePassword = async (password: string) => {
+  const { error } = await supabase.auth.updateUser({ password });
+  return { error };
+};
@@ -0,0 +1,110 @@
+import { describe, expect, it } from 'vitest';
+import {
+  dailySalesTable,
+  orderLinesTable,
+  taxSummaryTable,
+  toCsv,
+  toPrintableHtml,
+  type DailyTotals,
+  type OrderLine,
+} from './exports';
+
+const lines: OrderLine[] = [
+  {
+    business_date: '2025-11-03',
+    order_number: 'A-001',
+    placed_at: '2025-11-03T09:15:00+05:30',
+    cafeteria: 'Main Campus Cafeteria',
+    status: 'completed',
+    payment_method: 'upi',
+    item_name: 'Masala Dosa',
+    quantity: 2,
+    unit_price: 60,
+    line_total: 120,
+    order_subtotal: 170,
+    order_discount: 17,
+    order_tax: 7.65,
+    order_total: 160.65,
+  },
+  {
+    business_date: '2025-11-03',
+    order_number: 'A-001',
+    placed_at: '2025-11-03T09:15:00+05:30',
+    cafeteria: 'Main Campus Cafeteria',
+    status: 'completed',
+    payment_method: 'upi',
+    item_name: 'Tea, "special"\nwith ginger',
+    quantity: 1,
+    unit_price: 50,
+    line_total: 50,
+    order_subtotal: 170,
+    order_discount: 17,
+    order_tax: 7.65,
+    order_total: 160.65,
+  },
+];
+
+const days: DailyTotals[] = [
+  { business_date: '2025-11-03', order_count: 12, cancelled_count: 1, subtotal: 1450.5, discount: 50, tax: 70.03, total: 1470.53 },
+  { business_date: '2025-11-04', order_count: 9, cancelled_count: 0, subtotal: 980, discount: 0, tax: 49, total: 1029 },
+];
+
+describe('toCsv', () => {
+  it('quotes fields with commas, quotes and line breaks', () => {
+    const csv = toCsv(orderLinesTable(lines));
+
+    expect(csv).toContain(',"Tea, ""special""\nwith ginger",');
+    expect(csv).toMatchSnapshot();
+  });
+
+  it('ends every line, including the totals row, with CRLF', () => {
+    const csv = toCsv(dailySalesTable(days));
+
+    expect(csv.split('\r\n')).toEqual([
+      'Business Date,Orders,Cancelled,Subtotal,Discount,Tax,Total',
+      '2025-11-03,12,1,1450.50,50.00,70.03,1470.53',
+      '2025-11-04,9,0,980.00,0.00,49.00,1029.00',
+      'Total,21,1,2430.50,50.00,119.03,2499.53',
+      '',
+    ]);
+  });
+
+  it('writes only the header for an empty report', () => {
+    expect(toCsv(orderLinesTable([]))).toMatchSnapshot();
+  });
+});
+
+describe('report tables', () => {
+  it('totals the daily sales', () => {
+    expect(dailySalesTable(days).totals).toEqual(['Total', 21, 1, '2430.50', '50.00', '119.03', '2499.53']);
+  });
+
+  it('takes discounts off the taxable value in the GST summary', () => {
+    expect(toCsv(taxSummaryTable(days))).toMatchSnapshot();
+  });
+
+  it('leaves the rate blank when nothing was taxable', () => {
+    const table = taxSummaryTable([{ ...days[1], subtotal: 0, tax: 0, total: 0 }]);
+
+    expect(table.totals).toEqual(['Total', '0.00', '0.00', '', '0.00']);
+  });
+
+  it('has no totals row for order lines', () => {
+    expect(orderLinesTable(lines).totals).toBeUndefined();
+  });
+});
+
+describe('toPrintableHtml', () => {
+  it('lays out a report with its totals', () => {
+    expect(toPrintableHtml(dailySalesTable(days), '3 Nov 2025 – 4 Nov 2025')).toMatchSnapshot();
+  });
+
+  it('escapes cell values and prints wide reports in landscape', () => {
+    const html = toPrintableHtml(orderLinesTable(lines), '<All cafeterias>');
+
+    expect(html).toContain('<p>&#60;All cafeterias&#62;</p>');
+    expect(html).toContain('<td>Tea, &#34;special&#34;\nwith ginger</td>');
+    expect(html).toContain('size: A4 landscape');
+    expect(html).toMatchSnapshot();
+  });
+});
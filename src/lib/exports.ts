@@ -0,0 +1,187 @@
+import type { Database } from "@/integrations/supabase/types";
+
+type Functions = Database['public']['Functions'];
+export type OrderLine = Functions['export_order_lines']['Returns'][number];
+export type DailyTotals = Functions['sales_daily_totals']['Returns'][number];
+
+export type ExportReport = 'orders' | 'daily-sales' | 'tax';
+
+type Cell = string | number;
+
+interface ExportColumn<T> {
+  header: string;
+  value: (row: T) => Cell;
+  numeric?: boolean;
+}
+
+// A report ready to be written as CSV or laid out for printing. Building one only
+// depends on its rows, so the same rows always produce byte-identical files.
+export interface ExportTable<T = unknown> {
+  title: string;
+  columns: ExportColumn<T>[];
+  rows: T[];
+  totals?: Cell[];
+}
+
+const money = (value: number) => value.toFixed(2);
+
+const sum = <T,>(rows: T[], value: (row: T) => number) => rows.reduce((total, row) => total + value(row), 0);
+
+export const orderLinesTable = (lines: OrderLine[]): ExportTable<OrderLine> => ({
+  title: 'Orders',
+  columns: [
+    { header: 'Business Date', value: (line) => line.business_date },
+    { header: 'Order Number', value: (line) => line.order_number },
+    { header: 'Placed At', value: (line) => line.placed_at },
+    { header: 'Cafeteria', value: (line) => line.cafeteria },
+    { header: 'Status', value: (line) => line.status },
+    { header: 'Payment Method', value: (line) => line.payment_method },
+    { header: 'Item', value: (line) => line.item_name },
+    { header: 'Quantity', value: (line) => line.quantity, numeric: true },
+    { header: 'Unit Price', value: (line) => money(line.unit_price), numeric: true },
+    { header: 'Line Total', value: (line) => money(line.line_total), numeric: true },
+    { header: 'Order Subtotal', value: (line) => money(line.order_subtotal), numeric: true },
+    { header: 'Order Discount', value: (line) => money(line.order_discount), numeric: true },
+    { header: 'Order Tax', value: (line) => money(line.order_tax), numeric: true },
+    { header: 'Order Total', value: (line) => money(line.order_total), numeric: true },
+  ],
+  rows: lines,
+});
+
+export const dailySalesTable = (days: DailyTotals[]): ExportTable<DailyTotals> => ({
+  title: 'Daily Sales',
+  columns: [
+    { header: 'Business Date', value: (day) => day.business_date },
+    { header: 'Orders', value: (day) => day.order_count, numeric: true },
+    { header: 'Cancelled', value: (day) => day.cancelled_count, numeric: true },
+    { header: 'Subtotal', value: (day) => money(day.subtotal), numeric: true },
+    { header: 'Discount', value: (day) => money(day.discount), numeric: true },
+    { header: 'Tax', value: (day) => money(day.tax), numeric: true },
+    { header: 'Total', value: (day) => money(day.total), numeric: true },
+  ],
+  rows: days,
+  totals: [
+    'Total',
+    sum(days, (day) => day.order_count),
+    sum(days, (day) => day.cancelled_count),
+    money(sum(days, (day) => day.subtotal)),
+    money(sum(days, (day) => day.discount)),
+    money(sum(days, (day) => day.tax)),
+    money(sum(days, (day) => day.total)),
+  ],
+});
+
+// Orders only store the tax amount, so the rate shown is tax over taxable value
+const effectiveRate = (taxable: number, tax: number) => (taxable > 0 ? `${((tax / taxable) * 100).toFixed(2)}%` : '');
+
+// Tax is charged on what the student paid, so discounts come off the taxable value
+const taxableValue = (day: DailyTotals) => day.subtotal - day.discount;
+
+export const taxSummaryTable = (days: DailyTotals[]): ExportTable<DailyTotals> => {
+  const taxable = sum(days, taxableValue);
+  const tax = sum(days, (day) => day.tax);
+
+  return {
+    title: 'GST Summary',
+    columns: [
+      { header: 'Business Date', value: (day) => day.business_date },
+      { header: 'Taxable Value', value: (day) => money(taxableValue(day)), numeric: true },
+      { header: 'Tax Collected', value: (day) => money(day.tax), numeric: true },
+      { header: 'Effective Rate', value: (day) => effectiveRate(taxableValue(day), day.tax), numeric: true },
+      { header: 'Gross Sales', value: (day) => money(day.total), numeric: true },
+    ],
+    rows: days,
+    totals: ['Total', money(taxable), money(tax), effectiveRate(taxable, tax), money(sum(days, (day) => day.total))],
+  };
+};
+
+// RFC 4180: quote fields containing separators, quotes or line breaks, and end lines with CRLF
+const csvField = (value: Cell) => {
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = <T,>({ columns, rows, totals }: ExportTable<T>) => {
+  const lines = [
+    columns.map((column) => column.header),
+    ...rows.map((row) => columns.map((column) => column.value(row))),
+    ...(totals ? [totals] : []),
+  ];
+
+  return lines.map((line) => line.map(csvField).join(',')).join('\r\n') + '\r\n';
+};
+
+const escapeHtml = (value: Cell) =>
+  String(value).replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`);
+
+// A standalone A4 document for the browser's print dialog, where it can be saved as PDF
+export const toPrintableHtml = <T,>({ title, columns, rows, totals }: ExportTable<T>, subtitle: string) => {
+  const cell = (tag: 'th' | 'td', value: Cell, numeric?: boolean) =>
+    `<${tag}${numeric ? ' class="num"' : ''}>${escapeHtml(value)}</${tag}>`;
+
+  const head = columns.map((column) => cell('th', column.header, column.numeric)).join('');
+  const body = rows
+    .map((row) => `<tr>${columns.map((column) => cell('td', column.value(row), column.numeric)).join('')}</tr>`)
+    .join('\n');
+  const foot = totals
+    ? `<tfoot><tr>${totals.map((value, index) => cell('td', value, columns[index]?.numeric)).join('')}</tr></tfoot>`
+    : '';
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)} ${escapeHtml(subtitle)}</title>
+<style>
+  @page { size: A4 ${columns.length > 8 ? 'landscape' : 'portrait'}; margin: 12mm; }
+  body { font-family: system-ui, sans-serif; font-size: 10pt; color: #111; }
+  h1 { font-size: 16pt; margin: 0 0 4px; }
+  p { margin: 0 0 12px; color: #555; }
+  table { width: 100%; border-collapse: collapse; }
+  th, td { border-bottom: 1px solid #ddd; padding: 4px 6px; text-align: left; }
+  th { background: #f3f3f3; }
+  thead { display: table-header-group; }
+  tr { break-inside: avoid; }
+  tfoot td { font-weight: bold; border-top: 2px solid #111; }
+  .num { text-align: right; font-variant-numeric: tabular-nums; }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(title)}</h1>
+<p>${escapeHtml(subtitle)}</p>
+<table>
+<thead><tr>${head}</tr></thead>
+<tbody>
+${body}
+</tbody>
+${foot}
+</table>
+</body>
+</html>
+`;
+};
+
+export const downloadFile = (filename: string, content: BlobPart, type: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+// Print from a hidden frame so popup blockers do not get in the way
+export const printHtml = (html: string) => {
+  const frame = document.createElement('iframe');
+  frame.style.position = 'fixed';
+  frame.style.width = '0';
+  frame.style.height = '0';
+  frame.style.border = '0';
+  frame.srcdoc = html;
+  frame.onload = () => {
+    frame.contentWindow?.print();
+    // print() blocks until the dialog closes in most browsers
+    setTimeout(() => frame.remove(), 1000);
+  };
+  document.body.appendChild(frame);
+};
@@ -0,0 +1,23 @@
+import { supabase } from "@/integrations/supabase/client";
+
+export const MENU_CATEGORIES = ['Main Course', 'Fast Food', 'Breakfast', 'Dessert'] as const;
+
+export type MenuCategory = typeof MENU_CATEGORIES[number];
+
+const MENU_IMAGES_BUCKET = 'menu-images';
+
+export const uploadMenuImage = async (file: File) => {
+  const extension = file.name.split('.').pop()?.toLowerCase() ?? 'jpg';
+  const path = `${crypto.randomUUID()}.${extension}`;
+
+  const { error } = await supabase.storage
+    .from(MENU_IMAGES_BUCKET)
+    .upload(path, file, { contentType: file.type });
+
+  if (error) {
+    return { url: null, error };
+  }
+
+  const { data } = supabase.storage.from(MENU_IMAGES_BUCKET).getPublicUrl(path);
+  return { url: data.publicUrl, error: null };
+};
@@ -0,0 +1,69 @@
+export type OrderStatus = 'pending' | 'preparing' | 'ready' | 'completed' | 'cancelled';
+
+// Steps shown on the student progress tracker, in order
+export const ORDER_PROGRESS_STEPS: { status: OrderStatus; label: string }[] = [
+  { status: 'pending', label: 'Order placed' },
+  { status: 'preparing', label: 'Preparing' },
+  { status: 'ready', label: 'Ready for pickup' },
+];
+
+export const getStatusColor = (status: string) => {
+  switch (status) {
+    case 'pending':
+      return 'bg-yellow-500/10 text-yellow-500';
+    case 'preparing':
+      return 'bg-blue-500/10 text-blue-500';
+    case 'ready':
+      return 'bg-green-500/10 text-green-500';
+    case 'completed':
+      return 'bg-gray-500/10 text-gray-500';
+    case 'cancelled':
+      return 'bg-red-500/10 text-red-500';
+    default:
+      return 'bg-gray-500/10 text-gray-500';
+  }
+};
+
+// Orders placed before pickup slots existed have no pickup time
+export const formatPickupTime = (pickupAt: string | null) =>
+  pickupAt ? new Date(pickupAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' }) : 'ASAP';
+
+export const PAYMENT_METHOD_LABELS: Record<string, string> = {
+  upi: 'UPI',
+  card: 'Card',
+  razorpay: 'Razorpay',
+  wallet: 'Campus Wallet',
+};
+
+export const PAYMENT_STATUS_LABELS: Record<string, string> = {
+  pending: 'Awaiting payment',
+  completed: 'Paid',
+  failed: 'Payment failed',
+  refunded: 'Refunded',
+};
+
+interface TaxedLine {
+  subtotal: number;
+  discount: number;
+  tax_name: string | null;
+  tax_rate: number | null;
+}
+
+// Taxable value (after each line's share of the discount) and tax per rate charged.
+// Lines from before rates were recorded have no rate, in which case there is no
+// breakdown to show.
+export const getTaxBreakdown = (lines: TaxedLine[]) => {
+  if (lines.some((line) => line.tax_rate === null)) return null;
+
+  const groups = new Map<string, { name: string; rate: number; taxable: number; tax: number }>();
+  for (const line of lines) {
+    const key = `${line.tax_name}:${line.tax_rate}`;
+    const group = groups.get(key) ?? { name: line.tax_name ?? 'Tax', rate: line.tax_rate, taxable: 0, tax: 0 };
+    const taxable = line.subtotal - line.discount;
+    group.taxable += taxable;
+    group.tax += taxable * line.tax_rate;
+    groups.set(key, group);
+  }
+
+  return [...groups.values()].sort((a, b) => a.rate - b.rate);
+};
@@ -0,0 +1,79 @@
+import { supabase } from "@/integrations/supabase/client";
+
+export type PaymentProvider = 'razorpay' | 'mock';
+
+export interface PaymentSession {
+  payment_id: string;
+  provider: PaymentProvider;
+  provider_order_id: string;
+  order_number: string;
+  description: string;
+  amount: number;
+  checkout: Record<string, unknown>;
+}
+
+interface RazorpayCheckout {
+  open: () => void;
+  on: (event: 'payment.failed', handler: () => void) => void;
+}
+
+declare global {
+  interface Window {
+    Razorpay?: new (options: Record<string, unknown>) => RazorpayCheckout;
+  }
+}
+
+const RAZORPAY_CHECKOUT_URL = 'https://checkout.razorpay.com/v1/checkout.js';
+
+// What a gateway payment is for: an unpaid order or a wallet top-up
+export type PaymentTarget = { order_id: string } | { top_up_id: string };
+
+export const createPayment = async (target: PaymentTarget) => {
+  const { data, error } = await supabase.functions.invoke<PaymentSession>('create-payment', {
+    body: target,
+  });
+
+  return { data, error };
+};
+
+const loadRazorpayScript = () =>
+  new Promise<void>((resolve, reject) => {
+    if (window.Razorpay) {
+      resolve();
+      return;
+    }
+
+    const script = document.createElement('script');
+    script.src = RAZORPAY_CHECKOUT_URL;
+    script.onload = () => resolve();
+    script.onerror = () => reject(new Error('Failed to load Razorpay checkout'));
+    document.body.appendChild(script);
+  });
+
+// Resolves once the checkout is dismissed. The order is only marked paid when the
+// gateway's webhook reaches the server, never from the browser callback.
+export const openRazorpayCheckout = async (session: PaymentSession, prefill?: { name?: string; email?: string }) => {
+  await loadRazorpayScript();
+
+  return new Promise<void>((resolve) => {
+    const checkout = new window.Razorpay!({
+      ...session.checkout,
+      name: 'Smart Cafeteria',
+      description: session.description,
+      prefill,
+      handler: () => resolve(),
+      modal: { ondismiss: () => resolve() },
+    });
+
+    checkout.on('payment.failed', () => resolve());
+    checkout.open();
+  });
+};
+
+export const simulateMockPayment = async (paymentId: string, outcome: 'succeeded' | 'failed') => {
+  const { error } = await supabase.functions.invoke('mock-gateway', {
+    body: { payment_id: paymentId, outcome },
+  });
+
+  return { error };
+};
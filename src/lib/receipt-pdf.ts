@@ -0,0 +1,115 @@
+import type { OrderReceipt } from "@/data/orders";
+import { formatPickupTime, getTaxBreakdown, PAYMENT_METHOD_LABELS, PAYMENT_STATUS_LABELS } from "@/lib/orders";
+
+const PAGE_WIDTH = 105;
+const MARGIN = 10;
+const LINE_HEIGHT = 5;
+const QR_SIZE = 32;
+
+// The PDF standard fonts only cover Latin-1, so no rupee sign or bullets
+const money = (value: number) => `Rs. ${value.toFixed(2)}`;
+
+// Lays the receipt out on A6 pages, with the order's QR code at the end. jsPDF is
+// loaded on demand, since only this download needs it.
+export const buildReceiptPdf = async (order: OrderReceipt, qrCodeDataUrl: string) => {
+  const { jsPDF } = await import('jspdf');
+  const doc = new jsPDF({ unit: 'mm', format: 'a6' });
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const right = PAGE_WIDTH - MARGIN;
+  let y = MARGIN;
+
+  const ensureSpace = (height: number) => {
+    if (y + height <= pageHeight - MARGIN) return;
+    doc.addPage();
+    y = MARGIN;
+  };
+
+  const row = (left: string, amount?: string, { size = 9, bold = false, indent = 0 } = {}) => {
+    doc.setFont('helvetica', bold ? 'bold' : 'normal');
+    doc.setFontSize(size);
+    const wrapped: string[] = doc.splitTextToSize(left, right - MARGIN - indent - (amount ? 25 : 0));
+    ensureSpace(wrapped.length * LINE_HEIGHT);
+    doc.text(wrapped, MARGIN + indent, y);
+    if (amount) doc.text(amount, right, y, { align: 'right' });
+    y += wrapped.length * LINE_HEIGHT;
+  };
+
+  const centered = (text: string, { size = 9, bold = false } = {}) => {
+    doc.setFont('helvetica', bold ? 'bold' : 'normal');
+    doc.setFontSize(size);
+    ensureSpace(LINE_HEIGHT);
+    doc.text(text, PAGE_WIDTH / 2, y, { align: 'center' });
+    y += LINE_HEIGHT;
+  };
+
+  const rule = () => {
+    ensureSpace(LINE_HEIGHT);
+    doc.setDrawColor(200);
+    doc.line(MARGIN, y - 2, right, y - 2);
+    y += 2;
+  };
+
+  if (order.cafeteria) centered(order.cafeteria.name, { size: 12, bold: true });
+  centered('Tax Invoice');
+  y += 2;
+
+  row(order.order_number, order.status, { size: 11, bold: true });
+  row(new Date(order.created_at).toLocaleString());
+  if (order.student) {
+    row([order.student.full_name, order.student.student_id].filter(Boolean).join(', '));
+  }
+  if (order.pickup_at) row(`Pickup at ${formatPickupTime(order.pickup_at)}`);
+  row(
+    `${PAYMENT_METHOD_LABELS[order.payment_method] ?? order.payment_method}, ${PAYMENT_STATUS_LABELS[order.payment_status ?? 'pending']}`
+  );
+  y += 2;
+  rule();
+
+  for (const item of order.order_items.filter((i) => !i.order_combo_id)) {
+    row(`${item.quantity} x ${item.menu_item?.name ?? ''} @ ${money(item.price_at_order)}`, money(item.subtotal));
+    for (const modifier of item.order_item_modifiers) {
+      const delta = modifier.price_delta !== 0
+        ? ` (${modifier.price_delta > 0 ? '+' : '-'}${money(Math.abs(modifier.price_delta))})`
+        : '';
+      row(`+ ${modifier.option_name}${delta}`, undefined, { size: 8, indent: 4 });
+    }
+  }
+  for (const combo of order.order_combos) {
+    row(`${combo.quantity} x ${combo.name} @ ${money(combo.price)}`, money(combo.price * combo.quantity));
+    for (const item of order.order_items.filter((i) => i.order_combo_id === combo.id)) {
+      row(`- ${item.menu_item?.name ?? ''}`, undefined, { size: 8, indent: 4 });
+    }
+  }
+  rule();
+
+  row('Subtotal', money(order.subtotal));
+  if (order.discount > 0) row('Discount', `-${money(order.discount)}`);
+  if (order.points_redeemed > 0) row(`${order.points_redeemed} loyalty points`, `-${money(order.points_redeemed)}`);
+  const taxBreakdown = getTaxBreakdown(order.order_items);
+  if (taxBreakdown) {
+    for (const group of taxBreakdown) {
+      row(`${group.name} ${+(group.rate * 100).toFixed(2)}% on ${money(group.taxable)}`, money(group.tax));
+    }
+  } else {
+    row('Tax', money(order.tax));
+  }
+  rule();
+  row('Total', money(order.total), { size: 11, bold: true });
+  if (taxBreakdown && taxBreakdown.length > 1) {
+    row(`Total tax ${money(order.tax)} (rounded on the whole order)`, undefined, { size: 8 });
+  }
+
+  if (order.notes) {
+    y += 2;
+    row(`Notes: ${order.notes}`);
+  }
+
+  y += 4;
+  ensureSpace(QR_SIZE + 2 * LINE_HEIGHT);
+  doc.addImage(qrCodeDataUrl, 'PNG', (PAGE_WIDTH - QR_SIZE) / 2, y, QR_SIZE, QR_SIZE);
+  y += QR_SIZE + LINE_HEIGHT;
+  centered('Show this code at the counter', { size: 8 });
+  centered(order.id, { size: 7 });
+
+  return doc.output('blob');
+};
@@ -0,0 +1,355 @@
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { ArrowLeft, Pencil, Plus, Trash2, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { uploadMenuImage } from '@/lib/menu';
+import { useMenu, type MenuItem } from '@/data/menu';
+import {
+  comboRegularPrice,
+  defaultComboPicks,
+  useAddComboSlot,
+  useAddComboSlotItem,
+  useCombos,
+  useDeleteCombo,
+  useDeleteComboSlot,
+  useRemoveComboSlotItem,
+  useSaveCombo,
+  type Combo,
+  type ComboSlot,
+} from '@/data/combos';
+
+const AdminCombos = () => {
+  const navigate = useNavigate();
+  const { data: combos = [], isPending: loading } = useCombos({ includeUnavailable: true });
+  const { data: menuItems = [] } = useMenu({ includeUnavailable: true });
+  const saveCombo = useSaveCombo();
+  const deleteCombo = useDeleteCombo();
+  const [editing, setEditing] = useState<Combo | 'new' | null>(null);
+  const [deleting, setDeleting] = useState<Combo | null>(null);
+  const [uploading, setUploading] = useState(false);
+
+  const handleSave = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const formData = new FormData(e.currentTarget);
+    const image = formData.get('image') as File | null;
+    let imageUrl = editing !== 'new' ? editing?.image_url ?? null : null;
+
+    if (image && image.size > 0) {
+      setUploading(true);
+      const { url, error } = await uploadMenuImage(image);
+      setUploading(false);
+      if (error) {
+        toast.error('Failed to upload image');
+        return;
+      }
+      imageUrl = url;
+    }
+
+    const combo = {
+      name: (formData.get('name') as string).trim(),
+      description: (formData.get('description') as string).trim() || null,
+      price: Number(formData.get('price')),
+      image_url: imageUrl,
+    };
+
+    saveCombo.mutate(editing === 'new' ? { combo } : { id: editing!.id, combo }, {
+      onSuccess: () => {
+        toast.success(editing === 'new' ? 'Combo created' : 'Combo updated');
+        setEditing(null);
+      },
+    });
+  };
+
+  const handleDelete = () => {
+    if (!deleting) return;
+
+    deleteCombo.mutate(deleting.id, {
+      onSuccess: () => toast.success('Combo deleted'),
+    });
+
+    setDeleting(null);
+  };
+
+  if (loading) {
+    return (
+      <div className="flex min-h-screen items-center justify-center">
+        <div className="text-center">
+          <div className="mb-4 inline-block h-8 w-8 animate-spin rounded-full border-4 border-primary border-t-transparent"></div>
+          <p className="text-muted-foreground">Loading combos...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-hero">
+      {/* Header */}
+      <header className="border-b bg-card/50 backdrop-blur-sm">
+        <div className="container mx-auto flex items-center justify-between px-4 py-4">
+          <Button variant="ghost" size="icon" onClick={() => navigate('/admin')}>
+            <ArrowLeft className="h-5 w-5" />
+          </Button>
+          <h1 className="text-lg font-semibold">Combo Meals</h1>
+          <Button size="sm" onClick={() => setEditing('new')}>
+            <Plus className="mr-2 h-4 w-4" />
+            Add Combo
+          </Button>
+        </div>
+      </header>
+
+      <div className="container mx-auto px-4 py-6">
+        {combos.length === 0 ? (
+          <div className="py-12 text-center text-muted-foreground">
+            <p>No combos yet</p>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {combos.map((combo) => (
+              <ComboCard
+                key={combo.id}
+                combo={combo}
+                menuItems={menuItems}
+                onEdit={() => setEditing(combo)}
+                onDelete={() => setDeleting(combo)}
+              />
+            ))}
+          </div>
+        )}
+      </div>
+
+      <Dialog open={editing !== null} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editing === 'new' ? 'Add Combo' : 'Edit Combo'}</DialogTitle>
+          </DialogHeader>
+          <form onSubmit={handleSave} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="combo-name">Name</Label>
+              <Input id="combo-name" name="name" defaultValue={editing !== 'new' ? editing?.name : ''} required />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="combo-description">Description</Label>
+              <Textarea
+                id="combo-description"
+                name="description"
+                defaultValue={editing !== 'new' ? editing?.description ?? '' : ''}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="combo-price">Bundle price (₹)</Label>
+              <Input
+                id="combo-price"
+                name="price"
+                type="number"
+                min={0}
+                step="0.01"
+                defaultValue={editing !== 'new' ? editing?.price : undefined}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="combo-image">Image</Label>
+              <Input id="combo-image" name="image" type="file" accept="image/*" />
+            </div>
+            <Button type="submit" className="w-full" disabled={uploading || saveCombo.isPending}>
+              {uploading || saveCombo.isPending ? 'Saving...' : 'Save'}
+            </Button>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!deleting} onOpenChange={(open) => !open && setDeleting(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {deleting?.name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The combo is removed from the menu and from carts. Past orders keep their combo lines.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+interface ComboCardProps {
+  combo: Combo;
+  menuItems: MenuItem[];
+  onEdit: () => void;
+  onDelete: () => void;
+}
+
+const ComboCard = ({ combo, menuItems, onEdit, onDelete }: ComboCardProps) => {
+  const saveCombo = useSaveCombo();
+  const addSlot = useAddComboSlot();
+  const deleteSlot = useDeleteComboSlot();
+  const regularPrice = comboRegularPrice(combo, defaultComboPicks(combo));
+
+  const handleAddSlot = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const form = e.currentTarget;
+    const name = (new FormData(form).get('name') as string).trim();
+
+    addSlot.mutate(
+      { combo_id: combo.id, name, sort_order: combo.combo_slots.length },
+      { onSuccess: () => form.reset() }
+    );
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex-row items-start justify-between space-y-0">
+        <div>
+          <CardTitle className="flex items-center gap-2">
+            {combo.name}
+            {combo.combo_slots.length === 0 && (
+              <Badge variant="destructive" className="text-xs">
+                No slots
+              </Badge>
+            )}
+          </CardTitle>
+          <CardDescription>
+            ₹{combo.price}
+            {regularPrice > 0 && ` • ₹${regularPrice} à la carte`}
+          </CardDescription>
+        </div>
+        <div className="flex items-center gap-2">
+          <Switch
+            checked={combo.is_available}
+            onCheckedChange={(checked) =>
+              saveCombo.mutate({ id: combo.id, combo: { name: combo.name, price: combo.price, is_available: checked } })
+            }
+            aria-label="Available"
+          />
+          <Button variant="ghost" size="icon" onClick={onEdit}>
+            <Pencil className="h-4 w-4" />
+          </Button>
+          <Button variant="ghost" size="icon" onClick={onDelete}>
+            <Trash2 className="h-4 w-4 text-destructive" />
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {combo.combo_slots.map((slot) => (
+          <SlotEditor key={slot.id} slot={slot} menuItems={menuItems} onDelete={() => deleteSlot.mutate(slot.id)} />
+        ))}
+
+        <form onSubmit={handleAddSlot} className="flex items-end gap-2">
+          <Input name="name" placeholder="New slot, e.g. Drink" required />
+          <Button type="submit" variant="outline" disabled={addSlot.isPending}>
+            <Plus className="mr-2 h-4 w-4" />
+            Add Slot
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+};
+
+interface SlotEditorProps {
+  slot: ComboSlot;
+  menuItems: MenuItem[];
+  onDelete: () => void;
+}
+
+const SlotEditor = ({ slot, menuItems, onDelete }: SlotEditorProps) => {
+  const addSlotItem = useAddComboSlotItem();
+  const removeSlotItem = useRemoveComboSlotItem();
+  const [menuItemId, setMenuItemId] = useState<string>();
+
+  const offered = slot.combo_slot_items.map((choice) => choice.menu_item?.id);
+  const candidates = menuItems.filter((item) => !offered.includes(item.id));
+
+  const handleAddItem = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (!menuItemId) return;
+    const form = e.currentTarget;
+    const priceDelta = Number(new FormData(form).get('price_delta'));
+
+    addSlotItem.mutate(
+      { slot_id: slot.id, menu_item_id: menuItemId, price_delta: priceDelta },
+      {
+        onSuccess: () => {
+          form.reset();
+          setMenuItemId(undefined);
+        },
+      }
+    );
+  };
+
+  return (
+    <div className="space-y-3 rounded-lg border p-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <h4 className="font-semibold">{slot.name}</h4>
+          <p className="text-xs text-muted-foreground">
+            {slot.combo_slot_items.length === 1 ? 'Fixed item' : `Choice of ${slot.combo_slot_items.length}`}
+          </p>
+        </div>
+        <Button variant="ghost" size="icon" onClick={onDelete}>
+          <Trash2 className="h-4 w-4 text-destructive" />
+        </Button>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        {slot.combo_slot_items.map((choice) => (
+          <Badge key={choice.id} variant={choice.menu_item?.is_available ? 'secondary' : 'outline'} className="gap-1">
+            {choice.menu_item?.name}
+            {choice.price_delta !== 0 && ` ${choice.price_delta > 0 ? '+' : '−'}₹${Math.abs(choice.price_delta)}`}
+            <button
+              type="button"
+              aria-label={`Remove ${choice.menu_item?.name}`}
+              onClick={() => removeSlotItem.mutate(choice.id)}
+            >
+              <X className="h-3 w-3" />
+            </button>
+          </Badge>
+        ))}
+      </div>
+
+      <form onSubmit={handleAddItem} className="flex flex-wrap items-end gap-2">
+        <Select value={menuItemId ?? ''} onValueChange={setMenuItemId}>
+          <SelectTrigger className="w-56">
+            <SelectValue placeholder="Add a menu item" />
+          </SelectTrigger>
+          <SelectContent>
+            {candidates.map((item) => (
+              <SelectItem key={item.id} value={item.id}>
+                {item.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Input name="price_delta" type="number" step="any" defaultValue={0} className="w-24" aria-label="Price change" />
+        <Button type="submit" variant="outline" size="icon" disabled={!menuItemId || addSlotItem.isPending}>
+          <Plus className="h-4 w-4" />
+        </Button>
+      </form>
+    </div>
+  );
+};
+
+export default AdminCombos;
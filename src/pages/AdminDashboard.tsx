@@ -1,69 +1,19 @@
-import { useEffect, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
-import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Card, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { UtensilsCrossed, Package, TrendingUp, Users, LogOut } from 'lucide-react';
-import { getCurrentSession, getCurrentProfile, signOut, type Profile } from '@/lib/auth';
-import { supabase } from '@/integrations/supabase/client';
+import { signOut } from '@/lib/auth';
+import { useAuth } from '@/hooks/use-auth';
 import { toast } from 'sonner';
+import NotificationCenter from '@/components/NotificationCenter';
+import StatCard from '@/components/StatCard';
+import { useDashboardStats } from '@/data/reports';
 
 const AdminDashboard = () => {
   const navigate = useNavigate();
-  const [profile, setProfile] = useState<Profile | null>(null);
-  const [stats, setStats] = useState({
-    totalOrders: 0,
-    pendingOrders: 0,
-    totalRevenue: 0,
-    menuItems: 0,
-  });
-  const [loading, setLoading] = useState(true);
-
-  useEffect(() => {
-    checkAuth();
-    loadStats();
-  }, []);
-
-  const checkAuth = async () => {
-    const { session } = await getCurrentSession();
-    if (!session) {
-      navigate('/auth');
-      return;
-    }
-
-    const userProfile = await getCurrentProfile();
-    if (userProfile) {
-      setProfile(userProfile);
-      if (userProfile.role !== 'admin') {
-        navigate('/student');
-      }
-    }
-  };
-
-  const loadStats = async () => {
-    // Load orders
-    const { data: orders } = await supabase
-      .from('orders')
-      .select('*');
-    
-    const totalOrders = orders?.length || 0;
-    const pendingOrders = orders?.filter(o => o.status === 'pending' || o.status === 'preparing').length || 0;
-    const totalRevenue = orders?.reduce((sum, o) => sum + Number(o.total), 0) || 0;
-
-    // Load menu items
-    const { data: menuItems } = await supabase
-      .from('menu_items')
-      .select('*');
-
-    setStats({
-      totalOrders,
-      pendingOrders,
-      totalRevenue,
-      menuItems: menuItems?.length || 0,
-    });
-
-    setLoading(false);
-  };
+  const { profile } = useAuth();
+  const { data: stats, isPending: loading } = useDashboardStats();
 
   const handleLogout = async () => {
     await signOut();
@@ -91,9 +41,12 @@ const AdminDashboard = () => {
             <UtensilsCrossed className="h-6 w-6 text-primary" />
             <span className="text-lg font-semibold">Admin Dashboard</span>
           </div>
-          <Button variant="ghost" size="icon" onClick={handleLogout}>
-            <LogOut className="h-5 w-5" />
-          </Button>
+          <div className="flex items-center gap-2">
+            <NotificationCenter userId={profile?.id} />
+            <Button variant="ghost" size="icon" onClick={handleLogout}>
+              <LogOut className="h-5 w-5" />
+            </Button>
+          </div>
         </div>
       </header>
 
@@ -111,31 +64,40 @@ const AdminDashboard = () => {
           <StatCard
             icon={<Package className="h-6 w-6" />}
             title="Total Orders"
-            value={stats.totalOrders}
+            value={stats?.total_orders ?? 0}
             iconBg="bg-blue-500/10 text-blue-500"
           />
           <StatCard
             icon={<TrendingUp className="h-6 w-6" />}
             title="Pending Orders"
-            value={stats.pendingOrders}
+            value={stats?.active_orders ?? 0}
             iconBg="bg-warning/10 text-warning"
           />
           <StatCard
             icon={<TrendingUp className="h-6 w-6" />}
             title="Revenue"
-            value={`₹${stats.totalRevenue.toFixed(2)}`}
+            value={`₹${(stats?.total_revenue ?? 0).toFixed(2)}`}
             iconBg="bg-success/10 text-success"
           />
           <StatCard
             icon={<UtensilsCrossed className="h-6 w-6" />}
             title="Menu Items"
-            value={stats.menuItems}
+            value={stats?.menu_items ?? 0}
             iconBg="bg-primary/10 text-primary"
           />
         </div>
 
         {/* Quick Actions */}
-        <div className="mb-8 grid gap-4 md:grid-cols-3">
+        <div className="mb-8 grid gap-4 md:grid-cols-2 lg:grid-cols-4">
+          <Card
+            className="cursor-pointer transition-all hover:shadow-lg-primary"
+            onClick={() => navigate('/kitchen')}
+          >
+            <CardHeader>
+              <CardTitle>Kitchen Display</CardTitle>
+              <CardDescription>Live queue for the kitchen screen</CardDescription>
+            </CardHeader>
+          </Card>
           <Card
             className="cursor-pointer transition-all hover:shadow-lg-primary"
             onClick={() => navigate('/orders')}
@@ -147,7 +109,7 @@ const AdminDashboard = () => {
           </Card>
           <Card
             className="cursor-pointer transition-all hover:shadow-lg-primary"
-            onClick={() => navigate('/menu')}
+            onClick={() => navigate('/admin/menu')}
           >
             <CardHeader>
               <CardTitle>Manage Menu</CardTitle>
@@ -156,39 +118,71 @@ const AdminDashboard = () => {
           </Card>
           <Card
             className="cursor-pointer transition-all hover:shadow-lg-primary"
-            onClick={() => navigate('/profile')}
+            onClick={() => navigate('/admin/combos')}
+          >
+            <CardHeader>
+              <CardTitle>Combo Meals</CardTitle>
+              <CardDescription>Bundles with choice slots and prices</CardDescription>
+            </CardHeader>
+          </Card>
+          <Card
+            className="cursor-pointer transition-all hover:shadow-lg-primary"
+            onClick={() => navigate('/admin/promotions')}
+          >
+            <CardHeader>
+              <CardTitle>Promotions</CardTitle>
+              <CardDescription>Coupon codes and happy-hour discounts</CardDescription>
+            </CardHeader>
+          </Card>
+          <Card
+            className="cursor-pointer transition-all hover:shadow-lg-primary"
+            onClick={() => navigate('/admin/wallets')}
+          >
+            <CardHeader>
+              <CardTitle>Wallets</CardTitle>
+              <CardDescription>Student balances and adjustments</CardDescription>
+            </CardHeader>
+          </Card>
+          <Card
+            className="cursor-pointer transition-all hover:shadow-lg-primary"
+            onClick={() => navigate('/admin/pickup-slots')}
+          >
+            <CardHeader>
+              <CardTitle>Pickup Slots</CardTitle>
+              <CardDescription>Opening hours and kitchen capacity</CardDescription>
+            </CardHeader>
+          </Card>
+          <Card
+            className="cursor-pointer transition-all hover:shadow-lg-primary"
+            onClick={() => navigate('/admin/inventory')}
+          >
+            <CardHeader>
+              <CardTitle>Inventory</CardTitle>
+              <CardDescription>Ingredients, recipes and waste</CardDescription>
+            </CardHeader>
+          </Card>
+          <Card
+            className="cursor-pointer transition-all hover:shadow-lg-primary"
+            onClick={() => navigate('/admin/reports')}
           >
             <CardHeader>
               <CardTitle>Reports</CardTitle>
               <CardDescription>View sales and analytics</CardDescription>
             </CardHeader>
           </Card>
+          <Card
+            className="cursor-pointer transition-all hover:shadow-lg-primary"
+            onClick={() => navigate('/admin/staff')}
+          >
+            <CardHeader>
+              <CardTitle>Staff Invites</CardTitle>
+              <CardDescription>Invite new cafeteria staff</CardDescription>
+            </CardHeader>
+          </Card>
         </div>
       </div>
     </div>
   );
 };
 
-const StatCard = ({
-  icon,
-  title,
-  value,
-  iconBg,
-}: {
-  icon: React.ReactNode;
-  title: string;
-  value: string | number;
-  iconBg: string;
-}) => (
-  <Card>
-    <CardContent className="flex items-center gap-4 p-6">
-      <div className={`rounded-lg p-3 ${iconBg}`}>{icon}</div>
-      <div>
-        <p className="text-sm text-muted-foreground">{title}</p>
-        <p className="text-2xl font-bold">{value}</p>
-      </div>
-    </CardContent>
-  </Card>
-);
-
 export default AdminDashboard;
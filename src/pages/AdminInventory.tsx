@@ -0,0 +1,474 @@
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { addDays, format, parseISO, subDays } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ArrowLeft, Pencil, Plus, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { cn } from '@/lib/utils';
+import { useMenu } from '@/data/menu';
+import {
+  INGREDIENT_UNITS,
+  needsReorder,
+  useIngredients,
+  useIngredientUsage,
+  useLogStockMovement,
+  useRecipe,
+  useRemoveRecipeLine,
+  useSaveIngredient,
+  useSaveRecipeLine,
+  type Ingredient,
+  type StockMovementKind,
+} from '@/data/inventory';
+
+const MOVEMENT_LABELS: Record<StockMovementKind, { title: string; quantity: string; done: string }> = {
+  delivery: { title: 'Log Delivery', quantity: 'Quantity received', done: 'Delivery logged' },
+  waste: { title: 'Log Waste', quantity: 'Quantity wasted', done: 'Waste logged' },
+  count: { title: 'Record Count', quantity: 'Quantity on the shelf', done: 'Count recorded' },
+};
+
+// Quantities are stored to three decimals; trailing zeros are noise
+const formatQuantity = (value: number) => Number(value.toFixed(3)).toString();
+
+const AdminInventory = () => {
+  const navigate = useNavigate();
+  const { data: ingredients = [], isPending: loading } = useIngredients();
+
+  if (loading) {
+    return (
+      <div className="flex min-h-screen items-center justify-center">
+        <div className="text-center">
+          <div className="mb-4 inline-block h-8 w-8 animate-spin rounded-full border-4 border-primary border-t-transparent"></div>
+          <p className="text-muted-foreground">Loading inventory...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-hero">
+      {/* Header */}
+      <header className="border-b bg-card/50 backdrop-blur-sm">
+        <div className="container mx-auto flex items-center justify-between px-4 py-4">
+          <Button variant="ghost" size="icon" onClick={() => navigate('/admin')}>
+            <ArrowLeft className="h-5 w-5" />
+          </Button>
+          <h1 className="text-lg font-semibold">Inventory</h1>
+          <div className="w-10" />
+        </div>
+      </header>
+
+      <div className="container mx-auto px-4 py-6">
+        <Tabs defaultValue="stock">
+          <TabsList className="mb-4">
+            <TabsTrigger value="stock">Stock</TabsTrigger>
+            <TabsTrigger value="recipes">Recipes</TabsTrigger>
+            <TabsTrigger value="usage">Usage</TabsTrigger>
+          </TabsList>
+          <TabsContent value="stock">
+            <StockTab ingredients={ingredients} />
+          </TabsContent>
+          <TabsContent value="recipes">
+            <RecipesTab ingredients={ingredients} />
+          </TabsContent>
+          <TabsContent value="usage">
+            <UsageTab />
+          </TabsContent>
+        </Tabs>
+      </div>
+    </div>
+  );
+};
+
+const StockTab = ({ ingredients }: { ingredients: Ingredient[] }) => {
+  const saveIngredient = useSaveIngredient();
+  const logStockMovement = useLogStockMovement();
+  const [editing, setEditing] = useState<Ingredient | 'new' | null>(null);
+  const [logging, setLogging] = useState<{ ingredient: Ingredient; kind: StockMovementKind } | null>(null);
+
+  const handleSaveIngredient = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const formData = new FormData(e.currentTarget);
+    const ingredient = {
+      name: (formData.get('name') as string).trim(),
+      unit: formData.get('unit') as string,
+      reorder_level: Number(formData.get('reorder_level')),
+    };
+
+    saveIngredient.mutate(editing === 'new' ? { ingredient } : { id: editing!.id, ingredient }, {
+      onSuccess: () => {
+        toast.success(editing === 'new' ? 'Ingredient added' : 'Ingredient updated');
+        setEditing(null);
+      },
+    });
+  };
+
+  const handleLogMovement = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (!logging) return;
+    const formData = new FormData(e.currentTarget);
+
+    logStockMovement.mutate(
+      {
+        ingredientId: logging.ingredient.id,
+        kind: logging.kind,
+        quantity: Number(formData.get('quantity')),
+        note: formData.get('note') as string,
+      },
+      {
+        onSuccess: () => {
+          toast.success(MOVEMENT_LABELS[logging.kind].done);
+          setLogging(null);
+        },
+      }
+    );
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle>Ingredients</CardTitle>
+          <CardDescription>Orders deduct ingredients by recipe. Log deliveries, waste and shelf counts here.</CardDescription>
+        </div>
+        <Button size="sm" onClick={() => setEditing('new')}>
+          <Plus className="mr-2 h-4 w-4" />
+          Add Ingredient
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {ingredients.length === 0 ? (
+          <p className="py-8 text-center text-muted-foreground">No ingredients yet</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Ingredient</TableHead>
+                <TableHead className="text-right">On hand</TableHead>
+                <TableHead className="text-right">Reorder at</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {ingredients.map((ingredient) => (
+                <TableRow key={ingredient.id}>
+                  <TableCell className="font-medium">
+                    {ingredient.name}
+                    {needsReorder(ingredient) && (
+                      <Badge variant="destructive" className="ml-2 text-xs">
+                        Reorder
+                      </Badge>
+                    )}
+                  </TableCell>
+                  <TableCell className={cn('text-right', ingredient.on_hand < 0 && 'text-destructive')}>
+                    {formatQuantity(ingredient.on_hand)} {ingredient.unit}
+                  </TableCell>
+                  <TableCell className="text-right text-muted-foreground">
+                    {formatQuantity(ingredient.reorder_level)} {ingredient.unit}
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex justify-end gap-2">
+                      {(Object.keys(MOVEMENT_LABELS) as StockMovementKind[]).map((kind) => (
+                        <Button key={kind} variant="outline" size="sm" onClick={() => setLogging({ ingredient, kind })}>
+                          {kind === 'delivery' ? 'Delivery' : kind === 'waste' ? 'Waste' : 'Count'}
+                        </Button>
+                      ))}
+                      <Button variant="ghost" size="icon" onClick={() => setEditing(ingredient)}>
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <Dialog open={editing !== null} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editing === 'new' ? 'Add Ingredient' : 'Edit Ingredient'}</DialogTitle>
+          </DialogHeader>
+          <form onSubmit={handleSaveIngredient} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="ingredient-name">Name</Label>
+              <Input
+                id="ingredient-name"
+                name="name"
+                defaultValue={editing !== 'new' ? editing?.name : ''}
+                required
+              />
+            </div>
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="ingredient-unit">Unit</Label>
+                <Select name="unit" defaultValue={editing !== 'new' ? editing?.unit : 'g'}>
+                  <SelectTrigger id="ingredient-unit">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {INGREDIENT_UNITS.map((unit) => (
+                      <SelectItem key={unit} value={unit}>
+                        {unit}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="ingredient-reorder">Reorder level</Label>
+                <Input
+                  id="ingredient-reorder"
+                  name="reorder_level"
+                  type="number"
+                  min={0}
+                  step="any"
+                  defaultValue={editing !== 'new' ? editing?.reorder_level : 0}
+                  required
+                />
+              </div>
+            </div>
+            <Button type="submit" className="w-full" disabled={saveIngredient.isPending}>
+              {saveIngredient.isPending ? 'Saving...' : 'Save'}
+            </Button>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={logging !== null} onOpenChange={(open) => !open && setLogging(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              {logging && `${MOVEMENT_LABELS[logging.kind].title}: ${logging.ingredient.name}`}
+            </DialogTitle>
+          </DialogHeader>
+          {logging && (
+            <form onSubmit={handleLogMovement} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="movement-quantity">
+                  {MOVEMENT_LABELS[logging.kind].quantity} ({logging.ingredient.unit})
+                </Label>
+                <Input
+                  id="movement-quantity"
+                  name="quantity"
+                  type="number"
+                  min={logging.kind === 'count' ? 0 : 0.001}
+                  step="any"
+                  required
+                />
+                {logging.kind === 'count' && (
+                  <p className="text-xs text-muted-foreground">
+                    Currently {formatQuantity(logging.ingredient.on_hand)} {logging.ingredient.unit} on record. The
+                    difference is logged as a count adjustment.
+                  </p>
+                )}
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="movement-note">Note</Label>
+                <Textarea
+                  id="movement-note"
+                  name="note"
+                  placeholder={logging.kind === 'waste' ? 'e.g. Spoiled, dropped, expired' : 'Optional'}
+                />
+              </div>
+              <Button type="submit" className="w-full" disabled={logStockMovement.isPending}>
+                {logStockMovement.isPending ? 'Saving...' : MOVEMENT_LABELS[logging.kind].title}
+              </Button>
+            </form>
+          )}
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
+
+const RecipesTab = ({ ingredients }: { ingredients: Ingredient[] }) => {
+  const { data: menuItems = [] } = useMenu({ includeUnavailable: true });
+  const [menuItemId, setMenuItemId] = useState<string>();
+  const [ingredientId, setIngredientId] = useState<string>();
+  const { data: recipe = [], isFetching } = useRecipe(menuItemId);
+  const saveRecipeLine = useSaveRecipeLine();
+  const removeRecipeLine = useRemoveRecipeLine();
+
+  const handleAddLine = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (!menuItemId || !ingredientId) return;
+    const form = e.currentTarget;
+    const quantity = Number(new FormData(form).get('quantity'));
+
+    saveRecipeLine.mutate(
+      { menu_item_id: menuItemId, ingredient_id: ingredientId, quantity },
+      {
+        onSuccess: () => {
+          form.reset();
+          setIngredientId(undefined);
+        },
+      }
+    );
+  };
+
+  const selectedUnit = ingredients.find((ingredient) => ingredient.id === ingredientId)?.unit;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Recipes</CardTitle>
+        <CardDescription>Ingredients used in one portion of each menu item.</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <Select value={menuItemId ?? ''} onValueChange={setMenuItemId}>
+          <SelectTrigger className="sm:w-80">
+            <SelectValue placeholder="Choose a menu item" />
+          </SelectTrigger>
+          <SelectContent>
+            {menuItems.map((item) => (
+              <SelectItem key={item.id} value={item.id}>
+                {item.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        {menuItemId && (
+          <>
+            {recipe.length === 0 ? (
+              <p className="text-sm text-muted-foreground">
+                {isFetching ? 'Loading recipe...' : 'No ingredients yet. Orders for this item will not deduct stock.'}
+              </p>
+            ) : (
+              <div className="space-y-2">
+                {recipe.map((line) => (
+                  <div key={line.id} className="flex items-center justify-between rounded-lg border p-3">
+                    <span className="font-medium">{line.ingredient?.name}</span>
+                    <div className="flex items-center gap-2">
+                      <span className="text-sm text-muted-foreground">
+                        {formatQuantity(line.quantity)} {line.ingredient?.unit}
+                      </span>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => removeRecipeLine.mutate({ id: line.id, menuItemId })}
+                      >
+                        <Trash2 className="h-4 w-4 text-destructive" />
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <form onSubmit={handleAddLine} className="flex flex-wrap items-end gap-2">
+              <div className="space-y-2">
+                <Label>Ingredient</Label>
+                <Select value={ingredientId ?? ''} onValueChange={setIngredientId}>
+                  <SelectTrigger className="w-56">
+                    <SelectValue placeholder="Choose an ingredient" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {ingredients.map((ingredient) => (
+                      <SelectItem key={ingredient.id} value={ingredient.id}>
+                        {ingredient.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="recipe-quantity">Per portion{selectedUnit && ` (${selectedUnit})`}</Label>
+                <Input id="recipe-quantity" name="quantity" type="number" min={0.001} step="any" className="w-32" required />
+              </div>
+              <Button type="submit" disabled={!ingredientId || saveRecipeLine.isPending}>
+                <Plus className="mr-2 h-4 w-4" />
+                Add
+              </Button>
+            </form>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+const UsageTab = () => {
+  const [from, setFrom] = useState(() => format(subDays(new Date(), 6), 'yyyy-MM-dd'));
+  const [to, setTo] = useState(() => format(new Date(), 'yyyy-MM-dd'));
+  // Whole days in local time, including the last one
+  const { data: rows = [], isPending } = useIngredientUsage(
+    parseISO(from).toISOString(),
+    addDays(parseISO(to), 1).toISOString()
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Theoretical vs Actual Usage</CardTitle>
+        <CardDescription>
+          Theoretical usage is what recipes say orders consumed. Actual usage adds waste and shortfalls found by
+          counts, so record a count at the start and end of the period for an accurate comparison.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="usage-from">From</Label>
+            <Input id="usage-from" type="date" value={from} max={to} onChange={(e) => e.target.value && setFrom(e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="usage-to">To</Label>
+            <Input id="usage-to" type="date" value={to} min={from} onChange={(e) => e.target.value && setTo(e.target.value)} />
+          </div>
+        </div>
+
+        {isPending ? (
+          <p className="py-8 text-center text-muted-foreground">Loading report...</p>
+        ) : rows.length === 0 ? (
+          <p className="py-8 text-center text-muted-foreground">No ingredients yet</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Ingredient</TableHead>
+                <TableHead className="text-right">Delivered</TableHead>
+                <TableHead className="text-right">Theoretical</TableHead>
+                <TableHead className="text-right">Wasted</TableHead>
+                <TableHead className="text-right">Actual</TableHead>
+                <TableHead className="text-right">Variance</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.map((row) => (
+                <TableRow key={row.ingredient_id}>
+                  <TableCell className="font-medium">{row.name}</TableCell>
+                  <TableCell className="text-right">{formatQuantity(row.delivered)} {row.unit}</TableCell>
+                  <TableCell className="text-right">{formatQuantity(row.theoretical_usage)} {row.unit}</TableCell>
+                  <TableCell className="text-right">{formatQuantity(row.wasted)} {row.unit}</TableCell>
+                  <TableCell className="text-right">{formatQuantity(row.actual_usage)} {row.unit}</TableCell>
+                  <TableCell className={cn('text-right', row.variance > 0 && 'font-medium text-destructive')}>
+                    {row.variance > 0 && '+'}
+                    {formatQuantity(row.variance)} {row.unit}
+                    {row.theoretical_usage > 0 && (
+                      <span className="ml-1 text-xs text-muted-foreground">
+                        ({Math.round((row.variance / row.theoretical_usage) * 100)}%)
+                      </span>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default AdminInventory;
@@ -0,0 +1,263 @@
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { ArrowLeft, Pencil, Plus, RefreshCw, SlidersHorizontal, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import type { PostgrestError } from '@supabase/supabase-js';
+import { useAuth } from '@/hooks/use-auth';
+import { uploadMenuImage, type MenuCategory } from '@/lib/menu';
+import MenuItemForm, { type MenuItemFormValues } from '@/components/MenuItemForm';
+import ModifierGroupsEditor from '@/components/ModifierGroupsEditor';
+import { cn } from '@/lib/utils';
+import {
+  isLowStock,
+  useDeleteMenuItem,
+  useMenu,
+  useRestockMenuItem,
+  useSaveMenuItem,
+  useSetMenuItemAvailability,
+  type MenuItem,
+} from '@/data/menu';
+
+// Postgres foreign_key_violation: the item is referenced by past orders
+const FOREIGN_KEY_VIOLATION = '23503';
+
+const AdminMenu = () => {
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const { data: menuItems = [], isPending: loading } = useMenu({ includeUnavailable: true });
+  const saveMenuItem = useSaveMenuItem();
+  const setAvailability = useSetMenuItemAvailability();
+  const deleteMenuItem = useDeleteMenuItem();
+  const restockMenuItem = useRestockMenuItem();
+  const [editing, setEditing] = useState<MenuItem | 'new' | null>(null);
+  const [deleting, setDeleting] = useState<MenuItem | null>(null);
+  const [customizing, setCustomizing] = useState<MenuItem | null>(null);
+
+  const handleSave = async (values: MenuItemFormValues) => {
+    let imageUrl = editing !== 'new' ? editing?.image_url ?? null : null;
+
+    if (values.image) {
+      const { url, error } = await uploadMenuImage(values.image);
+      if (error) {
+        toast.error('Failed to upload image');
+        return;
+      }
+      imageUrl = url;
+    }
+
+    const item = {
+      name: values.name,
+      description: values.description || null,
+      price: values.price,
+      category: values.category,
+      is_vegetarian: values.is_vegetarian,
+      is_available: values.is_available,
+      daily_stock: values.daily_stock ?? null,
+      low_stock_threshold: values.low_stock_threshold,
+      image_url: imageUrl,
+    };
+
+    try {
+      await saveMenuItem.mutateAsync(
+        editing === 'new' ? { item: { ...item, created_by: user?.id } } : { id: editing!.id, item }
+      );
+    } catch {
+      // Reported by the mutation's error toast; keep the dialog open to retry
+      return;
+    }
+
+    toast.success(editing === 'new' ? 'Menu item created' : 'Menu item updated');
+    setEditing(null);
+  };
+
+  const toggleAvailability = (item: MenuItem, isAvailable: boolean) => {
+    setAvailability.mutate({ id: item.id, isAvailable });
+  };
+
+  const handleDelete = () => {
+    if (!deleting) return;
+
+    deleteMenuItem.mutate(deleting.id, {
+      onSuccess: () => toast.success('Menu item deleted'),
+      onError: (error: PostgrestError) =>
+        toast.error(
+          error.code === FOREIGN_KEY_VIOLATION
+            ? 'This item has been ordered before. Mark it unavailable instead.'
+            : 'Failed to delete menu item'
+        ),
+    });
+
+    setDeleting(null);
+  };
+
+  if (loading) {
+    return (
+      <div className="flex min-h-screen items-center justify-center">
+        <div className="text-center">
+          <div className="mb-4 inline-block h-8 w-8 animate-spin rounded-full border-4 border-primary border-t-transparent"></div>
+          <p className="text-muted-foreground">Loading menu...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-hero">
+      {/* Header */}
+      <header className="border-b bg-card/50 backdrop-blur-sm">
+        <div className="container mx-auto flex items-center justify-between px-4 py-4">
+          <Button variant="ghost" size="icon" onClick={() => navigate('/admin')}>
+            <ArrowLeft className="h-5 w-5" />
+          </Button>
+          <h1 className="text-lg font-semibold">Manage Menu</h1>
+          <Button size="sm" onClick={() => setEditing('new')}>
+            <Plus className="mr-2 h-4 w-4" />
+            Add Item
+          </Button>
+        </div>
+      </header>
+
+      <div className="container mx-auto px-4 py-6">
+        {menuItems.length === 0 ? (
+          <div className="py-12 text-center text-muted-foreground">
+            <p>No menu items yet</p>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {menuItems.map((item) => (
+              <Card key={item.id}>
+                <CardContent className="flex items-center gap-4 p-4">
+                  {item.image_url ? (
+                    <img src={item.image_url} alt={item.name} className="h-16 w-16 rounded-lg object-cover" />
+                  ) : (
+                    <div className="h-16 w-16 rounded-lg bg-muted" />
+                  )}
+                  <div className="flex-1">
+                    <div className="flex items-center gap-2">
+                      <h3 className="font-semibold">{item.name}</h3>
+                      {item.is_vegetarian && (
+                        <Badge variant="secondary" className="text-xs">
+                          🌱 Veg
+                        </Badge>
+                      )}
+                    </div>
+                    <p className="text-sm text-muted-foreground">
+                      {item.category} • ₹{item.price}
+                      {item.daily_stock !== null && (
+                        <span className={cn(isLowStock(item) && 'font-medium text-destructive')}>
+                          {' '}• {item.stock_quantity}/{item.daily_stock} left today
+                        </span>
+                      )}
+                    </p>
+                  </div>
+                  {item.daily_stock !== null && item.stock_quantity < item.daily_stock && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() =>
+                        restockMenuItem.mutate(item.id, { onSuccess: () => toast.success(`${item.name} restocked`) })
+                      }
+                    >
+                      <RefreshCw className="mr-2 h-4 w-4" />
+                      Restock
+                    </Button>
+                  )}
+                  <div className="flex items-center gap-2">
+                    <Switch
+                      checked={!!item.is_available}
+                      onCheckedChange={(checked) => toggleAvailability(item, checked)}
+                      aria-label="Available"
+                    />
+                    <span className="hidden w-20 text-sm text-muted-foreground sm:inline">
+                      {item.sold_out_at ? 'Sold out' : item.is_available ? 'Available' : 'Hidden'}
+                    </span>
+                  </div>
+                  <Button variant="ghost" size="icon" onClick={() => setCustomizing(item)} aria-label="Options">
+                    <SlidersHorizontal className="h-4 w-4" />
+                  </Button>
+                  <Button variant="ghost" size="icon" onClick={() => setEditing(item)}>
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                  <Button variant="ghost" size="icon" onClick={() => setDeleting(item)}>
+                    <Trash2 className="h-4 w-4 text-destructive" />
+                  </Button>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <Dialog open={editing !== null} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent className="max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editing === 'new' ? 'Add Menu Item' : 'Edit Menu Item'}</DialogTitle>
+          </DialogHeader>
+          {editing !== null && (
+            <MenuItemForm
+              key={editing === 'new' ? 'new' : editing.id}
+              defaultValues={
+                editing === 'new'
+                  ? undefined
+                  : {
+                      name: editing.name,
+                      description: editing.description ?? '',
+                      price: editing.price,
+                      category: editing.category as MenuCategory,
+                      is_vegetarian: !!editing.is_vegetarian,
+                      is_available: !!editing.is_available,
+                      daily_stock: editing.daily_stock ?? undefined,
+                      low_stock_threshold: editing.low_stock_threshold,
+                    }
+              }
+              currentImageUrl={editing === 'new' ? null : editing.image_url}
+              submitLabel={editing === 'new' ? 'Create Item' : 'Save Changes'}
+              onSubmit={handleSave}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!customizing} onOpenChange={(open) => !open && setCustomizing(null)}>
+        <DialogContent className="max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{customizing?.name} Options</DialogTitle>
+          </DialogHeader>
+          {customizing && <ModifierGroupsEditor menuItemId={customizing.id} />}
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!deleting} onOpenChange={(open) => !open && setDeleting(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {deleting?.name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              This removes the item from the menu permanently. Items that have been ordered before can only be hidden.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default AdminMenu;
@@ -0,0 +1,189 @@
+import { useNavigate } from 'react-router-dom';
+import { format } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { ArrowLeft } from 'lucide-react';
+import { toast } from 'sonner';
+import { useCafeteriaSettings, useUpdateCafeteria, type Cafeteria } from '@/data/cafeterias';
+import { usePickupSlots } from '@/data/pickup-slots';
+import { formatPickupTime } from '@/lib/orders';
+
+// Empty capacity fields mean "no limit"
+const parseLimit = (value: FormDataEntryValue | null) => {
+  const text = (value as string | null)?.trim();
+  return text ? Number(text) : null;
+};
+
+const AdminPickupSlots = () => {
+  const navigate = useNavigate();
+  const { data: cafeterias = [], isPending: loading } = useCafeteriaSettings();
+
+  if (loading) {
+    return (
+      <div className="flex min-h-screen items-center justify-center">
+        <div className="text-center">
+          <div className="mb-4 inline-block h-8 w-8 animate-spin rounded-full border-4 border-primary border-t-transparent"></div>
+          <p className="text-muted-foreground">Loading pickup settings...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-hero">
+      {/* Header */}
+      <header className="border-b bg-card/50 backdrop-blur-sm">
+        <div className="container mx-auto flex items-center justify-between px-4 py-4">
+          <Button variant="ghost" size="icon" onClick={() => navigate('/admin')}>
+            <ArrowLeft className="h-5 w-5" />
+          </Button>
+          <h1 className="text-lg font-semibold">Pickup Slots</h1>
+          <div className="w-10" />
+        </div>
+      </header>
+
+      <div className="container mx-auto max-w-3xl space-y-6 px-4 py-6">
+        {cafeterias.map((cafeteria) => (
+          <CafeteriaSlotSettings key={cafeteria.id} cafeteria={cafeteria} />
+        ))}
+      </div>
+    </div>
+  );
+};
+
+const CafeteriaSlotSettings = ({ cafeteria }: { cafeteria: Cafeteria }) => {
+  const updateCafeteria = useUpdateCafeteria();
+  const { data: todaySlots = [] } = usePickupSlots(
+    cafeteria.is_active ? cafeteria.id : undefined,
+    format(new Date(), 'yyyy-MM-dd')
+  );
+
+  const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const formData = new FormData(e.currentTarget);
+
+    updateCafeteria.mutate(
+      {
+        id: cafeteria.id,
+        updates: {
+          opens_at: formData.get('opens_at') as string,
+          closes_at: formData.get('closes_at') as string,
+          slot_minutes: Number(formData.get('slot_minutes')),
+          slot_lead_minutes: Number(formData.get('slot_lead_minutes')),
+          slot_max_orders: parseLimit(formData.get('slot_max_orders')),
+          slot_max_items: parseLimit(formData.get('slot_max_items')),
+        },
+      },
+      { onSuccess: () => toast.success('Pickup settings saved') }
+    );
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{cafeteria.name}</CardTitle>
+        <CardDescription>
+          Students choose a pickup slot at checkout. Leave a limit empty to allow unlimited orders or items per slot.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor={`opens-${cafeteria.id}`}>Opens at</Label>
+              <Input
+                id={`opens-${cafeteria.id}`}
+                name="opens_at"
+                type="time"
+                defaultValue={cafeteria.opens_at.slice(0, 5)}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor={`closes-${cafeteria.id}`}>Closes at</Label>
+              <Input
+                id={`closes-${cafeteria.id}`}
+                name="closes_at"
+                type="time"
+                defaultValue={cafeteria.closes_at.slice(0, 5)}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor={`slot-minutes-${cafeteria.id}`}>Slot length (minutes)</Label>
+              <Input
+                id={`slot-minutes-${cafeteria.id}`}
+                name="slot_minutes"
+                type="number"
+                min={5}
+                max={120}
+                step={5}
+                defaultValue={cafeteria.slot_minutes}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor={`lead-${cafeteria.id}`}>Minimum notice (minutes)</Label>
+              <Input
+                id={`lead-${cafeteria.id}`}
+                name="slot_lead_minutes"
+                type="number"
+                min={0}
+                max={240}
+                defaultValue={cafeteria.slot_lead_minutes}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor={`max-orders-${cafeteria.id}`}>Max orders per slot</Label>
+              <Input
+                id={`max-orders-${cafeteria.id}`}
+                name="slot_max_orders"
+                type="number"
+                min={1}
+                placeholder="Unlimited"
+                defaultValue={cafeteria.slot_max_orders ?? ''}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor={`max-items-${cafeteria.id}`}>Max items per slot</Label>
+              <Input
+                id={`max-items-${cafeteria.id}`}
+                name="slot_max_items"
+                type="number"
+                min={1}
+                placeholder="Unlimited"
+                defaultValue={cafeteria.slot_max_items ?? ''}
+              />
+            </div>
+          </div>
+          <Button type="submit" disabled={updateCafeteria.isPending}>
+            {updateCafeteria.isPending ? 'Saving...' : 'Save Settings'}
+          </Button>
+        </form>
+
+        {todaySlots.length > 0 && (
+          <div className="space-y-2">
+            <h3 className="text-sm font-medium">Today's load</h3>
+            <div className="flex flex-wrap gap-2">
+              {todaySlots.map((slot) => (
+                <Badge
+                  key={slot.starts_at}
+                  variant={slot.is_available ? 'secondary' : 'outline'}
+                  className="font-normal"
+                >
+                  {formatPickupTime(slot.starts_at)} • {slot.order_count} orders / {slot.item_count} items
+                </Badge>
+              ))}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default AdminPickupSlots;
@@ -0,0 +1,368 @@
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { format } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { ArrowLeft, Plus } from 'lucide-react';
+import { toast } from 'sonner';
+import { useAuth } from '@/hooks/use-auth';
+import { useMenu } from '@/data/menu';
+import { MENU_CATEGORIES } from '@/lib/menu';
+import {
+  getPromotionStatus,
+  getRedemptionCount,
+  useCreatePromotion,
+  usePromotions,
+  useRetirePromotion,
+  WEEKDAYS,
+  type Promotion,
+  type PromotionStatus,
+} from '@/data/promotions';
+
+const STATUS_VARIANTS: Record<PromotionStatus, 'default' | 'secondary' | 'outline'> = {
+  active: 'default',
+  scheduled: 'secondary',
+  expired: 'outline',
+  retired: 'outline',
+};
+
+// Empty optional fields mean "no limit"
+const optionalNumber = (value: FormDataEntryValue | null) => {
+  const text = (value as string | null)?.trim();
+  return text ? Number(text) : null;
+};
+
+const optionalTimestamp = (value: FormDataEntryValue | null) => {
+  const text = value as string | null;
+  return text ? new Date(text).toISOString() : null;
+};
+
+const describeDiscount = (promotion: Promotion) => {
+  const amount = promotion.kind === 'percent' ? `${promotion.value}% off` : `₹${promotion.value} off`;
+  const target = promotion.menu_item?.name ?? promotion.category;
+  const cap = promotion.max_discount ? ` (up to ₹${promotion.max_discount})` : '';
+  return `${amount}${target ? ` ${target}` : ''}${cap}`;
+};
+
+const describeSchedule = (promotion: Promotion) => {
+  const parts: string[] = [];
+  if (promotion.starts_at) parts.push(`from ${format(new Date(promotion.starts_at), 'd MMM yyyy, HH:mm')}`);
+  if (promotion.ends_at) parts.push(`until ${format(new Date(promotion.ends_at), 'd MMM yyyy, HH:mm')}`);
+  if (promotion.weekdays?.length) {
+    parts.push(WEEKDAYS.filter((day) => promotion.weekdays.includes(day.value)).map((day) => day.label).join(', '));
+  }
+  if (promotion.daily_start && promotion.daily_end) {
+    parts.push(`${promotion.daily_start.slice(0, 5)}–${promotion.daily_end.slice(0, 5)}`);
+  }
+  return parts.join(' • ');
+};
+
+const AdminPromotions = () => {
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const { data: promotions = [], isPending: loading } = usePromotions();
+  const { data: menuItems = [] } = useMenu({ includeUnavailable: true });
+  const createPromotion = useCreatePromotion();
+  const retirePromotion = useRetirePromotion();
+  const [creating, setCreating] = useState(false);
+  const [retiring, setRetiring] = useState<Promotion | null>(null);
+
+  const handleCreate = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const formData = new FormData(e.currentTarget);
+    const code = (formData.get('code') as string).trim().toUpperCase();
+    const [targetKind, target] = (formData.get('target') as string).split(':');
+    const weekdays = formData.getAll('weekdays').map(Number);
+
+    if (weekdays.length === 0) {
+      toast.error('Choose at least one day');
+      return;
+    }
+
+    createPromotion.mutate(
+      {
+        name: (formData.get('name') as string).trim(),
+        code: code || null,
+        kind: formData.get('kind') as string,
+        value: Number(formData.get('value')),
+        max_discount: optionalNumber(formData.get('max_discount')),
+        min_order: optionalNumber(formData.get('min_order')) ?? 0,
+        category: targetKind === 'category' ? target : null,
+        menu_item_id: targetKind === 'item' ? target : null,
+        starts_at: optionalTimestamp(formData.get('starts_at')),
+        ends_at: optionalTimestamp(formData.get('ends_at')),
+        daily_start: (formData.get('daily_start') as string) || null,
+        daily_end: (formData.get('daily_end') as string) || null,
+        weekdays: weekdays.length < WEEKDAYS.length ? weekdays : null,
+        usage_limit: optionalNumber(formData.get('usage_limit')),
+        per_user_limit: optionalNumber(formData.get('per_user_limit')),
+        created_by: user?.id,
+      },
+      {
+        onSuccess: () => {
+          toast.success(code ? `Coupon ${code} created` : 'Automatic promotion created');
+          setCreating(false);
+        },
+      }
+    );
+  };
+
+  const handleRetire = () => {
+    if (!retiring) return;
+
+    retirePromotion.mutate(retiring.id, {
+      onSuccess: () => toast.success('Promotion retired'),
+    });
+
+    setRetiring(null);
+  };
+
+  if (loading) {
+    return (
+      <div className="flex min-h-screen items-center justify-center">
+        <div className="text-center">
+          <div className="mb-4 inline-block h-8 w-8 animate-spin rounded-full border-4 border-primary border-t-transparent"></div>
+          <p className="text-muted-foreground">Loading promotions...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-hero">
+      {/* Header */}
+      <header className="border-b bg-card/50 backdrop-blur-sm">
+        <div className="container mx-auto flex items-center justify-between px-4 py-4">
+          <Button variant="ghost" size="icon" onClick={() => navigate('/admin')}>
+            <ArrowLeft className="h-5 w-5" />
+          </Button>
+          <h1 className="text-lg font-semibold">Promotions</h1>
+          <Button size="sm" onClick={() => setCreating(true)}>
+            <Plus className="mr-2 h-4 w-4" />
+            Add Promotion
+          </Button>
+        </div>
+      </header>
+
+      <div className="container mx-auto px-4 py-6">
+        {promotions.length === 0 ? (
+          <div className="py-12 text-center text-muted-foreground">
+            <p>No promotions yet</p>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {promotions.map((promotion) => {
+              const status = getPromotionStatus(promotion);
+              const redemptions = getRedemptionCount(promotion);
+              const schedule = describeSchedule(promotion);
+
+              return (
+                <Card key={promotion.id} className={status === 'retired' ? 'opacity-60' : undefined}>
+                  <CardHeader className="flex-row items-start justify-between space-y-0">
+                    <div>
+                      <CardTitle className="flex items-center gap-2">
+                        {promotion.name}
+                        <Badge variant={STATUS_VARIANTS[status]} className="text-xs capitalize">
+                          {status}
+                        </Badge>
+                      </CardTitle>
+                      <CardDescription>
+                        {promotion.code ? (
+                          <span className="font-mono font-semibold">{promotion.code}</span>
+                        ) : (
+                          'Applied automatically'
+                        )}
+                        {' • '}
+                        {describeDiscount(promotion)}
+                      </CardDescription>
+                    </div>
+                    {status !== 'retired' && (
+                      <Button variant="outline" size="sm" onClick={() => setRetiring(promotion)}>
+                        Retire
+                      </Button>
+                    )}
+                  </CardHeader>
+                  <CardContent className="space-y-1 text-sm text-muted-foreground">
+                    {promotion.min_order > 0 && <p>Minimum order ₹{promotion.min_order}</p>}
+                    {schedule && <p>{schedule}</p>}
+                    <p>
+                      {redemptions} redeemed
+                      {promotion.usage_limit && ` of ${promotion.usage_limit}`}
+                      {promotion.per_user_limit && ` • ${promotion.per_user_limit} per student`}
+                    </p>
+                  </CardContent>
+                </Card>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
+      <Dialog open={creating} onOpenChange={setCreating}>
+        <DialogContent className="max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Add Promotion</DialogTitle>
+          </DialogHeader>
+          <form onSubmit={handleCreate} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="promotion-name">Name</Label>
+              <Input id="promotion-name" name="name" placeholder="e.g. Evening happy hour" required />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="promotion-code">Coupon code</Label>
+              <Input
+                id="promotion-code"
+                name="code"
+                className="uppercase"
+                placeholder="Leave empty to apply automatically"
+              />
+            </div>
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="promotion-kind">Discount type</Label>
+                <Select name="kind" defaultValue="percent">
+                  <SelectTrigger id="promotion-kind">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="percent">Percentage</SelectItem>
+                    <SelectItem value="flat">Flat amount (₹)</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="promotion-value">Value</Label>
+                <Input id="promotion-value" name="value" type="number" min={0.01} step="0.01" required />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="promotion-max-discount">Maximum discount (₹)</Label>
+                <Input
+                  id="promotion-max-discount"
+                  name="max_discount"
+                  type="number"
+                  min={0.01}
+                  step="0.01"
+                  placeholder="No cap"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="promotion-min-order">Minimum order (₹)</Label>
+                <Input id="promotion-min-order" name="min_order" type="number" min={0} step="0.01" placeholder="0" />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="promotion-target">Applies to</Label>
+              <Select name="target" defaultValue="all">
+                <SelectTrigger id="promotion-target">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">Whole order</SelectItem>
+                  {MENU_CATEGORIES.map((category) => (
+                    <SelectItem key={category} value={`category:${category}`}>
+                      {category}
+                    </SelectItem>
+                  ))}
+                  {menuItems.map((item) => (
+                    <SelectItem key={item.id} value={`item:${item.id}`}>
+                      {item.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="promotion-starts">Starts</Label>
+                <Input id="promotion-starts" name="starts_at" type="datetime-local" />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="promotion-ends">Ends</Label>
+                <Input id="promotion-ends" name="ends_at" type="datetime-local" />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="promotion-daily-start">Daily from</Label>
+                <Input id="promotion-daily-start" name="daily_start" type="time" />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="promotion-daily-end">Daily until</Label>
+                <Input id="promotion-daily-end" name="daily_end" type="time" />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label>Days</Label>
+              <div className="flex flex-wrap gap-3">
+                {WEEKDAYS.map((day) => (
+                  <div key={day.value} className="flex items-center gap-1.5">
+                    <Checkbox id={`promotion-day-${day.value}`} name="weekdays" value={String(day.value)} defaultChecked />
+                    <Label htmlFor={`promotion-day-${day.value}`} className="font-normal">
+                      {day.label}
+                    </Label>
+                  </div>
+                ))}
+              </div>
+            </div>
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="promotion-usage-limit">Total redemptions</Label>
+                <Input
+                  id="promotion-usage-limit"
+                  name="usage_limit"
+                  type="number"
+                  min={1}
+                  placeholder="Unlimited"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="promotion-per-user-limit">Per student</Label>
+                <Input
+                  id="promotion-per-user-limit"
+                  name="per_user_limit"
+                  type="number"
+                  min={1}
+                  placeholder="Unlimited"
+                />
+              </div>
+            </div>
+            <Button type="submit" className="w-full" disabled={createPromotion.isPending}>
+              {createPromotion.isPending ? 'Saving...' : 'Create Promotion'}
+            </Button>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!retiring} onOpenChange={(open) => !open && setRetiring(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Retire {retiring?.name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              It stops applying to new orders straight away. Orders that already used it keep their discount.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleRetire}>Retire</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default AdminPromotions;
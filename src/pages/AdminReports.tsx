@@ -0,0 +1,430 @@
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { format, parseISO, subDays } from 'date-fns';
+import { Bar, BarChart, CartesianGrid, Cell, Pie, PieChart, XAxis, YAxis } from 'recharts';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from '@/components/ui/chart';
+import { ArrowLeft, FileDown, IndianRupee, Package, Printer, Receipt, XCircle } from 'lucide-react';
+import StatCard from '@/components/StatCard';
+import { MENU_CATEGORIES } from '@/lib/menu';
+import {
+  dailySalesTable,
+  downloadFile,
+  orderLinesTable,
+  printHtml,
+  taxSummaryTable,
+  toCsv,
+  toPrintableHtml,
+  type ExportReport,
+  type ExportTable,
+} from '@/lib/exports';
+import {
+  useCategoryMix,
+  usePeakHours,
+  useRevenue,
+  useSalesSummary,
+  useExportRows,
+  useTopItems,
+  type ExportRows,
+  type ReportRange,
+  type RevenueBucket,
+} from '@/data/reports';
+
+const PRESETS = [
+  { label: '7 days', days: 7 },
+  { label: '30 days', days: 30 },
+  { label: '90 days', days: 90 },
+];
+
+const BUCKET_FORMATS: Record<RevenueBucket, string> = {
+  day: 'd MMM',
+  week: "'Wk of' d MMM",
+  month: 'MMM yyyy',
+};
+
+const WEEKDAYS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+
+const revenueConfig = {
+  revenue: { label: 'Revenue', color: 'hsl(var(--chart-1))' },
+} satisfies ChartConfig;
+
+const topItemsConfig = {
+  quantity: { label: 'Sold', color: 'hsl(var(--chart-1))' },
+} satisfies ChartConfig;
+
+// Chart config keys become CSS variables, so categories need a key without spaces
+const categoryKey = (category: string) => category.toLowerCase().replace(/\s+/g, '-');
+
+// Categories keep the same colour whatever order they come back in
+const categoryConfig = Object.fromEntries(
+  MENU_CATEGORIES.map((category, index) => [
+    categoryKey(category),
+    { label: category, color: `hsl(var(--chart-${index + 1}))` },
+  ])
+) satisfies ChartConfig;
+
+const formatCurrency = (value: number) => `₹${value.toFixed(2)}`;
+
+const lastDays = (days: number): ReportRange => ({
+  from: format(subDays(new Date(), days - 1), 'yyyy-MM-dd'),
+  to: format(new Date(), 'yyyy-MM-dd'),
+});
+
+const AdminReports = () => {
+  const navigate = useNavigate();
+  const [range, setRange] = useState(() => lastDays(30));
+  const [bucket, setBucket] = useState<RevenueBucket>('day');
+  const { data: summary, isPending: loading } = useSalesSummary(range);
+  const { data: revenue = [] } = useRevenue(range, bucket);
+  const { data: topItems = [] } = useTopItems(range);
+  const { data: categoryRows = [] } = useCategoryMix(range);
+  const categoryMix = categoryRows.map((row) => ({ ...row, key: categoryKey(row.category) }));
+
+  if (loading) {
+    return (
+      <div className="flex min-h-screen items-center justify-center">
+        <div className="text-center">
+          <div className="mb-4 inline-block h-8 w-8 animate-spin rounded-full border-4 border-primary border-t-transparent"></div>
+          <p className="text-muted-foreground">Loading reports...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-hero">
+      {/* Header */}
+      <header className="border-b bg-card/50 backdrop-blur-sm">
+        <div className="container mx-auto flex items-center justify-between px-4 py-4">
+          <Button variant="ghost" size="icon" onClick={() => navigate('/admin')}>
+            <ArrowLeft className="h-5 w-5" />
+          </Button>
+          <h1 className="text-lg font-semibold">Reports</h1>
+          <div className="w-10" />
+        </div>
+      </header>
+
+      <div className="container mx-auto space-y-6 px-4 py-6">
+        {/* Date Range */}
+        <div className="flex flex-wrap items-end gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="report-from">From</Label>
+            <Input
+              id="report-from"
+              type="date"
+              value={range.from}
+              max={range.to}
+              onChange={(e) => e.target.value && setRange({ ...range, from: e.target.value })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="report-to">To</Label>
+            <Input
+              id="report-to"
+              type="date"
+              value={range.to}
+              min={range.from}
+              onChange={(e) => e.target.value && setRange({ ...range, to: e.target.value })}
+            />
+          </div>
+          <div className="flex gap-2">
+            {PRESETS.map((preset) => (
+              <Button key={preset.days} variant="outline" size="sm" onClick={() => setRange(lastDays(preset.days))}>
+                {preset.label}
+              </Button>
+            ))}
+          </div>
+        </div>
+
+        {/* Summary */}
+        <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
+          <StatCard
+            icon={<IndianRupee className="h-6 w-6" />}
+            title="Revenue"
+            value={formatCurrency(summary?.revenue ?? 0)}
+            iconBg="bg-success/10 text-success"
+          />
+          <StatCard
+            icon={<Package className="h-6 w-6" />}
+            title="Orders"
+            value={summary?.order_count ?? 0}
+            iconBg="bg-blue-500/10 text-blue-500"
+          />
+          <StatCard
+            icon={<Receipt className="h-6 w-6" />}
+            title="Average Ticket"
+            value={formatCurrency(summary?.average_ticket ?? 0)}
+            iconBg="bg-primary/10 text-primary"
+          />
+          <StatCard
+            icon={<XCircle className="h-6 w-6" />}
+            title="Cancellation Rate"
+            value={`${((summary?.cancellation_rate ?? 0) * 100).toFixed(1)}%`}
+            iconBg="bg-destructive/10 text-destructive"
+          />
+        </div>
+
+        {/* Revenue */}
+        <Card>
+          <CardHeader className="flex flex-row items-start justify-between space-y-0">
+            <div className="space-y-1.5">
+              <CardTitle>Revenue</CardTitle>
+              <CardDescription>Paid orders, excluding cancellations</CardDescription>
+            </div>
+            <Tabs value={bucket} onValueChange={(value) => setBucket(value as RevenueBucket)}>
+              <TabsList>
+                <TabsTrigger value="day">Day</TabsTrigger>
+                <TabsTrigger value="week">Week</TabsTrigger>
+                <TabsTrigger value="month">Month</TabsTrigger>
+              </TabsList>
+            </Tabs>
+          </CardHeader>
+          <CardContent>
+            <ChartContainer config={revenueConfig} className="h-72 w-full">
+              <BarChart data={revenue}>
+                <CartesianGrid vertical={false} />
+                <XAxis
+                  dataKey="period"
+                  tickLine={false}
+                  axisLine={false}
+                  tickFormatter={(period: string) => format(parseISO(period), BUCKET_FORMATS[bucket])}
+                />
+                <YAxis tickLine={false} axisLine={false} width={60} tickFormatter={(value: number) => `₹${value}`} />
+                <ChartTooltip
+                  content={
+                    <ChartTooltipContent
+                      labelFormatter={(_, [item]) => format(parseISO(item.payload.period), BUCKET_FORMATS[bucket])}
+                      formatter={(value, _name, item) => (
+                        <span>
+                          {formatCurrency(Number(value))} from {item.payload.order_count} orders
+                        </span>
+                      )}
+                    />
+                  }
+                />
+                <Bar dataKey="revenue" fill="var(--color-revenue)" radius={4} />
+              </BarChart>
+            </ChartContainer>
+          </CardContent>
+        </Card>
+
+        <div className="grid gap-6 lg:grid-cols-2">
+          {/* Top Sellers */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Top Sellers</CardTitle>
+              <CardDescription>Portions sold</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {topItems.length === 0 ? (
+                <p className="py-12 text-center text-muted-foreground">No sales in this period</p>
+              ) : (
+                <ChartContainer config={topItemsConfig} className="h-72 w-full">
+                  <BarChart data={topItems} layout="vertical" margin={{ left: 16 }}>
+                    <CartesianGrid horizontal={false} />
+                    <XAxis type="number" hide />
+                    <YAxis dataKey="name" type="category" tickLine={false} axisLine={false} width={110} />
+                    <ChartTooltip
+                      content={
+                        <ChartTooltipContent
+                          formatter={(value, _name, item) => (
+                            <span>
+                              {value} sold • {formatCurrency(item.payload.revenue)}
+                            </span>
+                          )}
+                        />
+                      }
+                    />
+                    <Bar dataKey="quantity" fill="var(--color-quantity)" radius={4} />
+                  </BarChart>
+                </ChartContainer>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Category Mix */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Category Mix</CardTitle>
+              <CardDescription>Share of revenue by menu category</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {categoryMix.length === 0 ? (
+                <p className="py-12 text-center text-muted-foreground">No sales in this period</p>
+              ) : (
+                <ChartContainer config={categoryConfig} className="h-72 w-full">
+                  <PieChart>
+                    <ChartTooltip
+                      content={
+                        <ChartTooltipContent
+                          nameKey="key"
+                          formatter={(value, _name, item) => (
+                            <span>
+                              {item.payload.category}: {formatCurrency(Number(value))} • {item.payload.quantity} sold
+                            </span>
+                          )}
+                        />
+                      }
+                    />
+                    <Pie data={categoryMix} dataKey="revenue" nameKey="key" innerRadius={50}>
+                      {categoryMix.map((row) => (
+                        <Cell key={row.key} fill={`var(--color-${row.key})`} />
+                      ))}
+                    </Pie>
+                    <ChartLegend content={<ChartLegendContent nameKey="key" />} />
+                  </PieChart>
+                </ChartContainer>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+
+        <PeakHours range={range} />
+
+        <ReportExport range={range} />
+      </div>
+    </div>
+  );
+};
+
+const PeakHours = ({ range }: { range: ReportRange }) => {
+  const { data: cells = [] } = usePeakHours(range);
+  const counts = new Map(cells.map((cell) => [`${cell.weekday}-${cell.hour}`, cell.order_count]));
+  const busiest = Math.max(1, ...cells.map((cell) => cell.order_count));
+
+  // Only show the hours the cafeteria actually trades in
+  const firstHour = cells.length ? Math.min(...cells.map((cell) => cell.hour)) : 8;
+  const lastHour = cells.length ? Math.max(...cells.map((cell) => cell.hour)) : 20;
+  const hours = Array.from({ length: lastHour - firstHour + 1 }, (_, index) => firstHour + index);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Peak Hours</CardTitle>
+        <CardDescription>Orders placed by weekday and hour</CardDescription>
+      </CardHeader>
+      <CardContent className="overflow-x-auto">
+        <div
+          className="grid gap-1 text-xs"
+          style={{ gridTemplateColumns: `3rem repeat(${hours.length}, minmax(2rem, 1fr))` }}
+        >
+          <div />
+          {hours.map((hour) => (
+            <div key={hour} className="text-center text-muted-foreground">
+              {hour}
+            </div>
+          ))}
+          {WEEKDAYS.map((weekday, index) => (
+            <PeakHoursRow
+              key={weekday}
+              weekday={weekday}
+              counts={hours.map((hour) => counts.get(`${index + 1}-${hour}`) ?? 0)}
+              busiest={busiest}
+            />
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+const PeakHoursRow = ({ weekday, counts, busiest }: { weekday: string; counts: number[]; busiest: number }) => (
+  <>
+    <div className="flex items-center text-muted-foreground">{weekday}</div>
+    {counts.map((count, index) => (
+      <div
+        key={index}
+        className="flex h-8 items-center justify-center rounded"
+        style={{ backgroundColor: count ? `hsl(var(--primary) / ${0.15 + (count / busiest) * 0.85})` : 'hsl(var(--muted))' }}
+        title={`${count} orders`}
+      >
+        {count > 0 && count}
+      </div>
+    ))}
+  </>
+);
+
+const EXPORT_REPORTS: { value: ExportReport; label: string }[] = [
+  { value: 'orders', label: 'Orders with items' },
+  { value: 'daily-sales', label: 'Daily sales totals' },
+  { value: 'tax', label: 'GST / tax summary' },
+];
+
+const exportFile = <T,>(table: ExportTable<T>, as: 'csv' | 'pdf', report: ExportReport, range: ReportRange) => {
+  if (as === 'csv') {
+    downloadFile(`${report}_${range.from}_${range.to}.csv`, toCsv(table), 'text/csv;charset=utf-8');
+  } else {
+    printHtml(toPrintableHtml(table, `${range.from} to ${range.to}`));
+  }
+};
+
+const ReportExport = ({ range }: { range: ReportRange }) => {
+  const [report, setReport] = useState<ExportReport>('daily-sales');
+  const exportRows = useExportRows();
+
+  const handleExport = async (as: 'csv' | 'pdf') => {
+    let data: ExportRows;
+    try {
+      data = await exportRows.mutateAsync({ report, range });
+    } catch {
+      // Reported by the mutation's error toast
+      return;
+    }
+
+    switch (data.report) {
+      case 'orders':
+        return exportFile(orderLinesTable(data.rows), as, report, range);
+      case 'daily-sales':
+        return exportFile(dailySalesTable(data.rows), as, report, range);
+      case 'tax':
+        return exportFile(taxSummaryTable(data.rows), as, report, range);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Export</CardTitle>
+        <CardDescription>
+          Download the selected date range for accounts. The PDF layout opens in the print dialog; choose Save as PDF.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="flex flex-wrap gap-2">
+        <Select value={report} onValueChange={(value) => setReport(value as ExportReport)}>
+          <SelectTrigger className="w-56">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {EXPORT_REPORTS.map((option) => (
+              <SelectItem key={option.value} value={option.value}>
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button variant="outline" onClick={() => handleExport('csv')} disabled={exportRows.isPending}>
+          <FileDown className="mr-2 h-4 w-4" />
+          CSV
+        </Button>
+        <Button variant="outline" onClick={() => handleExport('pdf')} disabled={exportRows.isPending}>
+          <Printer className="mr-2 h-4 w-4" />
+          PDF
+        </Button>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default AdminReports;
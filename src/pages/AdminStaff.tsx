@@ -0,0 +1,180 @@
+import { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { ArrowLeft, Copy, Trash2, UserPlus } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { toast } from 'sonner';
+import { getAdminInviteUrl } from '@/lib/auth';
+import { useAuth } from '@/hooks/use-auth';
+
+type AdminInvite = Tables<'admin_invites'>;
+
+const getInviteState = (invite: AdminInvite) => {
+  if (invite.accepted_at) return { label: 'Accepted', variant: 'default' as const };
+  if (new Date(invite.expires_at) < new Date()) return { label: 'Expired', variant: 'destructive' as const };
+  return { label: 'Pending', variant: 'secondary' as const };
+};
+
+const AdminStaff = () => {
+  const navigate = useNavigate();
+  const [invites, setInvites] = useState<AdminInvite[]>([]);
+  const [loading, setLoading] = useState(true);
+  const { user } = useAuth();
+  const [isSending, setIsSending] = useState(false);
+
+  useEffect(() => {
+    loadInvites();
+  }, []);
+
+  const loadInvites = async () => {
+    const { data, error } = await supabase
+      .from('admin_invites')
+      .select('*')
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      toast.error('Failed to load invites');
+      setLoading(false);
+      return;
+    }
+
+    setInvites(data || []);
+    setLoading(false);
+  };
+
+  const copyInviteLink = async (invite: AdminInvite) => {
+    await navigator.clipboard.writeText(getAdminInviteUrl(invite.token));
+    toast.success('Invite link copied');
+  };
+
+  const handleInvite = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const form = e.currentTarget;
+    setIsSending(true);
+
+    const email = (new FormData(form).get('email') as string).trim().toLowerCase();
+
+    const { data, error } = await supabase
+      .from('admin_invites')
+      .insert({ email, invited_by: user?.id })
+      .select()
+      .single();
+
+    setIsSending(false);
+
+    if (error) {
+      toast.error('Failed to create invite');
+      return;
+    }
+
+    form.reset();
+    await copyInviteLink(data);
+    loadInvites();
+  };
+
+  const revokeInvite = async (inviteId: string) => {
+    const { error } = await supabase
+      .from('admin_invites')
+      .delete()
+      .eq('id', inviteId);
+
+    if (error) {
+      toast.error('Failed to revoke invite');
+      return;
+    }
+
+    toast.success('Invite revoked');
+    loadInvites();
+  };
+
+  if (loading) {
+    return (
+      <div className="flex min-h-screen items-center justify-center">
+        <div className="text-center">
+          <div className="mb-4 inline-block h-8 w-8 animate-spin rounded-full border-4 border-primary border-t-transparent"></div>
+          <p className="text-muted-foreground">Loading invites...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-hero">
+      {/* Header */}
+      <header className="border-b bg-card/50 backdrop-blur-sm">
+        <div className="container mx-auto flex items-center justify-between px-4 py-4">
+          <Button variant="ghost" size="icon" onClick={() => navigate('/admin')}>
+            <ArrowLeft className="h-5 w-5" />
+          </Button>
+          <h1 className="text-lg font-semibold">Staff Invites</h1>
+          <div className="w-10" />
+        </div>
+      </header>
+
+      <div className="container mx-auto max-w-3xl space-y-6 px-4 py-6">
+        <Card>
+          <CardHeader>
+            <CardTitle>Invite Staff</CardTitle>
+            <CardDescription>
+              Staff accounts can only be created from an invite link. Links expire after 7 days and only work for the
+              invited email.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleInvite} className="flex items-end gap-2">
+              <div className="flex-1 space-y-2">
+                <Label htmlFor="invite-email">Email</Label>
+                <Input id="invite-email" name="email" type="email" placeholder="staff@example.com" required />
+              </div>
+              <Button type="submit" disabled={isSending}>
+                <UserPlus className="mr-2 h-4 w-4" />
+                {isSending ? 'Creating...' : 'Create Invite'}
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+
+        <div className="space-y-4">
+          {invites.map((invite) => {
+            const state = getInviteState(invite);
+            const isPending = state.label === 'Pending';
+
+            return (
+              <Card key={invite.id}>
+                <CardContent className="flex items-center justify-between gap-4 p-4">
+                  <div>
+                    <p className="font-semibold">{invite.email}</p>
+                    <p className="text-sm text-muted-foreground">
+                      Sent {new Date(invite.created_at).toLocaleDateString()} • Expires{' '}
+                      {new Date(invite.expires_at).toLocaleDateString()}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Badge variant={state.variant}>{state.label}</Badge>
+                    {isPending && (
+                      <Button variant="ghost" size="icon" onClick={() => copyInviteLink(invite)}>
+                        <Copy className="h-4 w-4" />
+                      </Button>
+                    )}
+                    {!invite.accepted_at && (
+                      <Button variant="ghost" size="icon" onClick={() => revokeInvite(invite.id)}>
+                        <Trash2 className="h-4 w-4 text-destructive" />
+                      </Button>
+                    )}
+                  </div>
+                </CardContent>
+              </Card>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AdminStaff;
@@ -0,0 +1,159 @@
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { ArrowLeft, Search } from 'lucide-react';
+import { toast } from 'sonner';
+import WalletStatement from '@/components/WalletStatement';
+import { useAdjustWallet, useStudentWallets, type StudentWallet } from '@/data/wallet';
+
+const AdminWallets = () => {
+  const navigate = useNavigate();
+  const { data: students = [], isPending: loading } = useStudentWallets();
+  const adjustWallet = useAdjustWallet();
+  const [search, setSearch] = useState('');
+  const [adjusting, setAdjusting] = useState<StudentWallet | null>(null);
+  const [viewing, setViewing] = useState<StudentWallet | null>(null);
+
+  const query = search.trim().toLowerCase();
+  const filteredStudents = query
+    ? students.filter((student) =>
+        [student.full_name, student.email, student.student_id].some((value) => value?.toLowerCase().includes(query))
+      )
+    : students;
+
+  const handleAdjust = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (!adjusting) return;
+    const formData = new FormData(e.currentTarget);
+    const amount = Number(formData.get('amount'));
+
+    adjustWallet.mutate(
+      {
+        studentId: adjusting.id,
+        amount,
+        reason: (formData.get('reason') as string).trim(),
+      },
+      {
+        onSuccess: () => {
+          toast.success(
+            `${amount > 0 ? 'Credited' : 'Debited'} ₹${Math.abs(amount).toFixed(2)} ${amount > 0 ? 'to' : 'from'} ${adjusting.full_name}`
+          );
+          setAdjusting(null);
+        },
+        onError: (error) => toast.error(error.message || 'Failed to adjust wallet'),
+      }
+    );
+  };
+
+  if (loading) {
+    return (
+      <div className="flex min-h-screen items-center justify-center">
+        <div className="text-center">
+          <div className="mb-4 inline-block h-8 w-8 animate-spin rounded-full border-4 border-primary border-t-transparent"></div>
+          <p className="text-muted-foreground">Loading wallets...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-hero">
+      {/* Header */}
+      <header className="border-b bg-card/50 backdrop-blur-sm">
+        <div className="container mx-auto flex items-center justify-between px-4 py-4">
+          <Button variant="ghost" size="icon" onClick={() => navigate('/admin')}>
+            <ArrowLeft className="h-5 w-5" />
+          </Button>
+          <h1 className="text-lg font-semibold">Wallets</h1>
+          <div className="w-10" />
+        </div>
+      </header>
+
+      <div className="container mx-auto space-y-4 px-4 py-6">
+        <div className="relative">
+          <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+          <Input
+            placeholder="Search by name, email or student ID"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            className="pl-9"
+          />
+        </div>
+
+        {filteredStudents.length === 0 ? (
+          <div className="py-12 text-center text-muted-foreground">
+            <p>No students found</p>
+          </div>
+        ) : (
+          <Card>
+            <CardContent className="divide-y p-0">
+              {filteredStudents.map((student) => (
+                <div key={student.id} className="flex flex-wrap items-center justify-between gap-4 px-6 py-4">
+                  <div>
+                    <p className="font-semibold">{student.full_name}</p>
+                    <p className="text-sm text-muted-foreground">
+                      {student.student_id ? `${student.student_id} • ` : ''}
+                      {student.email}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <span className="mr-2 font-semibold">₹{Number(student.wallet?.balance ?? 0).toFixed(2)}</span>
+                    <Button variant="outline" size="sm" disabled={!student.wallet} onClick={() => setViewing(student)}>
+                      Statement
+                    </Button>
+                    <Button size="sm" onClick={() => setAdjusting(student)}>
+                      Adjust
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+      </div>
+
+      <Dialog open={!!adjusting} onOpenChange={(open) => !open && setAdjusting(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Adjust {adjusting?.full_name}'s wallet</DialogTitle>
+            <DialogDescription>
+              Current balance ₹{Number(adjusting?.wallet?.balance ?? 0).toFixed(2)}. The reason appears on the
+              student's statement.
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleAdjust} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="adjust-amount">Amount (₹)</Label>
+              <Input id="adjust-amount" name="amount" type="number" step="0.01" placeholder="e.g. 50 or -50" required />
+              <p className="text-xs text-muted-foreground">Positive amounts credit the wallet, negative amounts debit it.</p>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="adjust-reason">Reason</Label>
+              <Textarea id="adjust-reason" name="reason" minLength={3} maxLength={200} required />
+            </div>
+            <Button type="submit" className="w-full" disabled={adjustWallet.isPending}>
+              {adjustWallet.isPending ? 'Saving...' : 'Save Adjustment'}
+            </Button>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!viewing} onOpenChange={(open) => !open && setViewing(null)}>
+        <DialogContent className="max-h-[85vh] overflow-y-auto sm:max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>{viewing?.full_name}'s statement</DialogTitle>
+            <DialogDescription>Balance ₹{Number(viewing?.wallet?.balance ?? 0).toFixed(2)}</DialogDescription>
+          </DialogHeader>
+          <WalletStatement walletId={viewing?.wallet?.id} />
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default AdminWallets;
@@ -1,40 +1,48 @@
 import { useState, useEffect } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { useLocation, useNavigate, useSearchParams, type Location } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { toast } from 'sonner';
-import { signIn, signUp, getCurrentSession, type UserRole } from '@/lib/auth';
+import { signIn, signUp, lookupAdminInvite, getHomePath } from '@/lib/auth';
+import { useAuth } from '@/hooks/use-auth';
 import { ArrowLeft, UtensilsCrossed } from 'lucide-react';
-import { supabase } from '@/integrations/supabase/client';
 
 const Auth = () => {
   const navigate = useNavigate();
+  const location = useLocation();
+  const { profile } = useAuth();
+  const [searchParams] = useSearchParams();
+  const inviteToken = searchParams.get('invite');
   const [isLoading, setIsLoading] = useState(false);
-  const [role, setRole] = useState<UserRole>('student');
+  const [inviteEmail, setInviteEmail] = useState<string | null>(null);
+  const isStaffSignup = !!inviteEmail;
 
+  // Covers signing in here, in another tab, or arriving already signed in
   useEffect(() => {
-    checkSession();
-  }, []);
+    if (!profile) return;
 
-  const checkSession = async () => {
-    const { session } = await getCurrentSession();
-    if (session) {
-      const { data: profile } = await supabase
-        .from('profiles')
-        .select('role')
-        .eq('id', session.user.id)
-        .single();
-      
-      if (profile?.role === 'admin') {
-        navigate('/admin');
-      } else {
-        navigate('/student');
-      }
+    const from = (location.state as { from?: Location } | null)?.from;
+    navigate(from ? `${from.pathname}${from.search}` : getHomePath(profile.role), { replace: true });
+  }, [profile]);
+
+  useEffect(() => {
+    if (inviteToken) {
+      checkInvite(inviteToken);
     }
+  }, [inviteToken]);
+
+  const checkInvite = async (token: string) => {
+    const { invite } = await lookupAdminInvite(token);
+
+    if (!invite) {
+      toast.error('This invite link is invalid or has expired');
+      return;
+    }
+
+    setInviteEmail(invite.email);
   };
 
   const handleSignIn = async (e: React.FormEvent<HTMLFormElement>) => {
@@ -45,7 +53,7 @@ const Auth = () => {
     const email = formData.get('email') as string;
     const password = formData.get('password') as string;
 
-    const { data, error } = await signIn(email, password);
+    const { error } = await signIn(email, password);
 
     if (error) {
       toast.error(error.message);
@@ -53,22 +61,7 @@ const Auth = () => {
       return;
     }
 
-    if (data.user) {
-      const { data: profile } = await supabase
-        .from('profiles')
-        .select('role')
-        .eq('id', data.user.id)
-        .single();
-
-      toast.success('Signed in successfully!');
-      
-      if (profile?.role === 'admin') {
-        navigate('/admin');
-      } else {
-        navigate('/student');
-      }
-    }
-
+    toast.success('Signed in successfully!');
     setIsLoading(false);
   };
 
@@ -82,7 +75,7 @@ const Auth = () => {
     const fullName = formData.get('full_name') as string;
     
     const additionalData: any = {};
-    if (role === 'student') {
+    if (!isStaffSignup) {
       additionalData.student_id = formData.get('student_id') as string;
       additionalData.department = formData.get('department') as string;
     } else {
@@ -90,7 +83,13 @@ const Auth = () => {
       additionalData.cafeteria_name = formData.get('cafeteria_name') as string;
     }
 
-    const { data, error } = await signUp(email, password, fullName, role, additionalData);
+    const { data, error } = await signUp(
+      email,
+      password,
+      fullName,
+      additionalData,
+      isStaffSignup ? inviteToken : undefined
+    );
 
     if (error) {
       toast.error(error.message);
@@ -98,14 +97,10 @@ const Auth = () => {
       return;
     }
 
-    if (data.user) {
+    if (data.session) {
       toast.success('Account created successfully!');
-      
-      if (role === 'admin') {
-        navigate('/admin');
-      } else {
-        navigate('/student');
-      }
+    } else if (data.user) {
+      toast.success('Account created! Check your email to confirm it, then sign in.');
     }
 
     setIsLoading(false);
@@ -132,7 +127,7 @@ const Auth = () => {
             <CardDescription>Sign in to your account or create a new one</CardDescription>
           </CardHeader>
           <CardContent>
-            <Tabs defaultValue="signin" className="w-full">
+            <Tabs defaultValue={inviteToken ? 'signup' : 'signin'} className="w-full">
               <TabsList className="grid w-full grid-cols-2">
                 <TabsTrigger value="signin">Sign In</TabsTrigger>
                 <TabsTrigger value="signup">Sign Up</TabsTrigger>
@@ -167,18 +162,11 @@ const Auth = () => {
 
               <TabsContent value="signup">
                 <form onSubmit={handleSignUp} className="space-y-4">
-                  <div className="space-y-2">
-                    <Label htmlFor="role">I am a</Label>
-                    <Select value={role} onValueChange={(value) => setRole(value as UserRole)}>
-                      <SelectTrigger>
-                        <SelectValue placeholder="Select your role" />
-                      </SelectTrigger>
-                      <SelectContent>
-                        <SelectItem value="student">Student</SelectItem>
-                        <SelectItem value="admin">Admin</SelectItem>
-                      </SelectContent>
-                    </Select>
-                  </div>
+                  {isStaffSignup && (
+                    <p className="rounded-lg bg-primary/10 p-3 text-sm text-primary">
+                      You've been invited to join as cafeteria staff.
+                    </p>
+                  )}
 
                   <div className="space-y-2">
                     <Label htmlFor="full_name">Full Name</Label>
@@ -191,7 +179,7 @@ const Auth = () => {
                     />
                   </div>
 
-                  {role === 'student' && (
+                  {!isStaffSignup && (
                     <>
                       <div className="space-y-2">
                         <Label htmlFor="student_id">Student ID</Label>
@@ -216,7 +204,7 @@ const Auth = () => {
                     </>
                   )}
 
-                  {role === 'admin' && (
+                  {isStaffSignup && (
                     <>
                       <div className="space-y-2">
                         <Label htmlFor="staff_id">Staff ID</Label>
@@ -248,6 +236,9 @@ const Auth = () => {
                       name="email"
                       type="email"
                       placeholder="you@example.com"
+                      defaultValue={inviteEmail ?? undefined}
+                      key={inviteEmail ?? 'signup-email'}
+                      readOnly={isStaffSignup}
                       required
                     />
                   </div>
@@ -1,174 +1,152 @@
-import { useEffect, useState } from 'react';
+import { useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import { ArrowLeft, Minus, Plus, Trash2 } from 'lucide-react';
-import { supabase } from '@/integrations/supabase/client';
+import { Switch } from '@/components/ui/switch';
+import { ArrowLeft, Minus, Plus, Tag, Trash2, X } from 'lucide-react';
 import { toast } from 'sonner';
-import { getCurrentSession } from '@/lib/auth';
-
-interface CartItem {
-  id: string;
-  quantity: number;
-  menu_item: {
-    id: string;
-    name: string;
-    price: number;
-    image_url: string;
-    is_vegetarian: boolean;
-  };
-}
+import { usePayment } from '@/hooks/use-payment';
+import MockPaymentDialog from '@/components/MockPaymentDialog';
+import PickupSlotPicker from '@/components/PickupSlotPicker';
+import { useAuth } from '@/hooks/use-auth';
+import {
+  EMPTY_QUOTE,
+  useCart,
+  useCartCombos,
+  useCartQuote,
+  useRemoveCartCombo,
+  useRemoveCartItem,
+  useUpdateCartComboQuantity,
+  useUpdateCartQuantity,
+} from '@/data/cart';
+import { comboPicks, comboPrice, useCombos } from '@/data/combos';
+import { useCafeterias } from '@/data/cafeterias';
+import { useLoyaltySummary } from '@/data/loyalty';
+import { priceWithOptions, selectedOptions, useModifierGroups } from '@/data/modifiers';
+import { usePlaceOrder } from '@/data/orders';
+import { useWallet } from '@/data/wallet';
 
 const Cart = () => {
   const navigate = useNavigate();
-  const [cartItems, setCartItems] = useState<CartItem[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [paymentMethod, setPaymentMethod] = useState<'upi' | 'card' | 'razorpay'>('upi');
-
-  useEffect(() => {
-    checkAuthAndLoadCart();
-  }, []);
-
-  const checkAuthAndLoadCart = async () => {
-    const { session } = await getCurrentSession();
-    if (!session) {
-      navigate('/auth');
-      return;
-    }
-
-    loadCart();
+  const { user } = useAuth();
+  const { data: cartItems = [], isPending: itemsLoading } = useCart(user?.id);
+  const { data: cartCombos = [], isPending: combosLoading } = useCartCombos(user?.id);
+  const [couponInput, setCouponInput] = useState('');
+  const [couponCode, setCouponCode] = useState<string>();
+  const [spendPoints, setSpendPoints] = useState(false);
+  const { data: loyalty } = useLoyaltySummary(user?.id);
+  const pointsBalance = loyalty?.balance ?? 0;
+  // The quote caps this at what the order leaves to pay
+  const { data: totals = EMPTY_QUOTE, isFetching: quoting } = useCartQuote(
+    user?.id,
+    couponCode,
+    spendPoints ? pointsBalance : 0
+  );
+  const { data: cafeterias = [] } = useCafeterias();
+  const { data: modifierGroups = [] } = useModifierGroups();
+  const { data: combos = [] } = useCombos();
+  const updateQuantity = useUpdateCartQuantity(user?.id);
+  const removeItem = useRemoveCartItem(user?.id);
+  const updateComboQuantity = useUpdateCartComboQuantity(user?.id);
+  const removeCombo = useRemoveCartCombo(user?.id);
+  const placeOrder = usePlaceOrder(user?.id);
+  const { data: wallet } = useWallet(user?.id);
+  const walletBalance = Number(wallet?.balance ?? 0);
+  const [paymentMethod, setPaymentMethod] = useState<'upi' | 'card' | 'razorpay' | 'wallet'>('upi');
+  const [cafeteriaId, setCafeteriaId] = useState<string>();
+  const [pickupAt, setPickupAt] = useState<string>();
+  const [placingOrder, setPlacingOrder] = useState(false);
+  const { pay, mockSession, finishMockPayment } = usePayment();
+
+  const loading = itemsLoading || combosLoading;
+  const isEmpty = cartItems.length === 0 && cartCombos.length === 0;
+  const selectedCafeteriaId = cafeteriaId ?? cafeterias[0]?.id;
+
+  const handleQuantityChange = (lineId: string, quantity: number) => {
+    if (quantity < 1) return;
+    updateQuantity.mutate({ lineId, quantity });
   };
 
-  const loadCart = async () => {
-    const { data: { user } } = await supabase.auth.getUser();
-    if (!user) return;
-
-    const { data, error } = await supabase
-      .from('cart_items')
-      .select(`
-        id,
-        quantity,
-        menu_item:menu_items (
-          id,
-          name,
-          price,
-          image_url,
-          is_vegetarian
-        )
-      `)
-      .eq('student_id', user.id);
-
-    if (error) {
-      toast.error('Failed to load cart');
-      setLoading(false);
-      return;
-    }
-
-    setCartItems(data as any || []);
-    setLoading(false);
+  const handleRemove = (lineId: string) => {
+    removeItem.mutate(lineId, {
+      onSuccess: () => toast.success('Item removed from cart'),
+    });
   };
 
-  const updateQuantity = async (itemId: string, newQuantity: number) => {
-    if (newQuantity < 1) return;
-
-    const { error } = await supabase
-      .from('cart_items')
-      .update({ quantity: newQuantity })
-      .eq('id', itemId);
-
-    if (error) {
-      toast.error('Failed to update quantity');
-      return;
-    }
-
-    loadCart();
+  const handleComboQuantityChange = (lineId: string, quantity: number) => {
+    if (quantity < 1) return;
+    updateComboQuantity.mutate({ lineId, quantity });
   };
 
-  const removeItem = async (itemId: string) => {
-    const { error } = await supabase
-      .from('cart_items')
-      .delete()
-      .eq('id', itemId);
-
-    if (error) {
-      toast.error('Failed to remove item');
-      return;
-    }
+  const handleRemoveCombo = (lineId: string) => {
+    removeCombo.mutate(lineId, {
+      onSuccess: () => toast.success('Combo removed from cart'),
+    });
+  };
 
-    toast.success('Item removed from cart');
-    loadCart();
+  const handleApplyCoupon = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const code = couponInput.trim().toUpperCase();
+    if (code) setCouponCode(code);
   };
 
-  const calculateTotal = () => {
-    const subtotal = cartItems.reduce((sum, item) => sum + (item.menu_item.price * item.quantity), 0);
-    const tax = subtotal * 0.05; // 5% tax
-    return { subtotal, tax, total: subtotal + tax };
+  const handleRemoveCoupon = () => {
+    setCouponCode(undefined);
+    setCouponInput('');
   };
 
   const handleCheckout = async () => {
-    const { data: { user } } = await supabase.auth.getUser();
-    if (!user) return;
-
-    if (cartItems.length === 0) {
+    if (isEmpty) {
       toast.error('Your cart is empty');
       return;
     }
 
-    const { subtotal, tax, total } = calculateTotal();
-    const orderNumber = `ORD-${Date.now().toString().slice(-6)}`;
-
-    // Create order
-    const { data: order, error: orderError } = await supabase
-      .from('orders')
-      .insert({
-        order_number: orderNumber,
-        student_id: user.id,
-        status: 'pending',
-        subtotal,
-        tax,
-        total,
-        payment_method: paymentMethod,
-        payment_status: 'completed',
-      })
-      .select()
-      .single();
-
-    if (orderError) {
-      toast.error('Failed to create order');
+    if (!pickupAt) {
+      toast.error('Choose a pickup time');
       return;
     }
 
-    // Create order items
-    const orderItems = cartItems.map(item => ({
-      order_id: order.id,
-      menu_item_id: item.menu_item.id,
-      quantity: item.quantity,
-      price_at_order: item.menu_item.price,
-      subtotal: item.menu_item.price * item.quantity,
-    }));
-
-    const { error: itemsError } = await supabase
-      .from('order_items')
-      .insert(orderItems);
-
-    if (itemsError) {
-      toast.error('Failed to create order items');
+    if (totals.coupon_error) {
+      toast.error(totals.coupon_error);
       return;
     }
 
-    // Clear cart
-    const { error: clearError } = await supabase
-      .from('cart_items')
-      .delete()
-      .eq('student_id', user.id);
+    if (paymentMethod === 'wallet' && walletBalance < totals.total) {
+      toast.error('Top up your wallet or choose another payment method');
+      return;
+    }
 
-    if (clearError) {
-      console.error('Failed to clear cart', clearError);
+    setPlacingOrder(true);
+
+    let orderId: string;
+    try {
+      orderId = await placeOrder.mutateAsync({
+        _payment_method: paymentMethod,
+        _expected_subtotal: totals.subtotal,
+        _expected_discount: totals.discount,
+        _expected_tax: totals.tax,
+        _expected_total: totals.total,
+        _cafeteria_id: selectedCafeteriaId,
+        _pickup_at: pickupAt,
+        _coupon_code: couponCode,
+        _redeem_points: totals.points_redeemed,
+      });
+    } catch (error) {
+      toast.error(error.message || 'Failed to place order');
+      setPlacingOrder(false);
+      return;
     }
 
-    toast.success('Order placed successfully!');
+    // Wallet orders are debited as they are placed and go straight to the kitchen
+    if (paymentMethod === 'wallet') {
+      toast.success('Order placed and paid from your wallet');
+    } else {
+      toast.success('Order placed! Complete payment to send it to the kitchen.');
+      await pay(orderId);
+    }
     navigate('/orders');
   };
 
@@ -183,7 +161,15 @@ const Cart = () => {
     );
   }
 
-  const { subtotal, tax, total } = calculateTotal();
+  const {
+    subtotal,
+    discount,
+    points_redeemed: pointsRedeemed,
+    tax,
+    total,
+    promotion_name: promotionName,
+    coupon_error: couponError,
+  } = totals;
 
   return (
     <div className="min-h-screen bg-gradient-hero">
@@ -199,7 +185,7 @@ const Cart = () => {
       </header>
 
       <div className="container mx-auto px-4 py-6">
-        {cartItems.length === 0 ? (
+        {isEmpty ? (
           <div className="py-12 text-center">
             <p className="mb-4 text-muted-foreground">Your cart is empty</p>
             <Button onClick={() => navigate('/menu')}>Browse Menu</Button>
@@ -208,56 +194,127 @@ const Cart = () => {
           <div className="grid gap-6 lg:grid-cols-3">
             {/* Cart Items */}
             <div className="space-y-4 lg:col-span-2">
-              {cartItems.map((item) => (
-                <Card key={item.id}>
-                  <CardContent className="flex gap-4 p-4">
-                    <img
-                      src={item.menu_item.image_url}
-                      alt={item.menu_item.name}
-                      className="h-24 w-24 rounded-lg object-cover"
-                    />
-                    <div className="flex-1">
-                      <div className="mb-2 flex items-start justify-between">
-                        <div>
-                          <h3 className="font-semibold">{item.menu_item.name}</h3>
-                          {item.menu_item.is_vegetarian && (
+              {cartItems.map((item) => {
+                const options = selectedOptions(modifierGroups, item.modifier_option_ids);
+
+                return (
+                  <Card key={item.id}>
+                    <CardContent className="flex gap-4 p-4">
+                      <img
+                        src={item.menu_item.image_url}
+                        alt={item.menu_item.name}
+                        className="h-24 w-24 rounded-lg object-cover"
+                      />
+                      <div className="flex-1">
+                        <div className="mb-2 flex items-start justify-between">
+                          <div>
+                            <h3 className="font-semibold">{item.menu_item.name}</h3>
+                            {item.menu_item.is_vegetarian && (
+                              <Badge variant="secondary" className="mt-1 text-xs">
+                                🌱 Veg
+                              </Badge>
+                            )}
+                            {options.length > 0 && (
+                              <p className="mt-1 text-sm text-muted-foreground">
+                                {options.map((option) => option.name).join(', ')}
+                              </p>
+                            )}
+                          </div>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => handleRemove(item.id)}
+                          >
+                            <Trash2 className="h-4 w-4 text-destructive" />
+                          </Button>
+                        </div>
+                        <p className="mb-2 font-semibold text-primary">
+                          ₹{priceWithOptions(item.menu_item.price, options) * item.quantity}
+                        </p>
+                        <div className="flex items-center gap-2">
+                          <Button
+                            variant="outline"
+                            size="icon"
+                            onClick={() => handleQuantityChange(item.id, item.quantity - 1)}
+                          >
+                            <Minus className="h-4 w-4" />
+                          </Button>
+                          <span className="w-8 text-center font-semibold">{item.quantity}</span>
+                          <Button
+                            variant="outline"
+                            size="icon"
+                            onClick={() => handleQuantityChange(item.id, item.quantity + 1)}
+                          >
+                            <Plus className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </div>
+                    </CardContent>
+                  </Card>
+                );
+              })}
+              {cartCombos.map((line) => {
+                const combo = combos.find((c) => c.id === line.combo.id);
+                const picks = combo ? comboPicks(combo, line.menu_item_ids) : [];
+
+                return (
+                  <Card key={line.id}>
+                    <CardContent className="flex gap-4 p-4">
+                      {line.combo.image_url ? (
+                        <img
+                          src={line.combo.image_url}
+                          alt={line.combo.name}
+                          className="h-24 w-24 rounded-lg object-cover"
+                        />
+                      ) : (
+                        <div className="h-24 w-24 rounded-lg bg-muted" />
+                      )}
+                      <div className="flex-1">
+                        <div className="mb-2 flex items-start justify-between">
+                          <div>
+                            <h3 className="font-semibold">{line.combo.name}</h3>
                             <Badge variant="secondary" className="mt-1 text-xs">
-                              🌱 Veg
+                              Combo
                             </Badge>
-                          )}
+                            <p className="mt-1 text-sm text-muted-foreground">
+                              {picks.map((pick) => pick?.menu_item?.name).filter(Boolean).join(', ')}
+                            </p>
+                          </div>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => handleRemoveCombo(line.id)}
+                          >
+                            <Trash2 className="h-4 w-4 text-destructive" />
+                          </Button>
+                        </div>
+                        {combo && (
+                          <p className="mb-2 font-semibold text-primary">
+                            ₹{comboPrice(combo, line.menu_item_ids) * line.quantity}
+                          </p>
+                        )}
+                        <div className="flex items-center gap-2">
+                          <Button
+                            variant="outline"
+                            size="icon"
+                            onClick={() => handleComboQuantityChange(line.id, line.quantity - 1)}
+                          >
+                            <Minus className="h-4 w-4" />
+                          </Button>
+                          <span className="w-8 text-center font-semibold">{line.quantity}</span>
+                          <Button
+                            variant="outline"
+                            size="icon"
+                            onClick={() => handleComboQuantityChange(line.id, line.quantity + 1)}
+                          >
+                            <Plus className="h-4 w-4" />
+                          </Button>
                         </div>
-                        <Button
-                          variant="ghost"
-                          size="icon"
-                          onClick={() => removeItem(item.id)}
-                        >
-                          <Trash2 className="h-4 w-4 text-destructive" />
-                        </Button>
-                      </div>
-                      <p className="mb-2 font-semibold text-primary">
-                        ₹{item.menu_item.price * item.quantity}
-                      </p>
-                      <div className="flex items-center gap-2">
-                        <Button
-                          variant="outline"
-                          size="icon"
-                          onClick={() => updateQuantity(item.id, item.quantity - 1)}
-                        >
-                          <Minus className="h-4 w-4" />
-                        </Button>
-                        <span className="w-8 text-center font-semibold">{item.quantity}</span>
-                        <Button
-                          variant="outline"
-                          size="icon"
-                          onClick={() => updateQuantity(item.id, item.quantity + 1)}
-                        >
-                          <Plus className="h-4 w-4" />
-                        </Button>
                       </div>
-                    </div>
-                  </CardContent>
-                </Card>
-              ))}
+                    </CardContent>
+                  </Card>
+                );
+              })}
             </div>
 
             {/* Order Summary */}
@@ -267,13 +324,61 @@ const Cart = () => {
                   <CardTitle>Order Summary</CardTitle>
                 </CardHeader>
                 <CardContent className="space-y-4">
+                  <div className="space-y-2">
+                    {couponCode ? (
+                      <div className="flex items-center justify-between rounded-md border px-3 py-2">
+                        <span className="flex items-center gap-2 text-sm font-medium">
+                          <Tag className="h-4 w-4" />
+                          {couponCode}
+                        </span>
+                        <Button variant="ghost" size="icon" className="h-6 w-6" onClick={handleRemoveCoupon}>
+                          <X className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    ) : (
+                      <form onSubmit={handleApplyCoupon} className="flex gap-2">
+                        <Input
+                          value={couponInput}
+                          onChange={(e) => setCouponInput(e.target.value)}
+                          placeholder="Coupon code"
+                          aria-label="Coupon code"
+                        />
+                        <Button type="submit" variant="outline" disabled={!couponInput.trim()}>
+                          Apply
+                        </Button>
+                      </form>
+                    )}
+                    {couponError && <p className="text-sm text-destructive">{couponError}</p>}
+                  </div>
+
+                  {pointsBalance > 0 && (
+                    <div className="flex items-center justify-between gap-2">
+                      <label htmlFor="use-points" className="text-sm">
+                        Use my points <span className="text-muted-foreground">({pointsBalance} available)</span>
+                      </label>
+                      <Switch id="use-points" checked={spendPoints} onCheckedChange={setSpendPoints} />
+                    </div>
+                  )}
+
                   <div className="space-y-2">
                     <div className="flex justify-between">
                       <span className="text-muted-foreground">Subtotal</span>
                       <span>₹{subtotal.toFixed(2)}</span>
                     </div>
+                    {discount > 0 && (
+                      <div className="flex justify-between text-success">
+                        <span>{promotionName}</span>
+                        <span>−₹{discount.toFixed(2)}</span>
+                      </div>
+                    )}
+                    {pointsRedeemed > 0 && (
+                      <div className="flex justify-between text-success">
+                        <span>{pointsRedeemed} points</span>
+                        <span>−₹{pointsRedeemed.toFixed(2)}</span>
+                      </div>
+                    )}
                     <div className="flex justify-between">
-                      <span className="text-muted-foreground">Tax (5%)</span>
+                      <span className="text-muted-foreground">Tax</span>
                       <span>₹{tax.toFixed(2)}</span>
                     </div>
                     <div className="border-t pt-2">
@@ -286,7 +391,7 @@ const Cart = () => {
 
                   <div className="space-y-2">
                     <label className="text-sm font-medium">Payment Method</label>
-                    <Select value={paymentMethod} onValueChange={(value: any) => setPaymentMethod(value)}>
+                    <Select value={paymentMethod} onValueChange={(value) => setPaymentMethod(value as typeof paymentMethod)}>
                       <SelectTrigger>
                         <SelectValue />
                       </SelectTrigger>
@@ -294,12 +399,47 @@ const Cart = () => {
                         <SelectItem value="upi">UPI</SelectItem>
                         <SelectItem value="card">Card</SelectItem>
                         <SelectItem value="razorpay">Razorpay</SelectItem>
+                        <SelectItem value="wallet">Campus Wallet (₹{walletBalance.toFixed(2)})</SelectItem>
                       </SelectContent>
                     </Select>
+                    {paymentMethod === 'wallet' && walletBalance < total && (
+                      <p className="text-xs text-destructive">
+                        Your wallet is ₹{(total - walletBalance).toFixed(2)} short.{' '}
+                        <button type="button" className="underline" onClick={() => navigate('/wallet')}>
+                          Top up
+                        </button>
+                      </p>
+                    )}
                   </div>
 
-                  <Button className="w-full" size="lg" onClick={handleCheckout}>
-                    Place Order
+                  {cafeterias.length > 1 && (
+                    <div className="space-y-2">
+                      <label className="text-sm font-medium">Pickup Counter</label>
+                      <Select
+                        value={selectedCafeteriaId}
+                        onValueChange={(id) => {
+                          setCafeteriaId(id);
+                          setPickupAt(undefined);
+                        }}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {cafeterias.map((cafeteria) => (
+                            <SelectItem key={cafeteria.id} value={cafeteria.id}>
+                              {cafeteria.name}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  )}
+
+                  <PickupSlotPicker cafeteriaId={selectedCafeteriaId} value={pickupAt} onChange={setPickupAt} />
+
+                  <Button className="w-full" size="lg" onClick={handleCheckout} disabled={placingOrder || quoting || !pickupAt}>
+                    {placingOrder ? 'Processing...' : 'Place Order'}
                   </Button>
                 </CardContent>
               </Card>
@@ -307,6 +447,8 @@ const Cart = () => {
           </div>
         )}
       </div>
+
+      <MockPaymentDialog session={mockSession} onFinish={finishMockPayment} />
     </div>
   );
 };
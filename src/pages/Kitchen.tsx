@@ -0,0 +1,248 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { ArrowLeft, ChefHat, Clock } from 'lucide-react';
+import { toast } from 'sonner';
+import { useKitchenOrderUpdates } from '@/hooks/use-order-updates';
+import { cn } from '@/lib/utils';
+import { formatPickupTime, type OrderStatus } from '@/lib/orders';
+import { useKitchenTickets, useUpdateOrderStatus, type KitchenTicket } from '@/data/orders';
+
+// Orders without a pickup slot are due this long after they were placed
+const OVERDUE_MINUTES = 15;
+
+const COLUMNS: { status: OrderStatus; title: string; next: OrderStatus; action: string }[] = [
+  { status: 'pending', title: 'New', next: 'preparing', action: 'Start' },
+  { status: 'preparing', title: 'Preparing', next: 'ready', action: 'Ready' },
+  { status: 'ready', title: 'Ready', next: 'completed', action: 'Picked Up' },
+];
+
+const formatAge = (ms: number) => {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+};
+
+const Kitchen = () => {
+  const navigate = useNavigate();
+  const { data: tickets = [], isPending: loading, refetch } = useKitchenTickets();
+  const { mutate: updateOrderStatus } = useUpdateOrderStatus();
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  useKitchenOrderUpdates(true, refetch);
+
+  const advanceTicket = useCallback((ticket: KitchenTicket) => {
+    const column = COLUMNS.find((c) => c.status === ticket.status);
+    if (!column) return;
+
+    updateOrderStatus(
+      { orderId: ticket.id, status: column.next },
+      { onError: (error) => toast.error(error.message || 'Failed to update order status') }
+    );
+  }, [updateOrderStatus]);
+
+  // Reading order for keyboard navigation: down each column, left to right
+  const orderedTickets = useMemo(
+    () => COLUMNS.flatMap((column) => tickets.filter((t) => t.status === column.status)),
+    [tickets]
+  );
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (orderedTickets.length === 0) return;
+
+      const index = orderedTickets.findIndex((t) => t.id === selectedId);
+
+      switch (e.key) {
+        case 'ArrowDown':
+        case 'ArrowRight':
+          e.preventDefault();
+          setSelectedId(orderedTickets[Math.min(index + 1, orderedTickets.length - 1)].id);
+          break;
+        case 'ArrowUp':
+        case 'ArrowLeft':
+          e.preventDefault();
+          setSelectedId(orderedTickets[Math.max(index - 1, 0)].id);
+          break;
+        case 'Enter':
+        case ' ':
+          if (index >= 0) {
+            e.preventDefault();
+            advanceTicket(orderedTickets[index]);
+          }
+          break;
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [orderedTickets, selectedId, advanceTicket]);
+
+  // What the line needs to cook right now, across every ticket not yet ready
+  const itemTotals = useMemo(() => {
+    const totals = new Map<string, { id: string; name: string; quantity: number }>();
+
+    tickets
+      .filter((t) => t.status !== 'ready')
+      .flatMap((t) => t.order_items)
+      .forEach((item) => {
+        const existing = totals.get(item.menu_item.id);
+        totals.set(item.menu_item.id, {
+          id: item.menu_item.id,
+          name: item.menu_item.name,
+          quantity: (existing?.quantity ?? 0) + item.quantity,
+        });
+      });
+
+    return [...totals.values()].sort((a, b) => b.quantity - a.quantity);
+  }, [tickets]);
+
+  if (loading) {
+    return (
+      <div className="flex min-h-screen items-center justify-center">
+        <div className="text-center">
+          <div className="mb-4 inline-block h-8 w-8 animate-spin rounded-full border-4 border-primary border-t-transparent"></div>
+          <p className="text-muted-foreground">Loading kitchen queue...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-hero">
+      {/* Header */}
+      <header className="border-b bg-card/50 backdrop-blur-sm">
+        <div className="flex items-center justify-between px-4 py-4">
+          <Button variant="ghost" size="icon" onClick={() => navigate('/admin')}>
+            <ArrowLeft className="h-5 w-5" />
+          </Button>
+          <div className="flex items-center gap-2">
+            <ChefHat className="h-6 w-6 text-primary" />
+            <h1 className="text-lg font-semibold">Kitchen Display</h1>
+          </div>
+          <p className="hidden text-sm text-muted-foreground md:block">
+            ↑/↓ select • Enter to bump
+          </p>
+        </div>
+      </header>
+
+      <div className="px-4 py-6">
+        {/* Aggregated item counts */}
+        <Card className="mb-6">
+          <CardContent className="flex flex-wrap gap-3 p-4">
+            {itemTotals.length === 0 ? (
+              <p className="text-muted-foreground">Nothing to cook</p>
+            ) : (
+              itemTotals.map((item) => (
+                <div key={item.id} className="rounded-lg border bg-background px-4 py-2 text-lg">
+                  <span className="font-bold text-primary">{item.quantity}×</span> {item.name}
+                </div>
+              ))
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Kanban columns */}
+        <div className="grid gap-4 lg:grid-cols-3">
+          {COLUMNS.map((column) => {
+            const columnTickets = tickets.filter((t) => t.status === column.status);
+
+            return (
+              <div key={column.status} className="space-y-4">
+                <div className="flex items-center justify-between">
+                  <h2 className="text-xl font-bold">{column.title}</h2>
+                  <Badge variant="secondary" className="text-base">{columnTickets.length}</Badge>
+                </div>
+
+                {columnTickets.map((ticket) => {
+                  const placedAt = new Date(ticket.created_at).getTime();
+                  const age = now - placedAt;
+                  const dueAt = ticket.pickup_at
+                    ? new Date(ticket.pickup_at).getTime()
+                    : placedAt + OVERDUE_MINUTES * 60 * 1000;
+                  const overdue = ticket.status !== 'ready' && now > dueAt;
+
+                  return (
+                    <Card
+                      key={ticket.id}
+                      onClick={() => setSelectedId(ticket.id)}
+                      className={cn(
+                        'cursor-pointer transition-all',
+                        overdue && 'border-2 border-destructive bg-destructive/5',
+                        selectedId === ticket.id && 'ring-4 ring-primary'
+                      )}
+                    >
+                      <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                        <div>
+                          <CardTitle className="text-3xl">{ticket.order_number}</CardTitle>
+                          <p className="text-sm font-medium text-muted-foreground">
+                            Pickup {formatPickupTime(ticket.pickup_at)}
+                          </p>
+                        </div>
+                        <span
+                          className={cn(
+                            'flex items-center gap-1 text-lg font-semibold tabular-nums',
+                            overdue ? 'text-destructive' : 'text-muted-foreground'
+                          )}
+                        >
+                          <Clock className="h-5 w-5" />
+                          {formatAge(age)}
+                        </span>
+                      </CardHeader>
+                      <CardContent className="space-y-4">
+                        <ul className="space-y-1 text-lg">
+                          {ticket.order_items.map((item, index) => (
+                            <li key={index}>
+                              <span className="font-bold">{item.quantity}×</span> {item.menu_item.name}{' '}
+                              {item.menu_item.is_vegetarian && '🌱'}
+                              {item.order_combo && (
+                                <span className="text-base text-muted-foreground"> ({item.order_combo.name})</span>
+                              )}
+                              {item.order_item_modifiers.length > 0 && (
+                                <ul className="ml-7 text-base text-muted-foreground">
+                                  {item.order_item_modifiers.map((modifier, i) => (
+                                    <li key={i}>
+                                      {modifier.group_name}: {modifier.option_name}
+                                    </li>
+                                  ))}
+                                </ul>
+                              )}
+                            </li>
+                          ))}
+                        </ul>
+                        {ticket.notes && (
+                          <p className="rounded bg-warning/10 p-2 text-sm">{ticket.notes}</p>
+                        )}
+                        <Button
+                          size="lg"
+                          className="h-14 w-full text-lg"
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            advanceTicket(ticket);
+                          }}
+                        >
+                          {column.action}
+                        </Button>
+                      </CardContent>
+                    </Card>
+                  );
+                })}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Kitchen;
@@ -1,4 +1,4 @@
-import { useEffect, useState } from 'react';
+import { useMemo, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
@@ -6,65 +6,34 @@ import { Badge } from '@/components/ui/badge';
 import { Input } from '@/components/ui/input';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { ArrowLeft, Plus, Search, ShoppingCart } from 'lucide-react';
-import { supabase } from '@/integrations/supabase/client';
 import { toast } from 'sonner';
-import { getCurrentSession } from '@/lib/auth';
-
-interface MenuItem {
-  id: string;
-  name: string;
-  description: string;
-  price: number;
-  category: string;
-  is_vegetarian: boolean;
-  image_url: string;
-  is_available: boolean;
-}
+import { useAuth } from '@/hooks/use-auth';
+import { MENU_CATEGORIES } from '@/lib/menu';
+import { isLowStock, useMenu, type MenuItem } from '@/data/menu';
+import { useAddComboToCart, useAddToCart } from '@/data/cart';
+import { comboRegularPrice, defaultComboPicks, useCombos, type Combo } from '@/data/combos';
+import { groupsForItem, useModifierGroups } from '@/data/modifiers';
+import ModifierDialog from '@/components/ModifierDialog';
+import ComboDialog from '@/components/ComboDialog';
+
+const COMBOS_TAB = 'Combos';
 
 const Menu = () => {
   const navigate = useNavigate();
-  const [menuItems, setMenuItems] = useState<MenuItem[]>([]);
-  const [filteredItems, setFilteredItems] = useState<MenuItem[]>([]);
   const [searchQuery, setSearchQuery] = useState('');
   const [selectedCategory, setSelectedCategory] = useState('All');
-  const [loading, setLoading] = useState(true);
-  const [isAuthenticated, setIsAuthenticated] = useState(false);
-
-  const categories = ['All', 'Main Course', 'Fast Food', 'Breakfast', 'Dessert'];
-
-  useEffect(() => {
-    checkAuth();
-    loadMenuItems();
-  }, []);
-
-  useEffect(() => {
-    filterItems();
-  }, [searchQuery, selectedCategory, menuItems]);
+  const { session, user } = useAuth();
+  const { data: menuItems = [], isPending: loading } = useMenu();
+  const { data: combos = [] } = useCombos();
+  const { data: modifierGroups = [] } = useModifierGroups();
+  const addToCart = useAddToCart(user?.id);
+  const addComboToCart = useAddComboToCart(user?.id);
+  const [customizing, setCustomizing] = useState<MenuItem | null>(null);
+  const [buildingCombo, setBuildingCombo] = useState<Combo | null>(null);
 
-  const checkAuth = async () => {
-    const { session } = await getCurrentSession();
-    setIsAuthenticated(!!session);
-  };
-
-  const loadMenuItems = async () => {
-    const { data, error } = await supabase
-      .from('menu_items')
-      .select('*')
-      .eq('is_available', true)
-      .order('category');
-
-    if (error) {
-      toast.error('Failed to load menu');
-      setLoading(false);
-      return;
-    }
+  const categories = ['All', ...(combos.length > 0 ? [COMBOS_TAB] : []), ...MENU_CATEGORIES];
 
-    setMenuItems(data || []);
-    setFilteredItems(data || []);
-    setLoading(false);
-  };
-
-  const filterItems = () => {
+  const filteredItems = useMemo(() => {
     let filtered = menuItems;
 
     if (selectedCategory !== 'All') {
@@ -78,52 +47,53 @@ const Menu = () => {
       );
     }
 
-    setFilteredItems(filtered);
-  };
+    return filtered;
+  }, [searchQuery, selectedCategory, menuItems]);
+
+  const filteredCombos = useMemo(() => {
+    if (selectedCategory !== 'All' && selectedCategory !== COMBOS_TAB) return [];
 
-  const handleAddToCart = async (item: MenuItem) => {
-    if (!isAuthenticated) {
+    return combos.filter((combo) =>
+      combo.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
+      combo.description?.toLowerCase().includes(searchQuery.toLowerCase())
+    );
+  }, [searchQuery, selectedCategory, combos]);
+
+  const handleAddToCart = (item: MenuItem) => {
+    if (!session) {
       toast.error('Please sign in to add items to cart');
       navigate('/auth');
       return;
     }
 
-    const { data: { user } } = await supabase.auth.getUser();
-    if (!user) return;
-
-    const { data: existingItem } = await supabase
-      .from('cart_items')
-      .select('*')
-      .eq('student_id', user.id)
-      .eq('menu_item_id', item.id)
-      .single();
-
-    if (existingItem) {
-      const { error } = await supabase
-        .from('cart_items')
-        .update({ quantity: existingItem.quantity + 1 })
-        .eq('id', existingItem.id);
-
-      if (error) {
-        toast.error('Failed to update cart');
-        return;
-      }
-    } else {
-      const { error } = await supabase
-        .from('cart_items')
-        .insert({
-          student_id: user.id,
-          menu_item_id: item.id,
-          quantity: 1,
-        });
-
-      if (error) {
-        toast.error('Failed to add to cart');
-        return;
-      }
+    if (groupsForItem(modifierGroups, item.id).length > 0) {
+      setCustomizing(item);
+      return;
     }
 
-    toast.success('Added to cart!');
+    addItem(item, []);
+  };
+
+  const handleAddCombo = (combo: Combo) => {
+    if (!session) {
+      toast.error('Please sign in to add items to cart');
+      navigate('/auth');
+      return;
+    }
+
+    setBuildingCombo(combo);
+  };
+
+  const addCombo = (combo: Combo, menuItemIds: string[]) => {
+    addComboToCart.mutate({ comboId: combo.id, menuItemIds }, {
+      onSuccess: () => toast.success('Added to cart!'),
+    });
+  };
+
+  const addItem = (item: MenuItem, optionIds: string[]) => {
+    addToCart.mutate({ item, optionIds }, {
+      onSuccess: () => toast.success('Added to cart!'),
+    });
   };
 
   if (loading) {
@@ -146,7 +116,7 @@ const Menu = () => {
             <ArrowLeft className="h-5 w-5" />
           </Button>
           <h1 className="text-lg font-semibold">Menu</h1>
-          {isAuthenticated && (
+          {session && (
             <Button variant="ghost" size="icon" onClick={() => navigate('/cart')}>
               <ShoppingCart className="h-5 w-5" />
             </Button>
@@ -179,6 +149,51 @@ const Menu = () => {
           </TabsList>
         </Tabs>
 
+        {/* Combos */}
+        {filteredCombos.length > 0 && (
+          <div className="mb-6">
+            {selectedCategory === 'All' && <h2 className="mb-3 text-lg font-semibold">Combos</h2>}
+            <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
+              {filteredCombos.map((combo) => {
+                const regularPrice = comboRegularPrice(combo, defaultComboPicks(combo));
+
+                return (
+                  <Card key={combo.id} className="overflow-hidden shadow-card transition-all hover:shadow-lg-primary">
+                    {combo.image_url && (
+                      <div className="aspect-video overflow-hidden">
+                        <img src={combo.image_url} alt={combo.name} className="h-full w-full object-cover" />
+                      </div>
+                    )}
+                    <CardContent className="p-4">
+                      <div className="mb-2 flex items-start justify-between">
+                        <div>
+                          <h3 className="font-semibold">{combo.name}</h3>
+                          <Badge variant="secondary" className="mt-1 text-xs">
+                            Combo
+                          </Badge>
+                        </div>
+                        <div className="text-right">
+                          <p className="text-lg font-bold text-primary">₹{combo.price}</p>
+                          {regularPrice > combo.price && (
+                            <p className="text-sm text-muted-foreground line-through">₹{regularPrice}</p>
+                          )}
+                        </div>
+                      </div>
+                      <p className="mb-4 text-sm text-muted-foreground line-clamp-2">
+                        {combo.description || combo.combo_slots.map((slot) => slot.name).join(' + ')}
+                      </p>
+                      <Button className="w-full" onClick={() => handleAddCombo(combo)}>
+                        <Plus className="mr-2 h-4 w-4" />
+                        Add to Cart
+                      </Button>
+                    </CardContent>
+                  </Card>
+                );
+              })}
+            </div>
+          </div>
+        )}
+
         {/* Menu Items Grid */}
         <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
           {filteredItems.map((item) => (
@@ -194,11 +209,18 @@ const Menu = () => {
                 <div className="mb-2 flex items-start justify-between">
                   <div>
                     <h3 className="font-semibold">{item.name}</h3>
-                    {item.is_vegetarian && (
-                      <Badge variant="secondary" className="mt-1 text-xs">
-                        🌱 Veg
-                      </Badge>
-                    )}
+                    <div className="mt-1 flex flex-wrap gap-1">
+                      {item.is_vegetarian && (
+                        <Badge variant="secondary" className="text-xs">
+                          🌱 Veg
+                        </Badge>
+                      )}
+                      {isLowStock(item) && (
+                        <Badge variant="destructive" className="text-xs">
+                          Only {item.stock_quantity} left
+                        </Badge>
+                      )}
+                    </div>
                   </div>
                   <p className="text-lg font-bold text-primary">₹{item.price}</p>
                 </div>
@@ -217,12 +239,33 @@ const Menu = () => {
           ))}
         </div>
 
-        {filteredItems.length === 0 && (
+        {filteredItems.length === 0 && filteredCombos.length === 0 && (
           <div className="py-12 text-center text-muted-foreground">
             <p>No items found</p>
           </div>
         )}
       </div>
+
+      <ModifierDialog
+        key={customizing?.id}
+        item={customizing}
+        groups={customizing ? groupsForItem(modifierGroups, customizing.id) : []}
+        onConfirm={(optionIds) => {
+          addItem(customizing!, optionIds);
+          setCustomizing(null);
+        }}
+        onClose={() => setCustomizing(null)}
+      />
+
+      <ComboDialog
+        key={buildingCombo?.id}
+        combo={buildingCombo}
+        onConfirm={(menuItemIds) => {
+          addCombo(buildingCombo!, menuItemIds);
+          setBuildingCombo(null);
+        }}
+        onClose={() => setBuildingCombo(null)}
+      />
     </div>
   );
 };
@@ -1,120 +1,99 @@
 import { useEffect, useState } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { useNavigate, useSearchParams } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
-import { ArrowLeft, Package } from 'lucide-react';
-import { supabase } from '@/integrations/supabase/client';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { ArrowLeft, Bell, ChevronDown, Package, ReceiptText, Undo2 } from 'lucide-react';
 import { toast } from 'sonner';
-import { getCurrentSession, getCurrentProfile } from '@/lib/auth';
-
-interface Order {
-  id: string;
-  order_number: string;
-  status: string;
-  total: number;
-  created_at: string;
-  order_items: {
-    quantity: number;
-    price_at_order: number;
-    menu_item: {
-      name: string;
-      is_vegetarian: boolean;
-    };
-  }[];
-}
+import { useAuth } from '@/hooks/use-auth';
+import { usePayment } from '@/hooks/use-payment';
+import MockPaymentDialog from '@/components/MockPaymentDialog';
+import OrderProgress from '@/components/OrderProgress';
+import { useOrderUpdates } from '@/hooks/use-order-updates';
+import { formatPickupTime, getStatusColor } from '@/lib/orders';
+import { cn } from '@/lib/utils';
+import { useOrders, useRefundOrder, useUpdateOrderStatus, type OrderWithDetails } from '@/data/orders';
 
 const Orders = () => {
   const navigate = useNavigate();
-  const [orders, setOrders] = useState<Order[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [isAdmin, setIsAdmin] = useState(false);
+  const [searchParams] = useSearchParams();
+  const highlightedOrderId = searchParams.get('order');
+  const { profile } = useAuth();
+  const isAdmin = profile?.role === 'admin';
+  const { data: orders = [], isPending: loading, refetch } = useOrders(
+    isAdmin ? { paidOnly: true } : { studentId: profile.id }
+  );
+  const updateOrderStatus = useUpdateOrderStatus();
+  const refundOrder = useRefundOrder();
+  const [refunding, setRefunding] = useState<OrderWithDetails | null>(null);
+  const [canEnableNotifications, setCanEnableNotifications] = useState(
+    typeof Notification !== 'undefined' && Notification.permission === 'default'
+  );
+  const { pay, mockSession, finishMockPayment } = usePayment();
 
-  useEffect(() => {
-    checkAuthAndLoadOrders();
-  }, []);
-
-  const checkAuthAndLoadOrders = async () => {
-    const { session } = await getCurrentSession();
-    if (!session) {
-      navigate('/auth');
-      return;
-    }
+  useOrderUpdates(isAdmin ? undefined : profile.id, refetch, orders);
 
-    const profile = await getCurrentProfile();
-    setIsAdmin(profile?.role === 'admin');
+  // Deep links from notifications land on the related order
+  useEffect(() => {
+    if (!highlightedOrderId || loading) return;
+    document.getElementById(`order-${highlightedOrderId}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  }, [highlightedOrderId, loading]);
 
-    loadOrders(profile?.role === 'admin');
+  const handleStatusChange = (orderId: string, status: string) => {
+    updateOrderStatus.mutate(
+      { orderId, status },
+      {
+        onSuccess: () => toast.success('Order status updated'),
+        onError: (error) => toast.error(error.message || 'Failed to update order status'),
+      }
+    );
   };
 
-  const loadOrders = async (isAdminUser: boolean) => {
-    const { data: { user } } = await supabase.auth.getUser();
-    if (!user) return;
-
-    let query = supabase
-      .from('orders')
-      .select(`
-        id,
-        order_number,
-        status,
-        total,
-        created_at,
-        order_items (
-          quantity,
-          price_at_order,
-          menu_item:menu_items (
-            name,
-            is_vegetarian
-          )
-        )
-      `)
-      .order('created_at', { ascending: false });
-
-    if (!isAdminUser) {
-      query = query.eq('student_id', user.id);
-    }
-
-    const { data, error } = await query;
+  const handleRefund = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (!refunding) return;
+    const formData = new FormData(e.currentTarget);
 
-    if (error) {
-      toast.error('Failed to load orders');
-      setLoading(false);
-      return;
-    }
-
-    setOrders(data as any || []);
-    setLoading(false);
+    refundOrder.mutate(
+      { orderId: refunding.id, reason: (formData.get('reason') as string).trim() },
+      {
+        onSuccess: () => {
+          toast.success(`Refunded ₹${refunding.total.toFixed(2)} to the student's wallet`);
+          setRefunding(null);
+        },
+        onError: (error) => toast.error(error.message || 'Failed to refund order'),
+      }
+    );
   };
 
-  const updateOrderStatus = async (orderId: string, newStatus: string) => {
-    const { error } = await supabase
-      .from('orders')
-      .update({ status: newStatus })
-      .eq('id', orderId);
+  const enableNotifications = async () => {
+    const permission = await Notification.requestPermission();
+    setCanEnableNotifications(false);
 
-    if (error) {
-      toast.error('Failed to update order status');
-      return;
+    if (permission === 'granted') {
+      toast.success("We'll let you know when your order is ready");
     }
+  };
 
-    toast.success('Order status updated');
-    loadOrders(isAdmin);
+  const handlePayNow = async (orderId: string) => {
+    await pay(orderId);
+    refetch();
   };
 
-  const getStatusColor = (status: string) => {
-    switch (status) {
+  const getPaymentStatusLabel = (paymentStatus: string) => {
+    switch (paymentStatus) {
       case 'pending':
-        return 'bg-yellow-500/10 text-yellow-500';
-      case 'preparing':
-        return 'bg-blue-500/10 text-blue-500';
-      case 'ready':
-        return 'bg-green-500/10 text-green-500';
-      case 'completed':
-        return 'bg-gray-500/10 text-gray-500';
-      case 'cancelled':
-        return 'bg-red-500/10 text-red-500';
+        return 'Awaiting payment';
+      case 'failed':
+        return 'Payment failed';
+      case 'refunded':
+        return 'Refunded';
       default:
-        return 'bg-gray-500/10 text-gray-500';
+        return null;
     }
   };
 
@@ -138,7 +117,13 @@ const Orders = () => {
             <ArrowLeft className="h-5 w-5" />
           </Button>
           <h1 className="text-lg font-semibold">Orders</h1>
-          <div className="w-10" />
+          {!isAdmin && canEnableNotifications ? (
+            <Button variant="ghost" size="icon" onClick={enableNotifications} title="Notify me when my order is ready">
+              <Bell className="h-5 w-5" />
+            </Button>
+          ) : (
+            <div className="w-10" />
+          )}
         </div>
       </header>
 
@@ -154,7 +139,11 @@ const Orders = () => {
         ) : (
           <div className="space-y-4">
             {orders.map((order) => (
-              <Card key={order.id}>
+              <Card
+                key={order.id}
+                id={`order-${order.id}`}
+                className={cn(order.id === highlightedOrderId && 'ring-2 ring-primary')}
+              >
                 <CardContent className="p-6">
                   <div className="mb-4 flex items-start justify-between">
                     <div>
@@ -163,32 +152,111 @@ const Orders = () => {
                         {new Date(order.created_at).toLocaleDateString()} at{' '}
                         {new Date(order.created_at).toLocaleTimeString()}
                       </p>
+                      {order.pickup_at && (
+                        <p className="text-sm font-medium">Pickup at {formatPickupTime(order.pickup_at)}</p>
+                      )}
                     </div>
                     <div className="text-right">
                       <p className="text-lg font-bold text-primary">₹{order.total.toFixed(2)}</p>
+                      {order.discount + order.points_redeemed > 0 && (
+                        <p className="text-xs text-success">
+                          Saved ₹{(order.discount + order.points_redeemed).toFixed(2)}
+                        </p>
+                      )}
                       <Badge className={getStatusColor(order.status)}>
                         {order.status}
                       </Badge>
+                      {getPaymentStatusLabel(order.payment_status) && (
+                        <p className="mt-1 text-xs text-muted-foreground">
+                          {getPaymentStatusLabel(order.payment_status)}
+                        </p>
+                      )}
                     </div>
                   </div>
 
+                  {!isAdmin && ['pending', 'preparing', 'ready'].includes(order.status) && order.payment_status === 'completed' && (
+                    <div className="mb-4">
+                      <OrderProgress status={order.status} />
+                    </div>
+                  )}
+
                   <div className="mb-4 space-y-2">
                     {order.order_items.map((item, index) => (
                       <div key={index} className="flex justify-between text-sm">
                         <span>
                           {item.menu_item.name} {item.menu_item.is_vegetarian && '🌱'} x{item.quantity}
+                          {item.order_combo && (
+                            <span className="block text-xs text-muted-foreground">Part of {item.order_combo.name}</span>
+                          )}
+                          {item.order_item_modifiers.length > 0 && (
+                            <span className="block text-xs text-muted-foreground">
+                              {item.order_item_modifiers.map((modifier) => modifier.option_name).join(', ')}
+                            </span>
+                          )}
                         </span>
                         <span>₹{(item.price_at_order * item.quantity).toFixed(2)}</span>
                       </div>
                     ))}
                   </div>
 
+                  {order.order_status_events.length > 0 && (
+                    <Collapsible className="mb-4">
+                      <CollapsibleTrigger className="group flex items-center gap-1 text-sm text-muted-foreground hover:text-foreground">
+                        Timeline
+                        <ChevronDown className="h-4 w-4 transition-transform group-data-[state=open]:rotate-180" />
+                      </CollapsibleTrigger>
+                      <CollapsibleContent>
+                        <ol className="mt-2 space-y-2 border-l pl-4">
+                          {[...order.order_status_events]
+                            .sort((a, b) => a.created_at.localeCompare(b.created_at))
+                            .map((event, index) => (
+                              <li key={index} className="text-sm">
+                                <Badge className={getStatusColor(event.to_status)}>{event.to_status}</Badge>
+                                <span className="ml-2 text-muted-foreground">
+                                  {new Date(event.created_at).toLocaleTimeString()}
+                                  {event.changed_by_profile && ` by ${event.changed_by_profile.full_name}`}
+                                </span>
+                              </li>
+                            ))}
+                        </ol>
+                      </CollapsibleContent>
+                    </Collapsible>
+                  )}
+
+                  {order.refund_reason && (
+                    <p className="mb-4 text-sm text-muted-foreground">Refunded: {order.refund_reason}</p>
+                  )}
+
+                  {['completed', 'refunded'].includes(order.payment_status) && (
+                    <div className="mb-4 flex gap-2">
+                      <Button variant="outline" size="sm" onClick={() => navigate(`/orders/${order.id}/receipt`)}>
+                        <ReceiptText className="mr-2 h-4 w-4" />
+                        Receipt
+                      </Button>
+                      {/* Cancelled wallet orders were already paid back to the wallet */}
+                      {isAdmin &&
+                        order.payment_status === 'completed' &&
+                        !(order.status === 'cancelled' && order.payment_method === 'wallet') && (
+                          <Button variant="outline" size="sm" onClick={() => setRefunding(order)}>
+                            <Undo2 className="mr-2 h-4 w-4" />
+                            Refund
+                          </Button>
+                        )}
+                    </div>
+                  )}
+
+                  {!isAdmin && order.payment_status === 'pending' && order.status === 'pending' && (
+                    <Button size="sm" onClick={() => handlePayNow(order.id)}>
+                      Pay Now
+                    </Button>
+                  )}
+
                   {isAdmin && order.status !== 'completed' && order.status !== 'cancelled' && (
                     <div className="flex gap-2">
                       {order.status === 'pending' && (
                         <Button
                           size="sm"
-                          onClick={() => updateOrderStatus(order.id, 'preparing')}
+                          onClick={() => handleStatusChange(order.id, 'preparing')}
                         >
                           Mark as Preparing
                         </Button>
@@ -196,7 +264,7 @@ const Orders = () => {
                       {order.status === 'preparing' && (
                         <Button
                           size="sm"
-                          onClick={() => updateOrderStatus(order.id, 'ready')}
+                          onClick={() => handleStatusChange(order.id, 'ready')}
                         >
                           Mark as Ready
                         </Button>
@@ -204,7 +272,7 @@ const Orders = () => {
                       {order.status === 'ready' && (
                         <Button
                           size="sm"
-                          onClick={() => updateOrderStatus(order.id, 'completed')}
+                          onClick={() => handleStatusChange(order.id, 'completed')}
                         >
                           Mark as Completed
                         </Button>
@@ -212,7 +280,7 @@ const Orders = () => {
                       <Button
                         size="sm"
                         variant="destructive"
-                        onClick={() => updateOrderStatus(order.id, 'cancelled')}
+                        onClick={() => handleStatusChange(order.id, 'cancelled')}
                       >
                         Cancel Order
                       </Button>
@@ -224,6 +292,30 @@ const Orders = () => {
           </div>
         )}
       </div>
+
+      <Dialog open={!!refunding} onOpenChange={(open) => !open && setRefunding(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Refund order {refunding?.order_number}</DialogTitle>
+            <DialogDescription>
+              ₹{refunding?.total.toFixed(2)} goes back to the student's campus wallet and any loyalty points are
+              reversed.
+              {['pending', 'preparing', 'ready'].includes(refunding?.status) && ' The order is also cancelled.'}
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleRefund} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="refund-reason">Reason</Label>
+              <Textarea id="refund-reason" name="reason" minLength={3} maxLength={200} required />
+            </div>
+            <Button type="submit" variant="destructive" className="w-full" disabled={refundOrder.isPending}>
+              {refundOrder.isPending ? 'Refunding...' : 'Refund Order'}
+            </Button>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <MockPaymentDialog session={mockSession} onFinish={finishMockPayment} />
     </div>
   );
 };
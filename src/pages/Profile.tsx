@@ -1,30 +1,120 @@
-import { useEffect, useState } from 'react';
+import { useRef, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
 import { Button } from '@/components/ui/button';
-import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import { ArrowLeft, User, Mail, Hash, Building } from 'lucide-react';
-import { getCurrentSession, getCurrentProfile, signOut, type Profile } from '@/lib/auth';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { ArrowLeft, Camera, User, Mail, Hash } from 'lucide-react';
+import { signOut, updateProfile, updatePassword, uploadAvatar } from '@/lib/auth';
+import { useAuth } from '@/hooks/use-auth';
 import { toast } from 'sonner';
 
+const MAX_AVATAR_BYTES = 2 * 1024 * 1024;
+
+const detailsSchema = z.object({
+  full_name: z.string().trim().min(2, 'Name must be at least 2 characters').max(100),
+  department: z.string().trim().max(100).optional(),
+  cafeteria_name: z.string().trim().max(100).optional(),
+});
+
+const passwordSchema = z
+  .object({
+    password: z.string().min(6, 'Password must be at least 6 characters'),
+    confirm: z.string(),
+  })
+  .refine((values) => values.password === values.confirm, {
+    message: 'Passwords do not match',
+    path: ['confirm'],
+  });
+
+type DetailsValues = z.infer<typeof detailsSchema>;
+type PasswordValues = z.infer<typeof passwordSchema>;
+
 const ProfilePage = () => {
   const navigate = useNavigate();
-  const [profile, setProfile] = useState<Profile | null>(null);
-  const [loading, setLoading] = useState(true);
+  const { profile, refreshProfile } = useAuth();
+  const [uploadingAvatar, setUploadingAvatar] = useState(false);
+  const avatarInput = useRef<HTMLInputElement>(null);
+
+  const detailsForm = useForm<DetailsValues>({
+    resolver: zodResolver(detailsSchema),
+    defaultValues: {
+      full_name: profile?.full_name ?? '',
+      department: profile?.department ?? '',
+      cafeteria_name: profile?.cafeteria_name ?? '',
+    },
+  });
+
+  const passwordForm = useForm<PasswordValues>({
+    resolver: zodResolver(passwordSchema),
+    defaultValues: { password: '', confirm: '' },
+  });
+
+  const handleSaveDetails = async (values: DetailsValues) => {
+    if (!profile) return;
+
+    // Only send the fields this role is allowed to edit
+    const { profile: updated, error } = await updateProfile(profile.id, {
+      full_name: values.full_name,
+      ...(profile.role === 'student'
+        ? { department: values.department || null }
+        : { cafeteria_name: values.cafeteria_name || null }),
+    });
+
+    if (error || !updated) {
+      toast.error(error?.message || 'Failed to update profile');
+      return;
+    }
+
+    await refreshProfile();
+    toast.success('Profile updated');
+  };
+
+  const handleChangePassword = async (values: PasswordValues) => {
+    const { error } = await updatePassword(values.password);
+
+    if (error) {
+      toast.error(error.message);
+      return;
+    }
+
+    passwordForm.reset();
+    toast.success('Password changed');
+  };
+
+  const handleAvatarChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file || !profile) return;
+
+    if (file.size > MAX_AVATAR_BYTES) {
+      toast.error('Avatar must be 2 MB or smaller');
+      return;
+    }
+
+    setUploadingAvatar(true);
+
+    const { url, error: uploadError } = await uploadAvatar(profile.id, file);
+    if (uploadError) {
+      toast.error('Failed to upload avatar');
+      setUploadingAvatar(false);
+      return;
+    }
 
-  useEffect(() => {
-    checkAuthAndLoadProfile();
-  }, []);
+    const { profile: updated, error } = await updateProfile(profile.id, { avatar_url: url });
+    setUploadingAvatar(false);
 
-  const checkAuthAndLoadProfile = async () => {
-    const { session } = await getCurrentSession();
-    if (!session) {
-      navigate('/auth');
+    if (error || !updated) {
+      toast.error('Failed to update avatar');
       return;
     }
 
-    const userProfile = await getCurrentProfile();
-    setProfile(userProfile);
-    setLoading(false);
+    await refreshProfile();
+    toast.success('Avatar updated');
   };
 
   const handleLogout = async () => {
@@ -33,17 +123,6 @@ const ProfilePage = () => {
     navigate('/');
   };
 
-  if (loading) {
-    return (
-      <div className="flex min-h-screen items-center justify-center">
-        <div className="text-center">
-          <div className="mb-4 inline-block h-8 w-8 animate-spin rounded-full border-4 border-primary border-t-transparent"></div>
-          <p className="text-muted-foreground">Loading profile...</p>
-        </div>
-      </div>
-    );
-  }
-
   if (!profile) {
     return (
       <div className="flex min-h-screen items-center justify-center">
@@ -65,12 +144,33 @@ const ProfilePage = () => {
         </div>
       </header>
 
-      <div className="container mx-auto px-4 py-6">
-        <Card className="mx-auto max-w-2xl">
+      <div className="container mx-auto max-w-2xl space-y-6 px-4 py-6">
+        <Card>
           <CardHeader className="text-center">
-            <div className="mx-auto mb-4 flex h-24 w-24 items-center justify-center rounded-full bg-gradient-primary text-white">
-              <User className="h-12 w-12" />
-            </div>
+            <button
+              type="button"
+              className="group relative mx-auto mb-4"
+              onClick={() => avatarInput.current?.click()}
+              disabled={uploadingAvatar}
+              aria-label="Change avatar"
+            >
+              <Avatar className="h-24 w-24">
+                <AvatarImage src={profile.avatar_url} alt={profile.full_name} className="object-cover" />
+                <AvatarFallback className="bg-gradient-primary text-white">
+                  <User className="h-12 w-12" />
+                </AvatarFallback>
+              </Avatar>
+              <span className="absolute bottom-0 right-0 rounded-full bg-primary p-2 text-primary-foreground shadow">
+                <Camera className="h-4 w-4" />
+              </span>
+            </button>
+            <input
+              ref={avatarInput}
+              type="file"
+              accept="image/jpeg,image/png,image/webp"
+              className="hidden"
+              onChange={handleAvatarChange}
+            />
             <CardTitle className="text-2xl">{profile.full_name}</CardTitle>
             <p className="text-muted-foreground capitalize">{profile.role}</p>
           </CardHeader>
@@ -83,53 +183,128 @@ const ProfilePage = () => {
               </div>
             </div>
 
-            {profile.role === 'student' && (
-              <>
-                <div className="flex items-center gap-3 rounded-lg border p-4">
-                  <Hash className="h-5 w-5 text-muted-foreground" />
-                  <div>
-                    <p className="text-sm text-muted-foreground">Student ID</p>
-                    <p className="font-medium">{profile.student_id}</p>
-                  </div>
-                </div>
-                <div className="flex items-center gap-3 rounded-lg border p-4">
-                  <Building className="h-5 w-5 text-muted-foreground" />
-                  <div>
-                    <p className="text-sm text-muted-foreground">Department</p>
-                    <p className="font-medium">{profile.department}</p>
-                  </div>
-                </div>
-              </>
-            )}
-
-            {profile.role === 'admin' && (
-              <>
-                <div className="flex items-center gap-3 rounded-lg border p-4">
-                  <Hash className="h-5 w-5 text-muted-foreground" />
-                  <div>
-                    <p className="text-sm text-muted-foreground">Staff ID</p>
-                    <p className="font-medium">{profile.staff_id}</p>
-                  </div>
-                </div>
-                <div className="flex items-center gap-3 rounded-lg border p-4">
-                  <Building className="h-5 w-5 text-muted-foreground" />
-                  <div>
-                    <p className="text-sm text-muted-foreground">Cafeteria</p>
-                    <p className="font-medium">{profile.cafeteria_name}</p>
-                  </div>
-                </div>
-              </>
-            )}
-
-            <Button
-              variant="destructive"
-              className="w-full"
-              onClick={handleLogout}
-            >
-              Sign Out
-            </Button>
+            <div className="flex items-center gap-3 rounded-lg border p-4">
+              <Hash className="h-5 w-5 text-muted-foreground" />
+              <div>
+                <p className="text-sm text-muted-foreground">
+                  {profile.role === 'student' ? 'Student ID' : 'Staff ID'}
+                </p>
+                <p className="font-medium">
+                  {(profile.role === 'student' ? profile.student_id : profile.staff_id) || '—'}
+                </p>
+              </div>
+            </div>
           </CardContent>
         </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Details</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <Form {...detailsForm}>
+              <form onSubmit={detailsForm.handleSubmit(handleSaveDetails)} className="space-y-4">
+                <FormField
+                  control={detailsForm.control}
+                  name="full_name"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Full Name</FormLabel>
+                      <FormControl>
+                        <Input {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                {profile.role === 'student' ? (
+                  <FormField
+                    control={detailsForm.control}
+                    name="department"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Department</FormLabel>
+                        <FormControl>
+                          <Input {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                ) : (
+                  <FormField
+                    control={detailsForm.control}
+                    name="cafeteria_name"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Cafeteria</FormLabel>
+                        <FormControl>
+                          <Input {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                )}
+
+                <Button type="submit" disabled={detailsForm.formState.isSubmitting}>
+                  {detailsForm.formState.isSubmitting ? 'Saving...' : 'Save Changes'}
+                </Button>
+              </form>
+            </Form>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Change Password</CardTitle>
+            <CardDescription>You will stay signed in on this device</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Form {...passwordForm}>
+              <form onSubmit={passwordForm.handleSubmit(handleChangePassword)} className="space-y-4">
+                <FormField
+                  control={passwordForm.control}
+                  name="password"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>New Password</FormLabel>
+                      <FormControl>
+                        <Input type="password" autoComplete="new-password" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={passwordForm.control}
+                  name="confirm"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Confirm Password</FormLabel>
+                      <FormControl>
+                        <Input type="password" autoComplete="new-password" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <Button type="submit" disabled={passwordForm.formState.isSubmitting}>
+                  {passwordForm.formState.isSubmitting ? 'Updating...' : 'Update Password'}
+                </Button>
+              </form>
+            </Form>
+          </CardContent>
+        </Card>
+
+        <Button
+          variant="destructive"
+          className="w-full"
+          onClick={handleLogout}
+        >
+          Sign Out
+        </Button>
       </div>
     </div>
   );
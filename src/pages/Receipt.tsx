@@ -0,0 +1,231 @@
+import { useRef, useState } from 'react';
+import { useParams, useNavigate } from 'react-router-dom';
+import { QRCodeCanvas } from 'qrcode.react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Separator } from '@/components/ui/separator';
+import { ArrowLeft, Download, Printer } from 'lucide-react';
+import { useOrderReceipt } from '@/data/orders';
+import { downloadFile } from '@/lib/exports';
+import {
+  formatPickupTime,
+  getStatusColor,
+  getTaxBreakdown,
+  PAYMENT_METHOD_LABELS,
+  PAYMENT_STATUS_LABELS,
+} from '@/lib/orders';
+import { buildReceiptPdf } from '@/lib/receipt-pdf';
+
+const Receipt = () => {
+  const navigate = useNavigate();
+  const { orderId } = useParams<{ orderId: string }>();
+  const { data: order, isPending: loading } = useOrderReceipt(orderId);
+  const qrCodeRef = useRef<HTMLCanvasElement>(null);
+  const [downloading, setDownloading] = useState(false);
+
+  // The PDF reuses the QR code already drawn on the page
+  const handleDownload = async () => {
+    if (!qrCodeRef.current) return;
+
+    setDownloading(true);
+    try {
+      const pdf = await buildReceiptPdf(order, qrCodeRef.current.toDataURL('image/png'));
+      downloadFile(`receipt_${order.order_number}.pdf`, pdf, 'application/pdf');
+    } catch {
+      toast.error('Failed to create the PDF');
+    } finally {
+      setDownloading(false);
+    }
+  };
+
+  const handlePrint = () => {
+    const title = document.title;
+    document.title = `Receipt ${order.order_number}`;
+    window.print();
+    document.title = title;
+  };
+
+  if (loading) {
+    return (
+      <div className="flex min-h-screen items-center justify-center">
+        <div className="text-center">
+          <div className="mb-4 inline-block h-8 w-8 animate-spin rounded-full border-4 border-primary border-t-transparent"></div>
+          <p className="text-muted-foreground">Loading receipt...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!order) {
+    return (
+      <div className="flex min-h-screen flex-col items-center justify-center gap-4">
+        <p className="text-muted-foreground">Receipt not found</p>
+        <Button onClick={() => navigate('/orders')}>Back to Orders</Button>
+      </div>
+    );
+  }
+
+  const taxBreakdown = getTaxBreakdown(order.order_items);
+
+  return (
+    <div className="min-h-screen bg-gradient-hero print:min-h-0 print:bg-none">
+      {/* Header */}
+      <header className="border-b bg-card/50 backdrop-blur-sm print:hidden">
+        <div className="container mx-auto flex items-center justify-between px-4 py-4">
+          <Button variant="ghost" size="icon" onClick={() => navigate(-1)}>
+            <ArrowLeft className="h-5 w-5" />
+          </Button>
+          <h1 className="text-lg font-semibold">Receipt</h1>
+          <div className="flex gap-2">
+            <Button size="sm" variant="outline" onClick={handlePrint}>
+              <Printer className="mr-2 h-4 w-4" />
+              Print
+            </Button>
+            <Button size="sm" onClick={handleDownload} disabled={downloading}>
+              <Download className="mr-2 h-4 w-4" />
+              PDF
+            </Button>
+          </div>
+        </div>
+      </header>
+
+      <div className="container mx-auto max-w-md px-4 py-6 print:max-w-none print:p-0">
+        <Card className="print:border-0 print:shadow-none">
+          <CardContent className="space-y-6 p-6 print:p-0">
+            <div className="text-center">
+              <h2 className="text-xl font-bold">{order.cafeteria?.name}</h2>
+              <p className="text-sm text-muted-foreground">Tax Invoice</p>
+            </div>
+
+            <div className="flex items-start justify-between text-sm">
+              <div className="space-y-1">
+                <p className="text-lg font-semibold">{order.order_number}</p>
+                <p className="text-muted-foreground">{new Date(order.created_at).toLocaleString()}</p>
+                {order.student && (
+                  <p>
+                    {order.student.full_name}
+                    {order.student.student_id && ` • ${order.student.student_id}`}
+                  </p>
+                )}
+                {order.pickup_at && <p>Pickup at {formatPickupTime(order.pickup_at)}</p>}
+              </div>
+              <div className="space-y-1 text-right">
+                <Badge className={getStatusColor(order.status)}>{order.status}</Badge>
+                <p>{PAYMENT_METHOD_LABELS[order.payment_method] ?? order.payment_method}</p>
+                <p className="text-muted-foreground">
+                  {PAYMENT_STATUS_LABELS[order.payment_status ?? 'pending']}
+                </p>
+              </div>
+            </div>
+
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b text-left text-muted-foreground">
+                  <th className="pb-2 font-medium">Item</th>
+                  <th className="pb-2 text-right font-medium">Qty</th>
+                  <th className="pb-2 text-right font-medium">Price</th>
+                  <th className="pb-2 text-right font-medium">Amount</th>
+                </tr>
+              </thead>
+              <tbody>
+                {order.order_items.filter((item) => !item.order_combo_id).map((item) => (
+                  <tr key={item.id} className="border-b last:border-0">
+                    <td className="py-2">
+                      {item.menu_item?.name}
+                      {item.order_item_modifiers.map((modifier) => (
+                        <span key={modifier.option_name} className="block text-xs text-muted-foreground">
+                          + {modifier.option_name}
+                          {modifier.price_delta !== 0 && ` (${modifier.price_delta > 0 ? '+' : '−'}₹${Math.abs(modifier.price_delta).toFixed(2)})`}
+                        </span>
+                      ))}
+                    </td>
+                    <td className="py-2 text-right">{item.quantity}</td>
+                    <td className="py-2 text-right">₹{item.price_at_order.toFixed(2)}</td>
+                    <td className="py-2 text-right">₹{item.subtotal.toFixed(2)}</td>
+                  </tr>
+                ))}
+                {order.order_combos.map((combo) => (
+                  <tr key={combo.id} className="border-b last:border-0">
+                    <td className="py-2">
+                      {combo.name}
+                      {order.order_items
+                        .filter((item) => item.order_combo_id === combo.id)
+                        .map((item) => (
+                          <span key={item.id} className="block text-xs text-muted-foreground">
+                            • {item.menu_item?.name}
+                          </span>
+                        ))}
+                    </td>
+                    <td className="py-2 text-right">{combo.quantity}</td>
+                    <td className="py-2 text-right">₹{combo.price.toFixed(2)}</td>
+                    <td className="py-2 text-right">₹{(combo.price * combo.quantity).toFixed(2)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+
+            <div className="space-y-2 text-sm">
+              <Separator />
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Subtotal</span>
+                <span>₹{order.subtotal.toFixed(2)}</span>
+              </div>
+              {order.discount > 0 && (
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Discount</span>
+                  <span>−₹{order.discount.toFixed(2)}</span>
+                </div>
+              )}
+              {order.points_redeemed > 0 && (
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">{order.points_redeemed} loyalty points</span>
+                  <span>−₹{order.points_redeemed.toFixed(2)}</span>
+                </div>
+              )}
+              {taxBreakdown ? (
+                taxBreakdown.map((group) => (
+                  <div key={`${group.name}-${group.rate}`} className="flex justify-between">
+                    <span className="text-muted-foreground">
+                      {group.name} {+(group.rate * 100).toFixed(2)}% on ₹{group.taxable.toFixed(2)}
+                    </span>
+                    <span>₹{group.tax.toFixed(2)}</span>
+                  </div>
+                ))
+              ) : (
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Tax</span>
+                  <span>₹{order.tax.toFixed(2)}</span>
+                </div>
+              )}
+              <Separator />
+              <div className="flex justify-between text-base font-bold">
+                <span>Total</span>
+                <span>₹{order.total.toFixed(2)}</span>
+              </div>
+              {taxBreakdown && taxBreakdown.length > 1 && (
+                <p className="text-xs text-muted-foreground">Total tax ₹{order.tax.toFixed(2)} (rounded on the whole order)</p>
+              )}
+            </div>
+
+            {order.notes && (
+              <p className="text-sm">
+                <span className="text-muted-foreground">Notes: </span>
+                {order.notes}
+              </p>
+            )}
+
+            <div className="flex flex-col items-center gap-2 pt-2">
+              <QRCodeCanvas ref={qrCodeRef} value={order.id} size={128} />
+              <p className="text-xs text-muted-foreground">Show this code at the counter</p>
+              <p className="font-mono text-[10px] text-muted-foreground">{order.id}</p>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default Receipt;
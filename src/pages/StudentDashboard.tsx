@@ -1,63 +1,43 @@
-import { useEffect, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
-import { UtensilsCrossed, ShoppingCart, Package, User, LogOut, Bell } from 'lucide-react';
-import { getCurrentSession, getCurrentProfile, signOut, type Profile } from '@/lib/auth';
-import { supabase } from '@/integrations/supabase/client';
+import { Progress } from '@/components/ui/progress';
+import { UtensilsCrossed, ShoppingCart, Package, User, LogOut, Star, Wallet } from 'lucide-react';
+import { signOut } from '@/lib/auth';
+import { useAuth } from '@/hooks/use-auth';
 import { toast } from 'sonner';
+import NotificationCenter from '@/components/NotificationCenter';
+import OrderProgress from '@/components/OrderProgress';
+import { useOrderUpdates } from '@/hooks/use-order-updates';
+import { formatPickupTime, getStatusColor } from '@/lib/orders';
+import { useCart, useCartCombos } from '@/data/cart';
+import { useOrders } from '@/data/orders';
+import { getLoyaltyEntryLabel, useLoyaltyHistory, useLoyaltySummary } from '@/data/loyalty';
+import { useWallet } from '@/data/wallet';
 
 const StudentDashboard = () => {
   const navigate = useNavigate();
-  const [profile, setProfile] = useState<Profile | null>(null);
-  const [cartCount, setCartCount] = useState(0);
-  const [recentOrders, setRecentOrders] = useState<any[]>([]);
-  const [loading, setLoading] = useState(true);
-
-  useEffect(() => {
-    checkAuth();
-    loadDashboardData();
-  }, []);
-
-  const checkAuth = async () => {
-    const { session } = await getCurrentSession();
-    if (!session) {
-      navigate('/auth');
-      return;
-    }
-
-    const userProfile = await getCurrentProfile();
-    if (userProfile) {
-      setProfile(userProfile);
-      if (userProfile.role !== 'student') {
-        navigate('/admin');
-      }
-    }
-  };
-
-  const loadDashboardData = async () => {
-    const { data: { user } } = await supabase.auth.getUser();
-    if (!user) return;
-
-    // Load cart count
-    const { data: cartItems } = await supabase
-      .from('cart_items')
-      .select('*')
-      .eq('student_id', user.id);
-    setCartCount(cartItems?.length || 0);
-
-    // Load recent orders
-    const { data: orders } = await supabase
-      .from('orders')
-      .select('*')
-      .eq('student_id', user.id)
-      .order('created_at', { ascending: false })
-      .limit(3);
-    setRecentOrders(orders || []);
-
-    setLoading(false);
-  };
+  const { profile } = useAuth();
+  const { data: cartItems = [], isPending: cartLoading } = useCart(profile.id);
+  const { data: cartCombos = [] } = useCartCombos(profile.id);
+  const { data: recentOrders = [], isPending: ordersLoading, refetch: refetchOrders } = useOrders({
+    studentId: profile.id,
+    limit: 3,
+  });
+  const { data: loyalty, refetch: refetchLoyalty } = useLoyaltySummary(profile.id);
+  const { data: loyaltyHistory = [], refetch: refetchLoyaltyHistory } = useLoyaltyHistory(profile.id);
+  const { data: wallet, refetch: refetchWallet } = useWallet(profile.id);
+  const loading = cartLoading || ordersLoading;
+  const cartCount = cartItems.length + cartCombos.length;
+
+  // Completing or cancelling an order changes the points and wallet balances
+  useOrderUpdates(profile.id, () => {
+    refetchOrders();
+    refetchLoyalty();
+    refetchLoyaltyHistory();
+    refetchWallet();
+  }, recentOrders);
 
   const handleLogout = async () => {
     await signOut();
@@ -86,9 +66,7 @@ const StudentDashboard = () => {
             <span className="text-lg font-semibold">Smart Cafeteria</span>
           </div>
           <div className="flex items-center gap-2">
-            <Button variant="ghost" size="icon" onClick={() => navigate('/profile')}>
-              <Bell className="h-5 w-5" />
-            </Button>
+            <NotificationCenter userId={profile?.id} />
             <Button variant="ghost" size="icon" onClick={handleLogout}>
               <LogOut className="h-5 w-5" />
             </Button>
@@ -106,7 +84,7 @@ const StudentDashboard = () => {
         </div>
 
         {/* Quick Actions */}
-        <div className="mb-8 grid gap-4 md:grid-cols-2 lg:grid-cols-4">
+        <div className="mb-8 grid gap-4 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-5">
           <QuickActionCard
             icon={<UtensilsCrossed className="h-6 w-6" />}
             title="Browse Menu"
@@ -126,6 +104,12 @@ const StudentDashboard = () => {
             description="Track your orders"
             onClick={() => navigate('/orders')}
           />
+          <QuickActionCard
+            icon={<Wallet className="h-6 w-6" />}
+            title="Wallet"
+            description={`₹${Number(wallet?.balance ?? 0).toFixed(2)} available`}
+            onClick={() => navigate('/wallet')}
+          />
           <QuickActionCard
             icon={<User className="h-6 w-6" />}
             title="Profile"
@@ -134,6 +118,52 @@ const StudentDashboard = () => {
           />
         </div>
 
+        {/* Loyalty Points */}
+        {loyalty && (
+          <Card className="mb-8">
+            <CardHeader className="flex-row items-start justify-between space-y-0">
+              <div>
+                <CardTitle className="flex items-center gap-2">
+                  <Star className="h-5 w-5 text-primary" />
+                  {loyalty.balance} points
+                </CardTitle>
+                <CardDescription>Each point takes ₹1 off at checkout</CardDescription>
+              </div>
+              {loyalty.tier_name && <Badge variant="secondary">{loyalty.tier_name}</Badge>}
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {loyalty.next_tier_name ? (
+                <div className="space-y-2">
+                  <Progress value={(loyalty.rolling_spend / loyalty.next_tier_spend) * 100} />
+                  <p className="text-sm text-muted-foreground">
+                    Spend ₹{(loyalty.next_tier_spend - loyalty.rolling_spend).toFixed(2)} more in 90 days to reach{' '}
+                    {loyalty.next_tier_name}
+                  </p>
+                </div>
+              ) : (
+                <p className="text-sm text-muted-foreground">You are in the top tier</p>
+              )}
+
+              {loyaltyHistory.length > 0 && (
+                <div className="divide-y rounded-lg border">
+                  {loyaltyHistory.map((entry) => (
+                    <div key={entry.id} className="flex items-center justify-between px-4 py-2 text-sm">
+                      <div>
+                        <p>{getLoyaltyEntryLabel(entry)}</p>
+                        <p className="text-xs text-muted-foreground">{new Date(entry.created_at).toLocaleDateString()}</p>
+                      </div>
+                      <span className={entry.points > 0 ? 'font-semibold text-success' : 'font-semibold text-destructive'}>
+                        {entry.points > 0 ? '+' : '−'}
+                        {Math.abs(entry.points)}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        )}
+
         {/* Recent Orders */}
         <Card>
           <CardHeader>
@@ -152,27 +182,22 @@ const StudentDashboard = () => {
             ) : (
               <div className="space-y-4">
                 {recentOrders.map((order) => (
-                  <div
-                    key={order.id}
-                    className="flex items-center justify-between rounded-lg border p-4"
-                  >
-                    <div>
-                      <p className="font-semibold">{order.order_number}</p>
-                      <p className="text-sm text-muted-foreground">
-                        ₹{order.total} • {new Date(order.created_at).toLocaleDateString()}
-                      </p>
+                  <div key={order.id} className="space-y-4 rounded-lg border p-4">
+                    <div className="flex items-center justify-between">
+                      <div>
+                        <p className="font-semibold">{order.order_number}</p>
+                        <p className="text-sm text-muted-foreground">
+                          ₹{order.total} • {new Date(order.created_at).toLocaleDateString()}
+                          {order.pickup_at && ` • Pickup ${formatPickupTime(order.pickup_at)}`}
+                        </p>
+                      </div>
+                      <Badge className={getStatusColor(order.status)}>
+                        {order.status}
+                      </Badge>
                     </div>
-                    <Badge
-                      variant={
-                        order.status === 'completed'
-                          ? 'default'
-                          : order.status === 'cancelled'
-                          ? 'destructive'
-                          : 'secondary'
-                      }
-                    >
-                      {order.status}
-                    </Badge>
+                    {['pending', 'preparing', 'ready'].includes(order.status) && order.payment_status === 'completed' && (
+                      <OrderProgress status={order.status} />
+                    )}
                   </div>
                 ))}
               </div>
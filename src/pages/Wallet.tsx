@@ -0,0 +1,139 @@
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useQueryClient } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { ArrowLeft, Plus, Wallet as WalletIcon } from 'lucide-react';
+import { toast } from 'sonner';
+import { useAuth } from '@/hooks/use-auth';
+import { usePayment } from '@/hooks/use-payment';
+import { useWalletUpdates } from '@/hooks/use-wallet-updates';
+import MockPaymentDialog from '@/components/MockPaymentDialog';
+import WalletStatement from '@/components/WalletStatement';
+import { TOP_UP_PRESETS, useCreateTopUp, useWallet, walletKeys } from '@/data/wallet';
+
+const Wallet = () => {
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const { profile } = useAuth();
+  const { data: wallet, isPending: loading } = useWallet(profile.id);
+  const createTopUp = useCreateTopUp();
+  const { payTopUp, mockSession, finishMockPayment } = usePayment();
+  const [amount, setAmount] = useState('');
+  const [toppingUp, setToppingUp] = useState(false);
+
+  useWalletUpdates(profile.id, () => queryClient.invalidateQueries({ queryKey: walletKeys.all }));
+
+  const handleTopUp = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    setToppingUp(true);
+
+    let topUpId: string;
+    try {
+      topUpId = await createTopUp.mutateAsync(Number(amount));
+    } catch (error) {
+      toast.error(error.message || 'Failed to start top-up');
+      setToppingUp(false);
+      return;
+    }
+
+    if (await payTopUp(topUpId)) {
+      toast.success('Your balance will update as soon as the payment is confirmed');
+      setAmount('');
+    }
+
+    queryClient.invalidateQueries({ queryKey: walletKeys.all });
+    setToppingUp(false);
+  };
+
+  if (loading) {
+    return (
+      <div className="flex min-h-screen items-center justify-center">
+        <div className="text-center">
+          <div className="mb-4 inline-block h-8 w-8 animate-spin rounded-full border-4 border-primary border-t-transparent"></div>
+          <p className="text-muted-foreground">Loading wallet...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-hero">
+      {/* Header */}
+      <header className="border-b bg-card/50 backdrop-blur-sm">
+        <div className="container mx-auto flex items-center justify-between px-4 py-4">
+          <Button variant="ghost" size="icon" onClick={() => navigate(-1)}>
+            <ArrowLeft className="h-5 w-5" />
+          </Button>
+          <h1 className="text-lg font-semibold">Campus Wallet</h1>
+          <div className="w-10" />
+        </div>
+      </header>
+
+      <div className="container mx-auto max-w-3xl space-y-6 px-4 py-6">
+        <Card>
+          <CardHeader>
+            <CardDescription>Available balance</CardDescription>
+            <CardTitle className="flex items-center gap-2 text-3xl">
+              <WalletIcon className="h-7 w-7 text-primary" />
+              ₹{Number(wallet?.balance ?? 0).toFixed(2)}
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleTopUp} className="space-y-3">
+              <label htmlFor="top-up-amount" className="text-sm font-medium">
+                Add money
+              </label>
+              <div className="flex flex-wrap gap-2">
+                {TOP_UP_PRESETS.map((preset) => (
+                  <Button
+                    key={preset}
+                    type="button"
+                    variant={Number(amount) === preset ? 'default' : 'outline'}
+                    size="sm"
+                    onClick={() => setAmount(String(preset))}
+                  >
+                    ₹{preset}
+                  </Button>
+                ))}
+              </div>
+              <div className="flex gap-2">
+                <Input
+                  id="top-up-amount"
+                  type="number"
+                  min={10}
+                  max={10000}
+                  step="0.01"
+                  placeholder="Amount in ₹"
+                  value={amount}
+                  onChange={(e) => setAmount(e.target.value)}
+                  required
+                />
+                <Button type="submit" disabled={toppingUp}>
+                  <Plus className="mr-2 h-4 w-4" />
+                  {toppingUp ? 'Processing...' : 'Top Up'}
+                </Button>
+              </div>
+              <p className="text-xs text-muted-foreground">Top-ups between ₹10 and ₹10000 are paid through the gateway.</p>
+            </form>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Statement</CardTitle>
+            <CardDescription>Top-ups, order payments, refunds and adjustments</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <WalletStatement walletId={wallet?.id} />
+          </CardContent>
+        </Card>
+      </div>
+
+      <MockPaymentDialog session={mockSession} onFinish={finishMockPayment} />
+    </div>
+  );
+};
+
+export default Wallet;
@@ -0,0 +1,57 @@
+export type PaymentProvider = 'razorpay' | 'mock';
+
+export interface CreatePaymentInput {
+  orderId: string;
+  orderNumber: string;
+  amount: number;
+  currency: string;
+  method: string;
+}
+
+export interface CreatedPayment {
+  providerOrderId: string;
+  // Provider-specific data the browser needs to open the checkout
+  checkout: Record<string, unknown>;
+}
+
+export interface WebhookEvent {
+  providerOrderId: string;
+  providerPaymentId: string | null;
+  status: 'completed' | 'failed';
+  payload: unknown;
+}
+
+export interface PaymentGateway {
+  provider: PaymentProvider;
+  createPayment(input: CreatePaymentInput): Promise<CreatedPayment>;
+  // Returns null when the signature does not match or the event is not a payment outcome
+  verifyWebhook(rawBody: string, headers: Headers): Promise<WebhookEvent | null>;
+}
+
+export const hmacSha256Hex = async (secret: string, message: string): Promise<string> => {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign'],
+  );
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(message));
+
+  return Array.from(new Uint8Array(signature))
+    .map((byte) => byte.toString(16).padStart(2, '0'))
+    .join('');
+};
+
+// Constant-time comparison so signature checks do not leak timing information
+export const safeEqual = (a: string, b: string): boolean => {
+  if (a.length !== b.length) return false;
+
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+
+  return diff === 0;
+};
@@ -0,0 +1,31 @@
+import type { PaymentGateway, PaymentProvider } from './gateway.ts';
+import { createMockGateway } from './mock.ts';
+import { createRazorpayGateway } from './razorpay.ts';
+
+export * from './gateway.ts';
+
+const PROVIDERS: PaymentProvider[] = ['razorpay', 'mock'];
+
+// There is deliberately no default provider: falling back to the mock gateway would let
+// anyone holding its secret mark payments as paid. Functions call this when they load,
+// so a missing or misspelt PAYMENT_PROVIDER stops them from starting.
+export const getConfiguredProvider = (): PaymentProvider => {
+  const provider = Deno.env.get('PAYMENT_PROVIDER') as PaymentProvider | undefined;
+
+  if (!provider || !PROVIDERS.includes(provider)) {
+    throw new Error('PAYMENT_PROVIDER must be set to razorpay or mock');
+  }
+
+  return provider;
+};
+
+export const getPaymentGateway = (provider: PaymentProvider = getConfiguredProvider()): PaymentGateway => {
+  switch (provider) {
+    case 'razorpay':
+      return createRazorpayGateway();
+    case 'mock':
+      return createMockGateway();
+    default:
+      throw new Error(`Unknown payment provider: ${provider}`);
+  }
+};
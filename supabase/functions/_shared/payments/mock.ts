@@ -0,0 +1,49 @@
+import { hmacSha256Hex, safeEqual, type PaymentGateway } from './gateway.ts';
+
+export const MOCK_SIGNATURE_HEADER = 'x-mock-signature';
+
+// There is deliberately no default: a well-known secret would let anyone sign webhooks
+export const getMockWebhookSecret = () => Deno.env.get('MOCK_PAYMENT_WEBHOOK_SECRET');
+
+// Local stand-in for a real gateway. Payments stay pending until the mock-gateway
+// function posts a signed callback, exactly like a real provider would.
+export const createMockGateway = (): PaymentGateway => {
+  const webhookSecret = getMockWebhookSecret();
+
+  if (!webhookSecret) {
+    throw new Error('Mock gateway is not configured');
+  }
+
+  return {
+    provider: 'mock',
+
+    async createPayment({ amount, currency }) {
+      const providerOrderId = `mock_order_${crypto.randomUUID()}`;
+
+      return {
+        providerOrderId,
+        checkout: { order_id: providerOrderId, amount, currency },
+      };
+    },
+
+    async verifyWebhook(rawBody, headers) {
+      const signature = headers.get(MOCK_SIGNATURE_HEADER);
+      if (!signature) return null;
+
+      const expected = await hmacSha256Hex(webhookSecret, rawBody);
+      if (!safeEqual(expected, signature)) return null;
+
+      const event = JSON.parse(rawBody);
+      if (!event.provider_order_id) return null;
+
+      switch (event.event) {
+        case 'payment.succeeded':
+          return { providerOrderId: event.provider_order_id, providerPaymentId: event.provider_payment_id, status: 'completed', payload: event };
+        case 'payment.failed':
+          return { providerOrderId: event.provider_order_id, providerPaymentId: event.provider_payment_id, status: 'failed', payload: event };
+        default:
+          return null;
+      }
+    },
+  };
+};
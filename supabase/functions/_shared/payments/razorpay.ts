@@ -0,0 +1,71 @@
+import { hmacSha256Hex, safeEqual, type PaymentGateway } from './gateway.ts';
+
+const RAZORPAY_API_URL = 'https://api.razorpay.com/v1';
+
+export const createRazorpayGateway = (): PaymentGateway => {
+  const keyId = Deno.env.get('RAZORPAY_KEY_ID');
+  const keySecret = Deno.env.get('RAZORPAY_KEY_SECRET');
+  const webhookSecret = Deno.env.get('RAZORPAY_WEBHOOK_SECRET');
+
+  if (!keyId || !keySecret || !webhookSecret) {
+    throw new Error('Razorpay is not configured');
+  }
+
+  return {
+    provider: 'razorpay',
+
+    async createPayment({ orderId, orderNumber, amount, currency }) {
+      const response = await fetch(`${RAZORPAY_API_URL}/orders`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Basic ${btoa(`${keyId}:${keySecret}`)}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          // Razorpay amounts are in the smallest currency unit (paise)
+          amount: Math.round(amount * 100),
+          currency,
+          receipt: orderNumber,
+          notes: { order_id: orderId },
+        }),
+      });
+
+      if (!response.ok) {
+        throw new Error(`Razorpay order creation failed: ${await response.text()}`);
+      }
+
+      const razorpayOrder = await response.json();
+
+      return {
+        providerOrderId: razorpayOrder.id,
+        checkout: {
+          key: keyId,
+          order_id: razorpayOrder.id,
+          amount: razorpayOrder.amount,
+          currency: razorpayOrder.currency,
+        },
+      };
+    },
+
+    async verifyWebhook(rawBody, headers) {
+      const signature = headers.get('x-razorpay-signature');
+      if (!signature) return null;
+
+      const expected = await hmacSha256Hex(webhookSecret, rawBody);
+      if (!safeEqual(expected, signature)) return null;
+
+      const event = JSON.parse(rawBody);
+      const payment = event.payload?.payment?.entity;
+      if (!payment?.order_id) return null;
+
+      switch (event.event) {
+        case 'payment.captured':
+          return { providerOrderId: payment.order_id, providerPaymentId: payment.id, status: 'completed', payload: event };
+        case 'payment.failed':
+          return { providerOrderId: payment.order_id, providerPaymentId: payment.id, status: 'failed', payload: event };
+        default:
+          return null;
+      }
+    },
+  };
+};
@@ -0,0 +1,129 @@
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import { corsHeaders, jsonResponse } from '../_shared/cors.ts';
+import { getPaymentGateway } from '../_shared/payments/index.ts';
+
+type UserClient = ReturnType<typeof createClient>;
+
+interface PaymentTarget {
+  id: string;
+  reference: string;
+  description: string;
+  amount: number;
+  method: string;
+}
+
+type TargetLookup = PaymentTarget | { error: string; status: number };
+
+// RLS on orders guarantees the caller can only pay for their own order
+const findOrder = async (userClient: UserClient, orderId: string): Promise<TargetLookup> => {
+  const { data: order, error } = await userClient
+    .from('orders')
+    .select('id, order_number, status, total, payment_method, payment_status')
+    .eq('id', orderId)
+    .single();
+
+  if (error || !order) {
+    return { error: 'Order not found', status: 404 };
+  }
+
+  // Wallet orders are paid when they are placed, so they never get here as pending
+  // Failed payments and expired orders are cancelled, so they cannot be paid again
+  if (order.payment_status !== 'pending' || order.status !== 'pending') {
+    return { error: 'Order is not awaiting payment', status: 409 };
+  }
+
+  return {
+    id: order.id,
+    reference: order.order_number,
+    description: `Order ${order.order_number}`,
+    amount: Number(order.total),
+    method: order.payment_method,
+  };
+};
+
+// Likewise RLS on wallet_top_ups for the caller's own top-ups
+const findTopUp = async (userClient: UserClient, topUpId: string): Promise<TargetLookup> => {
+  const { data: topUp, error } = await userClient
+    .from('wallet_top_ups')
+    .select('id, amount, status')
+    .eq('id', topUpId)
+    .single();
+
+  if (error || !topUp) {
+    return { error: 'Top-up not found', status: 404 };
+  }
+
+  if (topUp.status !== 'pending') {
+    return { error: 'Top-up is not awaiting payment', status: 409 };
+  }
+
+  return {
+    id: topUp.id,
+    reference: `TOPUP-${topUp.id.slice(0, 8).toUpperCase()}`,
+    description: 'Wallet top-up',
+    amount: Number(topUp.amount),
+    method: 'wallet',
+  };
+};
+
+// Opens a gateway payment for one of the caller's unpaid orders or wallet top-ups
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+  const userClient = createClient(supabaseUrl, Deno.env.get('SUPABASE_ANON_KEY')!, {
+    global: { headers: { Authorization: req.headers.get('Authorization') ?? '' } },
+  });
+  const adminClient = createClient(supabaseUrl, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!);
+
+  const { order_id: orderId, top_up_id: topUpId } = await req.json().catch(() => ({}));
+  if (!orderId === !topUpId) {
+    return jsonResponse({ error: 'Either order_id or top_up_id is required' }, 400);
+  }
+
+  const target = orderId ? await findOrder(userClient, orderId) : await findTopUp(userClient, topUpId);
+  if ('error' in target) {
+    return jsonResponse({ error: target.error }, target.status);
+  }
+
+  try {
+    const gateway = getPaymentGateway();
+    const created = await gateway.createPayment({
+      orderId: target.id,
+      orderNumber: target.reference,
+      amount: target.amount,
+      currency: 'INR',
+      method: target.method,
+    });
+
+    const { data: payment, error: paymentError } = await adminClient
+      .from('payments')
+      .insert({
+        order_id: orderId ?? null,
+        top_up_id: topUpId ?? null,
+        provider: gateway.provider,
+        provider_order_id: created.providerOrderId,
+        amount: target.amount,
+        currency: 'INR',
+      })
+      .select('id')
+      .single();
+
+    if (paymentError) throw paymentError;
+
+    return jsonResponse({
+      payment_id: payment.id,
+      provider: gateway.provider,
+      provider_order_id: created.providerOrderId,
+      order_number: target.reference,
+      description: target.description,
+      amount: target.amount,
+      checkout: created.checkout,
+    });
+  } catch (error) {
+    console.error('Failed to create payment', error);
+    return jsonResponse({ error: 'Failed to start payment' }, 502);
+  }
+});
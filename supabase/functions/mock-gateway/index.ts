@@ -0,0 +1,60 @@
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import { corsHeaders, jsonResponse } from '../_shared/cors.ts';
+import { getConfiguredProvider, hmacSha256Hex } from '../_shared/payments/index.ts';
+import { getMockWebhookSecret, MOCK_SIGNATURE_HEADER } from '../_shared/payments/mock.ts';
+
+const provider = getConfiguredProvider();
+
+// Development-only stand-in for the gateway's hosted checkout: resolves a mock
+// payment and delivers a signed webhook to payment-webhook.
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  const webhookSecret = getMockWebhookSecret();
+  if (provider !== 'mock' || !webhookSecret) {
+    return jsonResponse({ error: 'Mock gateway is disabled' }, 404);
+  }
+
+  const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+  const userClient = createClient(supabaseUrl, Deno.env.get('SUPABASE_ANON_KEY')!, {
+    global: { headers: { Authorization: req.headers.get('Authorization') ?? '' } },
+  });
+
+  const { payment_id: paymentId, outcome } = await req.json().catch(() => ({}));
+  if (!paymentId || (outcome !== 'succeeded' && outcome !== 'failed')) {
+    return jsonResponse({ error: 'payment_id and outcome are required' }, 400);
+  }
+
+  const { data: payment, error } = await userClient
+    .from('payments')
+    .select('provider, provider_order_id')
+    .eq('id', paymentId)
+    .single();
+
+  if (error || !payment || payment.provider !== 'mock') {
+    return jsonResponse({ error: 'Payment not found' }, 404);
+  }
+
+  const body = JSON.stringify({
+    event: `payment.${outcome}`,
+    provider_order_id: payment.provider_order_id,
+    provider_payment_id: `mock_pay_${crypto.randomUUID()}`,
+  });
+
+  const response = await fetch(`${supabaseUrl}/functions/v1/payment-webhook`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      [MOCK_SIGNATURE_HEADER]: await hmacSha256Hex(webhookSecret, body),
+    },
+    body,
+  });
+
+  if (!response.ok) {
+    return jsonResponse({ error: 'Webhook delivery failed' }, 502);
+  }
+
+  return jsonResponse({ delivered: true });
+});
@@ -0,0 +1,49 @@
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import { jsonResponse } from '../_shared/cors.ts';
+import { getConfiguredProvider, getPaymentGateway } from '../_shared/payments/index.ts';
+
+// Only the configured gateway's webhooks are accepted, whatever the caller claims to be
+const provider = getConfiguredProvider();
+
+// Gateway callback. This is the only path that can mark an order or top-up as paid.
+Deno.serve(async (req) => {
+  if (req.method !== 'POST') {
+    return jsonResponse({ error: 'Method not allowed' }, 405);
+  }
+
+  const requestedProvider = new URL(req.url).searchParams.get('provider');
+  if (requestedProvider && requestedProvider !== provider) {
+    return jsonResponse({ error: 'Unknown payment provider' }, 404);
+  }
+
+  const rawBody = await req.text();
+
+  let event;
+  try {
+    event = await getPaymentGateway(provider).verifyWebhook(rawBody, req.headers);
+  } catch (error) {
+    console.error('Failed to verify webhook', error);
+    return jsonResponse({ error: 'Invalid webhook' }, 400);
+  }
+
+  if (!event) {
+    return jsonResponse({ error: 'Invalid signature' }, 401);
+  }
+
+  const adminClient = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!);
+
+  const { error } = await adminClient.rpc('confirm_payment', {
+    _provider: provider,
+    _provider_order_id: event.providerOrderId,
+    _provider_payment_id: event.providerPaymentId,
+    _status: event.status,
+    _payload: event.payload,
+  });
+
+  if (error) {
+    console.error('Failed to confirm payment', error);
+    return jsonResponse({ error: 'Failed to record payment' }, 500);
+  }
+
+  return jsonResponse({ received: true });
+});
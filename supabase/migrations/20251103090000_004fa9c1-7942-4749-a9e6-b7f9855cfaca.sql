@@ -0,0 +1,67 @@
+-- Atomic checkout: turn the caller's cart into an order in a single transaction
+
+CREATE OR REPLACE FUNCTION public.place_order(_payment_method text, _notes text DEFAULT NULL)
+RETURNS uuid AS $$
+DECLARE
+  _student_id uuid := auth.uid();
+  _order_id uuid;
+  _subtotal numeric;
+  _tax numeric;
+BEGIN
+  IF _student_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '28000';
+  END IF;
+
+  -- Lock the cart rows so a concurrent checkout cannot order them twice
+  PERFORM 1 FROM public.cart_items WHERE student_id = _student_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Cart is empty' USING ERRCODE = 'P0001';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM public.cart_items c
+    JOIN public.menu_items m ON m.id = c.menu_item_id
+    WHERE c.student_id = _student_id AND m.is_available IS NOT TRUE
+  ) THEN
+    RAISE EXCEPTION 'Cart contains items that are no longer available' USING ERRCODE = 'P0001';
+  END IF;
+
+  -- Price the cart from menu_items, never from the client
+  SELECT COALESCE(SUM(m.price * c.quantity), 0)
+  INTO _subtotal
+  FROM public.cart_items c
+  JOIN public.menu_items m ON m.id = c.menu_item_id
+  WHERE c.student_id = _student_id;
+
+  _tax := round(_subtotal * 0.05, 2);
+
+  INSERT INTO public.orders (order_number, student_id, status, subtotal, tax, total, payment_method, payment_status, notes)
+  VALUES (
+    'ORD-' || right((extract(epoch FROM clock_timestamp()) * 1000)::bigint::text, 6),
+    _student_id,
+    'pending',
+    _subtotal,
+    _tax,
+    _subtotal + _tax,
+    _payment_method,
+    'completed',
+    _notes
+  )
+  RETURNING id INTO _order_id;
+
+  INSERT INTO public.order_items (order_id, menu_item_id, quantity, price_at_order, subtotal)
+  SELECT _order_id, m.id, c.quantity, m.price, m.price * c.quantity
+  FROM public.cart_items c
+  JOIN public.menu_items m ON m.id = c.menu_item_id
+  WHERE c.student_id = _student_id;
+
+  DELETE FROM public.cart_items WHERE student_id = _student_id;
+
+  RETURN _order_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.place_order(text, text) FROM public, anon;
+GRANT EXECUTE ON FUNCTION public.place_order(text, text) TO authenticated;
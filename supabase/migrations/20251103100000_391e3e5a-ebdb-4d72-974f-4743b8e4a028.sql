@@ -0,0 +1,161 @@
+-- Server-authoritative pricing: tax rates live in the database and totals are never trusted from the client
+
+-- Create tax_rates table
+CREATE TABLE public.tax_rates (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name text NOT NULL,
+  rate numeric NOT NULL CHECK (rate >= 0 AND rate <= 1),
+  category text CHECK (category IN ('Main Course', 'Fast Food', 'Breakfast', 'Dessert')),
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+-- At most one active rate per category, and one active default (category IS NULL)
+CREATE UNIQUE INDEX tax_rates_active_category_idx ON public.tax_rates (COALESCE(category, '')) WHERE is_active;
+
+ALTER TABLE public.tax_rates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view tax rates" ON public.tax_rates FOR SELECT USING (true);
+CREATE POLICY "Admins can insert tax rates" ON public.tax_rates FOR INSERT WITH CHECK (EXISTS (SELECT 1 FROM public.profiles WHERE id = auth.uid() AND role = 'admin'));
+CREATE POLICY "Admins can update tax rates" ON public.tax_rates FOR UPDATE USING (EXISTS (SELECT 1 FROM public.profiles WHERE id = auth.uid() AND role = 'admin'));
+CREATE POLICY "Admins can delete tax rates" ON public.tax_rates FOR DELETE USING (EXISTS (SELECT 1 FROM public.profiles WHERE id = auth.uid() AND role = 'admin'));
+
+CREATE TRIGGER update_tax_rates_updated_at BEFORE UPDATE ON public.tax_rates FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Keep the previous flat 5% as the default rate
+INSERT INTO public.tax_rates (name, rate, category) VALUES ('GST', 0.05, NULL);
+
+-- Orders and their lines may only be written by place_order
+DROP POLICY "Students can insert own orders" ON public.orders;
+DROP POLICY "Users can insert order items" ON public.order_items;
+
+-- Orders placed so far were priced in the browser with floating-point maths, so
+-- bring them onto the paisa before the checks are validated against them
+UPDATE public.order_items
+SET subtotal = price_at_order * quantity
+WHERE subtotal <> price_at_order * quantity;
+
+UPDATE public.orders
+SET subtotal = round(subtotal, 2),
+    tax = round(tax, 2),
+    total = round(subtotal, 2) + round(tax, 2)
+WHERE total <> subtotal + tax OR tax <> round(tax, 2) OR subtotal <> round(subtotal, 2);
+
+ALTER TABLE public.orders ADD CONSTRAINT orders_total_matches_check CHECK (total = subtotal + tax);
+ALTER TABLE public.order_items ADD CONSTRAINT order_items_subtotal_matches_check CHECK (subtotal = price_at_order * quantity);
+
+-- Price a student's cart from menu_items and tax_rates
+CREATE OR REPLACE FUNCTION public.cart_totals(_student_id uuid)
+RETURNS TABLE (subtotal numeric, tax numeric, total numeric) AS $$
+  WITH lines AS (
+    SELECT
+      m.price * c.quantity AS line_subtotal,
+      COALESCE(
+        (SELECT t.rate FROM public.tax_rates t WHERE t.is_active AND t.category = m.category),
+        (SELECT t.rate FROM public.tax_rates t WHERE t.is_active AND t.category IS NULL),
+        0
+      ) AS rate
+    FROM public.cart_items c
+    JOIN public.menu_items m ON m.id = c.menu_item_id
+    WHERE c.student_id = _student_id
+  ), sums AS (
+    SELECT
+      COALESCE(SUM(line_subtotal), 0) AS subtotal,
+      round(COALESCE(SUM(line_subtotal * rate), 0), 2) AS tax
+    FROM lines
+  )
+  SELECT subtotal, tax, subtotal + tax FROM sums;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.cart_totals(uuid) FROM public, anon, authenticated;
+
+-- Quote the caller's cart so the client can display server-computed totals
+CREATE OR REPLACE FUNCTION public.quote_cart()
+RETURNS TABLE (subtotal numeric, tax numeric, total numeric) AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '28000';
+  END IF;
+
+  RETURN QUERY SELECT * FROM public.cart_totals(auth.uid());
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.quote_cart() FROM public, anon;
+GRANT EXECUTE ON FUNCTION public.quote_cart() TO authenticated;
+
+-- Replace place_order: the client posts the totals it showed, the database re-prices and rejects mismatches
+DROP FUNCTION public.place_order(text, text);
+
+CREATE OR REPLACE FUNCTION public.place_order(
+  _payment_method text,
+  _expected_subtotal numeric,
+  _expected_tax numeric,
+  _expected_total numeric,
+  _notes text DEFAULT NULL
+)
+RETURNS uuid AS $$
+DECLARE
+  _student_id uuid := auth.uid();
+  _order_id uuid;
+  _totals record;
+BEGIN
+  IF _student_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '28000';
+  END IF;
+
+  -- Lock the cart rows so a concurrent checkout cannot order them twice
+  PERFORM 1 FROM public.cart_items WHERE student_id = _student_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Cart is empty' USING ERRCODE = 'P0001';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM public.cart_items c
+    JOIN public.menu_items m ON m.id = c.menu_item_id
+    WHERE c.student_id = _student_id AND m.is_available IS NOT TRUE
+  ) THEN
+    RAISE EXCEPTION 'Cart contains items that are no longer available' USING ERRCODE = 'P0001';
+  END IF;
+
+  SELECT * INTO _totals FROM public.cart_totals(_student_id);
+
+  IF _totals.subtotal <> _expected_subtotal
+    OR _totals.tax <> _expected_tax
+    OR _totals.total <> _expected_total THEN
+    RAISE EXCEPTION 'Order totals do not match current prices, please review your cart'
+      USING ERRCODE = 'P0001',
+            DETAIL = format('expected subtotal %s, tax %s, total %s', _totals.subtotal, _totals.tax, _totals.total);
+  END IF;
+
+  INSERT INTO public.orders (order_number, student_id, status, subtotal, tax, total, payment_method, payment_status, notes)
+  VALUES (
+    'ORD-' || right((extract(epoch FROM clock_timestamp()) * 1000)::bigint::text, 6),
+    _student_id,
+    'pending',
+    _totals.subtotal,
+    _totals.tax,
+    _totals.total,
+    _payment_method,
+    'completed',
+    _notes
+  )
+  RETURNING id INTO _order_id;
+
+  INSERT INTO public.order_items (order_id, menu_item_id, quantity, price_at_order, subtotal)
+  SELECT _order_id, m.id, c.quantity, m.price, m.price * c.quantity
+  FROM public.cart_items c
+  JOIN public.menu_items m ON m.id = c.menu_item_id
+  WHERE c.student_id = _student_id;
+
+  DELETE FROM public.cart_items WHERE student_id = _student_id;
+
+  RETURN _order_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.place_order(text, numeric, numeric, numeric, text) FROM public, anon;
+GRANT EXECUTE ON FUNCTION public.place_order(text, numeric, numeric, numeric, text) TO authenticated;
@@ -0,0 +1,166 @@
+-- Payments: orders start unpaid and are only confirmed by a verified gateway webhook
+
+-- Create payments table
+CREATE TABLE public.payments (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  order_id uuid NOT NULL REFERENCES public.orders(id) ON DELETE CASCADE,
+  provider text NOT NULL CHECK (provider IN ('razorpay', 'mock')),
+  provider_order_id text UNIQUE NOT NULL,
+  provider_payment_id text,
+  amount numeric NOT NULL CHECK (amount >= 0),
+  currency text NOT NULL DEFAULT 'INR',
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'completed', 'failed')),
+  webhook_payload jsonb,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX payments_order_id_idx ON public.payments (order_id);
+
+ALTER TABLE public.payments ENABLE ROW LEVEL SECURITY;
+
+-- Payments are written by edge functions with the service role only
+CREATE POLICY "Users can view payments for their orders" ON public.payments FOR SELECT USING (
+  EXISTS (SELECT 1 FROM public.orders WHERE id = payments.order_id AND (student_id = auth.uid() OR EXISTS (SELECT 1 FROM public.profiles WHERE id = auth.uid() AND role = 'admin')))
+);
+
+CREATE TRIGGER update_payments_updated_at BEFORE UPDATE ON public.payments FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Keep payment_status out of reach of client writes, and keep unpaid orders away from the kitchen
+CREATE OR REPLACE FUNCTION public.guard_order_payment()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.payment_status IS DISTINCT FROM OLD.payment_status AND auth.role() IS DISTINCT FROM 'service_role' THEN
+    RAISE EXCEPTION 'Payment status can only be changed by the payment gateway' USING ERRCODE = '42501';
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status
+    AND NEW.status IN ('preparing', 'ready', 'completed')
+    AND NEW.payment_status IS DISTINCT FROM 'completed' THEN
+    RAISE EXCEPTION 'Order % has not been paid', NEW.order_number USING ERRCODE = 'P0001';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER guard_orders_payment BEFORE UPDATE ON public.orders FOR EACH ROW EXECUTE FUNCTION public.guard_order_payment();
+
+-- Called by the payment-webhook edge function once the gateway signature has been
+-- verified; _provider is the gateway that signed it, so one provider's webhook cannot
+-- settle another provider's payment
+CREATE OR REPLACE FUNCTION public.confirm_payment(
+  _provider text,
+  _provider_order_id text,
+  _provider_payment_id text,
+  _status text,
+  _payload jsonb DEFAULT NULL
+)
+RETURNS uuid AS $$
+DECLARE
+  _payment public.payments%ROWTYPE;
+BEGIN
+  IF _status NOT IN ('completed', 'failed') THEN
+    RAISE EXCEPTION 'Invalid payment status %', _status USING ERRCODE = '22023';
+  END IF;
+
+  SELECT * INTO _payment
+  FROM public.payments
+  WHERE provider = _provider AND provider_order_id = _provider_order_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Unknown % payment %', _provider, _provider_order_id USING ERRCODE = 'P0002';
+  END IF;
+
+  -- Gateways retry webhooks, so a settled payment is left as it is
+  IF _payment.status <> 'pending' THEN
+    RETURN _payment.order_id;
+  END IF;
+
+  UPDATE public.payments
+  SET status = _status,
+      provider_payment_id = _provider_payment_id,
+      webhook_payload = _payload
+  WHERE id = _payment.id;
+
+  UPDATE public.orders
+  SET payment_status = _status
+  WHERE id = _payment.order_id AND payment_status = 'pending';
+
+  RETURN _payment.order_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.confirm_payment(text, text, text, text, jsonb) FROM public, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.confirm_payment(text, text, text, text, jsonb) TO service_role;
+
+-- Replace place_order: new orders wait for payment instead of being marked paid
+CREATE OR REPLACE FUNCTION public.place_order(
+  _payment_method text,
+  _expected_subtotal numeric,
+  _expected_tax numeric,
+  _expected_total numeric,
+  _notes text DEFAULT NULL
+)
+RETURNS uuid AS $$
+DECLARE
+  _student_id uuid := auth.uid();
+  _order_id uuid;
+  _totals record;
+BEGIN
+  IF _student_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '28000';
+  END IF;
+
+  -- Lock the cart rows so a concurrent checkout cannot order them twice
+  PERFORM 1 FROM public.cart_items WHERE student_id = _student_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Cart is empty' USING ERRCODE = 'P0001';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM public.cart_items c
+    JOIN public.menu_items m ON m.id = c.menu_item_id
+    WHERE c.student_id = _student_id AND m.is_available IS NOT TRUE
+  ) THEN
+    RAISE EXCEPTION 'Cart contains items that are no longer available' USING ERRCODE = 'P0001';
+  END IF;
+
+  SELECT * INTO _totals FROM public.cart_totals(_student_id);
+
+  IF _totals.subtotal <> _expected_subtotal
+    OR _totals.tax <> _expected_tax
+    OR _totals.total <> _expected_total THEN
+    RAISE EXCEPTION 'Order totals do not match current prices, please review your cart'
+      USING ERRCODE = 'P0001',
+            DETAIL = format('expected subtotal %s, tax %s, total %s', _totals.subtotal, _totals.tax, _totals.total);
+  END IF;
+
+  INSERT INTO public.orders (order_number, student_id, status, subtotal, tax, total, payment_method, payment_status, notes)
+  VALUES (
+    'ORD-' || right((extract(epoch FROM clock_timestamp()) * 1000)::bigint::text, 6),
+    _student_id,
+    'pending',
+    _totals.subtotal,
+    _totals.tax,
+    _totals.total,
+    _payment_method,
+    'pending',
+    _notes
+  )
+  RETURNING id INTO _order_id;
+
+  INSERT INTO public.order_items (order_id, menu_item_id, quantity, price_at_order, subtotal)
+  SELECT _order_id, m.id, c.quantity, m.price, m.price * c.quantity
+  FROM public.cart_items c
+  JOIN public.menu_items m ON m.id = c.menu_item_id
+  WHERE c.student_id = _student_id;
+
+  DELETE FROM public.cart_items WHERE student_id = _student_id;
+
+  RETURN _order_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,152 @@
+-- Short pickup numbers (e.g. A-042) that restart every day per cafeteria
+
+-- Create cafeterias table
+CREATE TABLE public.cafeterias (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name text UNIQUE NOT NULL,
+  code text UNIQUE NOT NULL CHECK (code ~ '^[A-Z]{1,2}$'),
+  timezone text NOT NULL DEFAULT 'Asia/Kolkata',
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.cafeterias ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view cafeterias" ON public.cafeterias FOR SELECT USING (true);
+CREATE POLICY "Admins can insert cafeterias" ON public.cafeterias FOR INSERT WITH CHECK (EXISTS (SELECT 1 FROM public.profiles WHERE id = auth.uid() AND role = 'admin'));
+CREATE POLICY "Admins can update cafeterias" ON public.cafeterias FOR UPDATE USING (EXISTS (SELECT 1 FROM public.profiles WHERE id = auth.uid() AND role = 'admin'));
+
+CREATE TRIGGER update_cafeterias_updated_at BEFORE UPDATE ON public.cafeterias FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+INSERT INTO public.cafeterias (name, code) VALUES ('Main Campus Cafeteria', 'A');
+
+-- One counter row per cafeteria per local day; the row lock serialises concurrent checkouts
+CREATE TABLE public.order_number_counters (
+  cafeteria_id uuid NOT NULL REFERENCES public.cafeterias(id) ON DELETE CASCADE,
+  business_date date NOT NULL,
+  last_value integer NOT NULL DEFAULT 0,
+  PRIMARY KEY (cafeteria_id, business_date)
+);
+
+ALTER TABLE public.order_number_counters ENABLE ROW LEVEL SECURITY;
+
+-- Orders belong to a cafeteria and a business day
+ALTER TABLE public.orders ADD COLUMN cafeteria_id uuid REFERENCES public.cafeterias(id);
+ALTER TABLE public.orders ADD COLUMN business_date date NOT NULL DEFAULT CURRENT_DATE;
+
+UPDATE public.orders
+SET cafeteria_id = (SELECT id FROM public.cafeterias WHERE code = 'A'),
+    business_date = (created_at AT TIME ZONE 'Asia/Kolkata')::date;
+
+ALTER TABLE public.orders ALTER COLUMN cafeteria_id SET NOT NULL;
+
+-- Pickup numbers repeat across days and cafeterias
+ALTER TABLE public.orders DROP CONSTRAINT orders_order_number_key;
+ALTER TABLE public.orders ADD CONSTRAINT orders_pickup_number_key UNIQUE (cafeteria_id, business_date, order_number);
+
+CREATE OR REPLACE FUNCTION public.assign_order_number()
+RETURNS TRIGGER AS $$
+DECLARE
+  _code text;
+  _timezone text;
+  _next integer;
+BEGIN
+  SELECT code, timezone INTO _code, _timezone FROM public.cafeterias WHERE id = NEW.cafeteria_id;
+
+  NEW.business_date := (NEW.created_at AT TIME ZONE _timezone)::date;
+
+  INSERT INTO public.order_number_counters (cafeteria_id, business_date, last_value)
+  VALUES (NEW.cafeteria_id, NEW.business_date, 1)
+  ON CONFLICT (cafeteria_id, business_date)
+  DO UPDATE SET last_value = order_number_counters.last_value + 1
+  RETURNING last_value INTO _next;
+
+  NEW.order_number := _code || '-' || lpad(_next::text, greatest(3, length(_next::text)), '0');
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER assign_orders_order_number BEFORE INSERT ON public.orders FOR EACH ROW EXECUTE FUNCTION public.assign_order_number();
+
+-- Replace place_order: the order number now comes from the trigger
+DROP FUNCTION public.place_order(text, numeric, numeric, numeric, text);
+
+CREATE OR REPLACE FUNCTION public.place_order(
+  _payment_method text,
+  _expected_subtotal numeric,
+  _expected_tax numeric,
+  _expected_total numeric,
+  _notes text DEFAULT NULL,
+  _cafeteria_id uuid DEFAULT NULL
+)
+RETURNS uuid AS $$
+DECLARE
+  _student_id uuid := auth.uid();
+  _order_id uuid;
+  _totals record;
+BEGIN
+  IF _student_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '28000';
+  END IF;
+
+  IF _cafeteria_id IS NULL THEN
+    SELECT id INTO _cafeteria_id FROM public.cafeterias WHERE is_active ORDER BY code LIMIT 1;
+  ELSIF NOT EXISTS (SELECT 1 FROM public.cafeterias WHERE id = _cafeteria_id AND is_active) THEN
+    RAISE EXCEPTION 'Cafeteria is not accepting orders' USING ERRCODE = 'P0001';
+  END IF;
+
+  -- Lock the cart rows so a concurrent checkout cannot order them twice
+  PERFORM 1 FROM public.cart_items WHERE student_id = _student_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Cart is empty' USING ERRCODE = 'P0001';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM public.cart_items c
+    JOIN public.menu_items m ON m.id = c.menu_item_id
+    WHERE c.student_id = _student_id AND m.is_available IS NOT TRUE
+  ) THEN
+    RAISE EXCEPTION 'Cart contains items that are no longer available' USING ERRCODE = 'P0001';
+  END IF;
+
+  SELECT * INTO _totals FROM public.cart_totals(_student_id);
+
+  IF _totals.subtotal <> _expected_subtotal
+    OR _totals.tax <> _expected_tax
+    OR _totals.total <> _expected_total THEN
+    RAISE EXCEPTION 'Order totals do not match current prices, please review your cart'
+      USING ERRCODE = 'P0001',
+            DETAIL = format('expected subtotal %s, tax %s, total %s', _totals.subtotal, _totals.tax, _totals.total);
+  END IF;
+
+  INSERT INTO public.orders (cafeteria_id, student_id, status, subtotal, tax, total, payment_method, payment_status, notes)
+  VALUES (
+    _cafeteria_id,
+    _student_id,
+    'pending',
+    _totals.subtotal,
+    _totals.tax,
+    _totals.total,
+    _payment_method,
+    'pending',
+    _notes
+  )
+  RETURNING id INTO _order_id;
+
+  INSERT INTO public.order_items (order_id, menu_item_id, quantity, price_at_order, subtotal)
+  SELECT _order_id, m.id, c.quantity, m.price, m.price * c.quantity
+  FROM public.cart_items c
+  JOIN public.menu_items m ON m.id = c.menu_item_id
+  WHERE c.student_id = _student_id;
+
+  DELETE FROM public.cart_items WHERE student_id = _student_id;
+
+  RETURN _order_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.place_order(text, numeric, numeric, numeric, text, uuid) FROM public, anon;
+GRANT EXECUTE ON FUNCTION public.place_order(text, numeric, numeric, numeric, text, uuid) TO authenticated;
@@ -0,0 +1,86 @@
+-- Order status state machine with an audit trail of every transition
+
+-- Allowed transitions; anything not listed here is rejected
+CREATE TABLE public.order_status_transitions (
+  from_status text NOT NULL,
+  to_status text NOT NULL,
+  PRIMARY KEY (from_status, to_status)
+);
+
+ALTER TABLE public.order_status_transitions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view order status transitions" ON public.order_status_transitions FOR SELECT USING (true);
+
+INSERT INTO public.order_status_transitions (from_status, to_status) VALUES
+  ('pending', 'preparing'),
+  ('pending', 'cancelled'),
+  ('preparing', 'ready'),
+  ('preparing', 'cancelled'),
+  ('ready', 'completed'),
+  ('ready', 'cancelled');
+
+-- Create order_status_events table
+CREATE TABLE public.order_status_events (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  order_id uuid NOT NULL REFERENCES public.orders(id) ON DELETE CASCADE,
+  from_status text,
+  to_status text NOT NULL,
+  changed_by uuid REFERENCES public.profiles(id),
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX order_status_events_order_id_idx ON public.order_status_events (order_id, created_at);
+
+ALTER TABLE public.order_status_events ENABLE ROW LEVEL SECURITY;
+
+-- Events are only written by the trigger below
+CREATE POLICY "Users can view status events for their orders" ON public.order_status_events FOR SELECT USING (
+  EXISTS (SELECT 1 FROM public.orders WHERE id = order_status_events.order_id AND (student_id = auth.uid() OR EXISTS (SELECT 1 FROM public.profiles WHERE id = auth.uid() AND role = 'admin')))
+);
+
+-- Reject transitions that are not in the table and stamp completed_at
+CREATE OR REPLACE FUNCTION public.enforce_order_status_transition()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    IF NOT EXISTS (
+      SELECT 1 FROM public.order_status_transitions
+      WHERE from_status = OLD.status AND to_status = NEW.status
+    ) THEN
+      RAISE EXCEPTION 'Order % cannot move from % to %', OLD.order_number, OLD.status, NEW.status USING ERRCODE = 'P0001';
+    END IF;
+
+    IF NEW.status = 'completed' THEN
+      NEW.completed_at := now();
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER enforce_orders_status_transition BEFORE UPDATE OF status ON public.orders FOR EACH ROW EXECUTE FUNCTION public.enforce_order_status_transition();
+
+CREATE OR REPLACE FUNCTION public.record_order_status_event()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO public.order_status_events (order_id, from_status, to_status, changed_by)
+    VALUES (NEW.id, NULL, NEW.status, auth.uid());
+  ELSIF NEW.status IS DISTINCT FROM OLD.status THEN
+    INSERT INTO public.order_status_events (order_id, from_status, to_status, changed_by)
+    VALUES (NEW.id, OLD.status, NEW.status, auth.uid());
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER record_orders_status_event AFTER INSERT OR UPDATE OF status ON public.orders FOR EACH ROW EXECUTE FUNCTION public.record_order_status_event();
+
+-- Give existing orders a starting point on their timeline
+INSERT INTO public.order_status_events (order_id, from_status, to_status, created_at)
+SELECT id, NULL, 'pending', created_at FROM public.orders;
+
+INSERT INTO public.order_status_events (order_id, from_status, to_status, created_at)
+SELECT id, 'pending', status, COALESCE(completed_at, updated_at) FROM public.orders WHERE status <> 'pending';
@@ -0,0 +1,7 @@
+-- Stream order changes to students over Supabase Realtime
+
+-- Include the previous row in UPDATE payloads so clients can tell which status changed
+ALTER TABLE public.orders REPLICA IDENTITY FULL;
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.orders;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.order_items;
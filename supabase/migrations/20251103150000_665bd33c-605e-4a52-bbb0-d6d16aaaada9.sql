@@ -0,0 +1,5 @@
+-- Deliver notifications to the notification center over Supabase Realtime
+
+CREATE INDEX notifications_user_id_created_at_idx ON public.notifications (user_id, created_at DESC);
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.notifications;
@@ -0,0 +1,38 @@
+-- Notify students as their order moves through its lifecycle
+
+CREATE OR REPLACE FUNCTION public.notify_order_lifecycle()
+RETURNS TRIGGER AS $$
+BEGIN
+  -- Payment confirmed: the order is now in the kitchen queue
+  IF NEW.payment_status = 'completed' AND OLD.payment_status IS DISTINCT FROM 'completed' THEN
+    INSERT INTO public.notifications (user_id, title, message, type, related_order_id)
+    VALUES (
+      NEW.student_id,
+      format('Order %s confirmed', NEW.order_number),
+      format('We received your payment of ₹%s. Your order has been sent to the kitchen.', to_char(NEW.total, 'FM999999990.00')),
+      'order',
+      NEW.id
+    );
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    CASE NEW.status
+      WHEN 'preparing' THEN
+        INSERT INTO public.notifications (user_id, title, message, type, related_order_id)
+        VALUES (NEW.student_id, format('Order %s is being prepared', NEW.order_number), 'The kitchen has started on your order.', 'order', NEW.id);
+      WHEN 'ready' THEN
+        INSERT INTO public.notifications (user_id, title, message, type, related_order_id)
+        VALUES (NEW.student_id, format('Order %s is ready', NEW.order_number), 'Head to the counter and show your order number to pick it up.', 'order', NEW.id);
+      WHEN 'cancelled' THEN
+        INSERT INTO public.notifications (user_id, title, message, type, is_important, related_order_id)
+        VALUES (NEW.student_id, format('Order %s was cancelled', NEW.order_number), 'Your order was cancelled by the cafeteria. Please contact the counter if you have questions.', 'order', true, NEW.id);
+      ELSE
+        NULL;
+    END CASE;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER notify_orders_lifecycle AFTER UPDATE OF status, payment_status ON public.orders FOR EACH ROW EXECUTE FUNCTION public.notify_order_lifecycle();
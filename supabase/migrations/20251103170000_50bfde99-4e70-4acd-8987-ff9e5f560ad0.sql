@@ -0,0 +1,10 @@
+-- Storage for menu item photos uploaded from the admin menu editor
+
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES ('menu-images', 'menu-images', true, 5242880, ARRAY['image/jpeg', 'image/png', 'image/webp'])
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Anyone can view menu images" ON storage.objects FOR SELECT USING (bucket_id = 'menu-images');
+CREATE POLICY "Admins can upload menu images" ON storage.objects FOR INSERT WITH CHECK (bucket_id = 'menu-images' AND EXISTS (SELECT 1 FROM public.profiles WHERE id = auth.uid() AND role = 'admin'));
+CREATE POLICY "Admins can update menu images" ON storage.objects FOR UPDATE USING (bucket_id = 'menu-images' AND EXISTS (SELECT 1 FROM public.profiles WHERE id = auth.uid() AND role = 'admin'));
+CREATE POLICY "Admins can delete menu images" ON storage.objects FOR DELETE USING (bucket_id = 'menu-images' AND EXISTS (SELECT 1 FROM public.profiles WHERE id = auth.uid() AND role = 'admin'));
@@ -0,0 +1,80 @@
+-- Admin accounts by invitation only; public signup always creates a student
+
+-- Create admin_invites table
+CREATE TABLE public.admin_invites (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  email text NOT NULL,
+  token text UNIQUE NOT NULL DEFAULT replace(gen_random_uuid()::text || gen_random_uuid()::text, '-', ''),
+  invited_by uuid NOT NULL REFERENCES public.profiles(id),
+  expires_at timestamptz NOT NULL DEFAULT now() + interval '7 days',
+  accepted_at timestamptz,
+  accepted_by uuid REFERENCES public.profiles(id),
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX admin_invites_email_idx ON public.admin_invites (lower(email));
+
+ALTER TABLE public.admin_invites ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view invites" ON public.admin_invites FOR SELECT USING (EXISTS (SELECT 1 FROM public.profiles WHERE id = auth.uid() AND role = 'admin'));
+CREATE POLICY "Admins can create invites" ON public.admin_invites FOR INSERT WITH CHECK (invited_by = auth.uid() AND EXISTS (SELECT 1 FROM public.profiles WHERE id = auth.uid() AND role = 'admin'));
+CREATE POLICY "Admins can revoke pending invites" ON public.admin_invites FOR DELETE USING (accepted_at IS NULL AND EXISTS (SELECT 1 FROM public.profiles WHERE id = auth.uid() AND role = 'admin'));
+
+-- Lets the signup page show which email an invite link is for
+CREATE OR REPLACE FUNCTION public.lookup_admin_invite(_token text)
+RETURNS TABLE (email text, expires_at timestamptz) AS $$
+  SELECT email, expires_at
+  FROM public.admin_invites
+  WHERE token = _token AND accepted_at IS NULL AND expires_at > now();
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.lookup_admin_invite(text) TO anon, authenticated;
+
+-- Profiles are only created by handle_new_user
+DROP POLICY "Users can insert own profile" ON public.profiles;
+
+-- Nobody but the service role may change a role after signup
+CREATE OR REPLACE FUNCTION public.prevent_profile_role_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.role IS DISTINCT FROM OLD.role AND auth.role() IS DISTINCT FROM 'service_role' THEN
+    RAISE EXCEPTION 'Profile role cannot be changed' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER prevent_profiles_role_change BEFORE UPDATE ON public.profiles FOR EACH ROW EXECUTE FUNCTION public.prevent_profile_role_change();
+
+-- Replace handle_new_user: ignore the metadata role and grant admin only for a valid invite
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS TRIGGER AS $$
+DECLARE
+  _invite_id uuid;
+BEGIN
+  SELECT id INTO _invite_id
+  FROM public.admin_invites
+  WHERE token = NEW.raw_user_meta_data->>'invite_token'
+    AND lower(email) = lower(NEW.email)
+    AND accepted_at IS NULL
+    AND expires_at > now()
+  FOR UPDATE;
+
+  INSERT INTO public.profiles (id, email, full_name, role)
+  VALUES (
+    NEW.id,
+    NEW.email,
+    COALESCE(NEW.raw_user_meta_data->>'full_name', 'User'),
+    CASE WHEN _invite_id IS NOT NULL THEN 'admin' ELSE 'student' END
+  );
+
+  IF _invite_id IS NOT NULL THEN
+    UPDATE public.admin_invites
+    SET accepted_at = now(), accepted_by = NEW.id
+    WHERE id = _invite_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,112 @@
+-- Store every signup field on the profile and validate self-service profile edits
+
+-- Replace handle_new_user: keep the role rules from admin invites and copy the role's signup fields
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS TRIGGER AS $$
+DECLARE
+  _invite_id uuid;
+  _meta jsonb := NEW.raw_user_meta_data;
+BEGIN
+  SELECT id INTO _invite_id
+  FROM public.admin_invites
+  WHERE token = _meta->>'invite_token'
+    AND lower(email) = lower(NEW.email)
+    AND accepted_at IS NULL
+    AND expires_at > now()
+  FOR UPDATE;
+
+  IF _invite_id IS NOT NULL THEN
+    INSERT INTO public.profiles (id, email, full_name, role, staff_id, cafeteria_name)
+    VALUES (
+      NEW.id,
+      NEW.email,
+      COALESCE(NULLIF(trim(_meta->>'full_name'), ''), 'User'),
+      'admin',
+      NULLIF(trim(_meta->>'staff_id'), ''),
+      NULLIF(trim(_meta->>'cafeteria_name'), '')
+    );
+
+    UPDATE public.admin_invites
+    SET accepted_at = now(), accepted_by = NEW.id
+    WHERE id = _invite_id;
+  ELSE
+    INSERT INTO public.profiles (id, email, full_name, role, student_id, department)
+    VALUES (
+      NEW.id,
+      NEW.email,
+      COALESCE(NULLIF(trim(_meta->>'full_name'), ''), 'User'),
+      'student',
+      NULLIF(trim(_meta->>'student_id'), ''),
+      NULLIF(trim(_meta->>'department'), '')
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Backfill profiles created before the trigger stored these fields
+UPDATE public.profiles p
+SET student_id = COALESCE(p.student_id, NULLIF(trim(u.raw_user_meta_data->>'student_id'), '')),
+    department = COALESCE(p.department, NULLIF(trim(u.raw_user_meta_data->>'department'), ''))
+FROM auth.users u
+WHERE u.id = p.id AND p.role = 'student';
+
+UPDATE public.profiles p
+SET staff_id = COALESCE(p.staff_id, NULLIF(trim(u.raw_user_meta_data->>'staff_id'), '')),
+    cafeteria_name = COALESCE(p.cafeteria_name, NULLIF(trim(u.raw_user_meta_data->>'cafeteria_name'), ''))
+FROM auth.users u
+WHERE u.id = p.id AND p.role = 'admin';
+
+-- Replace the role-only guard with per-role rules for which columns a user may edit
+DROP TRIGGER prevent_profiles_role_change ON public.profiles;
+DROP FUNCTION public.prevent_profile_role_change();
+
+CREATE OR REPLACE FUNCTION public.validate_profile_update()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF auth.role() = 'service_role' THEN
+    RETURN NEW;
+  END IF;
+
+  -- Identity fields are fixed at signup
+  IF NEW.id IS DISTINCT FROM OLD.id
+    OR NEW.email IS DISTINCT FROM OLD.email
+    OR NEW.role IS DISTINCT FROM OLD.role
+    OR NEW.student_id IS DISTINCT FROM OLD.student_id
+    OR NEW.staff_id IS DISTINCT FROM OLD.staff_id THEN
+    RAISE EXCEPTION 'Email, role and ID numbers cannot be changed' USING ERRCODE = '42501';
+  END IF;
+
+  IF OLD.role = 'student' AND NEW.cafeteria_name IS DISTINCT FROM OLD.cafeteria_name THEN
+    RAISE EXCEPTION 'Students cannot set a cafeteria' USING ERRCODE = '42501';
+  END IF;
+
+  IF OLD.role = 'admin' AND NEW.department IS DISTINCT FROM OLD.department THEN
+    RAISE EXCEPTION 'Staff profiles do not have a department' USING ERRCODE = '42501';
+  END IF;
+
+  NEW.full_name := trim(NEW.full_name);
+  IF length(NEW.full_name) < 2 OR length(NEW.full_name) > 100 THEN
+    RAISE EXCEPTION 'Name must be between 2 and 100 characters' USING ERRCODE = '23514';
+  END IF;
+
+  IF length(NEW.department) > 100 OR length(NEW.cafeteria_name) > 100 THEN
+    RAISE EXCEPTION 'Department and cafeteria names must be at most 100 characters' USING ERRCODE = '23514';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER validate_profiles_update BEFORE UPDATE ON public.profiles FOR EACH ROW EXECUTE FUNCTION public.validate_profile_update();
+
+-- Avatars live under a folder named after the owner's user id
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES ('avatars', 'avatars', true, 2097152, ARRAY['image/jpeg', 'image/png', 'image/webp'])
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Anyone can view avatars" ON storage.objects FOR SELECT USING (bucket_id = 'avatars');
+CREATE POLICY "Users can upload own avatar" ON storage.objects FOR INSERT WITH CHECK (bucket_id = 'avatars' AND (storage.foldername(name))[1] = auth.uid()::text);
+CREATE POLICY "Users can update own avatar" ON storage.objects FOR UPDATE USING (bucket_id = 'avatars' AND (storage.foldername(name))[1] = auth.uid()::text);
+CREATE POLICY "Users can delete own avatar" ON storage.objects FOR DELETE USING (bucket_id = 'avatars' AND (storage.foldername(name))[1] = auth.uid()::text);
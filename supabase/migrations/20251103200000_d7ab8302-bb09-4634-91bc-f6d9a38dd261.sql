@@ -0,0 +1,207 @@
+-- Scheduled pickup slots with per-slot kitchen capacity
+
+-- Slot configuration lives on the cafeteria; NULL capacity means unlimited
+ALTER TABLE public.cafeterias
+  ADD COLUMN opens_at time NOT NULL DEFAULT '08:00',
+  ADD COLUMN closes_at time NOT NULL DEFAULT '20:00',
+  ADD COLUMN slot_minutes integer NOT NULL DEFAULT 15 CHECK (slot_minutes BETWEEN 5 AND 120),
+  ADD COLUMN slot_lead_minutes integer NOT NULL DEFAULT 15 CHECK (slot_lead_minutes BETWEEN 0 AND 240),
+  ADD COLUMN slot_max_orders integer CHECK (slot_max_orders > 0),
+  ADD COLUMN slot_max_items integer CHECK (slot_max_items > 0),
+  ADD CONSTRAINT cafeterias_opening_hours_check CHECK (closes_at > opens_at);
+
+-- Orders placed before slots existed keep a NULL pickup time ("as soon as possible")
+ALTER TABLE public.orders ADD COLUMN pickup_at timestamptz;
+
+CREATE INDEX orders_pickup_at_idx ON public.orders (cafeteria_id, pickup_at) WHERE status <> 'cancelled';
+
+-- Orders that hold a slot: everything except cancelled orders and failed payments
+CREATE OR REPLACE FUNCTION public.pickup_slot_usage(_cafeteria_id uuid, _starts_at timestamptz, _ends_at timestamptz)
+RETURNS TABLE (order_count integer, item_count integer) AS $$
+  SELECT
+    count(DISTINCT o.id)::integer,
+    COALESCE(sum(oi.quantity), 0)::integer
+  FROM public.orders o
+  LEFT JOIN public.order_items oi ON oi.order_id = o.id
+  WHERE o.cafeteria_id = _cafeteria_id
+    AND o.pickup_at >= _starts_at
+    AND o.pickup_at < _ends_at
+    AND o.status <> 'cancelled'
+    AND o.payment_status IS DISTINCT FROM 'failed';
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.pickup_slot_usage(uuid, timestamptz, timestamptz) FROM public, anon, authenticated;
+
+-- Every slot of a local day with its load; defaults to today in the cafeteria's timezone
+CREATE OR REPLACE FUNCTION public.pickup_slots(_cafeteria_id uuid, _date date DEFAULT NULL)
+RETURNS TABLE (
+  starts_at timestamptz,
+  ends_at timestamptz,
+  order_count integer,
+  item_count integer,
+  is_available boolean
+) AS $$
+DECLARE
+  _cafeteria public.cafeterias%ROWTYPE;
+BEGIN
+  SELECT * INTO _cafeteria FROM public.cafeterias WHERE id = _cafeteria_id AND is_active;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Cafeteria is not accepting orders' USING ERRCODE = 'P0001';
+  END IF;
+
+  _date := COALESCE(_date, (now() AT TIME ZONE _cafeteria.timezone)::date);
+
+  RETURN QUERY
+  SELECT
+    s.starts_at,
+    s.starts_at + make_interval(mins => _cafeteria.slot_minutes),
+    u.order_count,
+    u.item_count,
+    s.starts_at >= now() + make_interval(mins => _cafeteria.slot_lead_minutes)
+      AND (_cafeteria.slot_max_orders IS NULL OR u.order_count < _cafeteria.slot_max_orders)
+      AND (_cafeteria.slot_max_items IS NULL OR u.item_count < _cafeteria.slot_max_items)
+  FROM generate_series(
+    (_date + _cafeteria.opens_at) AT TIME ZONE _cafeteria.timezone,
+    (_date + _cafeteria.closes_at) AT TIME ZONE _cafeteria.timezone - make_interval(mins => _cafeteria.slot_minutes),
+    make_interval(mins => _cafeteria.slot_minutes)
+  ) AS s(starts_at)
+  CROSS JOIN LATERAL public.pickup_slot_usage(
+    _cafeteria_id,
+    s.starts_at,
+    s.starts_at + make_interval(mins => _cafeteria.slot_minutes)
+  ) AS u
+  ORDER BY s.starts_at;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.pickup_slots(uuid, date) FROM public, anon;
+GRANT EXECUTE ON FUNCTION public.pickup_slots(uuid, date) TO authenticated;
+
+-- Validates a requested slot and checks it still has room for _item_count more items.
+-- The advisory lock serialises checkouts into the same slot until the transaction ends.
+CREATE OR REPLACE FUNCTION public.reserve_pickup_slot(_cafeteria_id uuid, _pickup_at timestamptz, _item_count integer)
+RETURNS void AS $$
+DECLARE
+  _cafeteria public.cafeterias%ROWTYPE;
+  _local timestamp;
+  _usage record;
+BEGIN
+  SELECT * INTO _cafeteria FROM public.cafeterias WHERE id = _cafeteria_id;
+  _local := _pickup_at AT TIME ZONE _cafeteria.timezone;
+
+  IF _local::time < _cafeteria.opens_at
+    OR _local::time + make_interval(mins => _cafeteria.slot_minutes) > _cafeteria.closes_at
+    OR extract(epoch FROM _local::time - _cafeteria.opens_at)::integer % (_cafeteria.slot_minutes * 60) <> 0 THEN
+    RAISE EXCEPTION 'Pickup time is not a valid slot' USING ERRCODE = 'P0001';
+  END IF;
+
+  IF _pickup_at < now() + make_interval(mins => _cafeteria.slot_lead_minutes) THEN
+    RAISE EXCEPTION 'That pickup slot is no longer available, please choose a later one' USING ERRCODE = 'P0001';
+  END IF;
+
+  PERFORM pg_advisory_xact_lock(hashtextextended(_cafeteria_id::text || '@' || _pickup_at::text, 0));
+
+  SELECT * INTO _usage
+  FROM public.pickup_slot_usage(_cafeteria_id, _pickup_at, _pickup_at + make_interval(mins => _cafeteria.slot_minutes));
+
+  IF (_cafeteria.slot_max_orders IS NOT NULL AND _usage.order_count + 1 > _cafeteria.slot_max_orders)
+    OR (_cafeteria.slot_max_items IS NOT NULL AND _usage.item_count + _item_count > _cafeteria.slot_max_items) THEN
+    RAISE EXCEPTION 'That pickup slot is full, please choose another' USING ERRCODE = 'P0001';
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.reserve_pickup_slot(uuid, timestamptz, integer) FROM public, anon, authenticated;
+
+-- Replace place_order: every new order reserves a pickup slot
+DROP FUNCTION public.place_order(text, numeric, numeric, numeric, text, uuid);
+
+CREATE OR REPLACE FUNCTION public.place_order(
+  _payment_method text,
+  _expected_subtotal numeric,
+  _expected_tax numeric,
+  _expected_total numeric,
+  _notes text DEFAULT NULL,
+  _cafeteria_id uuid DEFAULT NULL,
+  _pickup_at timestamptz DEFAULT NULL
+)
+RETURNS uuid AS $$
+DECLARE
+  _student_id uuid := auth.uid();
+  _order_id uuid;
+  _totals record;
+  _item_count integer;
+BEGIN
+  IF _student_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '28000';
+  END IF;
+
+  IF _pickup_at IS NULL THEN
+    RAISE EXCEPTION 'Choose a pickup time' USING ERRCODE = 'P0001';
+  END IF;
+
+  IF _cafeteria_id IS NULL THEN
+    SELECT id INTO _cafeteria_id FROM public.cafeterias WHERE is_active ORDER BY code LIMIT 1;
+  ELSIF NOT EXISTS (SELECT 1 FROM public.cafeterias WHERE id = _cafeteria_id AND is_active) THEN
+    RAISE EXCEPTION 'Cafeteria is not accepting orders' USING ERRCODE = 'P0001';
+  END IF;
+
+  -- Lock the cart rows so a concurrent checkout cannot order them twice
+  PERFORM 1 FROM public.cart_items WHERE student_id = _student_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Cart is empty' USING ERRCODE = 'P0001';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM public.cart_items c
+    JOIN public.menu_items m ON m.id = c.menu_item_id
+    WHERE c.student_id = _student_id AND m.is_available IS NOT TRUE
+  ) THEN
+    RAISE EXCEPTION 'Cart contains items that are no longer available' USING ERRCODE = 'P0001';
+  END IF;
+
+  SELECT * INTO _totals FROM public.cart_totals(_student_id);
+
+  IF _totals.subtotal <> _expected_subtotal
+    OR _totals.tax <> _expected_tax
+    OR _totals.total <> _expected_total THEN
+    RAISE EXCEPTION 'Order totals do not match current prices, please review your cart'
+      USING ERRCODE = 'P0001',
+            DETAIL = format('expected subtotal %s, tax %s, total %s', _totals.subtotal, _totals.tax, _totals.total);
+  END IF;
+
+  SELECT sum(quantity) INTO _item_count FROM public.cart_items WHERE student_id = _student_id;
+  PERFORM public.reserve_pickup_slot(_cafeteria_id, _pickup_at, _item_count);
+
+  INSERT INTO public.orders (cafeteria_id, student_id, status, subtotal, tax, total, payment_method, payment_status, notes, pickup_at)
+  VALUES (
+    _cafeteria_id,
+    _student_id,
+    'pending',
+    _totals.subtotal,
+    _totals.tax,
+    _totals.total,
+    _payment_method,
+    'pending',
+    _notes,
+    _pickup_at
+  )
+  RETURNING id INTO _order_id;
+
+  INSERT INTO public.order_items (order_id, menu_item_id, quantity, price_at_order, subtotal)
+  SELECT _order_id, m.id, c.quantity, m.price, m.price * c.quantity
+  FROM public.cart_items c
+  JOIN public.menu_items m ON m.id = c.menu_item_id
+  WHERE c.student_id = _student_id;
+
+  DELETE FROM public.cart_items WHERE student_id = _student_id;
+
+  RETURN _order_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.place_order(text, numeric, numeric, numeric, text, uuid, timestamptz) FROM public, anon;
+GRANT EXECUTE ON FUNCTION public.place_order(text, numeric, numeric, numeric, text, uuid, timestamptz) TO authenticated;
@@ -0,0 +1,133 @@
+-- Daily stock per menu item: decremented by orders, restored by cancellations, reset every morning
+
+-- NULL daily_stock means the item is not stock-tracked
+ALTER TABLE public.menu_items
+  ADD COLUMN daily_stock integer CHECK (daily_stock >= 0),
+  ADD COLUMN stock_quantity integer CHECK (stock_quantity >= 0),
+  ADD COLUMN low_stock_threshold integer NOT NULL DEFAULT 5 CHECK (low_stock_threshold >= 0),
+  ADD COLUMN stock_reset_at timestamptz NOT NULL DEFAULT now(),
+  ADD COLUMN sold_out_at timestamptz;
+
+-- Keeps is_available in step with stock and alerts admins when an item runs low.
+-- sold_out_at marks items hidden by this trigger, so restocking only brings back
+-- items an admin did not hide by hand.
+CREATE OR REPLACE FUNCTION public.sync_menu_item_stock()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.daily_stock IS NULL THEN
+    NEW.stock_quantity := NULL;
+  ELSIF TG_OP = 'INSERT' OR OLD.daily_stock IS NULL THEN
+    -- Start tracking with a full day's stock
+    NEW.stock_quantity := COALESCE(NEW.stock_quantity, NEW.daily_stock);
+  END IF;
+
+  IF NEW.stock_quantity = 0 AND NEW.is_available IS TRUE THEN
+    NEW.is_available := false;
+    NEW.sold_out_at := now();
+  ELSIF NEW.sold_out_at IS NOT NULL AND (NEW.stock_quantity IS NULL OR NEW.stock_quantity > 0) THEN
+    NEW.is_available := true;
+    NEW.sold_out_at := NULL;
+  END IF;
+
+  -- Alert once when stock crosses the threshold, and again when it runs out
+  IF TG_OP = 'UPDATE' AND (
+    (NEW.stock_quantity <= NEW.low_stock_threshold AND OLD.stock_quantity > NEW.low_stock_threshold)
+    OR (NEW.stock_quantity = 0 AND OLD.stock_quantity > 0)
+  ) THEN
+    INSERT INTO public.notifications (user_id, title, message, type, is_important)
+    SELECT
+      p.id,
+      CASE WHEN NEW.stock_quantity = 0 THEN format('%s sold out', NEW.name) ELSE format('%s running low', NEW.name) END,
+      CASE
+        WHEN NEW.stock_quantity = 0 THEN 'It has been hidden from the menu until it is restocked.'
+        ELSE format('Only %s left for today.', NEW.stock_quantity)
+      END,
+      'alert',
+      NEW.stock_quantity = 0
+    FROM public.profiles p
+    WHERE p.role = 'admin';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER sync_menu_items_stock BEFORE INSERT OR UPDATE ON public.menu_items FOR EACH ROW EXECUTE FUNCTION public.sync_menu_item_stock();
+
+-- Take ordered quantities out of stock. place_order inserts order items inside its
+-- transaction, so a shortfall here rolls back the whole order.
+CREATE OR REPLACE FUNCTION public.deduct_menu_item_stock()
+RETURNS TRIGGER AS $$
+DECLARE
+  _item record;
+BEGIN
+  SELECT name, stock_quantity INTO _item FROM public.menu_items WHERE id = NEW.menu_item_id FOR UPDATE;
+
+  IF _item.stock_quantity IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF _item.stock_quantity < NEW.quantity THEN
+    RAISE EXCEPTION '%', CASE
+      WHEN _item.stock_quantity = 0 THEN format('%s is sold out', _item.name)
+      ELSE format('Only %s left of %s, please update your cart', _item.stock_quantity, _item.name)
+    END USING ERRCODE = 'P0001';
+  END IF;
+
+  UPDATE public.menu_items SET stock_quantity = stock_quantity - NEW.quantity WHERE id = NEW.menu_item_id;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER deduct_order_items_stock AFTER INSERT ON public.order_items FOR EACH ROW EXECUTE FUNCTION public.deduct_menu_item_stock();
+
+-- Put a cancelled order's items back, unless the item has been restocked since the order was placed
+CREATE OR REPLACE FUNCTION public.restore_cancelled_order_stock()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE public.menu_items m
+  SET stock_quantity = m.stock_quantity + oi.quantity
+  FROM (
+    SELECT menu_item_id, sum(quantity)::integer AS quantity
+    FROM public.order_items
+    WHERE order_id = NEW.id
+    GROUP BY menu_item_id
+  ) oi
+  WHERE m.id = oi.menu_item_id
+    AND m.stock_quantity IS NOT NULL
+    AND m.stock_reset_at <= NEW.created_at;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER restore_orders_stock_on_cancel
+  AFTER UPDATE OF status ON public.orders
+  FOR EACH ROW
+  WHEN (NEW.status = 'cancelled' AND OLD.status IS DISTINCT FROM 'cancelled')
+  EXECUTE FUNCTION public.restore_cancelled_order_stock();
+
+-- Refill tracked items to their daily stock; all items when _menu_item_id is NULL
+CREATE OR REPLACE FUNCTION public.restock_menu_items(_menu_item_id uuid DEFAULT NULL)
+RETURNS void AS $$
+BEGIN
+  -- Scheduled runs have no user; signed-in callers must be admins
+  IF auth.uid() IS NOT NULL AND NOT EXISTS (SELECT 1 FROM public.profiles WHERE id = auth.uid() AND role = 'admin') THEN
+    RAISE EXCEPTION 'Only admins can restock menu items' USING ERRCODE = '42501';
+  END IF;
+
+  UPDATE public.menu_items
+  SET stock_quantity = daily_stock, stock_reset_at = now()
+  WHERE daily_stock IS NOT NULL
+    AND (_menu_item_id IS NULL OR id = _menu_item_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.restock_menu_items(uuid) FROM public, anon;
+GRANT EXECUTE ON FUNCTION public.restock_menu_items(uuid) TO authenticated;
+
+-- Midnight in Asia/Kolkata, the timezone of the default cafeteria
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+SELECT cron.schedule('restock-menu-items', '30 18 * * *', 'SELECT public.restock_menu_items()');
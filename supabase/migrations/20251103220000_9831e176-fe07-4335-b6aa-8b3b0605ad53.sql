@@ -0,0 +1,228 @@
+-- Ingredient-level inventory: recipes per menu item and a ledger of stock movements
+
+CREATE TABLE public.ingredients (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name text NOT NULL UNIQUE,
+  unit text NOT NULL CHECK (unit IN ('g', 'kg', 'ml', 'l', 'pcs')),
+  on_hand numeric(12, 3) NOT NULL DEFAULT 0,
+  reorder_level numeric(12, 3) NOT NULL DEFAULT 0 CHECK (reorder_level >= 0),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE TRIGGER update_ingredients_updated_at BEFORE UPDATE ON public.ingredients FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Quantity of each ingredient, in the ingredient's unit, that goes into one portion
+CREATE TABLE public.recipes (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  menu_item_id uuid NOT NULL REFERENCES public.menu_items(id) ON DELETE CASCADE,
+  ingredient_id uuid NOT NULL REFERENCES public.ingredients(id) ON DELETE RESTRICT,
+  quantity numeric(12, 3) NOT NULL CHECK (quantity > 0),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (menu_item_id, ingredient_id)
+);
+
+CREATE INDEX recipes_ingredient_id_idx ON public.recipes (ingredient_id);
+
+-- Every change to on_hand is a row here: positive quantities add stock, negative remove it.
+-- 'order' and 'order_reversal' come from orders, the rest are logged by staff.
+CREATE TABLE public.stock_movements (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  ingredient_id uuid NOT NULL REFERENCES public.ingredients(id) ON DELETE CASCADE,
+  kind text NOT NULL CHECK (kind IN ('order', 'order_reversal', 'delivery', 'waste', 'count')),
+  quantity numeric(12, 3) NOT NULL,
+  order_id uuid REFERENCES public.orders(id) ON DELETE SET NULL,
+  note text,
+  created_by uuid REFERENCES public.profiles(id),
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX stock_movements_ingredient_id_idx ON public.stock_movements (ingredient_id, created_at);
+CREATE INDEX stock_movements_order_id_idx ON public.stock_movements (order_id) WHERE order_id IS NOT NULL;
+
+ALTER TABLE public.ingredients ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.recipes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.stock_movements ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage ingredients" ON public.ingredients FOR ALL USING (
+  EXISTS (SELECT 1 FROM public.profiles WHERE id = auth.uid() AND role = 'admin')
+);
+
+CREATE POLICY "Admins can manage recipes" ON public.recipes FOR ALL USING (
+  EXISTS (SELECT 1 FROM public.profiles WHERE id = auth.uid() AND role = 'admin')
+);
+
+-- Movements are only written by the triggers and log_stock_movement below
+CREATE POLICY "Admins can view stock movements" ON public.stock_movements FOR SELECT USING (
+  EXISTS (SELECT 1 FROM public.profiles WHERE id = auth.uid() AND role = 'admin')
+);
+
+-- Apply a movement to on_hand and alert admins when an ingredient drops to its reorder level
+CREATE OR REPLACE FUNCTION public.apply_stock_movement()
+RETURNS TRIGGER AS $$
+DECLARE
+  _ingredient record;
+BEGIN
+  UPDATE public.ingredients
+  SET on_hand = on_hand + NEW.quantity
+  WHERE id = NEW.ingredient_id
+  RETURNING name, unit, on_hand, reorder_level INTO _ingredient;
+
+  IF _ingredient.on_hand <= _ingredient.reorder_level AND _ingredient.on_hand - NEW.quantity > _ingredient.reorder_level THEN
+    INSERT INTO public.notifications (user_id, title, message, type, is_important)
+    SELECT
+      p.id,
+      format('%s needs reordering', _ingredient.name),
+      format('%s %s left, reorder level is %s %s.', _ingredient.on_hand, _ingredient.unit, _ingredient.reorder_level, _ingredient.unit),
+      'alert',
+      false
+    FROM public.profiles p
+    WHERE p.role = 'admin';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER apply_stock_movements AFTER INSERT ON public.stock_movements FOR EACH ROW EXECUTE FUNCTION public.apply_stock_movement();
+
+-- Take each ordered portion's recipe out of stock. Running short does not block the
+-- order: on_hand may go negative until the next delivery or count catches up.
+CREATE OR REPLACE FUNCTION public.deduct_order_item_ingredients()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO public.stock_movements (ingredient_id, kind, quantity, order_id)
+  SELECT r.ingredient_id, 'order', -(r.quantity * NEW.quantity), NEW.order_id
+  FROM public.recipes r
+  WHERE r.menu_item_id = NEW.menu_item_id;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER deduct_order_items_ingredients AFTER INSERT ON public.order_items FOR EACH ROW EXECUTE FUNCTION public.deduct_order_item_ingredients();
+
+-- Return ingredients for orders that were never cooked: failed payments and orders
+-- cancelled before the kitchen started them. Reverses whatever is still outstanding,
+-- so running twice for the same order is harmless.
+CREATE OR REPLACE FUNCTION public.restore_order_ingredients()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO public.stock_movements (ingredient_id, kind, quantity, order_id)
+  SELECT ingredient_id, 'order_reversal', -sum(quantity), NEW.id
+  FROM public.stock_movements
+  WHERE order_id = NEW.id
+    AND kind IN ('order', 'order_reversal')
+  GROUP BY ingredient_id
+  HAVING sum(quantity) <> 0;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER restore_orders_ingredients
+  AFTER UPDATE OF status, payment_status ON public.orders
+  FOR EACH ROW
+  WHEN (
+    (NEW.status = 'cancelled' AND OLD.status = 'pending')
+    OR (NEW.payment_status = 'failed' AND OLD.payment_status IS DISTINCT FROM 'failed')
+  )
+  EXECUTE FUNCTION public.restore_order_ingredients();
+
+-- Record a delivery or waste (_quantity is the amount received or thrown away), or a
+-- physical count (_quantity is what is on the shelf; the difference is logged)
+CREATE OR REPLACE FUNCTION public.log_stock_movement(
+  _ingredient_id uuid,
+  _kind text,
+  _quantity numeric,
+  _note text DEFAULT NULL
+)
+RETURNS uuid AS $$
+DECLARE
+  _on_hand numeric;
+  _delta numeric;
+  _movement_id uuid;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM public.profiles WHERE id = auth.uid() AND role = 'admin') THEN
+    RAISE EXCEPTION 'Only admins can log stock movements' USING ERRCODE = '42501';
+  END IF;
+
+  IF _kind NOT IN ('delivery', 'waste', 'count') THEN
+    RAISE EXCEPTION 'Unknown stock movement %', _kind USING ERRCODE = 'P0001';
+  END IF;
+
+  IF _quantity IS NULL OR _quantity < 0 OR (_quantity = 0 AND _kind <> 'count') THEN
+    RAISE EXCEPTION 'Quantity must be greater than zero' USING ERRCODE = 'P0001';
+  END IF;
+
+  SELECT on_hand INTO _on_hand FROM public.ingredients WHERE id = _ingredient_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Ingredient not found' USING ERRCODE = 'P0001';
+  END IF;
+
+  _delta := CASE _kind
+    WHEN 'delivery' THEN _quantity
+    WHEN 'waste' THEN -_quantity
+    ELSE _quantity - _on_hand
+  END;
+
+  INSERT INTO public.stock_movements (ingredient_id, kind, quantity, note, created_by)
+  VALUES (_ingredient_id, _kind, _delta, NULLIF(trim(_note), ''), auth.uid())
+  RETURNING id INTO _movement_id;
+
+  RETURN _movement_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.log_stock_movement(uuid, text, numeric, text) FROM public, anon;
+GRANT EXECUTE ON FUNCTION public.log_stock_movement(uuid, text, numeric, text) TO authenticated;
+
+-- Theoretical usage is what recipes say sold orders consumed. Actual usage adds waste
+-- and count shortfalls, so it is only complete when counts bracket the period.
+CREATE OR REPLACE FUNCTION public.ingredient_usage_report(_from timestamptz, _to timestamptz)
+RETURNS TABLE (
+  ingredient_id uuid,
+  name text,
+  unit text,
+  on_hand numeric,
+  delivered numeric,
+  theoretical_usage numeric,
+  wasted numeric,
+  actual_usage numeric,
+  variance numeric
+) AS $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM public.profiles WHERE id = auth.uid() AND role = 'admin') THEN
+    RAISE EXCEPTION 'Only admins can view inventory reports' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    i.id,
+    i.name,
+    i.unit,
+    i.on_hand,
+    COALESCE(m.delivered, 0),
+    COALESCE(m.theoretical_usage, 0),
+    COALESCE(m.wasted, 0),
+    COALESCE(m.actual_usage, 0),
+    COALESCE(m.actual_usage - m.theoretical_usage, 0)
+  FROM public.ingredients i
+  LEFT JOIN (
+    SELECT
+      sm.ingredient_id,
+      sum(sm.quantity) FILTER (WHERE sm.kind = 'delivery') AS delivered,
+      -COALESCE(sum(sm.quantity) FILTER (WHERE sm.kind IN ('order', 'order_reversal')), 0) AS theoretical_usage,
+      -COALESCE(sum(sm.quantity) FILTER (WHERE sm.kind = 'waste'), 0) AS wasted,
+      -COALESCE(sum(sm.quantity) FILTER (WHERE sm.kind <> 'delivery'), 0) AS actual_usage
+    FROM public.stock_movements sm
+    WHERE sm.created_at >= _from AND sm.created_at < _to
+    GROUP BY sm.ingredient_id
+  ) m ON m.ingredient_id = i.id
+  ORDER BY i.name;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.ingredient_usage_report(timestamptz, timestamptz) FROM public, anon;
+GRANT EXECUTE ON FUNCTION public.ingredient_usage_report(timestamptz, timestamptz) TO authenticated;
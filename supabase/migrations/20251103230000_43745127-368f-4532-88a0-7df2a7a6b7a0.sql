@@ -0,0 +1,194 @@
+-- Sales analytics for the admin reports page. All figures use paid orders and the
+-- cafeteria's local business date; cancelled orders count towards the cancellation
+-- rate but not towards revenue.
+
+CREATE OR REPLACE VIEW public.report_orders AS
+SELECT
+  o.id,
+  o.cafeteria_id,
+  o.business_date,
+  o.created_at AT TIME ZONE c.timezone AS local_created_at,
+  o.total,
+  o.status = 'cancelled' AS is_cancelled
+FROM public.orders o
+JOIN public.cafeterias c ON c.id = o.cafeteria_id
+WHERE o.payment_status = 'completed';
+
+-- Only read through the report functions below, which check for admins
+REVOKE ALL ON public.report_orders FROM public, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.assert_admin()
+RETURNS void AS $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM public.profiles WHERE id = auth.uid() AND role = 'admin') THEN
+    RAISE EXCEPTION 'Only admins can view reports' USING ERRCODE = '42501';
+  END IF;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.assert_admin() FROM public, anon;
+
+-- Headline numbers for the admin dashboard
+CREATE OR REPLACE FUNCTION public.admin_dashboard_stats()
+RETURNS TABLE (
+  total_orders bigint,
+  active_orders bigint,
+  total_revenue numeric,
+  menu_items bigint
+) AS $$
+BEGIN
+  PERFORM public.assert_admin();
+
+  RETURN QUERY
+  SELECT
+    count(*) FILTER (WHERE NOT r.is_cancelled),
+    (SELECT count(*) FROM public.orders o WHERE o.payment_status = 'completed' AND o.status IN ('pending', 'preparing')),
+    COALESCE(sum(r.total) FILTER (WHERE NOT r.is_cancelled), 0),
+    (SELECT count(*) FROM public.menu_items)
+  FROM public.report_orders r;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Totals for a range of business dates, both ends inclusive
+CREATE OR REPLACE FUNCTION public.sales_summary(_from date, _to date)
+RETURNS TABLE (
+  order_count bigint,
+  revenue numeric,
+  average_ticket numeric,
+  cancelled_count bigint,
+  cancellation_rate numeric
+) AS $$
+BEGIN
+  PERFORM public.assert_admin();
+
+  RETURN QUERY
+  SELECT
+    count(*) FILTER (WHERE NOT r.is_cancelled),
+    COALESCE(sum(r.total) FILTER (WHERE NOT r.is_cancelled), 0),
+    COALESCE(round(avg(r.total) FILTER (WHERE NOT r.is_cancelled), 2), 0),
+    count(*) FILTER (WHERE r.is_cancelled),
+    COALESCE(round(count(*) FILTER (WHERE r.is_cancelled)::numeric / NULLIF(count(*), 0), 4), 0)
+  FROM public.report_orders r
+  WHERE r.business_date BETWEEN _from AND _to;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Revenue per day, week or month; periods without sales are included with zeros
+CREATE OR REPLACE FUNCTION public.sales_revenue(_from date, _to date, _bucket text DEFAULT 'day')
+RETURNS TABLE (
+  period date,
+  order_count bigint,
+  revenue numeric,
+  average_ticket numeric
+) AS $$
+BEGIN
+  PERFORM public.assert_admin();
+
+  IF _bucket NOT IN ('day', 'week', 'month') THEN
+    RAISE EXCEPTION 'Unknown report period %', _bucket USING ERRCODE = 'P0001';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    p.period::date,
+    count(r.id),
+    COALESCE(sum(r.total), 0),
+    COALESCE(round(avg(r.total), 2), 0)
+  FROM generate_series(date_trunc(_bucket, _from::timestamp), _to::timestamp, ('1 ' || _bucket)::interval) AS p(period)
+  LEFT JOIN public.report_orders r
+    ON date_trunc(_bucket, r.business_date::timestamp) = p.period
+    AND r.business_date BETWEEN _from AND _to
+    AND NOT r.is_cancelled
+  GROUP BY p.period
+  ORDER BY p.period;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.sales_top_items(_from date, _to date, _limit integer DEFAULT 10)
+RETURNS TABLE (
+  menu_item_id uuid,
+  name text,
+  category text,
+  quantity bigint,
+  revenue numeric
+) AS $$
+BEGIN
+  PERFORM public.assert_admin();
+
+  RETURN QUERY
+  SELECT
+    m.id,
+    m.name,
+    m.category,
+    sum(oi.quantity)::bigint,
+    sum(oi.quantity * oi.price_at_order)
+  FROM public.report_orders r
+  JOIN public.order_items oi ON oi.order_id = r.id
+  JOIN public.menu_items m ON m.id = oi.menu_item_id
+  WHERE r.business_date BETWEEN _from AND _to
+    AND NOT r.is_cancelled
+  GROUP BY m.id
+  ORDER BY 4 DESC, 5 DESC
+  LIMIT _limit;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.sales_category_mix(_from date, _to date)
+RETURNS TABLE (
+  category text,
+  quantity bigint,
+  revenue numeric
+) AS $$
+BEGIN
+  PERFORM public.assert_admin();
+
+  RETURN QUERY
+  SELECT
+    m.category,
+    sum(oi.quantity)::bigint,
+    sum(oi.quantity * oi.price_at_order)
+  FROM public.report_orders r
+  JOIN public.order_items oi ON oi.order_id = r.id
+  JOIN public.menu_items m ON m.id = oi.menu_item_id
+  WHERE r.business_date BETWEEN _from AND _to
+    AND NOT r.is_cancelled
+  GROUP BY m.category
+  ORDER BY 3 DESC;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Orders by local weekday (1 = Monday) and hour; only cells with orders are returned
+CREATE OR REPLACE FUNCTION public.sales_peak_hours(_from date, _to date)
+RETURNS TABLE (
+  weekday integer,
+  hour integer,
+  order_count bigint
+) AS $$
+BEGIN
+  PERFORM public.assert_admin();
+
+  RETURN QUERY
+  SELECT
+    extract(isodow FROM r.local_created_at)::integer,
+    extract(hour FROM r.local_created_at)::integer,
+    count(*)
+  FROM public.report_orders r
+  WHERE r.business_date BETWEEN _from AND _to
+    AND NOT r.is_cancelled
+  GROUP BY 1, 2
+  ORDER BY 1, 2;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.admin_dashboard_stats() FROM public, anon;
+REVOKE EXECUTE ON FUNCTION public.sales_summary(date, date) FROM public, anon;
+REVOKE EXECUTE ON FUNCTION public.sales_revenue(date, date, text) FROM public, anon;
+REVOKE EXECUTE ON FUNCTION public.sales_top_items(date, date, integer) FROM public, anon;
+REVOKE EXECUTE ON FUNCTION public.sales_category_mix(date, date) FROM public, anon;
+REVOKE EXECUTE ON FUNCTION public.sales_peak_hours(date, date) FROM public, anon;
+GRANT EXECUTE ON FUNCTION public.admin_dashboard_stats() TO authenticated;
+GRANT EXECUTE ON FUNCTION public.sales_summary(date, date) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.sales_revenue(date, date, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.sales_top_items(date, date, integer) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.sales_category_mix(date, date) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.sales_peak_hours(date, date) TO authenticated;
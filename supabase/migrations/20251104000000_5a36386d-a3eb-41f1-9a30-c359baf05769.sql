@@ -0,0 +1,82 @@
+-- Rows for the accounts exports. Both functions return a stable order so the same
+-- range always produces the same file.
+
+-- One row per order line for paid orders, cancelled ones included with their status
+CREATE OR REPLACE FUNCTION public.export_order_lines(_from date, _to date)
+RETURNS TABLE (
+  business_date date,
+  order_number text,
+  placed_at text,
+  cafeteria text,
+  status text,
+  payment_method text,
+  item_name text,
+  quantity integer,
+  unit_price numeric,
+  line_total numeric,
+  order_subtotal numeric,
+  order_tax numeric,
+  order_total numeric
+) AS $$
+BEGIN
+  PERFORM public.assert_admin();
+
+  RETURN QUERY
+  SELECT
+    o.business_date,
+    o.order_number,
+    to_char(o.created_at AT TIME ZONE c.timezone, 'YYYY-MM-DD HH24:MI'),
+    c.name,
+    o.status,
+    o.payment_method,
+    m.name,
+    oi.quantity,
+    oi.price_at_order,
+    oi.quantity * oi.price_at_order,
+    o.subtotal,
+    o.tax,
+    o.total
+  FROM public.orders o
+  JOIN public.cafeterias c ON c.id = o.cafeteria_id
+  JOIN public.order_items oi ON oi.order_id = o.id
+  JOIN public.menu_items m ON m.id = oi.menu_item_id
+  WHERE o.payment_status = 'completed'
+    AND o.business_date BETWEEN _from AND _to
+  ORDER BY o.business_date, o.order_number, m.name, oi.id;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Sales and tax per business date, with a zero row for days without sales
+CREATE OR REPLACE FUNCTION public.sales_daily_totals(_from date, _to date)
+RETURNS TABLE (
+  business_date date,
+  order_count bigint,
+  cancelled_count bigint,
+  subtotal numeric,
+  tax numeric,
+  total numeric
+) AS $$
+BEGIN
+  PERFORM public.assert_admin();
+
+  RETURN QUERY
+  SELECT
+    d.day::date,
+    count(o.id) FILTER (WHERE o.status <> 'cancelled'),
+    count(o.id) FILTER (WHERE o.status = 'cancelled'),
+    COALESCE(sum(o.subtotal) FILTER (WHERE o.status <> 'cancelled'), 0),
+    COALESCE(sum(o.tax) FILTER (WHERE o.status <> 'cancelled'), 0),
+    COALESCE(sum(o.total) FILTER (WHERE o.status <> 'cancelled'), 0)
+  FROM generate_series(_from::timestamp, _to::timestamp, interval '1 day') AS d(day)
+  LEFT JOIN public.orders o
+    ON o.business_date = d.day::date
+    AND o.payment_status = 'completed'
+  GROUP BY d.day
+  ORDER BY d.day;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.export_order_lines(date, date) FROM public, anon;
+REVOKE EXECUTE ON FUNCTION public.sales_daily_totals(date, date) FROM public, anon;
+GRANT EXECUTE ON FUNCTION public.export_order_lines(date, date) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.sales_daily_totals(date, date) TO authenticated;
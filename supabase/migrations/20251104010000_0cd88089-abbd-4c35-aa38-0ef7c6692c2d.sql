@@ -0,0 +1,24 @@
+-- Record the tax rate each order line was charged at, so receipts can show a tax
+-- breakdown that stays correct after rates change. Lines from before this migration
+-- keep NULL and receipts fall back to the order's total tax.
+
+ALTER TABLE public.order_items
+  ADD COLUMN tax_name text,
+  ADD COLUMN tax_rate numeric CHECK (tax_rate >= 0 AND tax_rate <= 1);
+
+-- Same rate lookup as cart_totals: the item's category rate, else the default rate
+CREATE OR REPLACE FUNCTION public.stamp_order_item_tax()
+RETURNS TRIGGER AS $$
+BEGIN
+  SELECT t.name, t.rate INTO NEW.tax_name, NEW.tax_rate
+  FROM public.menu_items m
+  JOIN public.tax_rates t ON t.is_active AND (t.category = m.category OR t.category IS NULL)
+  WHERE m.id = NEW.menu_item_id
+  ORDER BY t.category IS NULL
+  LIMIT 1;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER stamp_order_items_tax BEFORE INSERT ON public.order_items FOR EACH ROW EXECUTE FUNCTION public.stamp_order_item_tax();
@@ -0,0 +1,296 @@
+-- Modifier groups (size, spice level, add-ons) on menu items. A cart line is now an
+-- item plus its selected options, so the same item can sit in the cart more than once.
+
+CREATE TABLE public.modifier_groups (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  menu_item_id uuid NOT NULL REFERENCES public.menu_items(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  -- min_select > 0 makes the group required; NULL max_select allows any number of picks
+  min_select integer NOT NULL DEFAULT 0 CHECK (min_select >= 0),
+  max_select integer CHECK (max_select >= 1 AND max_select >= min_select),
+  sort_order integer NOT NULL DEFAULT 0,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX modifier_groups_menu_item_id_idx ON public.modifier_groups (menu_item_id, sort_order);
+
+CREATE TABLE public.modifier_options (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  group_id uuid NOT NULL REFERENCES public.modifier_groups(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  -- Added to the item's price; negative for cheaper choices such as a half portion
+  price_delta numeric NOT NULL DEFAULT 0,
+  is_available boolean NOT NULL DEFAULT true,
+  sort_order integer NOT NULL DEFAULT 0,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX modifier_options_group_id_idx ON public.modifier_options (group_id, sort_order);
+
+ALTER TABLE public.modifier_groups ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.modifier_options ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view modifier groups" ON public.modifier_groups FOR SELECT USING (true);
+CREATE POLICY "Admins can manage modifier groups" ON public.modifier_groups FOR ALL USING (
+  EXISTS (SELECT 1 FROM public.profiles WHERE id = auth.uid() AND role = 'admin')
+);
+
+CREATE POLICY "Anyone can view modifier options" ON public.modifier_options FOR SELECT USING (true);
+CREATE POLICY "Admins can manage modifier options" ON public.modifier_options FOR ALL USING (
+  EXISTS (SELECT 1 FROM public.profiles WHERE id = auth.uid() AND role = 'admin')
+);
+
+-- Selected options are kept sorted, so the same choices always make the same line
+ALTER TABLE public.cart_items ADD COLUMN modifier_option_ids uuid[] NOT NULL DEFAULT '{}';
+ALTER TABLE public.cart_items DROP CONSTRAINT cart_items_student_id_menu_item_id_key;
+CREATE UNIQUE INDEX cart_items_line_idx ON public.cart_items (student_id, menu_item_id, modifier_option_ids);
+
+-- Names and prices are copied onto the order so later menu edits do not rewrite history
+CREATE TABLE public.order_item_modifiers (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  order_item_id uuid NOT NULL REFERENCES public.order_items(id) ON DELETE CASCADE,
+  modifier_option_id uuid REFERENCES public.modifier_options(id) ON DELETE SET NULL,
+  group_name text NOT NULL,
+  option_name text NOT NULL,
+  price_delta numeric NOT NULL DEFAULT 0,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX order_item_modifiers_order_item_id_idx ON public.order_item_modifiers (order_item_id);
+
+ALTER TABLE public.order_item_modifiers ENABLE ROW LEVEL SECURITY;
+
+-- Only written by place_order
+CREATE POLICY "Users can view modifiers for their order items" ON public.order_item_modifiers FOR SELECT USING (
+  EXISTS (
+    SELECT 1
+    FROM public.order_items oi
+    JOIN public.orders o ON o.id = oi.order_id
+    WHERE oi.id = order_item_modifiers.order_item_id
+      AND (o.student_id = auth.uid() OR EXISTS (SELECT 1 FROM public.profiles WHERE id = auth.uid() AND role = 'admin'))
+  )
+);
+
+-- Reject options that are unavailable or belong to another item, and enforce each
+-- group's min/max picks
+CREATE OR REPLACE FUNCTION public.check_modifier_selection(_menu_item_id uuid, _option_ids uuid[])
+RETURNS void AS $$
+DECLARE
+  _group record;
+BEGIN
+  IF EXISTS (
+    SELECT 1
+    FROM unnest(_option_ids) AS s(option_id)
+    LEFT JOIN public.modifier_options o ON o.id = s.option_id AND o.is_available
+    LEFT JOIN public.modifier_groups g ON g.id = o.group_id AND g.menu_item_id = _menu_item_id
+    WHERE g.id IS NULL
+  ) THEN
+    RAISE EXCEPTION 'Some selected options are no longer available' USING ERRCODE = 'P0001';
+  END IF;
+
+  FOR _group IN
+    SELECT g.name, g.min_select, g.max_select, count(o.id) AS picked
+    FROM public.modifier_groups g
+    LEFT JOIN public.modifier_options o ON o.group_id = g.id AND o.id = ANY(_option_ids)
+    WHERE g.menu_item_id = _menu_item_id
+    GROUP BY g.id
+  LOOP
+    IF _group.picked < _group.min_select THEN
+      RAISE EXCEPTION '%: choose at least %', _group.name, _group.min_select USING ERRCODE = 'P0001';
+    END IF;
+
+    IF _group.picked > _group.max_select THEN
+      RAISE EXCEPTION '%: choose at most %', _group.name, _group.max_select USING ERRCODE = 'P0001';
+    END IF;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.check_modifier_selection(uuid, uuid[]) FROM public, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.normalize_cart_item_modifiers()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.modifier_option_ids := ARRAY(SELECT DISTINCT unnest(NEW.modifier_option_ids) ORDER BY 1);
+  PERFORM public.check_modifier_selection(NEW.menu_item_id, NEW.modifier_option_ids);
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER normalize_cart_items_modifiers
+  BEFORE INSERT OR UPDATE OF menu_item_id, modifier_option_ids ON public.cart_items
+  FOR EACH ROW EXECUTE FUNCTION public.normalize_cart_item_modifiers();
+
+-- Add a line to the caller's cart, or top up the line with the same choices
+CREATE OR REPLACE FUNCTION public.add_to_cart(
+  _menu_item_id uuid,
+  _modifier_option_ids uuid[] DEFAULT '{}',
+  _quantity integer DEFAULT 1
+)
+RETURNS uuid AS $$
+DECLARE
+  _line_id uuid;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '28000';
+  END IF;
+
+  INSERT INTO public.cart_items (student_id, menu_item_id, modifier_option_ids, quantity)
+  VALUES (auth.uid(), _menu_item_id, COALESCE(_modifier_option_ids, '{}'), _quantity)
+  ON CONFLICT (student_id, menu_item_id, modifier_option_ids)
+  DO UPDATE SET quantity = cart_items.quantity + EXCLUDED.quantity
+  RETURNING id INTO _line_id;
+
+  RETURN _line_id;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.add_to_cart(uuid, uuid[], integer) FROM public, anon;
+GRANT EXECUTE ON FUNCTION public.add_to_cart(uuid, uuid[], integer) TO authenticated;
+
+-- Unit price of each cart line: the item's price plus its options' deltas
+CREATE OR REPLACE FUNCTION public.cart_line_prices(_student_id uuid)
+RETURNS TABLE (
+  cart_item_id uuid,
+  menu_item_id uuid,
+  modifier_option_ids uuid[],
+  quantity integer,
+  unit_price numeric,
+  category text
+) AS $$
+  SELECT
+    c.id,
+    m.id,
+    c.modifier_option_ids,
+    c.quantity,
+    GREATEST(m.price + COALESCE((SELECT sum(o.price_delta) FROM public.modifier_options o WHERE o.id = ANY(c.modifier_option_ids)), 0), 0),
+    m.category
+  FROM public.cart_items c
+  JOIN public.menu_items m ON m.id = c.menu_item_id
+  WHERE c.student_id = _student_id
+  ORDER BY c.created_at;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.cart_line_prices(uuid) FROM public, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.cart_totals(_student_id uuid)
+RETURNS TABLE (subtotal numeric, tax numeric, total numeric) AS $$
+  WITH lines AS (
+    SELECT
+      l.unit_price * l.quantity AS line_subtotal,
+      COALESCE(
+        (SELECT t.rate FROM public.tax_rates t WHERE t.is_active AND t.category = l.category),
+        (SELECT t.rate FROM public.tax_rates t WHERE t.is_active AND t.category IS NULL),
+        0
+      ) AS rate
+    FROM public.cart_line_prices(_student_id) l
+  ), sums AS (
+    SELECT
+      COALESCE(SUM(line_subtotal), 0) AS subtotal,
+      round(COALESCE(SUM(line_subtotal * rate), 0), 2) AS tax
+    FROM lines
+  )
+  SELECT subtotal, tax, subtotal + tax FROM sums;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- place_order: price lines with their options and copy the options onto the order
+CREATE OR REPLACE FUNCTION public.place_order(
+  _payment_method text,
+  _expected_subtotal numeric,
+  _expected_tax numeric,
+  _expected_total numeric,
+  _notes text DEFAULT NULL,
+  _cafeteria_id uuid DEFAULT NULL,
+  _pickup_at timestamptz DEFAULT NULL
+)
+RETURNS uuid AS $$
+DECLARE
+  _student_id uuid := auth.uid();
+  _order_id uuid;
+  _order_item_id uuid;
+  _totals record;
+  _line record;
+  _item_count integer;
+BEGIN
+  IF _student_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '28000';
+  END IF;
+
+  IF _pickup_at IS NULL THEN
+    RAISE EXCEPTION 'Choose a pickup time' USING ERRCODE = 'P0001';
+  END IF;
+
+  IF _cafeteria_id IS NULL THEN
+    SELECT id INTO _cafeteria_id FROM public.cafeterias WHERE is_active ORDER BY code LIMIT 1;
+  ELSIF NOT EXISTS (SELECT 1 FROM public.cafeterias WHERE id = _cafeteria_id AND is_active) THEN
+    RAISE EXCEPTION 'Cafeteria is not accepting orders' USING ERRCODE = 'P0001';
+  END IF;
+
+  -- Lock the cart rows so a concurrent checkout cannot order them twice
+  PERFORM 1 FROM public.cart_items WHERE student_id = _student_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Cart is empty' USING ERRCODE = 'P0001';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM public.cart_items c
+    JOIN public.menu_items m ON m.id = c.menu_item_id
+    WHERE c.student_id = _student_id AND m.is_available IS NOT TRUE
+  ) THEN
+    RAISE EXCEPTION 'Cart contains items that are no longer available' USING ERRCODE = 'P0001';
+  END IF;
+
+  -- Options may have been withdrawn or groups made required since the line was added
+  FOR _line IN SELECT * FROM public.cart_line_prices(_student_id) LOOP
+    PERFORM public.check_modifier_selection(_line.menu_item_id, _line.modifier_option_ids);
+  END LOOP;
+
+  SELECT * INTO _totals FROM public.cart_totals(_student_id);
+
+  IF _totals.subtotal <> _expected_subtotal
+    OR _totals.tax <> _expected_tax
+    OR _totals.total <> _expected_total THEN
+    RAISE EXCEPTION 'Order totals do not match current prices, please review your cart'
+      USING ERRCODE = 'P0001',
+            DETAIL = format('expected subtotal %s, tax %s, total %s', _totals.subtotal, _totals.tax, _totals.total);
+  END IF;
+
+  SELECT sum(quantity) INTO _item_count FROM public.cart_items WHERE student_id = _student_id;
+  PERFORM public.reserve_pickup_slot(_cafeteria_id, _pickup_at, _item_count);
+
+  INSERT INTO public.orders (cafeteria_id, student_id, status, subtotal, tax, total, payment_method, payment_status, notes, pickup_at)
+  VALUES (
+    _cafeteria_id,
+    _student_id,
+    'pending',
+    _totals.subtotal,
+    _totals.tax,
+    _totals.total,
+    _payment_method,
+    'pending',
+    _notes,
+    _pickup_at
+  )
+  RETURNING id INTO _order_id;
+
+  FOR _line IN SELECT * FROM public.cart_line_prices(_student_id) LOOP
+    INSERT INTO public.order_items (order_id, menu_item_id, quantity, price_at_order, subtotal)
+    VALUES (_order_id, _line.menu_item_id, _line.quantity, _line.unit_price, _line.unit_price * _line.quantity)
+    RETURNING id INTO _order_item_id;
+
+    INSERT INTO public.order_item_modifiers (order_item_id, modifier_option_id, group_name, option_name, price_delta)
+    SELECT _order_item_id, o.id, g.name, o.name, o.price_delta
+    FROM public.modifier_options o
+    JOIN public.modifier_groups g ON g.id = o.group_id
+    WHERE o.id = ANY(_line.modifier_option_ids)
+    ORDER BY g.sort_order, o.sort_order;
+  END LOOP;
+
+  DELETE FROM public.cart_items WHERE student_id = _student_id;
+
+  RETURN _order_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
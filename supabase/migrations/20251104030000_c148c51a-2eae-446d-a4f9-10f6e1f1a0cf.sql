@@ -0,0 +1,395 @@
+-- Combo meals: a bundle price over a set of slots, each filled with one of its
+-- menu items ("any drink"). At checkout a combo becomes one order_items row per
+-- component, priced at its share of the bundle, so the kitchen, stock, inventory
+-- and tax triggers all work on the parts.
+
+CREATE TABLE public.combos (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name text NOT NULL,
+  description text,
+  price numeric NOT NULL CHECK (price >= 0),
+  image_url text,
+  is_available boolean NOT NULL DEFAULT true,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE TRIGGER update_combos_updated_at BEFORE UPDATE ON public.combos FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TABLE public.combo_slots (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  combo_id uuid NOT NULL REFERENCES public.combos(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  sort_order integer NOT NULL DEFAULT 0,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX combo_slots_combo_id_idx ON public.combo_slots (combo_id, sort_order);
+
+-- The items a slot can be filled with. A slot with one item is a fixed component.
+CREATE TABLE public.combo_slot_items (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  slot_id uuid NOT NULL REFERENCES public.combo_slots(id) ON DELETE CASCADE,
+  menu_item_id uuid NOT NULL REFERENCES public.menu_items(id) ON DELETE CASCADE,
+  -- Added to the bundle price, e.g. a premium drink
+  price_delta numeric NOT NULL DEFAULT 0,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (slot_id, menu_item_id)
+);
+
+ALTER TABLE public.combos ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.combo_slots ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.combo_slot_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view combos" ON public.combos FOR SELECT USING (true);
+CREATE POLICY "Admins can manage combos" ON public.combos FOR ALL USING (
+  EXISTS (SELECT 1 FROM public.profiles WHERE id = auth.uid() AND role = 'admin')
+);
+
+CREATE POLICY "Anyone can view combo slots" ON public.combo_slots FOR SELECT USING (true);
+CREATE POLICY "Admins can manage combo slots" ON public.combo_slots FOR ALL USING (
+  EXISTS (SELECT 1 FROM public.profiles WHERE id = auth.uid() AND role = 'admin')
+);
+
+CREATE POLICY "Anyone can view combo slot items" ON public.combo_slot_items FOR SELECT USING (true);
+CREATE POLICY "Admins can manage combo slot items" ON public.combo_slot_items FOR ALL USING (
+  EXISTS (SELECT 1 FROM public.profiles WHERE id = auth.uid() AND role = 'admin')
+);
+
+-- menu_item_ids holds one pick per slot, in slot order
+CREATE TABLE public.cart_combos (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  student_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  combo_id uuid NOT NULL REFERENCES public.combos(id) ON DELETE CASCADE,
+  menu_item_ids uuid[] NOT NULL,
+  quantity integer NOT NULL DEFAULT 1 CHECK (quantity > 0),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX cart_combos_line_idx ON public.cart_combos (student_id, combo_id, menu_item_ids);
+
+CREATE TRIGGER update_cart_combos_updated_at BEFORE UPDATE ON public.cart_combos FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.cart_combos ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Students can view own cart combos" ON public.cart_combos FOR SELECT USING (student_id = auth.uid());
+CREATE POLICY "Students can insert own cart combos" ON public.cart_combos FOR INSERT WITH CHECK (student_id = auth.uid());
+CREATE POLICY "Students can update own cart combos" ON public.cart_combos FOR UPDATE USING (student_id = auth.uid());
+CREATE POLICY "Students can delete own cart combos" ON public.cart_combos FOR DELETE USING (student_id = auth.uid());
+
+-- The combo as sold; its components are the order_items pointing at it
+CREATE TABLE public.order_combos (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  order_id uuid NOT NULL REFERENCES public.orders(id) ON DELETE CASCADE,
+  combo_id uuid REFERENCES public.combos(id) ON DELETE SET NULL,
+  name text NOT NULL,
+  quantity integer NOT NULL CHECK (quantity > 0),
+  price numeric NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX order_combos_order_id_idx ON public.order_combos (order_id);
+
+ALTER TABLE public.order_items ADD COLUMN order_combo_id uuid REFERENCES public.order_combos(id) ON DELETE CASCADE;
+
+ALTER TABLE public.order_combos ENABLE ROW LEVEL SECURITY;
+
+-- Only written by place_order
+CREATE POLICY "Users can view combos on their orders" ON public.order_combos FOR SELECT USING (
+  EXISTS (
+    SELECT 1
+    FROM public.orders o
+    WHERE o.id = order_combos.order_id
+      AND (o.student_id = auth.uid() OR EXISTS (SELECT 1 FROM public.profiles WHERE id = auth.uid() AND role = 'admin'))
+  )
+);
+
+-- Each slot matched with its pick. Picks that are not offered in their slot, or
+-- not available, are left out, so fewer rows than slots means a bad selection.
+CREATE OR REPLACE FUNCTION public.combo_components(_combo_id uuid, _menu_item_ids uuid[])
+RETURNS TABLE (
+  slot_id uuid,
+  slot_name text,
+  slot_position integer,
+  menu_item_id uuid,
+  price_delta numeric,
+  regular_price numeric,
+  category text
+) AS $$
+  SELECT s.id, s.name, s.slot_position::integer, m.id, i.price_delta, m.price, m.category
+  FROM (
+    SELECT id, name, row_number() OVER (ORDER BY sort_order, created_at, id) AS slot_position
+    FROM public.combo_slots
+    WHERE combo_id = _combo_id
+  ) s
+  JOIN public.combo_slot_items i ON i.slot_id = s.id AND i.menu_item_id = _menu_item_ids[s.slot_position]
+  JOIN public.menu_items m ON m.id = i.menu_item_id AND m.is_available IS TRUE
+  ORDER BY s.slot_position;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.combo_components(uuid, uuid[]) FROM public, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.check_combo_selection(_combo_id uuid, _menu_item_ids uuid[])
+RETURNS void AS $$
+DECLARE
+  _slot_count integer;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM public.combos WHERE id = _combo_id AND is_available) THEN
+    RAISE EXCEPTION 'This combo is no longer available' USING ERRCODE = 'P0001';
+  END IF;
+
+  SELECT count(*) INTO _slot_count FROM public.combo_slots WHERE combo_id = _combo_id;
+
+  IF _slot_count = 0 OR COALESCE(array_length(_menu_item_ids, 1), 0) <> _slot_count THEN
+    RAISE EXCEPTION 'Choose one item for each part of the combo' USING ERRCODE = 'P0001';
+  END IF;
+
+  IF (SELECT count(*) FROM public.combo_components(_combo_id, _menu_item_ids)) <> _slot_count THEN
+    RAISE EXCEPTION 'Some combo choices are no longer available' USING ERRCODE = 'P0001';
+  END IF;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.check_combo_selection(uuid, uuid[]) FROM public, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.validate_cart_combo()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM public.check_combo_selection(NEW.combo_id, NEW.menu_item_ids);
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER validate_cart_combos
+  BEFORE INSERT OR UPDATE OF combo_id, menu_item_ids ON public.cart_combos
+  FOR EACH ROW EXECUTE FUNCTION public.validate_cart_combo();
+
+-- Add a combo to the caller's cart, or top up the line with the same picks
+CREATE OR REPLACE FUNCTION public.add_combo_to_cart(_combo_id uuid, _menu_item_ids uuid[], _quantity integer DEFAULT 1)
+RETURNS uuid AS $$
+DECLARE
+  _line_id uuid;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '28000';
+  END IF;
+
+  INSERT INTO public.cart_combos (student_id, combo_id, menu_item_ids, quantity)
+  VALUES (auth.uid(), _combo_id, _menu_item_ids, _quantity)
+  ON CONFLICT (student_id, combo_id, menu_item_ids)
+  DO UPDATE SET quantity = cart_combos.quantity + EXCLUDED.quantity
+  RETURNING id INTO _line_id;
+
+  RETURN _line_id;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.add_combo_to_cart(uuid, uuid[], integer) FROM public, anon;
+GRANT EXECUTE ON FUNCTION public.add_combo_to_cart(uuid, uuid[], integer) TO authenticated;
+
+-- Component lines of the cart's combos. The bundle price (plus any slot deltas) is
+-- split across components in proportion to their menu prices, rounded to paise,
+-- with the last component taking the rounding difference so the parts add up.
+CREATE OR REPLACE FUNCTION public.cart_combo_lines(_student_id uuid)
+RETURNS TABLE (
+  cart_combo_id uuid,
+  combo_id uuid,
+  combo_name text,
+  combo_price numeric,
+  menu_item_id uuid,
+  quantity integer,
+  unit_price numeric,
+  category text
+) AS $$
+  WITH picks AS (
+    SELECT
+      c.id AS cart_combo_id,
+      c.combo_id,
+      co.name AS combo_name,
+      c.quantity,
+      c.created_at,
+      k.slot_position,
+      k.menu_item_id,
+      k.category,
+      GREATEST(co.price + sum(k.price_delta) OVER (PARTITION BY c.id), 0) AS combo_price,
+      k.regular_price / NULLIF(sum(k.regular_price) OVER (PARTITION BY c.id), 0) AS weight,
+      k.slot_position = max(k.slot_position) OVER (PARTITION BY c.id) AS is_last
+    FROM public.cart_combos c
+    JOIN public.combos co ON co.id = c.combo_id
+    CROSS JOIN LATERAL public.combo_components(c.combo_id, c.menu_item_ids) k
+    WHERE c.student_id = _student_id
+  ), shares AS (
+    SELECT *, round(combo_price * COALESCE(weight, 0), 2) AS share
+    FROM picks
+  )
+  SELECT
+    cart_combo_id,
+    combo_id,
+    combo_name,
+    combo_price,
+    menu_item_id,
+    quantity,
+    CASE WHEN is_last THEN combo_price - (sum(share) OVER (PARTITION BY cart_combo_id) - share) ELSE share END,
+    category
+  FROM shares
+  ORDER BY created_at, slot_position;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.cart_combo_lines(uuid) FROM public, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.cart_totals(_student_id uuid)
+RETURNS TABLE (subtotal numeric, tax numeric, total numeric) AS $$
+  WITH priced AS (
+    SELECT l.unit_price, l.quantity, l.category FROM public.cart_line_prices(_student_id) l
+    UNION ALL
+    SELECT l.unit_price, l.quantity, l.category FROM public.cart_combo_lines(_student_id) l
+  ), lines AS (
+    SELECT
+      l.unit_price * l.quantity AS line_subtotal,
+      COALESCE(
+        (SELECT t.rate FROM public.tax_rates t WHERE t.is_active AND t.category = l.category),
+        (SELECT t.rate FROM public.tax_rates t WHERE t.is_active AND t.category IS NULL),
+        0
+      ) AS rate
+    FROM priced l
+  ), sums AS (
+    SELECT
+      COALESCE(SUM(line_subtotal), 0) AS subtotal,
+      round(COALESCE(SUM(line_subtotal * rate), 0), 2) AS tax
+    FROM lines
+  )
+  SELECT subtotal, tax, subtotal + tax FROM sums;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- place_order: also check out combos, as an order_combos row plus one order line per component
+CREATE OR REPLACE FUNCTION public.place_order(
+  _payment_method text,
+  _expected_subtotal numeric,
+  _expected_tax numeric,
+  _expected_total numeric,
+  _notes text DEFAULT NULL,
+  _cafeteria_id uuid DEFAULT NULL,
+  _pickup_at timestamptz DEFAULT NULL
+)
+RETURNS uuid AS $$
+DECLARE
+  _student_id uuid := auth.uid();
+  _order_id uuid;
+  _order_item_id uuid;
+  _order_combo_id uuid;
+  _totals record;
+  _line record;
+  _combo record;
+  _item_count integer;
+BEGIN
+  IF _student_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '28000';
+  END IF;
+
+  IF _pickup_at IS NULL THEN
+    RAISE EXCEPTION 'Choose a pickup time' USING ERRCODE = 'P0001';
+  END IF;
+
+  IF _cafeteria_id IS NULL THEN
+    SELECT id INTO _cafeteria_id FROM public.cafeterias WHERE is_active ORDER BY code LIMIT 1;
+  ELSIF NOT EXISTS (SELECT 1 FROM public.cafeterias WHERE id = _cafeteria_id AND is_active) THEN
+    RAISE EXCEPTION 'Cafeteria is not accepting orders' USING ERRCODE = 'P0001';
+  END IF;
+
+  -- Lock the cart rows so a concurrent checkout cannot order them twice
+  PERFORM 1 FROM public.cart_items WHERE student_id = _student_id FOR UPDATE;
+  PERFORM 1 FROM public.cart_combos WHERE student_id = _student_id FOR UPDATE;
+
+  IF NOT EXISTS (SELECT 1 FROM public.cart_items WHERE student_id = _student_id)
+    AND NOT EXISTS (SELECT 1 FROM public.cart_combos WHERE student_id = _student_id) THEN
+    RAISE EXCEPTION 'Cart is empty' USING ERRCODE = 'P0001';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM public.cart_items c
+    JOIN public.menu_items m ON m.id = c.menu_item_id
+    WHERE c.student_id = _student_id AND m.is_available IS NOT TRUE
+  ) THEN
+    RAISE EXCEPTION 'Cart contains items that are no longer available' USING ERRCODE = 'P0001';
+  END IF;
+
+  -- Options may have been withdrawn or groups made required since the line was added
+  FOR _line IN SELECT * FROM public.cart_line_prices(_student_id) LOOP
+    PERFORM public.check_modifier_selection(_line.menu_item_id, _line.modifier_option_ids);
+  END LOOP;
+
+  -- Likewise combos and their components
+  FOR _combo IN SELECT * FROM public.cart_combos WHERE student_id = _student_id LOOP
+    PERFORM public.check_combo_selection(_combo.combo_id, _combo.menu_item_ids);
+  END LOOP;
+
+  SELECT * INTO _totals FROM public.cart_totals(_student_id);
+
+  IF _totals.subtotal <> _expected_subtotal
+    OR _totals.tax <> _expected_tax
+    OR _totals.total <> _expected_total THEN
+    RAISE EXCEPTION 'Order totals do not match current prices, please review your cart'
+      USING ERRCODE = 'P0001',
+            DETAIL = format('expected subtotal %s, tax %s, total %s', _totals.subtotal, _totals.tax, _totals.total);
+  END IF;
+
+  -- Every combo component is a dish for the kitchen
+  SELECT COALESCE(sum(quantity), 0) INTO _item_count FROM public.cart_items WHERE student_id = _student_id;
+  _item_count := _item_count + (
+    SELECT COALESCE(sum(c.quantity * array_length(c.menu_item_ids, 1)), 0)
+    FROM public.cart_combos c
+    WHERE c.student_id = _student_id
+  );
+  PERFORM public.reserve_pickup_slot(_cafeteria_id, _pickup_at, _item_count);
+
+  INSERT INTO public.orders (cafeteria_id, student_id, status, subtotal, tax, total, payment_method, payment_status, notes, pickup_at)
+  VALUES (
+    _cafeteria_id,
+    _student_id,
+    'pending',
+    _totals.subtotal,
+    _totals.tax,
+    _totals.total,
+    _payment_method,
+    'pending',
+    _notes,
+    _pickup_at
+  )
+  RETURNING id INTO _order_id;
+
+  FOR _line IN SELECT * FROM public.cart_line_prices(_student_id) LOOP
+    INSERT INTO public.order_items (order_id, menu_item_id, quantity, price_at_order, subtotal)
+    VALUES (_order_id, _line.menu_item_id, _line.quantity, _line.unit_price, _line.unit_price * _line.quantity)
+    RETURNING id INTO _order_item_id;
+
+    INSERT INTO public.order_item_modifiers (order_item_id, modifier_option_id, group_name, option_name, price_delta)
+    SELECT _order_item_id, o.id, g.name, o.name, o.price_delta
+    FROM public.modifier_options o
+    JOIN public.modifier_groups g ON g.id = o.group_id
+    WHERE o.id = ANY(_line.modifier_option_ids)
+    ORDER BY g.sort_order, o.sort_order;
+  END LOOP;
+
+  FOR _combo IN
+    SELECT DISTINCT ON (cart_combo_id) cart_combo_id, combo_id, combo_name, combo_price, quantity
+    FROM public.cart_combo_lines(_student_id)
+  LOOP
+    INSERT INTO public.order_combos (order_id, combo_id, name, quantity, price)
+    VALUES (_order_id, _combo.combo_id, _combo.combo_name, _combo.quantity, _combo.combo_price)
+    RETURNING id INTO _order_combo_id;
+
+    INSERT INTO public.order_items (order_id, order_combo_id, menu_item_id, quantity, price_at_order, subtotal)
+    SELECT _order_id, _order_combo_id, l.menu_item_id, l.quantity, l.unit_price, l.unit_price * l.quantity
+    FROM public.cart_combo_lines(_student_id) l
+    WHERE l.cart_combo_id = _combo.cart_combo_id;
+  END LOOP;
+
+  DELETE FROM public.cart_items WHERE student_id = _student_id;
+  DELETE FROM public.cart_combos WHERE student_id = _student_id;
+
+  RETURN _order_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,578 @@
+-- Promotions: percentage and flat discounts, redeemed with a coupon code or applied
+-- automatically (happy hours). The discount is spread over the lines it targets so
+-- tax is charged on what the student actually pays.
+
+CREATE TABLE public.promotions (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name text NOT NULL,
+  -- Coupons are redeemed by code; promotions without one apply automatically
+  code text,
+  kind text NOT NULL CHECK (kind IN ('percent', 'flat')),
+  value numeric NOT NULL CHECK (value > 0),
+  max_discount numeric CHECK (max_discount > 0),
+  min_order numeric NOT NULL DEFAULT 0 CHECK (min_order >= 0),
+  -- Targeting: a category or a single item; neither means the whole order
+  category text CHECK (category IN ('Main Course', 'Fast Food', 'Breakfast', 'Dessert')),
+  menu_item_id uuid REFERENCES public.menu_items(id) ON DELETE CASCADE,
+  starts_at timestamptz,
+  ends_at timestamptz,
+  -- Happy hours: a daily window in local time, optionally on some ISO weekdays only
+  daily_start time,
+  daily_end time,
+  weekdays smallint[],
+  timezone text NOT NULL DEFAULT 'Asia/Kolkata',
+  usage_limit integer CHECK (usage_limit > 0),
+  per_user_limit integer CHECK (per_user_limit > 0),
+  -- Retired promotions stay for the orders that used them
+  is_active boolean NOT NULL DEFAULT true,
+  created_by uuid REFERENCES public.profiles(id),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CHECK (kind <> 'percent' OR value <= 100),
+  CHECK (category IS NULL OR menu_item_id IS NULL),
+  CHECK (ends_at > starts_at),
+  CHECK ((daily_start IS NULL) = (daily_end IS NULL) AND daily_start <> daily_end),
+  CHECK (weekdays <@ ARRAY[1, 2, 3, 4, 5, 6, 7]::smallint[])
+);
+
+CREATE UNIQUE INDEX promotions_code_idx ON public.promotions (upper(code));
+
+CREATE TRIGGER update_promotions_updated_at BEFORE UPDATE ON public.promotions FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TABLE public.promotion_redemptions (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  promotion_id uuid NOT NULL REFERENCES public.promotions(id) ON DELETE CASCADE,
+  order_id uuid NOT NULL UNIQUE REFERENCES public.orders(id) ON DELETE CASCADE,
+  student_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  amount numeric NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX promotion_redemptions_promotion_id_idx ON public.promotion_redemptions (promotion_id, student_id);
+
+-- Codes are not listed to students; they only see what quote_cart applies
+ALTER TABLE public.promotions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.promotion_redemptions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage promotions" ON public.promotions FOR ALL USING (
+  EXISTS (SELECT 1 FROM public.profiles WHERE id = auth.uid() AND role = 'admin')
+);
+
+-- Only written by place_order
+CREATE POLICY "Admins can view promotion redemptions" ON public.promotion_redemptions FOR SELECT USING (
+  EXISTS (SELECT 1 FROM public.profiles WHERE id = auth.uid() AND role = 'admin')
+);
+
+-- subtotal stays the undiscounted sum of the lines
+ALTER TABLE public.orders
+  ADD COLUMN discount numeric NOT NULL DEFAULT 0 CHECK (discount >= 0),
+  ADD COLUMN promotion_id uuid REFERENCES public.promotions(id) ON DELETE SET NULL;
+
+ALTER TABLE public.orders DROP CONSTRAINT orders_total_matches_check;
+ALTER TABLE public.orders ADD CONSTRAINT orders_total_matches_check CHECK (total = subtotal - discount + tax);
+
+-- Each line's share of the order discount; tax is charged on subtotal - discount
+ALTER TABLE public.order_items ADD COLUMN discount numeric NOT NULL DEFAULT 0 CHECK (discount >= 0);
+
+-- Cancelled and unpaid orders give their redemption back
+CREATE OR REPLACE FUNCTION public.release_promotion_redemption()
+RETURNS TRIGGER AS $$
+BEGIN
+  DELETE FROM public.promotion_redemptions WHERE order_id = NEW.id;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER release_orders_promotion_redemption
+  AFTER UPDATE OF status, payment_status ON public.orders
+  FOR EACH ROW
+  WHEN (
+    (NEW.status = 'cancelled' AND OLD.status IS DISTINCT FROM 'cancelled')
+    OR (NEW.payment_status = 'failed' AND OLD.payment_status IS DISTINCT FROM 'failed')
+  )
+  EXECUTE FUNCTION public.release_promotion_redemption();
+
+-- Whether a line counts towards the part of the order a promotion discounts
+CREATE OR REPLACE FUNCTION public.promotion_applies_to(_promotion public.promotions, _menu_item_id uuid, _category text)
+RETURNS boolean AS $$
+  SELECT (_promotion.category IS NULL AND _promotion.menu_item_id IS NULL)
+    OR _promotion.category = _category
+    OR _promotion.menu_item_id = _menu_item_id;
+$$ LANGUAGE sql IMMUTABLE SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.promotion_applies_to(public.promotions, uuid, text) FROM public, anon, authenticated;
+
+-- Why a promotion cannot be used by this student right now, or NULL if it can.
+-- The cart-dependent rules (minimum order, targeting) are checked by cart_promotion.
+CREATE OR REPLACE FUNCTION public.promotion_unavailable_reason(_promotion public.promotions, _student_id uuid, _at timestamptz)
+RETURNS text AS $$
+DECLARE
+  _local timestamp := _at AT TIME ZONE _promotion.timezone;
+BEGIN
+  IF NOT _promotion.is_active OR _at >= _promotion.ends_at THEN
+    RETURN 'This offer has ended';
+  END IF;
+
+  IF _at < _promotion.starts_at THEN
+    RETURN 'This offer has not started yet';
+  END IF;
+
+  IF NOT extract(isodow FROM _local)::smallint = ANY(_promotion.weekdays) THEN
+    RETURN 'This offer is not valid today';
+  END IF;
+
+  -- A window that ends before it starts runs past midnight
+  IF _promotion.daily_start IS NOT NULL AND NOT (CASE
+    WHEN _promotion.daily_start < _promotion.daily_end
+      THEN _local::time >= _promotion.daily_start AND _local::time < _promotion.daily_end
+    ELSE _local::time >= _promotion.daily_start OR _local::time < _promotion.daily_end
+  END) THEN
+    RETURN format('This offer is valid from %s to %s', to_char(_promotion.daily_start, 'HH24:MI'), to_char(_promotion.daily_end, 'HH24:MI'));
+  END IF;
+
+  IF _promotion.usage_limit <= (SELECT count(*) FROM public.promotion_redemptions WHERE promotion_id = _promotion.id) THEN
+    RETURN 'This offer has been fully redeemed';
+  END IF;
+
+  IF _promotion.per_user_limit <= (
+    SELECT count(*) FROM public.promotion_redemptions WHERE promotion_id = _promotion.id AND student_id = _student_id
+  ) THEN
+    RETURN 'You have already used this offer';
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.promotion_unavailable_reason(public.promotions, uuid, timestamptz) FROM public, anon, authenticated;
+
+-- Every priced cart line, plain items and combo components alike
+CREATE OR REPLACE FUNCTION public.cart_priced_lines(_student_id uuid)
+RETURNS TABLE (menu_item_id uuid, category text, line_subtotal numeric) AS $$
+  SELECT l.menu_item_id, l.category, l.unit_price * l.quantity FROM public.cart_line_prices(_student_id) l
+  UNION ALL
+  SELECT l.menu_item_id, l.category, l.unit_price * l.quantity FROM public.cart_combo_lines(_student_id) l;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.cart_priced_lines(uuid) FROM public, anon, authenticated;
+
+-- What a promotion takes off this cart: a share of the lines it targets, capped
+-- at max_discount and never more than those lines cost
+CREATE OR REPLACE FUNCTION public.cart_promotion_discount(_promotion public.promotions, _student_id uuid)
+RETURNS TABLE (eligible_subtotal numeric, discount numeric) AS $$
+  SELECT
+    e.amount,
+    LEAST(
+      CASE WHEN _promotion.kind = 'percent' THEN round(e.amount * _promotion.value / 100, 2) ELSE _promotion.value END,
+      COALESCE(_promotion.max_discount, e.amount),
+      e.amount
+    )
+  FROM (
+    SELECT COALESCE(sum(l.line_subtotal), 0) AS amount
+    FROM public.cart_priced_lines(_student_id) l
+    WHERE public.promotion_applies_to(_promotion, l.menu_item_id, l.category)
+  ) e;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.cart_promotion_discount(public.promotions, uuid) FROM public, anon, authenticated;
+
+-- The promotion this cart gets: the best of the entered coupon and any automatic
+-- offers running now. A coupon that cannot be used is reported in coupon_error
+-- rather than raised, so the cart can still be quoted without it.
+CREATE OR REPLACE FUNCTION public.cart_promotion(_student_id uuid, _coupon_code text DEFAULT NULL)
+RETURNS TABLE (
+  promotion_id uuid,
+  promotion_name text,
+  eligible_subtotal numeric,
+  discount numeric,
+  coupon_error text
+) AS $$
+DECLARE
+  _subtotal numeric;
+  _promotion public.promotions;
+  _offer record;
+BEGIN
+  SELECT COALESCE(sum(l.line_subtotal), 0) INTO _subtotal FROM public.cart_priced_lines(_student_id) l;
+  discount := 0;
+
+  IF NULLIF(trim(_coupon_code), '') IS NOT NULL THEN
+    SELECT * INTO _promotion FROM public.promotions p WHERE upper(p.code) = upper(trim(_coupon_code));
+
+    IF NOT FOUND THEN
+      coupon_error := 'Coupon code not recognised';
+    ELSE
+      coupon_error := public.promotion_unavailable_reason(_promotion, _student_id, now());
+
+      IF coupon_error IS NULL AND _subtotal < _promotion.min_order THEN
+        coupon_error := format('Add ₹%s more to use this coupon', _promotion.min_order - _subtotal);
+      END IF;
+
+      IF coupon_error IS NULL THEN
+        SELECT * INTO _offer FROM public.cart_promotion_discount(_promotion, _student_id);
+
+        IF _offer.discount > 0 THEN
+          promotion_id := _promotion.id;
+          promotion_name := _promotion.name;
+          eligible_subtotal := _offer.eligible_subtotal;
+          discount := _offer.discount;
+        ELSE
+          coupon_error := 'This coupon does not apply to the items in your cart';
+        END IF;
+      END IF;
+    END IF;
+  END IF;
+
+  FOR _promotion IN
+    SELECT * FROM public.promotions p WHERE p.code IS NULL AND p.is_active AND p.min_order <= _subtotal
+  LOOP
+    IF public.promotion_unavailable_reason(_promotion, _student_id, now()) IS NULL THEN
+      SELECT * INTO _offer FROM public.cart_promotion_discount(_promotion, _student_id);
+
+      IF _offer.discount > discount THEN
+        promotion_id := _promotion.id;
+        promotion_name := _promotion.name;
+        eligible_subtotal := _offer.eligible_subtotal;
+        discount := _offer.discount;
+      END IF;
+    END IF;
+  END LOOP;
+
+  RETURN NEXT;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.cart_promotion(uuid, text) FROM public, anon, authenticated;
+
+-- cart_totals and quote_cart gain the discount, so their signatures change
+DROP FUNCTION public.quote_cart();
+DROP FUNCTION public.cart_totals(uuid);
+
+CREATE OR REPLACE FUNCTION public.cart_totals(_student_id uuid, _coupon_code text DEFAULT NULL)
+RETURNS TABLE (
+  subtotal numeric,
+  discount numeric,
+  tax numeric,
+  total numeric,
+  promotion_id uuid,
+  promotion_name text,
+  coupon_error text
+) AS $$
+  WITH promo AS (
+    SELECT * FROM public.cart_promotion(_student_id, _coupon_code)
+  ), lines AS (
+    SELECT
+      l.line_subtotal,
+      CASE
+        WHEN promo.promotion_id IS NOT NULL AND public.promotion_applies_to(p, l.menu_item_id, l.category)
+          THEN l.line_subtotal * promo.discount / promo.eligible_subtotal
+        ELSE 0
+      END AS line_discount,
+      COALESCE(
+        (SELECT t.rate FROM public.tax_rates t WHERE t.is_active AND t.category = l.category),
+        (SELECT t.rate FROM public.tax_rates t WHERE t.is_active AND t.category IS NULL),
+        0
+      ) AS rate
+    FROM public.cart_priced_lines(_student_id) l
+    CROSS JOIN promo
+    LEFT JOIN public.promotions p ON p.id = promo.promotion_id
+  ), sums AS (
+    SELECT
+      COALESCE(SUM(line_subtotal), 0) AS subtotal,
+      round(COALESCE(SUM((line_subtotal - line_discount) * rate), 0), 2) AS tax
+    FROM lines
+  )
+  SELECT
+    sums.subtotal,
+    promo.discount,
+    sums.tax,
+    sums.subtotal - promo.discount + sums.tax,
+    promo.promotion_id,
+    promo.promotion_name,
+    promo.coupon_error
+  FROM sums
+  CROSS JOIN promo;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.cart_totals(uuid, text) FROM public, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.quote_cart(_coupon_code text DEFAULT NULL)
+RETURNS TABLE (
+  subtotal numeric,
+  discount numeric,
+  tax numeric,
+  total numeric,
+  promotion_id uuid,
+  promotion_name text,
+  coupon_error text
+) AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '28000';
+  END IF;
+
+  RETURN QUERY SELECT * FROM public.cart_totals(auth.uid(), _coupon_code);
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.quote_cart(text) FROM public, anon;
+GRANT EXECUTE ON FUNCTION public.quote_cart(text) TO authenticated;
+
+-- place_order: apply the promotion, record the redemption and spread the discount over the lines
+DROP FUNCTION public.place_order(text, numeric, numeric, numeric, text, uuid, timestamptz);
+
+CREATE OR REPLACE FUNCTION public.place_order(
+  _payment_method text,
+  _expected_subtotal numeric,
+  _expected_tax numeric,
+  _expected_total numeric,
+  _notes text DEFAULT NULL,
+  _cafeteria_id uuid DEFAULT NULL,
+  _pickup_at timestamptz DEFAULT NULL,
+  _coupon_code text DEFAULT NULL,
+  _expected_discount numeric DEFAULT 0
+)
+RETURNS uuid AS $$
+DECLARE
+  _student_id uuid := auth.uid();
+  _order_id uuid;
+  _order_item_id uuid;
+  _order_combo_id uuid;
+  _totals record;
+  _line record;
+  _combo record;
+  _item_count integer;
+BEGIN
+  IF _student_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '28000';
+  END IF;
+
+  IF _pickup_at IS NULL THEN
+    RAISE EXCEPTION 'Choose a pickup time' USING ERRCODE = 'P0001';
+  END IF;
+
+  IF _cafeteria_id IS NULL THEN
+    SELECT id INTO _cafeteria_id FROM public.cafeterias WHERE is_active ORDER BY code LIMIT 1;
+  ELSIF NOT EXISTS (SELECT 1 FROM public.cafeterias WHERE id = _cafeteria_id AND is_active) THEN
+    RAISE EXCEPTION 'Cafeteria is not accepting orders' USING ERRCODE = 'P0001';
+  END IF;
+
+  -- Lock the cart rows so a concurrent checkout cannot order them twice
+  PERFORM 1 FROM public.cart_items WHERE student_id = _student_id FOR UPDATE;
+  PERFORM 1 FROM public.cart_combos WHERE student_id = _student_id FOR UPDATE;
+
+  IF NOT EXISTS (SELECT 1 FROM public.cart_items WHERE student_id = _student_id)
+    AND NOT EXISTS (SELECT 1 FROM public.cart_combos WHERE student_id = _student_id) THEN
+    RAISE EXCEPTION 'Cart is empty' USING ERRCODE = 'P0001';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM public.cart_items c
+    JOIN public.menu_items m ON m.id = c.menu_item_id
+    WHERE c.student_id = _student_id AND m.is_available IS NOT TRUE
+  ) THEN
+    RAISE EXCEPTION 'Cart contains items that are no longer available' USING ERRCODE = 'P0001';
+  END IF;
+
+  -- Options may have been withdrawn or groups made required since the line was added
+  FOR _line IN SELECT * FROM public.cart_line_prices(_student_id) LOOP
+    PERFORM public.check_modifier_selection(_line.menu_item_id, _line.modifier_option_ids);
+  END LOOP;
+
+  -- Likewise combos and their components
+  FOR _combo IN SELECT * FROM public.cart_combos WHERE student_id = _student_id LOOP
+    PERFORM public.check_combo_selection(_combo.combo_id, _combo.menu_item_ids);
+  END LOOP;
+
+  -- Serialise checkouts on limited promotions so their limits cannot be overshot
+  PERFORM 1
+  FROM public.promotions
+  WHERE (usage_limit IS NOT NULL OR per_user_limit IS NOT NULL)
+    AND (code IS NULL OR upper(code) = upper(trim(_coupon_code)))
+  FOR UPDATE;
+
+  SELECT * INTO _totals FROM public.cart_totals(_student_id, _coupon_code);
+
+  IF _totals.coupon_error IS NOT NULL THEN
+    RAISE EXCEPTION '%', _totals.coupon_error USING ERRCODE = 'P0001';
+  END IF;
+
+  IF _totals.subtotal <> _expected_subtotal
+    OR _totals.discount <> _expected_discount
+    OR _totals.tax <> _expected_tax
+    OR _totals.total <> _expected_total THEN
+    RAISE EXCEPTION 'Order totals do not match current prices, please review your cart'
+      USING ERRCODE = 'P0001',
+            DETAIL = format('expected subtotal %s, discount %s, tax %s, total %s', _totals.subtotal, _totals.discount, _totals.tax, _totals.total);
+  END IF;
+
+  -- Every combo component is a dish for the kitchen
+  SELECT COALESCE(sum(quantity), 0) INTO _item_count FROM public.cart_items WHERE student_id = _student_id;
+  _item_count := _item_count + (
+    SELECT COALESCE(sum(c.quantity * array_length(c.menu_item_ids, 1)), 0)
+    FROM public.cart_combos c
+    WHERE c.student_id = _student_id
+  );
+  PERFORM public.reserve_pickup_slot(_cafeteria_id, _pickup_at, _item_count);
+
+  INSERT INTO public.orders (cafeteria_id, student_id, status, subtotal, discount, tax, total, promotion_id, payment_method, payment_status, notes, pickup_at)
+  VALUES (
+    _cafeteria_id,
+    _student_id,
+    'pending',
+    _totals.subtotal,
+    _totals.discount,
+    _totals.tax,
+    _totals.total,
+    _totals.promotion_id,
+    _payment_method,
+    'pending',
+    _notes,
+    _pickup_at
+  )
+  RETURNING id INTO _order_id;
+
+  FOR _line IN SELECT * FROM public.cart_line_prices(_student_id) LOOP
+    INSERT INTO public.order_items (order_id, menu_item_id, quantity, price_at_order, subtotal)
+    VALUES (_order_id, _line.menu_item_id, _line.quantity, _line.unit_price, _line.unit_price * _line.quantity)
+    RETURNING id INTO _order_item_id;
+
+    INSERT INTO public.order_item_modifiers (order_item_id, modifier_option_id, group_name, option_name, price_delta)
+    SELECT _order_item_id, o.id, g.name, o.name, o.price_delta
+    FROM public.modifier_options o
+    JOIN public.modifier_groups g ON g.id = o.group_id
+    WHERE o.id = ANY(_line.modifier_option_ids)
+    ORDER BY g.sort_order, o.sort_order;
+  END LOOP;
+
+  FOR _combo IN
+    SELECT DISTINCT ON (cart_combo_id) cart_combo_id, combo_id, combo_name, combo_price, quantity
+    FROM public.cart_combo_lines(_student_id)
+  LOOP
+    INSERT INTO public.order_combos (order_id, combo_id, name, quantity, price)
+    VALUES (_order_id, _combo.combo_id, _combo.combo_name, _combo.quantity, _combo.combo_price)
+    RETURNING id INTO _order_combo_id;
+
+    INSERT INTO public.order_items (order_id, order_combo_id, menu_item_id, quantity, price_at_order, subtotal)
+    SELECT _order_id, _order_combo_id, l.menu_item_id, l.quantity, l.unit_price, l.unit_price * l.quantity
+    FROM public.cart_combo_lines(_student_id) l
+    WHERE l.cart_combo_id = _combo.cart_combo_id;
+  END LOOP;
+
+  -- Same split as cart_totals, so the lines' taxable values add up to the quoted tax. The
+  -- cart is not read again: placing the lines may have sold an item out of it
+  IF _totals.promotion_id IS NOT NULL THEN
+    UPDATE public.order_items oi
+    SET discount = oi.subtotal * _totals.discount / (
+      SELECT sum(e.subtotal)
+      FROM public.order_items e
+      JOIN public.menu_items em ON em.id = e.menu_item_id
+      WHERE e.order_id = _order_id
+        AND public.promotion_applies_to(p, em.id, em.category)
+    )
+    FROM public.menu_items m, public.promotions p
+    WHERE oi.order_id = _order_id
+      AND m.id = oi.menu_item_id
+      AND p.id = _totals.promotion_id
+      AND public.promotion_applies_to(p, m.id, m.category);
+
+    INSERT INTO public.promotion_redemptions (promotion_id, order_id, student_id, amount)
+    VALUES (_totals.promotion_id, _order_id, _student_id, _totals.discount);
+  END IF;
+
+  DELETE FROM public.cart_items WHERE student_id = _student_id;
+  DELETE FROM public.cart_combos WHERE student_id = _student_id;
+
+  RETURN _order_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.place_order(text, numeric, numeric, numeric, text, uuid, timestamptz, text, numeric) FROM public, anon;
+GRANT EXECUTE ON FUNCTION public.place_order(text, numeric, numeric, numeric, text, uuid, timestamptz, text, numeric) TO authenticated;
+
+-- The exports report the discount alongside the undiscounted subtotal
+DROP FUNCTION public.export_order_lines(date, date);
+DROP FUNCTION public.sales_daily_totals(date, date);
+
+CREATE OR REPLACE FUNCTION public.export_order_lines(_from date, _to date)
+RETURNS TABLE (
+  business_date date,
+  order_number text,
+  placed_at text,
+  cafeteria text,
+  status text,
+  payment_method text,
+  item_name text,
+  quantity integer,
+  unit_price numeric,
+  line_total numeric,
+  order_subtotal numeric,
+  order_discount numeric,
+  order_tax numeric,
+  order_total numeric
+) AS $$
+BEGIN
+  PERFORM public.assert_admin();
+
+  RETURN QUERY
+  SELECT
+    o.business_date,
+    o.order_number,
+    to_char(o.created_at AT TIME ZONE c.timezone, 'YYYY-MM-DD HH24:MI'),
+    c.name,
+    o.status,
+    o.payment_method,
+    m.name,
+    oi.quantity,
+    oi.price_at_order,
+    oi.quantity * oi.price_at_order,
+    o.subtotal,
+    o.discount,
+    o.tax,
+    o.total
+  FROM public.orders o
+  JOIN public.cafeterias c ON c.id = o.cafeteria_id
+  JOIN public.order_items oi ON oi.order_id = o.id
+  JOIN public.menu_items m ON m.id = oi.menu_item_id
+  WHERE o.payment_status = 'completed'
+    AND o.business_date BETWEEN _from AND _to
+  ORDER BY o.business_date, o.order_number, m.name, oi.id;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.sales_daily_totals(_from date, _to date)
+RETURNS TABLE (
+  business_date date,
+  order_count bigint,
+  cancelled_count bigint,
+  subtotal numeric,
+  discount numeric,
+  tax numeric,
+  total numeric
+) AS $$
+BEGIN
+  PERFORM public.assert_admin();
+
+  RETURN QUERY
+  SELECT
+    d.day::date,
+    count(o.id) FILTER (WHERE o.status <> 'cancelled'),
+    count(o.id) FILTER (WHERE o.status = 'cancelled'),
+    COALESCE(sum(o.subtotal) FILTER (WHERE o.status <> 'cancelled'), 0),
+    COALESCE(sum(o.discount) FILTER (WHERE o.status <> 'cancelled'), 0),
+    COALESCE(sum(o.tax) FILTER (WHERE o.status <> 'cancelled'), 0),
+    COALESCE(sum(o.total) FILTER (WHERE o.status <> 'cancelled'), 0)
+  FROM generate_series(_from::timestamp, _to::timestamp, interval '1 day') AS d(day)
+  LEFT JOIN public.orders o
+    ON o.business_date = d.day::date
+    AND o.payment_status = 'completed'
+  GROUP BY d.day
+  ORDER BY d.day;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.export_order_lines(date, date) FROM public, anon;
+REVOKE EXECUTE ON FUNCTION public.sales_daily_totals(date, date) FROM public, anon;
+GRANT EXECUTE ON FUNCTION public.export_order_lines(date, date) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.sales_daily_totals(date, date) TO authenticated;
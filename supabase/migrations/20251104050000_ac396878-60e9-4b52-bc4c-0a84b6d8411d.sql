@@ -0,0 +1,543 @@
+-- Loyalty points: earned per rupee on completed orders at a rate set by the student's
+-- tier, and spent at checkout where each point takes ₹1 off. Balances are the sum of
+-- an append-only ledger; cancelled or unpaid orders are reversed with new entries.
+
+-- Tiers by spend on completed orders over the last 90 days
+CREATE TABLE public.loyalty_tiers (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name text NOT NULL UNIQUE,
+  min_spend numeric NOT NULL UNIQUE CHECK (min_spend >= 0),
+  points_per_rupee numeric NOT NULL CHECK (points_per_rupee > 0),
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.loyalty_tiers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view loyalty tiers" ON public.loyalty_tiers FOR SELECT USING (true);
+
+CREATE POLICY "Admins can manage loyalty tiers" ON public.loyalty_tiers FOR ALL USING (
+  EXISTS (SELECT 1 FROM public.profiles WHERE id = auth.uid() AND role = 'admin')
+);
+
+INSERT INTO public.loyalty_tiers (name, min_spend, points_per_rupee) VALUES
+  ('Bronze', 0, 0.05),
+  ('Silver', 1500, 0.075),
+  ('Gold', 4000, 0.1);
+
+CREATE TABLE public.loyalty_ledger (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  student_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  order_id uuid REFERENCES public.orders(id) ON DELETE CASCADE,
+  kind text NOT NULL CHECK (kind IN ('earn', 'redeem', 'reversal')),
+  -- Positive when earned or given back, negative when spent or clawed back
+  points integer NOT NULL CHECK (points <> 0),
+  -- The earn or redeem entry a reversal cancels out
+  reverses_id uuid UNIQUE REFERENCES public.loyalty_ledger(id),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  CHECK ((kind = 'reversal') = (reverses_id IS NOT NULL))
+);
+
+CREATE INDEX loyalty_ledger_student_id_idx ON public.loyalty_ledger (student_id, created_at);
+
+-- An order earns once and redeems once
+CREATE UNIQUE INDEX loyalty_ledger_order_kind_idx ON public.loyalty_ledger (order_id, kind) WHERE kind <> 'reversal';
+
+ALTER TABLE public.loyalty_ledger ENABLE ROW LEVEL SECURITY;
+
+-- Only written by place_order and the order triggers below
+CREATE POLICY "Students can view their own loyalty ledger" ON public.loyalty_ledger FOR SELECT USING (
+  auth.uid() = student_id
+  OR EXISTS (SELECT 1 FROM public.profiles WHERE id = auth.uid() AND role = 'admin')
+);
+
+-- Corrections are made with new entries, never by rewriting old ones
+CREATE OR REPLACE FUNCTION public.prevent_loyalty_ledger_update()
+RETURNS TRIGGER AS $$
+BEGIN
+  RAISE EXCEPTION 'Loyalty ledger entries cannot be changed' USING ERRCODE = 'P0001';
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER prevent_loyalty_ledger_update BEFORE UPDATE ON public.loyalty_ledger FOR EACH ROW EXECUTE FUNCTION public.prevent_loyalty_ledger_update();
+
+-- Points spent at checkout; each point is worth ₹1
+ALTER TABLE public.orders ADD COLUMN points_redeemed integer NOT NULL DEFAULT 0 CHECK (points_redeemed >= 0);
+
+ALTER TABLE public.orders DROP CONSTRAINT orders_total_matches_check;
+ALTER TABLE public.orders ADD CONSTRAINT orders_total_matches_check CHECK (total = subtotal - discount - points_redeemed + tax);
+
+COMMENT ON COLUMN public.order_items.discount IS 'Share of the order''s promotion discount and redeemed points';
+
+CREATE OR REPLACE FUNCTION public.loyalty_balance(_student_id uuid)
+RETURNS integer AS $$
+  SELECT COALESCE(sum(points), 0)::integer FROM public.loyalty_ledger WHERE student_id = _student_id;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.loyalty_rolling_spend(_student_id uuid)
+RETURNS numeric AS $$
+  SELECT COALESCE(sum(total), 0)
+  FROM public.orders
+  WHERE student_id = _student_id
+    AND status = 'completed'
+    AND completed_at > now() - interval '90 days';
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.loyalty_tier(_student_id uuid)
+RETURNS public.loyalty_tiers AS $$
+  SELECT *
+  FROM public.loyalty_tiers
+  WHERE min_spend <= public.loyalty_rolling_spend(_student_id)
+  ORDER BY min_spend DESC
+  LIMIT 1;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.loyalty_balance(uuid) FROM public, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.loyalty_rolling_spend(uuid) FROM public, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.loyalty_tier(uuid) FROM public, anon, authenticated;
+
+-- The signed-in student's balance, tier and how far they are from the next one
+CREATE OR REPLACE FUNCTION public.loyalty_summary()
+RETURNS TABLE (
+  balance integer,
+  tier_name text,
+  points_per_rupee numeric,
+  rolling_spend numeric,
+  next_tier_name text,
+  next_tier_spend numeric
+) AS $$
+DECLARE
+  _student_id uuid := auth.uid();
+  _tier public.loyalty_tiers;
+BEGIN
+  IF _student_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '28000';
+  END IF;
+
+  _tier := public.loyalty_tier(_student_id);
+  balance := public.loyalty_balance(_student_id);
+  tier_name := _tier.name;
+  points_per_rupee := _tier.points_per_rupee;
+  rolling_spend := public.loyalty_rolling_spend(_student_id);
+
+  SELECT t.name, t.min_spend INTO next_tier_name, next_tier_spend
+  FROM public.loyalty_tiers t
+  WHERE t.min_spend > rolling_spend
+  ORDER BY t.min_spend
+  LIMIT 1;
+
+  RETURN NEXT;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.loyalty_summary() FROM public, anon;
+GRANT EXECUTE ON FUNCTION public.loyalty_summary() TO authenticated;
+
+-- Points are earned on what the student paid, at the rate of the tier this order takes them to
+CREATE OR REPLACE FUNCTION public.award_order_loyalty_points()
+RETURNS TRIGGER AS $$
+DECLARE
+  _points integer := floor(NEW.total * (public.loyalty_tier(NEW.student_id)).points_per_rupee);
+BEGIN
+  IF _points > 0 THEN
+    INSERT INTO public.loyalty_ledger (student_id, order_id, kind, points)
+    VALUES (NEW.student_id, NEW.id, 'earn', _points)
+    ON CONFLICT DO NOTHING;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER award_orders_loyalty_points
+  AFTER UPDATE OF status ON public.orders
+  FOR EACH ROW
+  WHEN (NEW.status = 'completed' AND OLD.status IS DISTINCT FROM 'completed')
+  EXECUTE FUNCTION public.award_order_loyalty_points();
+
+-- Cancelled and unpaid orders give back the points they spent and claw back any they earned
+CREATE OR REPLACE FUNCTION public.reverse_order_loyalty_points()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO public.loyalty_ledger (student_id, order_id, kind, points, reverses_id)
+  SELECT l.student_id, l.order_id, 'reversal', -l.points, l.id
+  FROM public.loyalty_ledger l
+  WHERE l.order_id = NEW.id
+    AND l.kind <> 'reversal'
+    AND NOT EXISTS (SELECT 1 FROM public.loyalty_ledger r WHERE r.reverses_id = l.id);
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER reverse_orders_loyalty_points
+  AFTER UPDATE OF status, payment_status ON public.orders
+  FOR EACH ROW
+  WHEN (
+    (NEW.status = 'cancelled' AND OLD.status IS DISTINCT FROM 'cancelled')
+    OR (NEW.payment_status = 'failed' AND OLD.payment_status IS DISTINCT FROM 'failed')
+  )
+  EXECUTE FUNCTION public.reverse_order_loyalty_points();
+
+-- cart_totals and quote_cart take the points to redeem. Redemption comes after the
+-- promotion, is capped at the balance and the whole rupees left to pay, and is
+-- spread over every line so tax is charged on what is actually paid.
+DROP FUNCTION public.quote_cart(text);
+DROP FUNCTION public.cart_totals(uuid, text);
+
+CREATE OR REPLACE FUNCTION public.cart_totals(_student_id uuid, _coupon_code text DEFAULT NULL, _redeem_points integer DEFAULT 0)
+RETURNS TABLE (
+  subtotal numeric,
+  discount numeric,
+  points_redeemed integer,
+  tax numeric,
+  total numeric,
+  promotion_id uuid,
+  promotion_name text,
+  coupon_error text
+) AS $$
+  WITH promo AS (
+    SELECT * FROM public.cart_promotion(_student_id, _coupon_code)
+  ), lines AS (
+    SELECT
+      l.line_subtotal,
+      CASE
+        WHEN promo.promotion_id IS NOT NULL AND public.promotion_applies_to(p, l.menu_item_id, l.category)
+          THEN l.line_subtotal * promo.discount / promo.eligible_subtotal
+        ELSE 0
+      END AS promotion_discount,
+      COALESCE(
+        (SELECT t.rate FROM public.tax_rates t WHERE t.is_active AND t.category = l.category),
+        (SELECT t.rate FROM public.tax_rates t WHERE t.is_active AND t.category IS NULL),
+        0
+      ) AS rate
+    FROM public.cart_priced_lines(_student_id) l
+    CROSS JOIN promo
+    LEFT JOIN public.promotions p ON p.id = promo.promotion_id
+  ), points AS (
+    SELECT
+      payable,
+      LEAST(GREATEST(_redeem_points, 0), GREATEST(public.loyalty_balance(_student_id), 0), floor(payable))::integer AS redeemed
+    FROM (SELECT COALESCE(sum(line_subtotal - promotion_discount), 0) AS payable FROM lines) l
+  ), sums AS (
+    SELECT
+      COALESCE(SUM(lines.line_subtotal), 0) AS subtotal,
+      round(COALESCE(SUM(
+        (lines.line_subtotal - lines.promotion_discount)
+          * (1 - COALESCE(points.redeemed / NULLIF(points.payable, 0), 0))
+          * lines.rate
+      ), 0), 2) AS tax
+    FROM lines
+    CROSS JOIN points
+  )
+  SELECT
+    sums.subtotal,
+    promo.discount,
+    points.redeemed,
+    sums.tax,
+    sums.subtotal - promo.discount - points.redeemed + sums.tax,
+    promo.promotion_id,
+    promo.promotion_name,
+    promo.coupon_error
+  FROM sums
+  CROSS JOIN promo
+  CROSS JOIN points;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.cart_totals(uuid, text, integer) FROM public, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.quote_cart(_coupon_code text DEFAULT NULL, _redeem_points integer DEFAULT 0)
+RETURNS TABLE (
+  subtotal numeric,
+  discount numeric,
+  points_redeemed integer,
+  tax numeric,
+  total numeric,
+  promotion_id uuid,
+  promotion_name text,
+  coupon_error text
+) AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '28000';
+  END IF;
+
+  RETURN QUERY SELECT * FROM public.cart_totals(auth.uid(), _coupon_code, _redeem_points);
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.quote_cart(text, integer) FROM public, anon;
+GRANT EXECUTE ON FUNCTION public.quote_cart(text, integer) TO authenticated;
+
+-- place_order: spend the points, record the redemption and add its share to each line's discount
+DROP FUNCTION public.place_order(text, numeric, numeric, numeric, text, uuid, timestamptz, text, numeric);
+
+CREATE OR REPLACE FUNCTION public.place_order(
+  _payment_method text,
+  _expected_subtotal numeric,
+  _expected_tax numeric,
+  _expected_total numeric,
+  _notes text DEFAULT NULL,
+  _cafeteria_id uuid DEFAULT NULL,
+  _pickup_at timestamptz DEFAULT NULL,
+  _coupon_code text DEFAULT NULL,
+  _expected_discount numeric DEFAULT 0,
+  _redeem_points integer DEFAULT 0
+)
+RETURNS uuid AS $$
+DECLARE
+  _student_id uuid := auth.uid();
+  _order_id uuid;
+  _order_item_id uuid;
+  _order_combo_id uuid;
+  _totals record;
+  _line record;
+  _combo record;
+  _item_count integer;
+BEGIN
+  IF _student_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '28000';
+  END IF;
+
+  IF _pickup_at IS NULL THEN
+    RAISE EXCEPTION 'Choose a pickup time' USING ERRCODE = 'P0001';
+  END IF;
+
+  IF _cafeteria_id IS NULL THEN
+    SELECT id INTO _cafeteria_id FROM public.cafeterias WHERE is_active ORDER BY code LIMIT 1;
+  ELSIF NOT EXISTS (SELECT 1 FROM public.cafeterias WHERE id = _cafeteria_id AND is_active) THEN
+    RAISE EXCEPTION 'Cafeteria is not accepting orders' USING ERRCODE = 'P0001';
+  END IF;
+
+  -- Lock the cart rows so a concurrent checkout cannot order them twice
+  PERFORM 1 FROM public.cart_items WHERE student_id = _student_id FOR UPDATE;
+  PERFORM 1 FROM public.cart_combos WHERE student_id = _student_id FOR UPDATE;
+
+  IF NOT EXISTS (SELECT 1 FROM public.cart_items WHERE student_id = _student_id)
+    AND NOT EXISTS (SELECT 1 FROM public.cart_combos WHERE student_id = _student_id) THEN
+    RAISE EXCEPTION 'Cart is empty' USING ERRCODE = 'P0001';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM public.cart_items c
+    JOIN public.menu_items m ON m.id = c.menu_item_id
+    WHERE c.student_id = _student_id AND m.is_available IS NOT TRUE
+  ) THEN
+    RAISE EXCEPTION 'Cart contains items that are no longer available' USING ERRCODE = 'P0001';
+  END IF;
+
+  -- Options may have been withdrawn or groups made required since the line was added
+  FOR _line IN SELECT * FROM public.cart_line_prices(_student_id) LOOP
+    PERFORM public.check_modifier_selection(_line.menu_item_id, _line.modifier_option_ids);
+  END LOOP;
+
+  -- Likewise combos and their components
+  FOR _combo IN SELECT * FROM public.cart_combos WHERE student_id = _student_id LOOP
+    PERFORM public.check_combo_selection(_combo.combo_id, _combo.menu_item_ids);
+  END LOOP;
+
+  -- Serialise checkouts on limited promotions so their limits cannot be overshot
+  PERFORM 1
+  FROM public.promotions
+  WHERE (usage_limit IS NOT NULL OR per_user_limit IS NOT NULL)
+    AND (code IS NULL OR upper(code) = upper(trim(_coupon_code)))
+  FOR UPDATE;
+
+  -- And the student's checkouts, so the same points cannot be spent twice
+  IF _redeem_points > 0 THEN
+    PERFORM 1 FROM public.profiles WHERE id = _student_id FOR UPDATE;
+  END IF;
+
+  SELECT * INTO _totals FROM public.cart_totals(_student_id, _coupon_code, _redeem_points);
+
+  IF _totals.coupon_error IS NOT NULL THEN
+    RAISE EXCEPTION '%', _totals.coupon_error USING ERRCODE = 'P0001';
+  END IF;
+
+  IF _totals.subtotal <> _expected_subtotal
+    OR _totals.discount <> _expected_discount
+    OR _totals.points_redeemed <> _redeem_points
+    OR _totals.tax <> _expected_tax
+    OR _totals.total <> _expected_total THEN
+    RAISE EXCEPTION 'Order totals do not match current prices, please review your cart'
+      USING ERRCODE = 'P0001',
+            DETAIL = format(
+              'expected subtotal %s, discount %s, points %s, tax %s, total %s',
+              _totals.subtotal, _totals.discount, _totals.points_redeemed, _totals.tax, _totals.total
+            );
+  END IF;
+
+  -- Every combo component is a dish for the kitchen
+  SELECT COALESCE(sum(quantity), 0) INTO _item_count FROM public.cart_items WHERE student_id = _student_id;
+  _item_count := _item_count + (
+    SELECT COALESCE(sum(c.quantity * array_length(c.menu_item_ids, 1)), 0)
+    FROM public.cart_combos c
+    WHERE c.student_id = _student_id
+  );
+  PERFORM public.reserve_pickup_slot(_cafeteria_id, _pickup_at, _item_count);
+
+  INSERT INTO public.orders (
+    cafeteria_id, student_id, status, subtotal, discount, points_redeemed, tax, total,
+    promotion_id, payment_method, payment_status, notes, pickup_at
+  )
+  VALUES (
+    _cafeteria_id,
+    _student_id,
+    'pending',
+    _totals.subtotal,
+    _totals.discount,
+    _totals.points_redeemed,
+    _totals.tax,
+    _totals.total,
+    _totals.promotion_id,
+    _payment_method,
+    'pending',
+    _notes,
+    _pickup_at
+  )
+  RETURNING id INTO _order_id;
+
+  FOR _line IN SELECT * FROM public.cart_line_prices(_student_id) LOOP
+    INSERT INTO public.order_items (order_id, menu_item_id, quantity, price_at_order, subtotal)
+    VALUES (_order_id, _line.menu_item_id, _line.quantity, _line.unit_price, _line.unit_price * _line.quantity)
+    RETURNING id INTO _order_item_id;
+
+    INSERT INTO public.order_item_modifiers (order_item_id, modifier_option_id, group_name, option_name, price_delta)
+    SELECT _order_item_id, o.id, g.name, o.name, o.price_delta
+    FROM public.modifier_options o
+    JOIN public.modifier_groups g ON g.id = o.group_id
+    WHERE o.id = ANY(_line.modifier_option_ids)
+    ORDER BY g.sort_order, o.sort_order;
+  END LOOP;
+
+  FOR _combo IN
+    SELECT DISTINCT ON (cart_combo_id) cart_combo_id, combo_id, combo_name, combo_price, quantity
+    FROM public.cart_combo_lines(_student_id)
+  LOOP
+    INSERT INTO public.order_combos (order_id, combo_id, name, quantity, price)
+    VALUES (_order_id, _combo.combo_id, _combo.combo_name, _combo.quantity, _combo.combo_price)
+    RETURNING id INTO _order_combo_id;
+
+    INSERT INTO public.order_items (order_id, order_combo_id, menu_item_id, quantity, price_at_order, subtotal)
+    SELECT _order_id, _order_combo_id, l.menu_item_id, l.quantity, l.unit_price, l.unit_price * l.quantity
+    FROM public.cart_combo_lines(_student_id) l
+    WHERE l.cart_combo_id = _combo.cart_combo_id;
+  END LOOP;
+
+  -- Same split as cart_totals, so the lines' taxable values add up to the quoted tax. The
+  -- cart is not read again: placing the lines may have sold an item out of it
+  IF _totals.promotion_id IS NOT NULL THEN
+    UPDATE public.order_items oi
+    SET discount = oi.subtotal * _totals.discount / (
+      SELECT sum(e.subtotal)
+      FROM public.order_items e
+      JOIN public.menu_items em ON em.id = e.menu_item_id
+      WHERE e.order_id = _order_id
+        AND public.promotion_applies_to(p, em.id, em.category)
+    )
+    FROM public.menu_items m, public.promotions p
+    WHERE oi.order_id = _order_id
+      AND m.id = oi.menu_item_id
+      AND p.id = _totals.promotion_id
+      AND public.promotion_applies_to(p, m.id, m.category);
+
+    INSERT INTO public.promotion_redemptions (promotion_id, order_id, student_id, amount)
+    VALUES (_totals.promotion_id, _order_id, _student_id, _totals.discount);
+  END IF;
+
+  IF _totals.points_redeemed > 0 THEN
+    UPDATE public.order_items
+    SET discount = discount + (subtotal - discount) * _totals.points_redeemed / (_totals.subtotal - _totals.discount)
+    WHERE order_id = _order_id;
+
+    INSERT INTO public.loyalty_ledger (student_id, order_id, kind, points)
+    VALUES (_student_id, _order_id, 'redeem', -_totals.points_redeemed);
+  END IF;
+
+  DELETE FROM public.cart_items WHERE student_id = _student_id;
+  DELETE FROM public.cart_combos WHERE student_id = _student_id;
+
+  RETURN _order_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.place_order(text, numeric, numeric, numeric, text, uuid, timestamptz, text, numeric, integer) FROM public, anon;
+GRANT EXECUTE ON FUNCTION public.place_order(text, numeric, numeric, numeric, text, uuid, timestamptz, text, numeric, integer) TO authenticated;
+
+-- The exports' discount covers redeemed points too, which also come off the taxable value
+CREATE OR REPLACE FUNCTION public.export_order_lines(_from date, _to date)
+RETURNS TABLE (
+  business_date date,
+  order_number text,
+  placed_at text,
+  cafeteria text,
+  status text,
+  payment_method text,
+  item_name text,
+  quantity integer,
+  unit_price numeric,
+  line_total numeric,
+  order_subtotal numeric,
+  order_discount numeric,
+  order_tax numeric,
+  order_total numeric
+) AS $$
+BEGIN
+  PERFORM public.assert_admin();
+
+  RETURN QUERY
+  SELECT
+    o.business_date,
+    o.order_number,
+    to_char(o.created_at AT TIME ZONE c.timezone, 'YYYY-MM-DD HH24:MI'),
+    c.name,
+    o.status,
+    o.payment_method,
+    m.name,
+    oi.quantity,
+    oi.price_at_order,
+    oi.quantity * oi.price_at_order,
+    o.subtotal,
+    o.discount + o.points_redeemed,
+    o.tax,
+    o.total
+  FROM public.orders o
+  JOIN public.cafeterias c ON c.id = o.cafeteria_id
+  JOIN public.order_items oi ON oi.order_id = o.id
+  JOIN public.menu_items m ON m.id = oi.menu_item_id
+  WHERE o.payment_status = 'completed'
+    AND o.business_date BETWEEN _from AND _to
+  ORDER BY o.business_date, o.order_number, m.name, oi.id;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.sales_daily_totals(_from date, _to date)
+RETURNS TABLE (
+  business_date date,
+  order_count bigint,
+  cancelled_count bigint,
+  subtotal numeric,
+  discount numeric,
+  tax numeric,
+  total numeric
+) AS $$
+BEGIN
+  PERFORM public.assert_admin();
+
+  RETURN QUERY
+  SELECT
+    d.day::date,
+    count(o.id) FILTER (WHERE o.status <> 'cancelled'),
+    count(o.id) FILTER (WHERE o.status = 'cancelled'),
+    COALESCE(sum(o.subtotal) FILTER (WHERE o.status <> 'cancelled'), 0),
+    COALESCE(sum(o.discount + o.points_redeemed) FILTER (WHERE o.status <> 'cancelled'), 0),
+    COALESCE(sum(o.tax) FILTER (WHERE o.status <> 'cancelled'), 0),
+    COALESCE(sum(o.total) FILTER (WHERE o.status <> 'cancelled'), 0)
+  FROM generate_series(_from::timestamp, _to::timestamp, interval '1 day') AS d(day)
+  LEFT JOIN public.orders o
+    ON o.business_date = d.day::date
+    AND o.payment_status = 'completed'
+  GROUP BY d.day
+  ORDER BY d.day;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
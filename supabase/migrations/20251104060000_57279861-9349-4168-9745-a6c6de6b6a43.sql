@@ -0,0 +1,556 @@
+-- Prepaid campus wallet. Money moves through a double-entry ledger: every transaction
+-- posts entries that sum to zero across the student's wallet and one of the
+-- cafeteria's own accounts, and a wallet's balance is the running sum of its entries.
+
+CREATE TABLE public.wallets (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  student_id uuid NOT NULL UNIQUE REFERENCES public.profiles(id) ON DELETE CASCADE,
+  -- Maintained by apply_wallet_entry; the check is what makes overdrawing impossible
+  balance numeric NOT NULL DEFAULT 0 CHECK (balance >= 0),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE TRIGGER update_wallets_updated_at BEFORE UPDATE ON public.wallets FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Top-ups are paid through the gateway and credited once its webhook confirms them
+CREATE TABLE public.wallet_top_ups (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  wallet_id uuid NOT NULL REFERENCES public.wallets(id) ON DELETE CASCADE,
+  amount numeric NOT NULL CHECK (amount > 0),
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'completed', 'failed')),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX wallet_top_ups_wallet_id_idx ON public.wallet_top_ups (wallet_id, created_at);
+
+CREATE TRIGGER update_wallet_top_ups_updated_at BEFORE UPDATE ON public.wallet_top_ups FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TABLE public.wallet_transactions (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  kind text NOT NULL CHECK (kind IN ('top_up', 'payment', 'refund', 'adjustment')),
+  description text NOT NULL,
+  order_id uuid REFERENCES public.orders(id) ON DELETE CASCADE,
+  top_up_id uuid UNIQUE REFERENCES public.wallet_top_ups(id) ON DELETE CASCADE,
+  created_by uuid REFERENCES public.profiles(id),
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+-- An order is paid once and refunded once
+CREATE UNIQUE INDEX wallet_transactions_order_kind_idx ON public.wallet_transactions (order_id, kind) WHERE order_id IS NOT NULL;
+
+-- Accounts: 'wallet' is a student's wallet; 'gateway' is money received through the
+-- payment gateway, 'sales' is revenue from wallet payments and 'adjustments' balances
+-- manual corrections
+CREATE TABLE public.wallet_entries (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  transaction_id uuid NOT NULL REFERENCES public.wallet_transactions(id) ON DELETE CASCADE,
+  account text NOT NULL CHECK (account IN ('wallet', 'gateway', 'sales', 'adjustments')),
+  wallet_id uuid REFERENCES public.wallets(id) ON DELETE CASCADE,
+  amount numeric NOT NULL CHECK (amount <> 0),
+  -- The wallet's balance once this entry was applied, for statements
+  balance_after numeric,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  CHECK ((account = 'wallet') = (wallet_id IS NOT NULL))
+);
+
+CREATE INDEX wallet_entries_transaction_id_idx ON public.wallet_entries (transaction_id);
+CREATE INDEX wallet_entries_wallet_id_idx ON public.wallet_entries (wallet_id, created_at);
+
+ALTER TABLE public.wallets ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.wallet_top_ups ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.wallet_transactions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.wallet_entries ENABLE ROW LEVEL SECURITY;
+
+-- Lets the wallet page pick up a top-up once the gateway webhook settles it
+ALTER PUBLICATION supabase_realtime ADD TABLE public.wallets;
+
+-- All writes go through the functions below
+CREATE POLICY "Students can view their own wallet" ON public.wallets FOR SELECT USING (
+  auth.uid() = student_id
+  OR EXISTS (SELECT 1 FROM public.profiles WHERE id = auth.uid() AND role = 'admin')
+);
+
+CREATE POLICY "Students can view their own top-ups" ON public.wallet_top_ups FOR SELECT USING (
+  EXISTS (SELECT 1 FROM public.wallets WHERE id = wallet_top_ups.wallet_id AND student_id = auth.uid())
+  OR EXISTS (SELECT 1 FROM public.profiles WHERE id = auth.uid() AND role = 'admin')
+);
+
+CREATE POLICY "Students can view their own wallet transactions" ON public.wallet_transactions FOR SELECT USING (
+  EXISTS (
+    SELECT 1
+    FROM public.wallet_entries e
+    JOIN public.wallets w ON w.id = e.wallet_id
+    WHERE e.transaction_id = wallet_transactions.id AND w.student_id = auth.uid()
+  )
+  OR EXISTS (SELECT 1 FROM public.profiles WHERE id = auth.uid() AND role = 'admin')
+);
+
+-- Students see their side of each transaction; admins see both
+CREATE POLICY "Students can view their own wallet entries" ON public.wallet_entries FOR SELECT USING (
+  EXISTS (SELECT 1 FROM public.wallets WHERE id = wallet_entries.wallet_id AND student_id = auth.uid())
+  OR EXISTS (SELECT 1 FROM public.profiles WHERE id = auth.uid() AND role = 'admin')
+);
+
+-- The ledger is append-only: mistakes are corrected with an adjustment
+CREATE OR REPLACE FUNCTION public.prevent_wallet_ledger_update()
+RETURNS TRIGGER AS $$
+BEGIN
+  RAISE EXCEPTION 'Wallet ledger entries cannot be changed' USING ERRCODE = 'P0001';
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER prevent_wallet_transactions_update BEFORE UPDATE ON public.wallet_transactions FOR EACH ROW EXECUTE FUNCTION public.prevent_wallet_ledger_update();
+CREATE TRIGGER prevent_wallet_entries_update BEFORE UPDATE ON public.wallet_entries FOR EACH ROW EXECUTE FUNCTION public.prevent_wallet_ledger_update();
+
+-- Move the wallet's balance with each entry, under the row lock the update takes
+CREATE OR REPLACE FUNCTION public.apply_wallet_entry()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.wallet_id IS NOT NULL THEN
+    UPDATE public.wallets
+    SET balance = balance + NEW.amount
+    WHERE id = NEW.wallet_id
+    RETURNING balance INTO NEW.balance_after;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER apply_wallet_entries BEFORE INSERT ON public.wallet_entries FOR EACH ROW EXECUTE FUNCTION public.apply_wallet_entry();
+
+-- Checked at commit, once all of a transaction's entries are in
+CREATE OR REPLACE FUNCTION public.check_wallet_transaction_balanced()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF (SELECT sum(amount) FROM public.wallet_entries WHERE transaction_id = NEW.transaction_id) <> 0 THEN
+    RAISE EXCEPTION 'Wallet transaction % does not balance', NEW.transaction_id USING ERRCODE = 'P0001';
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE CONSTRAINT TRIGGER check_wallet_entries_balanced
+  AFTER INSERT ON public.wallet_entries
+  DEFERRABLE INITIALLY DEFERRED
+  FOR EACH ROW
+  EXECUTE FUNCTION public.check_wallet_transaction_balanced();
+
+CREATE OR REPLACE FUNCTION public.ensure_wallet(_student_id uuid)
+RETURNS uuid AS $$
+  INSERT INTO public.wallets (student_id) VALUES (_student_id)
+  ON CONFLICT (student_id) DO UPDATE SET student_id = EXCLUDED.student_id
+  RETURNING id;
+$$ LANGUAGE sql SECURITY DEFINER SET search_path = public;
+
+-- Post a transaction between a wallet and one of the cafeteria's accounts.
+-- A positive amount credits the wallet.
+CREATE OR REPLACE FUNCTION public.post_wallet_transaction(
+  _wallet_id uuid,
+  _amount numeric,
+  _account text,
+  _kind text,
+  _description text,
+  _order_id uuid DEFAULT NULL,
+  _top_up_id uuid DEFAULT NULL
+)
+RETURNS uuid AS $$
+DECLARE
+  _transaction_id uuid;
+BEGIN
+  INSERT INTO public.wallet_transactions (kind, description, order_id, top_up_id, created_by)
+  VALUES (_kind, _description, _order_id, _top_up_id, auth.uid())
+  RETURNING id INTO _transaction_id;
+
+  INSERT INTO public.wallet_entries (transaction_id, account, wallet_id, amount) VALUES
+    (_transaction_id, 'wallet', _wallet_id, _amount),
+    (_transaction_id, _account, NULL, -_amount);
+
+  RETURN _transaction_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.ensure_wallet(uuid) FROM public, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.post_wallet_transaction(uuid, numeric, text, text, text, uuid, uuid) FROM public, anon, authenticated;
+
+-- Starts a top-up for the signed-in student; the browser then pays it through create-payment
+CREATE OR REPLACE FUNCTION public.create_wallet_top_up(_amount numeric)
+RETURNS uuid AS $$
+DECLARE
+  _top_up_id uuid;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '28000';
+  END IF;
+
+  IF _amount IS NULL OR _amount < 10 OR _amount > 10000 OR _amount <> round(_amount, 2) THEN
+    RAISE EXCEPTION 'Top-ups must be between ₹10 and ₹10000' USING ERRCODE = 'P0001';
+  END IF;
+
+  INSERT INTO public.wallet_top_ups (wallet_id, amount)
+  VALUES (public.ensure_wallet(auth.uid()), _amount)
+  RETURNING id INTO _top_up_id;
+
+  RETURN _top_up_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.create_wallet_top_up(numeric) FROM public, anon;
+GRANT EXECUTE ON FUNCTION public.create_wallet_top_up(numeric) TO authenticated;
+
+-- Manual credit (positive) or debit (negative) by an admin, with the reason on the statement
+CREATE OR REPLACE FUNCTION public.adjust_wallet(_student_id uuid, _amount numeric, _reason text)
+RETURNS uuid AS $$
+DECLARE
+  _wallet_id uuid;
+  _wallet public.wallets;
+BEGIN
+  PERFORM public.assert_admin();
+
+  IF length(trim(COALESCE(_reason, ''))) < 3 THEN
+    RAISE EXCEPTION 'Give a reason for the adjustment' USING ERRCODE = 'P0001';
+  END IF;
+
+  IF _amount IS NULL OR _amount = 0 OR _amount <> round(_amount, 2) THEN
+    RAISE EXCEPTION 'Enter a non-zero amount in rupees and paise' USING ERRCODE = 'P0001';
+  END IF;
+
+  _wallet_id := public.ensure_wallet(_student_id);
+  SELECT * INTO _wallet FROM public.wallets WHERE id = _wallet_id FOR UPDATE;
+
+  IF _wallet.balance + _amount < 0 THEN
+    RAISE EXCEPTION 'The wallet only holds ₹%', _wallet.balance USING ERRCODE = 'P0001';
+  END IF;
+
+  RETURN public.post_wallet_transaction(_wallet.id, _amount, 'adjustments', 'adjustment', trim(_reason));
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.adjust_wallet(uuid, numeric, text) FROM public, anon;
+GRANT EXECUTE ON FUNCTION public.adjust_wallet(uuid, numeric, text) TO authenticated;
+
+-- Gateway payments are now for an order or a wallet top-up
+ALTER TABLE public.payments
+  ALTER COLUMN order_id DROP NOT NULL,
+  ADD COLUMN top_up_id uuid REFERENCES public.wallet_top_ups(id) ON DELETE CASCADE,
+  ADD CONSTRAINT payments_target_check CHECK (num_nonnulls(order_id, top_up_id) = 1);
+
+CREATE INDEX payments_top_up_id_idx ON public.payments (top_up_id);
+
+CREATE POLICY "Users can view payments for their top-ups" ON public.payments FOR SELECT USING (
+  EXISTS (
+    SELECT 1
+    FROM public.wallet_top_ups t
+    JOIN public.wallets w ON w.id = t.wallet_id
+    WHERE t.id = payments.top_up_id AND w.student_id = auth.uid()
+  )
+);
+
+-- Settling a top-up payment settles the top-up, and a completed one credits the wallet
+CREATE OR REPLACE FUNCTION public.confirm_payment(
+  _provider text,
+  _provider_order_id text,
+  _provider_payment_id text,
+  _status text,
+  _payload jsonb DEFAULT NULL
+)
+RETURNS uuid AS $$
+DECLARE
+  _payment public.payments%ROWTYPE;
+  _top_up public.wallet_top_ups%ROWTYPE;
+BEGIN
+  IF _status NOT IN ('completed', 'failed') THEN
+    RAISE EXCEPTION 'Invalid payment status %', _status USING ERRCODE = '22023';
+  END IF;
+
+  SELECT * INTO _payment
+  FROM public.payments
+  WHERE provider = _provider AND provider_order_id = _provider_order_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Unknown % payment %', _provider, _provider_order_id USING ERRCODE = 'P0002';
+  END IF;
+
+  -- Gateways retry webhooks, so a settled payment is left as it is
+  IF _payment.status <> 'pending' THEN
+    RETURN COALESCE(_payment.order_id, _payment.top_up_id);
+  END IF;
+
+  UPDATE public.payments
+  SET status = _status,
+      provider_payment_id = _provider_payment_id,
+      webhook_payload = _payload
+  WHERE id = _payment.id;
+
+  IF _payment.top_up_id IS NOT NULL THEN
+    UPDATE public.wallet_top_ups
+    SET status = _status
+    WHERE id = _payment.top_up_id AND status = 'pending'
+    RETURNING * INTO _top_up;
+
+    IF FOUND AND _status = 'completed' THEN
+      PERFORM public.post_wallet_transaction(_top_up.wallet_id, _top_up.amount, 'gateway', 'top_up', 'Top-up', NULL, _top_up.id);
+    END IF;
+
+    RETURN _payment.top_up_id;
+  END IF;
+
+  UPDATE public.orders
+  SET payment_status = _status
+  WHERE id = _payment.order_id AND payment_status = 'pending';
+
+  RETURN _payment.order_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Wallet payments for orders
+ALTER TABLE public.orders DROP CONSTRAINT orders_payment_method_check;
+ALTER TABLE public.orders ADD CONSTRAINT orders_payment_method_check CHECK (payment_method IN ('upi', 'card', 'razorpay', 'wallet'));
+
+-- Cancelled wallet orders are refunded to the wallet
+CREATE OR REPLACE FUNCTION public.refund_wallet_order()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM public.post_wallet_transaction(
+    w.id, NEW.total, 'sales', 'refund', format('Refund for order %s', NEW.order_number), NEW.id
+  )
+  FROM public.wallets w
+  WHERE w.student_id = NEW.student_id;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER refund_orders_wallet_payment
+  AFTER UPDATE OF status ON public.orders
+  FOR EACH ROW
+  WHEN (
+    NEW.status = 'cancelled' AND OLD.status IS DISTINCT FROM 'cancelled'
+    AND NEW.payment_method = 'wallet' AND NEW.payment_status = 'completed' AND NEW.total > 0
+  )
+  EXECUTE FUNCTION public.refund_wallet_order();
+
+-- place_order: wallet orders are debited in the same transaction and go straight to the kitchen
+CREATE OR REPLACE FUNCTION public.place_order(
+  _payment_method text,
+  _expected_subtotal numeric,
+  _expected_tax numeric,
+  _expected_total numeric,
+  _notes text DEFAULT NULL,
+  _cafeteria_id uuid DEFAULT NULL,
+  _pickup_at timestamptz DEFAULT NULL,
+  _coupon_code text DEFAULT NULL,
+  _expected_discount numeric DEFAULT 0,
+  _redeem_points integer DEFAULT 0
+)
+RETURNS uuid AS $$
+DECLARE
+  _student_id uuid := auth.uid();
+  _order_id uuid;
+  _order_number text;
+  _order_item_id uuid;
+  _order_combo_id uuid;
+  _totals record;
+  _line record;
+  _combo record;
+  _item_count integer;
+  _wallet public.wallets;
+BEGIN
+  IF _student_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '28000';
+  END IF;
+
+  IF _pickup_at IS NULL THEN
+    RAISE EXCEPTION 'Choose a pickup time' USING ERRCODE = 'P0001';
+  END IF;
+
+  IF _cafeteria_id IS NULL THEN
+    SELECT id INTO _cafeteria_id FROM public.cafeterias WHERE is_active ORDER BY code LIMIT 1;
+  ELSIF NOT EXISTS (SELECT 1 FROM public.cafeterias WHERE id = _cafeteria_id AND is_active) THEN
+    RAISE EXCEPTION 'Cafeteria is not accepting orders' USING ERRCODE = 'P0001';
+  END IF;
+
+  -- Lock the cart rows so a concurrent checkout cannot order them twice
+  PERFORM 1 FROM public.cart_items WHERE student_id = _student_id FOR UPDATE;
+  PERFORM 1 FROM public.cart_combos WHERE student_id = _student_id FOR UPDATE;
+
+  IF NOT EXISTS (SELECT 1 FROM public.cart_items WHERE student_id = _student_id)
+    AND NOT EXISTS (SELECT 1 FROM public.cart_combos WHERE student_id = _student_id) THEN
+    RAISE EXCEPTION 'Cart is empty' USING ERRCODE = 'P0001';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM public.cart_items c
+    JOIN public.menu_items m ON m.id = c.menu_item_id
+    WHERE c.student_id = _student_id AND m.is_available IS NOT TRUE
+  ) THEN
+    RAISE EXCEPTION 'Cart contains items that are no longer available' USING ERRCODE = 'P0001';
+  END IF;
+
+  -- Options may have been withdrawn or groups made required since the line was added
+  FOR _line IN SELECT * FROM public.cart_line_prices(_student_id) LOOP
+    PERFORM public.check_modifier_selection(_line.menu_item_id, _line.modifier_option_ids);
+  END LOOP;
+
+  -- Likewise combos and their components
+  FOR _combo IN SELECT * FROM public.cart_combos WHERE student_id = _student_id LOOP
+    PERFORM public.check_combo_selection(_combo.combo_id, _combo.menu_item_ids);
+  END LOOP;
+
+  -- Serialise checkouts on limited promotions so their limits cannot be overshot
+  PERFORM 1
+  FROM public.promotions
+  WHERE (usage_limit IS NOT NULL OR per_user_limit IS NOT NULL)
+    AND (code IS NULL OR upper(code) = upper(trim(_coupon_code)))
+  FOR UPDATE;
+
+  -- And the student's checkouts, so the same points cannot be spent twice
+  IF _redeem_points > 0 THEN
+    PERFORM 1 FROM public.profiles WHERE id = _student_id FOR UPDATE;
+  END IF;
+
+  SELECT * INTO _totals FROM public.cart_totals(_student_id, _coupon_code, _redeem_points);
+
+  IF _totals.coupon_error IS NOT NULL THEN
+    RAISE EXCEPTION '%', _totals.coupon_error USING ERRCODE = 'P0001';
+  END IF;
+
+  IF _totals.subtotal <> _expected_subtotal
+    OR _totals.discount <> _expected_discount
+    OR _totals.points_redeemed <> _redeem_points
+    OR _totals.tax <> _expected_tax
+    OR _totals.total <> _expected_total THEN
+    RAISE EXCEPTION 'Order totals do not match current prices, please review your cart'
+      USING ERRCODE = 'P0001',
+            DETAIL = format(
+              'expected subtotal %s, discount %s, points %s, tax %s, total %s',
+              _totals.subtotal, _totals.discount, _totals.points_redeemed, _totals.tax, _totals.total
+            );
+  END IF;
+
+  IF _payment_method = 'wallet' THEN
+    SELECT * INTO _wallet FROM public.wallets WHERE student_id = _student_id FOR UPDATE;
+
+    IF COALESCE(_wallet.balance, 0) < _totals.total THEN
+      RAISE EXCEPTION 'Your wallet balance of ₹% does not cover this order', COALESCE(_wallet.balance, 0)
+        USING ERRCODE = 'P0001';
+    END IF;
+  END IF;
+
+  -- Every combo component is a dish for the kitchen
+  SELECT COALESCE(sum(quantity), 0) INTO _item_count FROM public.cart_items WHERE student_id = _student_id;
+  _item_count := _item_count + (
+    SELECT COALESCE(sum(c.quantity * array_length(c.menu_item_ids, 1)), 0)
+    FROM public.cart_combos c
+    WHERE c.student_id = _student_id
+  );
+  PERFORM public.reserve_pickup_slot(_cafeteria_id, _pickup_at, _item_count);
+
+  INSERT INTO public.orders (
+    cafeteria_id, student_id, status, subtotal, discount, points_redeemed, tax, total,
+    promotion_id, payment_method, payment_status, notes, pickup_at
+  )
+  VALUES (
+    _cafeteria_id,
+    _student_id,
+    'pending',
+    _totals.subtotal,
+    _totals.discount,
+    _totals.points_redeemed,
+    _totals.tax,
+    _totals.total,
+    _totals.promotion_id,
+    _payment_method,
+    CASE WHEN _payment_method = 'wallet' THEN 'completed' ELSE 'pending' END,
+    _notes,
+    _pickup_at
+  )
+  RETURNING id, order_number INTO _order_id, _order_number;
+
+  FOR _line IN SELECT * FROM public.cart_line_prices(_student_id) LOOP
+    INSERT INTO public.order_items (order_id, menu_item_id, quantity, price_at_order, subtotal)
+    VALUES (_order_id, _line.menu_item_id, _line.quantity, _line.unit_price, _line.unit_price * _line.quantity)
+    RETURNING id INTO _order_item_id;
+
+    INSERT INTO public.order_item_modifiers (order_item_id, modifier_option_id, group_name, option_name, price_delta)
+    SELECT _order_item_id, o.id, g.name, o.name, o.price_delta
+    FROM public.modifier_options o
+    JOIN public.modifier_groups g ON g.id = o.group_id
+    WHERE o.id = ANY(_line.modifier_option_ids)
+    ORDER BY g.sort_order, o.sort_order;
+  END LOOP;
+
+  FOR _combo IN
+    SELECT DISTINCT ON (cart_combo_id) cart_combo_id, combo_id, combo_name, combo_price, quantity
+    FROM public.cart_combo_lines(_student_id)
+  LOOP
+    INSERT INTO public.order_combos (order_id, combo_id, name, quantity, price)
+    VALUES (_order_id, _combo.combo_id, _combo.combo_name, _combo.quantity, _combo.combo_price)
+    RETURNING id INTO _order_combo_id;
+
+    INSERT INTO public.order_items (order_id, order_combo_id, menu_item_id, quantity, price_at_order, subtotal)
+    SELECT _order_id, _order_combo_id, l.menu_item_id, l.quantity, l.unit_price, l.unit_price * l.quantity
+    FROM public.cart_combo_lines(_student_id) l
+    WHERE l.cart_combo_id = _combo.cart_combo_id;
+  END LOOP;
+
+  -- Same split as cart_totals, so the lines' taxable values add up to the quoted tax. The
+  -- cart is not read again: placing the lines may have sold an item out of it
+  IF _totals.promotion_id IS NOT NULL THEN
+    UPDATE public.order_items oi
+    SET discount = oi.subtotal * _totals.discount / (
+      SELECT sum(e.subtotal)
+      FROM public.order_items e
+      JOIN public.menu_items em ON em.id = e.menu_item_id
+      WHERE e.order_id = _order_id
+        AND public.promotion_applies_to(p, em.id, em.category)
+    )
+    FROM public.menu_items m, public.promotions p
+    WHERE oi.order_id = _order_id
+      AND m.id = oi.menu_item_id
+      AND p.id = _totals.promotion_id
+      AND public.promotion_applies_to(p, m.id, m.category);
+
+    INSERT INTO public.promotion_redemptions (promotion_id, order_id, student_id, amount)
+    VALUES (_totals.promotion_id, _order_id, _student_id, _totals.discount);
+  END IF;
+
+  IF _totals.points_redeemed > 0 THEN
+    UPDATE public.order_items
+    SET discount = discount + (subtotal - discount) * _totals.points_redeemed / (_totals.subtotal - _totals.discount)
+    WHERE order_id = _order_id;
+
+    INSERT INTO public.loyalty_ledger (student_id, order_id, kind, points)
+    VALUES (_student_id, _order_id, 'redeem', -_totals.points_redeemed);
+  END IF;
+
+  IF _payment_method = 'wallet' THEN
+    -- Nothing to debit when points covered the whole order
+    IF _totals.total > 0 THEN
+      PERFORM public.post_wallet_transaction(
+        _wallet.id, -_totals.total, 'sales', 'payment', format('Order %s', _order_number), _order_id
+      );
+    END IF;
+
+    -- Paid orders are otherwise confirmed by notify_order_lifecycle when the webhook lands
+    INSERT INTO public.notifications (user_id, title, message, type, related_order_id)
+    VALUES (
+      _student_id,
+      format('Order %s confirmed', _order_number),
+      format('₹%s was paid from your wallet. Your order has been sent to the kitchen.', to_char(_totals.total, 'FM999999990.00')),
+      'order',
+      _order_id
+    );
+  END IF;
+
+  DELETE FROM public.cart_items WHERE student_id = _student_id;
+  DELETE FROM public.cart_combos WHERE student_id = _student_id;
+
+  RETURN _order_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
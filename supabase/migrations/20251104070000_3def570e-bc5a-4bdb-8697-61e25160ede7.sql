@@ -0,0 +1,178 @@
+-- Unpaid orders no longer linger: a failed payment cancels the order, and orders that
+-- are never paid are expired by a scheduled job
+
+-- Scheduled jobs run without a request role, so they may settle payments as well
+CREATE OR REPLACE FUNCTION public.guard_order_payment()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.payment_status IS DISTINCT FROM OLD.payment_status AND auth.role() IN ('anon', 'authenticated') THEN
+    RAISE EXCEPTION 'Payment status can only be changed by the payment gateway' USING ERRCODE = '42501';
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status
+    AND NEW.status IN ('preparing', 'ready', 'completed')
+    AND NEW.payment_status IS DISTINCT FROM 'completed' THEN
+    RAISE EXCEPTION 'Order % has not been paid', NEW.order_number USING ERRCODE = 'P0001';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+-- A failed payment cancels its order, and a payment that arrives for a cancelled order
+-- is kept on the student's wallet
+CREATE OR REPLACE FUNCTION public.confirm_payment(
+  _provider text,
+  _provider_order_id text,
+  _provider_payment_id text,
+  _status text,
+  _payload jsonb DEFAULT NULL
+)
+RETURNS uuid AS $$
+DECLARE
+  _payment public.payments%ROWTYPE;
+  _top_up public.wallet_top_ups%ROWTYPE;
+  _order public.orders%ROWTYPE;
+BEGIN
+  IF _status NOT IN ('completed', 'failed') THEN
+    RAISE EXCEPTION 'Invalid payment status %', _status USING ERRCODE = '22023';
+  END IF;
+
+  SELECT * INTO _payment
+  FROM public.payments
+  WHERE provider = _provider AND provider_order_id = _provider_order_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Unknown % payment %', _provider, _provider_order_id USING ERRCODE = 'P0002';
+  END IF;
+
+  -- Gateways retry webhooks, so a settled payment is left as it is
+  IF _payment.status <> 'pending' THEN
+    RETURN COALESCE(_payment.order_id, _payment.top_up_id);
+  END IF;
+
+  UPDATE public.payments
+  SET status = _status,
+      provider_payment_id = _provider_payment_id,
+      webhook_payload = _payload
+  WHERE id = _payment.id;
+
+  IF _payment.top_up_id IS NOT NULL THEN
+    UPDATE public.wallet_top_ups
+    SET status = _status
+    WHERE id = _payment.top_up_id AND status = 'pending'
+    RETURNING * INTO _top_up;
+
+    IF FOUND AND _status = 'completed' THEN
+      PERFORM public.post_wallet_transaction(_top_up.wallet_id, _top_up.amount, 'gateway', 'top_up', 'Top-up', NULL, _top_up.id);
+    END IF;
+
+    RETURN _payment.top_up_id;
+  END IF;
+
+  -- A failed payment cancels the order, which hands back its slot, stock and discounts
+  UPDATE public.orders
+  SET payment_status = _status,
+      status = CASE WHEN _status = 'failed' THEN 'cancelled' ELSE status END
+  WHERE id = _payment.order_id AND payment_status = 'pending' AND status = 'pending'
+  RETURNING * INTO _order;
+
+  -- The order was cancelled or expired before the money arrived, so keep it on the
+  -- student's wallet rather than losing it
+  IF NOT FOUND AND _status = 'completed' AND _payment.amount > 0 THEN
+    SELECT * INTO _order FROM public.orders WHERE id = _payment.order_id;
+
+    PERFORM public.post_wallet_transaction(
+      public.ensure_wallet(_order.student_id),
+      _payment.amount,
+      'gateway',
+      'refund',
+      format('Late payment for order %s', _order.order_number),
+      _order.id
+    );
+
+    INSERT INTO public.notifications (user_id, title, message, type, is_important, related_order_id)
+    VALUES (
+      _order.student_id,
+      format('Payment for order %s added to your wallet', _order.order_number),
+      format('Your payment of ₹%s arrived after the order was cancelled, so it has been added to your campus wallet.', to_char(_payment.amount, 'FM999999990.00')),
+      'order',
+      true,
+      _order.id
+    );
+  END IF;
+
+  RETURN _payment.order_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- How long a gateway order may wait for its payment
+CREATE OR REPLACE FUNCTION public.unpaid_order_timeout()
+RETURNS interval AS $$
+  SELECT interval '20 minutes';
+$$ LANGUAGE sql IMMUTABLE SET search_path = public;
+
+-- Cancel orders whose payment never arrived, so they stop holding pickup capacity and
+-- stock. A payment that still lands later is credited to the wallet by confirm_payment.
+CREATE OR REPLACE FUNCTION public.expire_unpaid_orders()
+RETURNS integer AS $$
+DECLARE
+  _expired integer;
+BEGIN
+  UPDATE public.orders
+  SET payment_status = 'failed',
+      status = 'cancelled'
+  WHERE payment_status = 'pending'
+    AND status = 'pending'
+    AND created_at < now() - public.unpaid_order_timeout();
+
+  GET DIAGNOSTICS _expired = ROW_COUNT;
+  RETURN _expired;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.expire_unpaid_orders() FROM public, anon, authenticated;
+
+SELECT cron.schedule('expire-unpaid-orders', '*/5 * * * *', 'SELECT public.expire_unpaid_orders()');
+
+-- Orders cancelled for want of payment get their own message
+CREATE OR REPLACE FUNCTION public.notify_order_lifecycle()
+RETURNS TRIGGER AS $$
+BEGIN
+  -- Payment confirmed: the order is now in the kitchen queue
+  IF NEW.payment_status = 'completed' AND OLD.payment_status IS DISTINCT FROM 'completed' THEN
+    INSERT INTO public.notifications (user_id, title, message, type, related_order_id)
+    VALUES (
+      NEW.student_id,
+      format('Order %s confirmed', NEW.order_number),
+      format('We received your payment of ₹%s. Your order has been sent to the kitchen.', to_char(NEW.total, 'FM999999990.00')),
+      'order',
+      NEW.id
+    );
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    CASE NEW.status
+      WHEN 'preparing' THEN
+        INSERT INTO public.notifications (user_id, title, message, type, related_order_id)
+        VALUES (NEW.student_id, format('Order %s is being prepared', NEW.order_number), 'The kitchen has started on your order.', 'order', NEW.id);
+      WHEN 'ready' THEN
+        INSERT INTO public.notifications (user_id, title, message, type, related_order_id)
+        VALUES (NEW.student_id, format('Order %s is ready', NEW.order_number), 'Head to the counter and show your order number to pick it up.', 'order', NEW.id);
+      WHEN 'cancelled' THEN
+        IF NEW.payment_status = 'failed' THEN
+          INSERT INTO public.notifications (user_id, title, message, type, is_important, related_order_id)
+          VALUES (NEW.student_id, format('Order %s was cancelled', NEW.order_number), 'We did not receive payment for this order, so it was not sent to the kitchen. You can order again from the menu.', 'order', true, NEW.id);
+        ELSE
+          INSERT INTO public.notifications (user_id, title, message, type, is_important, related_order_id)
+          VALUES (NEW.student_id, format('Order %s was cancelled', NEW.order_number), 'Your order was cancelled by the cafeteria. Please contact the counter if you have questions.', 'order', true, NEW.id);
+        END IF;
+      ELSE
+        NULL;
+    END CASE;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
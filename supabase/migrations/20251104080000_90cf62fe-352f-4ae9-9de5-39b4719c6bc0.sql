@@ -0,0 +1,3 @@
+-- Realtime only sends the primary key of the previous row to RLS-protected
+-- subscribers, so the full old row is never used; stop logging it
+ALTER TABLE public.orders REPLICA IDENTITY DEFAULT;
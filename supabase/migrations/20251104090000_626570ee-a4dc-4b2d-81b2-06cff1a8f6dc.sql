@@ -0,0 +1,19 @@
+-- Pickup slots are held by paid orders only. An order still waiting for its payment
+-- keeps its slot while the gateway may confirm it, and gives it up once it could
+-- expire, so abandoned checkouts cannot fill a slot until the expiry job runs.
+CREATE OR REPLACE FUNCTION public.pickup_slot_usage(_cafeteria_id uuid, _starts_at timestamptz, _ends_at timestamptz)
+RETURNS TABLE (order_count integer, item_count integer) AS $$
+  SELECT
+    count(DISTINCT o.id)::integer,
+    COALESCE(sum(oi.quantity), 0)::integer
+  FROM public.orders o
+  LEFT JOIN public.order_items oi ON oi.order_id = o.id
+  WHERE o.cafeteria_id = _cafeteria_id
+    AND o.pickup_at >= _starts_at
+    AND o.pickup_at < _ends_at
+    AND o.status <> 'cancelled'
+    AND (
+      o.payment_status = 'completed'
+      OR (o.payment_status = 'pending' AND o.created_at > now() - public.unpaid_order_timeout())
+    );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
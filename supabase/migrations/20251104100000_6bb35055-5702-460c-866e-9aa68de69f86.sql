@@ -0,0 +1,32 @@
+-- Stock held by an order goes back when its payment fails as well as when it is
+-- cancelled, which covers unpaid orders expired by the scheduled job
+
+-- Orders whose payment failed before failures cancelled them are cancelled now. These are
+-- past orders, so the update skips the order triggers: the students are not notified again
+-- and their stock is not handed back into today's. The timeline event is written here.
+INSERT INTO public.order_status_events (order_id, from_status, to_status)
+SELECT id, status, 'cancelled'
+FROM public.orders
+WHERE payment_status = 'failed' AND status = 'pending';
+
+ALTER TABLE public.orders DISABLE TRIGGER USER;
+
+UPDATE public.orders
+SET status = 'cancelled', updated_at = now()
+WHERE payment_status = 'failed' AND status = 'pending';
+
+ALTER TABLE public.orders ENABLE TRIGGER USER;
+
+DROP TRIGGER restore_orders_stock_on_cancel ON public.orders;
+
+-- A failed payment and its cancellation may arrive in one update or in two; restore only
+-- on the first of them
+CREATE TRIGGER restore_orders_stock
+  AFTER UPDATE OF status, payment_status ON public.orders
+  FOR EACH ROW
+  WHEN (
+    (NEW.status = 'cancelled' OR NEW.payment_status = 'failed')
+    AND OLD.status IS DISTINCT FROM 'cancelled'
+    AND OLD.payment_status IS DISTINCT FROM 'failed'
+  )
+  EXECUTE FUNCTION public.restore_cancelled_order_stock();
@@ -0,0 +1,257 @@
+-- A line's share of its order's promotion discount and redeemed points is stored in
+-- paise. Shares are rounded and the largest line takes the rounding difference, as
+-- combo components do, so the lines add up to exactly what the order took off.
+
+-- Add _amount to the discount of an order's lines in proportion to what is still
+-- payable on each; only the lines _promotion_id applies to when one is given
+CREATE OR REPLACE FUNCTION public.spread_order_discount(_order_id uuid, _amount numeric, _promotion_id uuid DEFAULT NULL)
+RETURNS void AS $$
+  WITH lines AS (
+    SELECT
+      oi.id,
+      oi.subtotal - oi.discount AS payable,
+      row_number() OVER (ORDER BY oi.subtotal - oi.discount DESC, oi.id) = 1 AS is_last
+    FROM public.order_items oi
+    JOIN public.menu_items m ON m.id = oi.menu_item_id
+    LEFT JOIN public.promotions p ON p.id = _promotion_id
+    WHERE oi.order_id = _order_id
+      AND (_promotion_id IS NULL OR public.promotion_applies_to(p, m.id, m.category))
+  ), rounded AS (
+    SELECT *, round(_amount * COALESCE(payable / NULLIF(sum(payable) OVER (), 0), 0), 2) AS share
+    FROM lines
+  ), shares AS (
+    SELECT id, CASE WHEN is_last THEN _amount - (sum(share) OVER () - share) ELSE share END AS share
+    FROM rounded
+  )
+  UPDATE public.order_items oi
+  SET discount = oi.discount + shares.share
+  FROM shares
+  WHERE oi.id = shares.id;
+$$ LANGUAGE sql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.spread_order_discount(uuid, numeric, uuid) FROM public, anon, authenticated;
+
+-- place_order stores the rounded shares
+CREATE OR REPLACE FUNCTION public.place_order(
+  _payment_method text,
+  _expected_subtotal numeric,
+  _expected_tax numeric,
+  _expected_total numeric,
+  _notes text DEFAULT NULL,
+  _cafeteria_id uuid DEFAULT NULL,
+  _pickup_at timestamptz DEFAULT NULL,
+  _coupon_code text DEFAULT NULL,
+  _expected_discount numeric DEFAULT 0,
+  _redeem_points integer DEFAULT 0
+)
+RETURNS uuid AS $$
+DECLARE
+  _student_id uuid := auth.uid();
+  _order_id uuid;
+  _order_number text;
+  _order_item_id uuid;
+  _order_combo_id uuid;
+  _totals record;
+  _line record;
+  _combo record;
+  _item_count integer;
+  _wallet public.wallets;
+BEGIN
+  IF _student_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '28000';
+  END IF;
+
+  IF _pickup_at IS NULL THEN
+    RAISE EXCEPTION 'Choose a pickup time' USING ERRCODE = 'P0001';
+  END IF;
+
+  IF _cafeteria_id IS NULL THEN
+    SELECT id INTO _cafeteria_id FROM public.cafeterias WHERE is_active ORDER BY code LIMIT 1;
+  ELSIF NOT EXISTS (SELECT 1 FROM public.cafeterias WHERE id = _cafeteria_id AND is_active) THEN
+    RAISE EXCEPTION 'Cafeteria is not accepting orders' USING ERRCODE = 'P0001';
+  END IF;
+
+  -- Lock the cart rows so a concurrent checkout cannot order them twice
+  PERFORM 1 FROM public.cart_items WHERE student_id = _student_id FOR UPDATE;
+  PERFORM 1 FROM public.cart_combos WHERE student_id = _student_id FOR UPDATE;
+
+  IF NOT EXISTS (SELECT 1 FROM public.cart_items WHERE student_id = _student_id)
+    AND NOT EXISTS (SELECT 1 FROM public.cart_combos WHERE student_id = _student_id) THEN
+    RAISE EXCEPTION 'Cart is empty' USING ERRCODE = 'P0001';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM public.cart_items c
+    JOIN public.menu_items m ON m.id = c.menu_item_id
+    WHERE c.student_id = _student_id AND m.is_available IS NOT TRUE
+  ) THEN
+    RAISE EXCEPTION 'Cart contains items that are no longer available' USING ERRCODE = 'P0001';
+  END IF;
+
+  -- Options may have been withdrawn or groups made required since the line was added
+  FOR _line IN SELECT * FROM public.cart_line_prices(_student_id) LOOP
+    PERFORM public.check_modifier_selection(_line.menu_item_id, _line.modifier_option_ids);
+  END LOOP;
+
+  -- Likewise combos and their components
+  FOR _combo IN SELECT * FROM public.cart_combos WHERE student_id = _student_id LOOP
+    PERFORM public.check_combo_selection(_combo.combo_id, _combo.menu_item_ids);
+  END LOOP;
+
+  -- Serialise checkouts on limited promotions so their limits cannot be overshot
+  PERFORM 1
+  FROM public.promotions
+  WHERE (usage_limit IS NOT NULL OR per_user_limit IS NOT NULL)
+    AND (code IS NULL OR upper(code) = upper(trim(_coupon_code)))
+  FOR UPDATE;
+
+  -- And the student's checkouts, so the same points cannot be spent twice
+  IF _redeem_points > 0 THEN
+    PERFORM 1 FROM public.profiles WHERE id = _student_id FOR UPDATE;
+  END IF;
+
+  SELECT * INTO _totals FROM public.cart_totals(_student_id, _coupon_code, _redeem_points);
+
+  IF _totals.coupon_error IS NOT NULL THEN
+    RAISE EXCEPTION '%', _totals.coupon_error USING ERRCODE = 'P0001';
+  END IF;
+
+  IF _totals.subtotal <> _expected_subtotal
+    OR _totals.discount <> _expected_discount
+    OR _totals.points_redeemed <> _redeem_points
+    OR _totals.tax <> _expected_tax
+    OR _totals.total <> _expected_total THEN
+    RAISE EXCEPTION 'Order totals do not match current prices, please review your cart'
+      USING ERRCODE = 'P0001',
+            DETAIL = format(
+              'expected subtotal %s, discount %s, points %s, tax %s, total %s',
+              _totals.subtotal, _totals.discount, _totals.points_redeemed, _totals.tax, _totals.total
+            );
+  END IF;
+
+  IF _payment_method = 'wallet' THEN
+    SELECT * INTO _wallet FROM public.wallets WHERE student_id = _student_id FOR UPDATE;
+
+    IF COALESCE(_wallet.balance, 0) < _totals.total THEN
+      RAISE EXCEPTION 'Your wallet balance of ₹% does not cover this order', COALESCE(_wallet.balance, 0)
+        USING ERRCODE = 'P0001';
+    END IF;
+  END IF;
+
+  -- Every combo component is a dish for the kitchen
+  SELECT COALESCE(sum(quantity), 0) INTO _item_count FROM public.cart_items WHERE student_id = _student_id;
+  _item_count := _item_count + (
+    SELECT COALESCE(sum(c.quantity * array_length(c.menu_item_ids, 1)), 0)
+    FROM public.cart_combos c
+    WHERE c.student_id = _student_id
+  );
+  PERFORM public.reserve_pickup_slot(_cafeteria_id, _pickup_at, _item_count);
+
+  INSERT INTO public.orders (
+    cafeteria_id, student_id, status, subtotal, discount, points_redeemed, tax, total,
+    promotion_id, payment_method, payment_status, notes, pickup_at
+  )
+  VALUES (
+    _cafeteria_id,
+    _student_id,
+    'pending',
+    _totals.subtotal,
+    _totals.discount,
+    _totals.points_redeemed,
+    _totals.tax,
+    _totals.total,
+    _totals.promotion_id,
+    _payment_method,
+    CASE WHEN _payment_method = 'wallet' THEN 'completed' ELSE 'pending' END,
+    _notes,
+    _pickup_at
+  )
+  RETURNING id, order_number INTO _order_id, _order_number;
+
+  FOR _line IN SELECT * FROM public.cart_line_prices(_student_id) LOOP
+    INSERT INTO public.order_items (order_id, menu_item_id, quantity, price_at_order, subtotal)
+    VALUES (_order_id, _line.menu_item_id, _line.quantity, _line.unit_price, _line.unit_price * _line.quantity)
+    RETURNING id INTO _order_item_id;
+
+    INSERT INTO public.order_item_modifiers (order_item_id, modifier_option_id, group_name, option_name, price_delta)
+    SELECT _order_item_id, o.id, g.name, o.name, o.price_delta
+    FROM public.modifier_options o
+    JOIN public.modifier_groups g ON g.id = o.group_id
+    WHERE o.id = ANY(_line.modifier_option_ids)
+    ORDER BY g.sort_order, o.sort_order;
+  END LOOP;
+
+  FOR _combo IN
+    SELECT DISTINCT ON (cart_combo_id) cart_combo_id, combo_id, combo_name, combo_price, quantity
+    FROM public.cart_combo_lines(_student_id)
+  LOOP
+    INSERT INTO public.order_combos (order_id, combo_id, name, quantity, price)
+    VALUES (_order_id, _combo.combo_id, _combo.combo_name, _combo.quantity, _combo.combo_price)
+    RETURNING id INTO _order_combo_id;
+
+    INSERT INTO public.order_items (order_id, order_combo_id, menu_item_id, quantity, price_at_order, subtotal)
+    SELECT _order_id, _order_combo_id, l.menu_item_id, l.quantity, l.unit_price, l.unit_price * l.quantity
+    FROM public.cart_combo_lines(_student_id) l
+    WHERE l.cart_combo_id = _combo.cart_combo_id;
+  END LOOP;
+
+  IF _totals.promotion_id IS NOT NULL THEN
+    PERFORM public.spread_order_discount(_order_id, _totals.discount, _totals.promotion_id);
+
+    INSERT INTO public.promotion_redemptions (promotion_id, order_id, student_id, amount)
+    VALUES (_totals.promotion_id, _order_id, _student_id, _totals.discount);
+  END IF;
+
+  IF _totals.points_redeemed > 0 THEN
+    PERFORM public.spread_order_discount(_order_id, _totals.points_redeemed);
+
+    INSERT INTO public.loyalty_ledger (student_id, order_id, kind, points)
+    VALUES (_student_id, _order_id, 'redeem', -_totals.points_redeemed);
+  END IF;
+
+  IF _payment_method = 'wallet' THEN
+    -- Nothing to debit when points covered the whole order
+    IF _totals.total > 0 THEN
+      PERFORM public.post_wallet_transaction(
+        _wallet.id, -_totals.total, 'sales', 'payment', format('Order %s', _order_number), _order_id
+      );
+    END IF;
+
+    -- Paid orders are otherwise confirmed by notify_order_lifecycle when the webhook lands
+    INSERT INTO public.notifications (user_id, title, message, type, related_order_id)
+    VALUES (
+      _student_id,
+      format('Order %s confirmed', _order_number),
+      format('₹%s was paid from your wallet. Your order has been sent to the kitchen.', to_char(_totals.total, 'FM999999990.00')),
+      'order',
+      _order_id
+    );
+  END IF;
+
+  DELETE FROM public.cart_items WHERE student_id = _student_id;
+  DELETE FROM public.cart_combos WHERE student_id = _student_id;
+
+  RETURN _order_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Round the shares already stored the same way
+WITH lines AS (
+  SELECT
+    oi.id,
+    oi.order_id,
+    o.discount + o.points_redeemed AS order_discount,
+    round(oi.discount, 2) AS share,
+    row_number() OVER (PARTITION BY oi.order_id ORDER BY oi.discount DESC, oi.id) = 1 AS is_last
+  FROM public.order_items oi
+  JOIN public.orders o ON o.id = oi.order_id
+  WHERE o.discount + o.points_redeemed > 0
+), shares AS (
+  SELECT id, CASE WHEN is_last THEN order_discount - (sum(share) OVER (PARTITION BY order_id) - share) ELSE share END AS share
+  FROM lines
+)
+UPDATE public.order_items oi
+SET discount = shares.share
+FROM shares
+WHERE oi.id = shares.id AND oi.discount <> shares.share;
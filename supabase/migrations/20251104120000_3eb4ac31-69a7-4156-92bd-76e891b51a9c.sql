@@ -0,0 +1,175 @@
+-- Admins can refund a paid order. The money goes back to the student's campus wallet,
+-- and the order gives back its promotion and loyalty points like a cancelled one,
+-- including points it earned when it was completed.
+
+ALTER TABLE public.orders DROP CONSTRAINT orders_payment_status_check;
+ALTER TABLE public.orders
+  ADD CONSTRAINT orders_payment_status_check CHECK (payment_status IN ('pending', 'completed', 'failed', 'refunded')),
+  ADD COLUMN refunded_at timestamptz,
+  ADD COLUMN refund_reason text,
+  ADD CONSTRAINT orders_refund_check CHECK ((payment_status = 'refunded') = (refunded_at IS NOT NULL AND refund_reason IS NOT NULL));
+
+-- Admins may mark a paid order as refunded; every other payment change is the gateway's
+CREATE OR REPLACE FUNCTION public.guard_order_payment()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.payment_status IS DISTINCT FROM OLD.payment_status
+    AND auth.role() IN ('anon', 'authenticated')
+    AND NOT (
+      OLD.payment_status = 'completed' AND NEW.payment_status = 'refunded'
+      AND EXISTS (SELECT 1 FROM public.profiles WHERE id = auth.uid() AND role = 'admin')
+    ) THEN
+    RAISE EXCEPTION 'Payment status can only be changed by the payment gateway' USING ERRCODE = '42501';
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status
+    AND NEW.status IN ('preparing', 'ready', 'completed')
+    AND NEW.payment_status IS DISTINCT FROM 'completed' THEN
+    RAISE EXCEPTION 'Order % has not been paid', NEW.order_number USING ERRCODE = 'P0001';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+-- Refunds go to the wallet, which gateway orders may not have opened yet. An order is
+-- refunded once, whether by its cancellation or by refund_order.
+CREATE OR REPLACE FUNCTION public.refund_wallet_order()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM public.wallet_transactions WHERE order_id = NEW.id AND kind = 'refund') THEN
+    PERFORM public.post_wallet_transaction(
+      public.ensure_wallet(NEW.student_id),
+      NEW.total,
+      CASE WHEN NEW.payment_method = 'wallet' THEN 'sales' ELSE 'gateway' END,
+      'refund',
+      format('Refund for order %s', NEW.order_number),
+      NEW.id
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER refund_orders_payment
+  AFTER UPDATE OF payment_status ON public.orders
+  FOR EACH ROW
+  WHEN (NEW.payment_status = 'refunded' AND OLD.payment_status IS DISTINCT FROM 'refunded' AND NEW.total > 0)
+  EXECUTE FUNCTION public.refund_wallet_order();
+
+-- Refunds release the promotion and reverse loyalty points as well
+DROP TRIGGER release_orders_promotion_redemption ON public.orders;
+
+CREATE TRIGGER release_orders_promotion_redemption
+  AFTER UPDATE OF status, payment_status ON public.orders
+  FOR EACH ROW
+  WHEN (
+    (NEW.status = 'cancelled' AND OLD.status IS DISTINCT FROM 'cancelled')
+    OR (NEW.payment_status IN ('failed', 'refunded') AND OLD.payment_status IS DISTINCT FROM NEW.payment_status)
+  )
+  EXECUTE FUNCTION public.release_promotion_redemption();
+
+DROP TRIGGER reverse_orders_loyalty_points ON public.orders;
+
+CREATE TRIGGER reverse_orders_loyalty_points
+  AFTER UPDATE OF status, payment_status ON public.orders
+  FOR EACH ROW
+  WHEN (
+    (NEW.status = 'cancelled' AND OLD.status IS DISTINCT FROM 'cancelled')
+    OR (NEW.payment_status IN ('failed', 'refunded') AND OLD.payment_status IS DISTINCT FROM NEW.payment_status)
+  )
+  EXECUTE FUNCTION public.reverse_order_loyalty_points();
+
+-- Refund a paid order to the student's wallet. Orders still in the kitchen queue are
+-- cancelled; completed orders stay completed.
+CREATE OR REPLACE FUNCTION public.refund_order(_order_id uuid, _reason text)
+RETURNS void AS $$
+DECLARE
+  _order public.orders;
+BEGIN
+  PERFORM public.assert_admin();
+
+  IF length(trim(COALESCE(_reason, ''))) < 3 THEN
+    RAISE EXCEPTION 'Give a reason for the refund' USING ERRCODE = 'P0001';
+  END IF;
+
+  SELECT * INTO _order FROM public.orders WHERE id = _order_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF _order.payment_status IS DISTINCT FROM 'completed' THEN
+    RAISE EXCEPTION 'Order % has not been paid', _order.order_number USING ERRCODE = 'P0001';
+  END IF;
+
+  -- Cancelling a wallet order already paid it back
+  IF EXISTS (SELECT 1 FROM public.wallet_transactions WHERE order_id = _order.id AND kind = 'refund') THEN
+    RAISE EXCEPTION 'Order % has already been refunded to the wallet', _order.order_number USING ERRCODE = 'P0001';
+  END IF;
+
+  UPDATE public.orders
+  SET payment_status = 'refunded',
+      refunded_at = now(),
+      refund_reason = trim(_reason),
+      status = CASE WHEN status IN ('pending', 'preparing', 'ready') THEN 'cancelled' ELSE status END
+  WHERE id = _order.id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.refund_order(uuid, text) FROM public, anon;
+GRANT EXECUTE ON FUNCTION public.refund_order(uuid, text) TO authenticated;
+
+-- Tell the student about the refund; it stands in for the cancellation notice
+CREATE OR REPLACE FUNCTION public.notify_order_lifecycle()
+RETURNS TRIGGER AS $$
+BEGIN
+  -- Payment confirmed: the order is now in the kitchen queue
+  IF NEW.payment_status = 'completed' AND OLD.payment_status IS DISTINCT FROM 'completed' THEN
+    INSERT INTO public.notifications (user_id, title, message, type, related_order_id)
+    VALUES (
+      NEW.student_id,
+      format('Order %s confirmed', NEW.order_number),
+      format('We received your payment of ₹%s. Your order has been sent to the kitchen.', to_char(NEW.total, 'FM999999990.00')),
+      'order',
+      NEW.id
+    );
+  END IF;
+
+  IF NEW.payment_status = 'refunded' AND OLD.payment_status IS DISTINCT FROM 'refunded' THEN
+    INSERT INTO public.notifications (user_id, title, message, type, is_important, related_order_id)
+    VALUES (
+      NEW.student_id,
+      format('Order %s was refunded', NEW.order_number),
+      format('₹%s has been added to your campus wallet. Reason: %s', to_char(NEW.total, 'FM999999990.00'), NEW.refund_reason),
+      'order',
+      true,
+      NEW.id
+    );
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    CASE NEW.status
+      WHEN 'preparing' THEN
+        INSERT INTO public.notifications (user_id, title, message, type, related_order_id)
+        VALUES (NEW.student_id, format('Order %s is being prepared', NEW.order_number), 'The kitchen has started on your order.', 'order', NEW.id);
+      WHEN 'ready' THEN
+        INSERT INTO public.notifications (user_id, title, message, type, related_order_id)
+        VALUES (NEW.student_id, format('Order %s is ready', NEW.order_number), 'Head to the counter and show your order number to pick it up.', 'order', NEW.id);
+      WHEN 'cancelled' THEN
+        IF NEW.payment_status = 'failed' THEN
+          INSERT INTO public.notifications (user_id, title, message, type, is_important, related_order_id)
+          VALUES (NEW.student_id, format('Order %s was cancelled', NEW.order_number), 'We did not receive payment for this order, so it was not sent to the kitchen. You can order again from the menu.', 'order', true, NEW.id);
+        ELSIF NEW.payment_status IS DISTINCT FROM 'refunded' THEN
+          INSERT INTO public.notifications (user_id, title, message, type, is_important, related_order_id)
+          VALUES (NEW.student_id, format('Order %s was cancelled', NEW.order_number), 'Your order was cancelled by the cafeteria. Please contact the counter if you have questions.', 'order', true, NEW.id);
+        END IF;
+      ELSE
+        NULL;
+    END CASE;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
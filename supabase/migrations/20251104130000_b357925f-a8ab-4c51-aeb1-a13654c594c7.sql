@@ -0,0 +1,11 @@
+-- The balance check fires at commit as whoever posted the entries. Under RLS a student
+-- only sees their own side of a checkout, so it has to read the ledger as the owner.
+CREATE OR REPLACE FUNCTION public.check_wallet_transaction_balanced()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF (SELECT sum(amount) FROM public.wallet_entries WHERE transaction_id = NEW.transaction_id) <> 0 THEN
+    RAISE EXCEPTION 'Wallet transaction % does not balance', NEW.transaction_id USING ERRCODE = 'P0001';
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
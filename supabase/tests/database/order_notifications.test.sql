@@ -0,0 +1,101 @@
+-- Lifecycle notifications sent by notify_order_lifecycle. Run with `supabase test db`.
+BEGIN;
+
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(9);
+
+-- A student (handle_new_user creates the profile) with one order to walk through its
+-- lifecycle and one whose payment fails
+INSERT INTO auth.users (id, email, raw_user_meta_data)
+VALUES ('11111111-1111-4111-8111-111111111111', 'student@example.com', '{"full_name": "Test Student"}');
+
+INSERT INTO public.orders (id, student_id, cafeteria_id, subtotal, tax, total, payment_method)
+SELECT id, '11111111-1111-4111-8111-111111111111', (SELECT id FROM public.cafeterias WHERE code = 'A'), 100, 5, 105, 'upi'
+FROM (VALUES ('22222222-2222-4222-8222-222222222222'::uuid), ('33333333-3333-4333-8333-333333333333'::uuid)) o (id);
+
+CREATE FUNCTION pg_temp.notification_count(_order_id uuid, _title_suffix text)
+RETURNS integer AS $$
+  SELECT count(*)::integer
+  FROM public.notifications n
+  JOIN public.orders o ON o.id = n.related_order_id
+  WHERE n.related_order_id = _order_id
+    AND n.user_id = o.student_id
+    AND n.title = format('Order %s %s', o.order_number, _title_suffix);
+$$ LANGUAGE sql;
+
+CREATE FUNCTION pg_temp.total_notifications(_order_id uuid)
+RETURNS integer AS $$
+  SELECT count(*)::integer FROM public.notifications WHERE related_order_id = _order_id;
+$$ LANGUAGE sql;
+
+-- Payment arrives through the webhook, which runs as the service role
+SELECT set_config('request.jwt.claims', '{"role": "service_role"}', true);
+
+UPDATE public.orders SET payment_status = 'completed' WHERE id = '22222222-2222-4222-8222-222222222222';
+
+SELECT is(
+  pg_temp.notification_count('22222222-2222-4222-8222-222222222222', 'confirmed'), 1,
+  'confirming the payment tells the student the order was sent to the kitchen'
+);
+
+UPDATE public.orders SET payment_status = 'completed' WHERE id = '22222222-2222-4222-8222-222222222222';
+
+SELECT is(
+  pg_temp.total_notifications('22222222-2222-4222-8222-222222222222'), 1,
+  'a repeated payment confirmation does not notify again'
+);
+
+UPDATE public.orders SET status = 'preparing' WHERE id = '22222222-2222-4222-8222-222222222222';
+
+SELECT is(
+  pg_temp.notification_count('22222222-2222-4222-8222-222222222222', 'is being prepared'), 1,
+  'moving to preparing notifies the student'
+);
+
+UPDATE public.orders SET status = 'ready' WHERE id = '22222222-2222-4222-8222-222222222222';
+
+SELECT is(
+  pg_temp.notification_count('22222222-2222-4222-8222-222222222222', 'is ready'), 1,
+  'moving to ready notifies the student'
+);
+
+UPDATE public.orders SET status = 'ready', notes = 'No onions' WHERE id = '22222222-2222-4222-8222-222222222222';
+
+SELECT is(
+  pg_temp.total_notifications('22222222-2222-4222-8222-222222222222'), 3,
+  'an update that leaves the status unchanged does not notify'
+);
+
+UPDATE public.orders SET status = 'cancelled' WHERE id = '22222222-2222-4222-8222-222222222222';
+
+SELECT is(
+  pg_temp.notification_count('22222222-2222-4222-8222-222222222222', 'was cancelled'), 1,
+  'cancelling the order notifies the student'
+);
+
+SELECT ok(
+  (SELECT is_important FROM public.notifications
+   WHERE related_order_id = '22222222-2222-4222-8222-222222222222' AND title LIKE '%was cancelled'),
+  'the cancellation notice is marked important'
+);
+
+-- A failed payment cancels its order with a single notice about the payment
+UPDATE public.orders
+SET payment_status = 'failed', status = 'cancelled'
+WHERE id = '33333333-3333-4333-8333-333333333333';
+
+SELECT is(
+  pg_temp.total_notifications('33333333-3333-4333-8333-333333333333'), 1,
+  'a failed payment sends one notification'
+);
+
+SELECT is(
+  (SELECT message FROM public.notifications WHERE related_order_id = '33333333-3333-4333-8333-333333333333'),
+  'We did not receive payment for this order, so it was not sent to the kitchen. You can order again from the menu.',
+  'the notice explains the payment did not arrive'
+);
+
+SELECT * FROM finish();
+
+ROLLBACK;
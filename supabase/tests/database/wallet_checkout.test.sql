@@ -0,0 +1,57 @@
+-- A student paying from their wallet. Run with `supabase test db`.
+BEGIN;
+
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(5);
+
+INSERT INTO auth.users (id, email, raw_user_meta_data)
+VALUES ('11111111-1111-4111-8111-111111111111', 'student@example.com', '{"full_name": "Test Student"}');
+
+INSERT INTO public.menu_items (id, name, price, category, is_available)
+VALUES ('44444444-4444-4444-8444-444444444444', 'Masala Dosa', 100, 'Breakfast', true);
+
+SELECT public.post_wallet_transaction(
+  public.ensure_wallet('11111111-1111-4111-8111-111111111111'), 500, 'adjustments', 'adjustment', 'Opening balance'
+);
+
+-- Check out as the student, through the same RPCs the app calls
+SET LOCAL ROLE authenticated;
+SELECT set_config('request.jwt.claims', '{"sub": "11111111-1111-4111-8111-111111111111", "role": "authenticated"}', true);
+
+SELECT public.add_to_cart('44444444-4444-4444-8444-444444444444');
+
+SELECT lives_ok(
+  $$SELECT public.place_order('wallet', q.subtotal, q.tax, q.total, NULL, NULL,
+    (((now() AT TIME ZONE 'Asia/Kolkata')::date + 1) + time '12:00') AT TIME ZONE 'Asia/Kolkata')
+    FROM public.quote_cart() q$$,
+  'a student can place an order paid from their wallet'
+);
+
+-- The ledger balance checks are deferred to commit, and a test cannot commit, so run them now
+-- while still acting as the student
+SELECT lives_ok('SET CONSTRAINTS ALL IMMEDIATE', 'the wallet checkout passes the ledger balance checks');
+
+RESET ROLE;
+
+SELECT is(
+  (SELECT balance FROM public.wallets WHERE student_id = '11111111-1111-4111-8111-111111111111'),
+  395.00::numeric,
+  'the order total including tax is taken from the wallet'
+);
+
+SELECT is(
+  (SELECT payment_status FROM public.orders WHERE student_id = '11111111-1111-4111-8111-111111111111'),
+  'completed',
+  'the order is paid as soon as it is placed'
+);
+
+SELECT ok(
+  NOT EXISTS (
+    SELECT 1 FROM public.wallet_entries GROUP BY transaction_id HAVING sum(amount) <> 0
+  ),
+  'every wallet transaction balances'
+);
+
+SELECT * FROM finish();
+ROLLBACK;